@@ -1,3 +1,7 @@
+import type { RateLimiterLike } from '../resilience/rate-limiter.js';
+import { adapterFetch, isReplayMode } from '../lib/adapter-http.js';
+import { safeFetch } from '../lib/media-fetcher.js';
+
 /**
  * Asset within a media item (for galleries/albums)
  */
@@ -105,6 +109,29 @@ export interface SourceConfig {
   extra?: Record<string, unknown>;
 }
 
+/**
+ * Whether a previously ingested item still exists at the source
+ */
+export type ItemStatus = 'live' | 'removed' | 'unknown';
+
+/**
+ * Extraction report for the most recently parsed page, used by config previews
+ */
+export interface ParseDiagnostics {
+  /** Elements matched by the container selector */
+  containersMatched: number;
+  /** Elements matched by the item selector */
+  itemsMatched: number;
+  /** Items that parsed into a ScrapedItem */
+  itemsParsed: number;
+  /** Items dropped, keyed by the required field that could not be extracted */
+  dropped: Record<string, number>;
+  /** Parsed items missing a configured optional field, keyed by field */
+  fieldMisses: Record<string, number>;
+  /** Configured pagination selectors that matched nothing */
+  paginationMisses: string[];
+}
+
 /**
  * Base adapter interface for source scrapers
  *
@@ -114,6 +141,7 @@ export interface SourceConfig {
  */
 export abstract class BaseAdapter {
   protected config: SourceConfig;
+  protected rateLimiter: RateLimiterLike | null = null;
 
   constructor(config: SourceConfig) {
     this.config = config;
@@ -124,6 +152,14 @@ export abstract class BaseAdapter {
     return this.config;
   }
 
+  /**
+   * Pace requests through a (possibly cluster-wide) token bucket instead of
+   * a fixed per-process delay
+   */
+  setRateLimiter(rateLimiter: RateLimiterLike): void {
+    this.rateLimiter = rateLimiter;
+  }
+
   /**
    * Get information about the latest page
    * Used to determine where to start scanning
@@ -149,6 +185,67 @@ export abstract class BaseAdapter {
    */
   abstract getName(): string;
 
+  /**
+   * Called by the scanner once a completed scan's items are committed.
+   * Adapters that carry state between polls (e.g. HTTP cache validators) persist it here,
+   * so a failed or partial run is fetched again in full next time.
+   */
+  async onScanCommitted(): Promise<void> {}
+
+  /**
+   * Whether scanning from the latest page down to page 1 reaches older posts,
+   * as on forum threads. Backfills rely on it to stop at their date bounds.
+   * Adapters whose latest page holds the oldest posts return false.
+   */
+  pagesGetOlder(): boolean {
+    return true;
+  }
+
+  /**
+   * Check whether an ingested item still exists at the source, for link health.
+   * The default requests the item's permalink: 404/410 means the post is gone,
+   * anything other than a success is inconclusive. Adapters whose permalinks
+   * stay up after a deletion (e.g. Reddit) check through their API instead.
+   * Permalinks come from scraped pages, so only the source's own host is
+   * requested, through the public-address-only agent.
+   */
+  async checkItemStatus(item: { externalId: string; permalink: string }): Promise<ItemStatus> {
+    if (!this.isSourceUrl(item.permalink)) return 'unknown';
+
+    await this.respectRateLimit();
+
+    const response = await safeFetch(
+      item.permalink,
+      { 'User-Agent': this.getUserAgent() },
+      (url) => this.isSourceUrl(url),
+    );
+    await response.body?.cancel();
+
+    if (response.status === 404 || response.status === 410) return 'removed';
+    return response.ok ? 'live' : 'unknown';
+  }
+
+  /**
+   * Whether a URL is http(s) on the source's host (ignoring a www. prefix)
+   */
+  protected isSourceUrl(url: string): boolean {
+    try {
+      const target = new URL(url);
+      if (target.protocol !== 'https:' && target.protocol !== 'http:') return false;
+      const host = (value: string) => value.toLowerCase().replace(/^www\./, '');
+      return host(target.hostname) === host(new URL(this.config.baseUrl).hostname);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Extraction report for the last page parsed, if the adapter keeps one
+   */
+  getParseDiagnostics(): ParseDiagnostics | null {
+    return null;
+  }
+
   /**
    * Build the URL for a specific page
    */
@@ -192,9 +289,26 @@ export abstract class BaseAdapter {
   }
 
   /**
-   * Sleep for the configured rate limit delay
+   * Fetch through the shared adapter HTTP layer, so requests can be recorded
+   * to or replayed from disk (see ADAPTER_HTTP_MODE)
+   */
+  protected httpFetch(input: string | URL, init?: RequestInit): Promise<Response> {
+    return adapterFetch(this.config.threadId, input, init);
+  }
+
+  /**
+   * Wait for a token from the attached rate limiter, or sleep for the
+   * configured rate limit delay if there is none. An explicit crawl delay is
+   * always honoured on top of the limiter. Replayed requests are not paced.
    */
   protected async respectRateLimit(): Promise<void> {
+    if (isReplayMode()) return;
+
+    if (this.rateLimiter) {
+      await this.rateLimiter.acquire();
+      if (!this.config.rateLimit.crawlDelay) return;
+    }
+
     const delay = this.getRateLimitDelay();
     if (delay > 0) {
       await new Promise(resolve => setTimeout(resolve, delay));
@@ -208,10 +322,21 @@ export abstract class BaseAdapter {
 export const adapterRegistry = new Map<string, new (config: SourceConfig) => BaseAdapter>();
 
 /**
- * Register an adapter for a source type
+ * Media hosts each adapter's platform serves from, by source name
+ */
+const adapterMediaHosts = new Map<string, string[]>();
+
+/**
+ * Register an adapter for a source type, with the CDN hosts its media is
+ * served from (added to the media allowlist for every source using it)
  */
-export function registerAdapter(name: string, adapter: new (config: SourceConfig) => BaseAdapter): void {
+export function registerAdapter(
+  name: string,
+  adapter: new (config: SourceConfig) => BaseAdapter,
+  mediaHosts: string[] = [],
+): void {
   adapterRegistry.set(name, adapter);
+  adapterMediaHosts.set(name, mediaHosts);
 }
 
 /**
@@ -221,6 +346,10 @@ export function registerAdapter(name: string, adapter: new (config: SourceConfig
 const MODE_ALIASES: Record<string, string> = {
   'scrape': 'generic-html',
   'html': 'generic-html',
+  'json': 'generic-json',
+  'rss': 'feed',
+  'atom': 'feed',
+  'jsonfeed': 'feed',
   'api': 'redgifs',
 };
 
@@ -232,3 +361,10 @@ export function getAdapter(name: string, config: SourceConfig): BaseAdapter | nu
   }
   return new AdapterClass(config);
 }
+
+/**
+ * Get the built-in media hosts of a source type
+ */
+export function getAdapterMediaHosts(name: string): string[] {
+  return adapterMediaHosts.get(MODE_ALIASES[name] || name) ?? [];
+}
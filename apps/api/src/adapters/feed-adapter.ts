@@ -0,0 +1,509 @@
+import * as cheerio from 'cheerio';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type CheerioElement = cheerio.Cheerio<any>;
+import {
+  BaseAdapter,
+  type SourceConfig,
+  type ScrapedItem,
+  type ScrapedAsset,
+  type ScanResult,
+  type PageInfo,
+  registerAdapter,
+} from './base-adapter.js';
+import { inferMediaType } from '../core/deduplication.js';
+import { checkpointManager, type HttpValidators } from '../core/checkpoint-manager.js';
+
+/**
+ * Extended config for the feed adapter (all optional)
+ */
+export interface FeedConfig {
+  /** Custom headers to send with requests */
+  headers?: Record<string, string>;
+  /** Extra hosts media is served from (the baseUrl host is always allowed) */
+  mediaHosts?: string[];
+}
+
+type FeedFormat = 'rss' | 'atom' | 'json';
+
+interface FetchedFeed {
+  /** null when the server answered 304 Not Modified */
+  format: FeedFormat | null;
+  items: ScrapedItem[];
+}
+
+interface MediaRef {
+  url: string;
+  type: 'image' | 'gif' | 'video';
+  width?: number;
+  height?: number;
+  durationMs?: number;
+}
+
+/**
+ * Feed Adapter
+ *
+ * Ingests RSS 2.0 (and RDF/RSS 1.0), Atom and JSON Feed 1.1 from the thread URL.
+ * Media comes from enclosures, Media RSS (<media:content>, <media:group>,
+ * <media:thumbnail>), JSON Feed attachments, and <img>/<video> in the entry HTML.
+ *
+ * Feeds are a single page. Requests are conditional (ETag / Last-Modified),
+ * so an unchanged feed costs one 304 per poll. The validators are only saved
+ * after the scan commits, so a failed run refetches the full feed next time.
+ */
+export class FeedAdapter extends BaseAdapter {
+  private feedConfig: FeedConfig;
+  /** One fetch per poll, shared by validate() and scanPage() */
+  private fetched: Promise<FetchedFeed> | null = null;
+  private pendingValidators: HttpValidators | null = null;
+
+  constructor(config: SourceConfig) {
+    super(config);
+    this.feedConfig = (config.extra as FeedConfig | undefined) ?? {};
+  }
+
+  getName(): string {
+    return 'feed';
+  }
+
+  async validate(): Promise<{ valid: boolean; error?: string }> {
+    try {
+      await this.loadFeed();
+      return { valid: true };
+    } catch (error) {
+      return {
+        valid: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  async getLatestPage(): Promise<PageInfo> {
+    return { latestPage: 1, totalPages: 1 };
+  }
+
+  async scanPage(pageNumber: number): Promise<ScanResult> {
+    const feed = await this.loadFeed();
+
+    return {
+      items: feed.items,
+      pageNumber,
+      hasMorePages: false,
+      totalItems: feed.items.length,
+    };
+  }
+
+  override async onScanCommitted(): Promise<void> {
+    if (this.pendingValidators) {
+      await checkpointManager.saveHttpValidators(this.config.threadId, this.pendingValidators);
+      this.pendingValidators = null;
+    }
+  }
+
+  protected buildPageUrl(_pageNumber: number): string {
+    return this.config.threadUrl || this.config.baseUrl;
+  }
+
+  protected parsePageContent(body: string, _pageNumber: number): ScrapedItem[] {
+    return this.parseFeed(body).items;
+  }
+
+  protected extractPaginationInfo(_html: string) {
+    return { currentPage: 1, hasNextPage: false };
+  }
+
+  private loadFeed(): Promise<FetchedFeed> {
+    if (!this.fetched) {
+      this.fetched = this.fetchFeed();
+      // Let a later call retry after a failure
+      this.fetched.catch(() => { this.fetched = null; });
+    }
+    return this.fetched;
+  }
+
+  private async fetchFeed(): Promise<FetchedFeed> {
+    await this.respectRateLimit();
+
+    const url = this.buildPageUrl(1);
+    const validators = await checkpointManager.getHttpValidators(this.config.threadId);
+
+    const response = await this.httpFetch(url, {
+      headers: {
+        'User-Agent': this.getUserAgent(),
+        'Accept': 'application/feed+json, application/atom+xml, application/rss+xml, application/xml;q=0.9, */*;q=0.8',
+        ...(validators?.etag ? { 'If-None-Match': validators.etag } : {}),
+        ...(validators?.lastModified ? { 'If-Modified-Since': validators.lastModified } : {}),
+        ...this.feedConfig.headers,
+      },
+    });
+
+    if (response.status === 304) {
+      return { format: null, items: [] };
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} fetching feed ${url}`);
+    }
+
+    const etag = response.headers.get('etag');
+    const lastModified = response.headers.get('last-modified');
+    this.pendingValidators = etag || lastModified
+      ? { etag: etag ?? undefined, lastModified: lastModified ?? undefined }
+      : null;
+
+    return this.parseFeed(await response.text());
+  }
+
+  private parseFeed(body: string): FetchedFeed {
+    const trimmed = body.trimStart();
+
+    if (trimmed.startsWith('{')) {
+      return { format: 'json', items: this.parseJsonFeed(JSON.parse(trimmed) as JsonFeed) };
+    }
+
+    const $ = cheerio.load(trimmed, { xml: true });
+
+    if ($('feed').length > 0) {
+      return { format: 'atom', items: this.parseEntries($, $('feed').first().children('entry'), 'atom') };
+    }
+    if ($('rss, rdf\\:RDF').length > 0) {
+      return { format: 'rss', items: this.parseEntries($, $('item'), 'rss') };
+    }
+
+    throw new Error('Response is not an RSS, Atom or JSON feed');
+  }
+
+  // =========================================================================
+  // RSS / Atom
+  // =========================================================================
+
+  private parseEntries($: cheerio.CheerioAPI, entries: CheerioElement, format: 'rss' | 'atom'): ScrapedItem[] {
+    const items: ScrapedItem[] = [];
+
+    entries.each((_, element) => {
+      try {
+        const item = format === 'atom'
+          ? this.parseAtomEntry($, $(element))
+          : this.parseRssItem($, $(element));
+        if (item) items.push(item);
+      } catch (error) {
+        // Skip malformed entries
+        console.warn('Failed to parse feed entry:', error);
+      }
+    });
+
+    return items;
+  }
+
+  private parseRssItem($: cheerio.CheerioAPI, $item: CheerioElement): ScrapedItem | null {
+    const link = this.childText($item, 'link');
+    const externalId = this.childText($item, 'guid') || link || $item.attr('rdf:about');
+    const postedAt = this.parseDate(this.childText($item, 'pubDate') || this.childText($item, 'dc:date'));
+    if (!externalId || !postedAt) return null;
+
+    const html = this.childText($item, 'content:encoded') || this.childText($item, 'description');
+
+    const media = this.collectMediaRss($, $item);
+    this.childrenNamed($item, 'enclosure').each((_, el) => {
+      const $el = $(el);
+      this.pushMedia(media, $el.attr('url'), $el.attr('type'));
+    });
+
+    return this.buildItem({
+      externalId,
+      permalink: link || externalId,
+      postedAt,
+      author: this.childText($item, 'dc:creator') || this.childText($item, 'author'),
+      title: this.childText($item, 'title'),
+      html,
+      media,
+      thumbnailUrl: this.mediaThumbnail($item),
+      tags: [
+        ...this.childrenNamed($item, 'category').map((_, el) => $(el).text().trim()).get(),
+        ...this.mediaKeywords($item),
+      ],
+    });
+  }
+
+  private parseAtomEntry($: cheerio.CheerioAPI, $entry: CheerioElement): ScrapedItem | null {
+    const links = this.childrenNamed($entry, 'link');
+    const alternate = links.filter((_, el) => {
+      const rel = $(el).attr('rel');
+      return !rel || rel === 'alternate';
+    }).first().attr('href');
+
+    const externalId = this.childText($entry, 'id') || alternate;
+    const postedAt = this.parseDate(this.childText($entry, 'published') || this.childText($entry, 'updated'));
+    if (!externalId || !postedAt) return null;
+
+    const media = this.collectMediaRss($, $entry);
+    links.filter((_, el) => $(el).attr('rel') === 'enclosure').each((_, el) => {
+      const $el = $(el);
+      this.pushMedia(media, $el.attr('href'), $el.attr('type'));
+    });
+
+    const $author = this.childrenNamed($entry, 'author').first();
+
+    return this.buildItem({
+      externalId,
+      permalink: alternate || externalId,
+      postedAt,
+      author: this.childText($author, 'name'),
+      authorUrl: this.childText($author, 'uri'),
+      title: this.childText($entry, 'title'),
+      html: this.childText($entry, 'content') || this.childText($entry, 'summary'),
+      media,
+      thumbnailUrl: this.mediaThumbnail($entry),
+      tags: [
+        ...this.childrenNamed($entry, 'category').map((_, el) => $(el).attr('term') || '').get(),
+        ...this.mediaKeywords($entry),
+      ],
+    });
+  }
+
+  /**
+   * <media:content> directly on the entry or inside <media:group>
+   */
+  private collectMediaRss($: cheerio.CheerioAPI, $entry: CheerioElement): MediaRef[] {
+    const media: MediaRef[] = [];
+    const contents = [
+      ...this.childrenNamed($entry, 'media:content').toArray(),
+      ...this.childrenNamed(this.childrenNamed($entry, 'media:group'), 'media:content').toArray(),
+    ];
+
+    for (const el of contents) {
+      const $el = $(el);
+      this.pushMedia(media, $el.attr('url'), $el.attr('type'), $el.attr('medium'), {
+        width: this.toInt($el.attr('width')),
+        height: this.toInt($el.attr('height')),
+        durationMs: this.toSecondsMs($el.attr('duration')),
+      });
+    }
+
+    return media;
+  }
+
+  private mediaThumbnail($entry: CheerioElement): string | undefined {
+    const direct = this.childrenNamed($entry, 'media:thumbnail').first().attr('url');
+    if (direct) return direct;
+    return this.childrenNamed(this.childrenNamed($entry, 'media:group'), 'media:thumbnail').first().attr('url');
+  }
+
+  private mediaKeywords($entry: CheerioElement): string[] {
+    const keywords = this.childText($entry, 'media:keywords')
+      || this.childText(this.childrenNamed($entry, 'media:group'), 'media:keywords');
+    return keywords ? keywords.split(',') : [];
+  }
+
+  /**
+   * Children matching a tag name (case-insensitive, namespace prefix included)
+   */
+  private childrenNamed($parent: CheerioElement, name: string): CheerioElement {
+    const lower = name.toLowerCase();
+    return $parent.children().filter((_, el) => (el as { tagName?: string }).tagName?.toLowerCase() === lower);
+  }
+
+  private childText($parent: CheerioElement, name: string): string | undefined {
+    return this.childrenNamed($parent, name).first().text().trim() || undefined;
+  }
+
+  // =========================================================================
+  // JSON Feed
+  // =========================================================================
+
+  private parseJsonFeed(feed: JsonFeed): ScrapedItem[] {
+    if (!Array.isArray(feed.items)) {
+      throw new Error('JSON Feed has no items array');
+    }
+
+    const items: ScrapedItem[] = [];
+
+    for (const entry of feed.items) {
+      const externalId = entry.id !== undefined && entry.id !== null ? String(entry.id) : entry.url;
+      const postedAt = this.parseDate(entry.date_published || entry.date_modified);
+      if (!externalId || !postedAt) continue;
+
+      const media: MediaRef[] = [];
+      for (const attachment of entry.attachments || []) {
+        this.pushMedia(media, attachment.url, attachment.mime_type, undefined, {
+          durationMs: attachment.duration_in_seconds ? Math.round(attachment.duration_in_seconds * 1000) : undefined,
+        });
+      }
+      if (media.length === 0) {
+        this.pushMedia(media, entry.image);
+      }
+
+      // JSON Feed 1.1 uses authors[], 1.0 used author
+      const author = entry.authors?.[0] || entry.author || feed.authors?.[0] || feed.author;
+
+      const item = this.buildItem({
+        externalId,
+        permalink: entry.url || entry.external_url || externalId,
+        postedAt,
+        author: author?.name,
+        authorUrl: author?.url,
+        title: entry.title,
+        html: entry.content_html,
+        text: entry.content_text || entry.summary,
+        media,
+        thumbnailUrl: media[0]?.url === entry.image ? undefined : entry.image,
+        tags: entry.tags || [],
+      });
+
+      if (item) items.push(item);
+    }
+
+    return items;
+  }
+
+  // =========================================================================
+  // Shared mapping
+  // =========================================================================
+
+  private buildItem(entry: {
+    externalId: string;
+    permalink: string;
+    postedAt: Date;
+    author?: string;
+    authorUrl?: string;
+    title?: string;
+    html?: string;
+    text?: string;
+    media: MediaRef[];
+    thumbnailUrl?: string;
+    tags: string[];
+  }): ScrapedItem | null {
+    const baseUrl = this.buildPageUrl(1);
+    const $html = entry.html ? cheerio.load(entry.html) : null;
+
+    // Fall back to media embedded in the entry HTML
+    if (entry.media.length === 0 && $html) {
+      $html('img[src], video[src], video source[src]').each((_, el) => {
+        const $el = $html(el);
+        this.pushMedia(entry.media, $el.attr('src'), $el.attr('type'), el.tagName === 'img' ? 'image' : 'video', {
+          width: this.toInt($el.attr('width')),
+          height: this.toInt($el.attr('height')),
+        });
+      });
+    }
+
+    const primary = entry.media[0];
+    if (!primary) return null;
+
+    const absolute = (url: string) => new URL(url, baseUrl).toString();
+    const caption = ($html ? $html.root().text() : entry.text)?.replace(/\s+/g, ' ').trim();
+    const tags = [...new Set(entry.tags.map(t => t.trim()).filter(Boolean))];
+
+    const assets: ScrapedAsset[] | undefined = entry.media.length > 1
+      ? entry.media.map(m => ({
+        url: absolute(m.url),
+        type: m.type,
+        width: m.width,
+        height: m.height,
+        durationMs: m.durationMs,
+      }))
+      : undefined;
+
+    return {
+      externalId: entry.externalId,
+      permalink: absolute(entry.permalink),
+      postedAt: entry.postedAt,
+      author: entry.author || 'unknown',
+      authorUrl: entry.authorUrl ? absolute(entry.authorUrl) : undefined,
+      title: entry.title || undefined,
+      caption: caption || undefined,
+      mediaType: primary.type,
+      mediaUrl: absolute(primary.url),
+      thumbnailUrl: entry.thumbnailUrl ? absolute(entry.thumbnailUrl) : undefined,
+      durationMs: primary.durationMs,
+      width: primary.width,
+      height: primary.height,
+      assets,
+      tags: tags.length > 0 ? tags : undefined,
+    };
+  }
+
+  /**
+   * Classify a media reference and add it unless it's a duplicate or not image/video
+   */
+  private pushMedia(
+    media: MediaRef[],
+    url: string | undefined,
+    mimeType?: string,
+    medium?: string,
+    extra: Omit<MediaRef, 'url' | 'type'> = {},
+  ): void {
+    if (!url || url.startsWith('data:') || media.some(m => m.url === url)) return;
+
+    const type = this.classifyMedia(url, mimeType, medium);
+    if (!type) return;
+
+    media.push({ url, type, ...extra });
+  }
+
+  private classifyMedia(url: string, mimeType?: string, medium?: string): MediaRef['type'] | null {
+    const mime = mimeType?.toLowerCase();
+    if (mime === 'image/gif') return 'gif';
+    if (mime?.startsWith('image/')) return 'image';
+    if (mime?.startsWith('video/')) return 'video';
+
+    const inferred = inferMediaType(url);
+    if (inferred !== 'unknown') return inferred;
+
+    if (medium === 'image') return 'image';
+    if (medium === 'video') return 'video';
+    return null;
+  }
+
+  private parseDate(raw: string | undefined): Date | null {
+    if (!raw) return null;
+    const date = new Date(raw);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  private toInt(raw: string | undefined): number | undefined {
+    const num = raw ? parseInt(raw, 10) : NaN;
+    return Number.isFinite(num) && num > 0 ? num : undefined;
+  }
+
+  private toSecondsMs(raw: string | undefined): number | undefined {
+    const seconds = raw ? parseFloat(raw) : NaN;
+    return Number.isFinite(seconds) && seconds > 0 ? Math.round(seconds * 1000) : undefined;
+  }
+}
+
+interface JsonFeedAuthor {
+  name?: string;
+  url?: string;
+}
+
+interface JsonFeed {
+  version?: string;
+  items: JsonFeedItem[];
+  author?: JsonFeedAuthor;
+  authors?: JsonFeedAuthor[];
+}
+
+interface JsonFeedItem {
+  id?: string | number;
+  url?: string;
+  external_url?: string;
+  title?: string;
+  content_html?: string;
+  content_text?: string;
+  summary?: string;
+  image?: string;
+  date_published?: string;
+  date_modified?: string;
+  author?: JsonFeedAuthor;
+  authors?: JsonFeedAuthor[];
+  tags?: string[];
+  attachments?: {
+    url: string;
+    mime_type?: string;
+    duration_in_seconds?: number;
+  }[];
+}
+
+// Register the adapter
+registerAdapter('feed', FeedAdapter);
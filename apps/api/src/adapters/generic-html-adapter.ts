@@ -8,6 +8,7 @@ import {
   type ScrapedItem,
   type ScanResult,
   type PageInfo,
+  type ParseDiagnostics,
   registerAdapter,
 } from './base-adapter.js';
 import { inferMediaType } from '../core/deduplication.js';
@@ -89,6 +90,8 @@ export interface GenericHtmlConfig {
   newestFirst?: boolean;
   /** Custom headers to send with requests */
   headers?: Record<string, string>;
+  /** Extra hosts media is served from (the baseUrl host is always allowed) */
+  mediaHosts?: string[];
 }
 
 /**
@@ -100,6 +103,7 @@ export interface GenericHtmlConfig {
  */
 export class GenericHtmlAdapter extends BaseAdapter {
   private htmlConfig: GenericHtmlConfig;
+  private diagnostics: ParseDiagnostics | null = null;
 
   constructor(config: SourceConfig) {
     super(config);
@@ -120,11 +124,15 @@ export class GenericHtmlAdapter extends BaseAdapter {
     return 'generic-html';
   }
 
+  override getParseDiagnostics(): ParseDiagnostics | null {
+    return this.diagnostics;
+  }
+
   async validate(): Promise<{ valid: boolean; error?: string }> {
     try {
       // Try to fetch the first page
       const url = this.buildPageUrl(1);
-      const response = await fetch(url, {
+      const response = await this.httpFetch(url, {
         headers: {
           'User-Agent': this.getUserAgent(),
           ...this.htmlConfig.headers,
@@ -166,7 +174,7 @@ export class GenericHtmlAdapter extends BaseAdapter {
 
     // Fetch the first page to get pagination info
     const url = this.buildPageUrl(1);
-    const response = await fetch(url, {
+    const response = await this.httpFetch(url, {
       headers: {
         'User-Agent': this.getUserAgent(),
         ...this.htmlConfig.headers,
@@ -190,7 +198,7 @@ export class GenericHtmlAdapter extends BaseAdapter {
     await this.respectRateLimit();
 
     const url = this.buildPageUrl(pageNumber);
-    const response = await fetch(url, {
+    const response = await this.httpFetch(url, {
       headers: {
         'User-Agent': this.getUserAgent(),
         ...this.htmlConfig.headers,
@@ -260,24 +268,52 @@ export class GenericHtmlAdapter extends BaseAdapter {
     const items: ScrapedItem[] = [];
     const selectors = this.htmlConfig.selectors;
 
-    $(selectors.itemContainer).find(selectors.item).each((_, element) => {
+    const $containers = $(selectors.itemContainer);
+    const $elements = $containers.find(selectors.item);
+    const diagnostics: ParseDiagnostics = {
+      containersMatched: $containers.length,
+      itemsMatched: $elements.length,
+      itemsParsed: 0,
+      dropped: {},
+      fieldMisses: {},
+      paginationMisses: [],
+    };
+    this.diagnostics = diagnostics;
+
+    const drop = (field: string) => {
+      diagnostics.dropped[field] = (diagnostics.dropped[field] ?? 0) + 1;
+    };
+
+    $elements.each((_, element) => {
+      const parsedBefore = items.length;
+      const itemMisses: string[] = [];
+
+      // A configured selector that found nothing; extractValue would otherwise
+      // silently fall back to the item's own text
+      const miss = ($item: CheerioElement, field: string, selector: string | { attr: string; selector?: string } | undefined) => {
+        if (selector && !this.selectorMatches($item, selector)) {
+          itemMisses.push(field);
+        }
+      };
+
       try {
         const $item = $(element);
 
         // Extract item ID
         const externalId = this.extractValue($item, selectors.itemId);
-        if (!externalId) return;
+        if (!externalId) return drop('itemId');
 
         // Extract permalink
         const permalink = this.extractValue($item, selectors.permalink);
-        if (!permalink) return;
+        if (!permalink) return drop('permalink');
 
         // Extract timestamp
         const timestampRaw = this.extractValue($item, selectors.timestamp);
         const postedAt = this.parseTimestamp(timestampRaw);
-        if (!postedAt) return;
+        if (!postedAt) return drop('timestamp');
 
         // Extract author
+        miss($item, 'author', selectors.author);
         const author = this.extractValue($item, selectors.author) || 'anonymous';
 
         // Extract optional fields shared across all images in the post
@@ -303,6 +339,14 @@ export class GenericHtmlAdapter extends BaseAdapter {
           ? $item.find(selectors.tags).map((_, t) => $(t).text().trim()).get()
           : undefined;
 
+        miss($item, 'authorUrl', selectors.authorUrl);
+        miss($item, 'title', selectors.title);
+        miss($item, 'caption', selectors.caption);
+        miss($item, 'width', selectors.width);
+        miss($item, 'height', selectors.height);
+        miss($item, 'duration', selectors.duration);
+        miss($item, 'tags', selectors.tags);
+
         const absolutePermalink = new URL(permalink, this.config.baseUrl).toString();
         const absoluteAuthorUrl = authorUrl
           ? new URL(authorUrl, this.config.baseUrl).toString()
@@ -375,16 +419,21 @@ export class GenericHtmlAdapter extends BaseAdapter {
               tags,
             });
           });
+
+          if (items.length === parsedBefore) return drop('media');
         } else {
           const mediaUrl = this.extractMediaUrl($item, selectors.media, selectors.mediaUrlAttr);
-          if (!mediaUrl) return;
+          if (!mediaUrl) return drop('media');
 
           let mediaType = inferMediaType(mediaUrl);
-          if (mediaType === 'unknown') return;
+          if (mediaType === 'unknown') return drop('mediaType');
 
           const thumbnailUrl = selectors.thumbnail
             ? this.extractMediaUrl($item, selectors.thumbnail)
             : undefined;
+          if (selectors.thumbnail && !thumbnailUrl) {
+            itemMisses.push('thumbnail');
+          }
 
           const absoluteMediaUrl = new URL(mediaUrl, this.config.baseUrl).toString();
           const absoluteThumbnailUrl = thumbnailUrl
@@ -411,9 +460,18 @@ export class GenericHtmlAdapter extends BaseAdapter {
       } catch (error) {
         // Skip malformed items
         console.warn('Failed to parse item:', error);
+        drop('error');
+      }
+
+      // Field misses are only reported for items that made it through
+      if (items.length > parsedBefore) {
+        for (const field of itemMisses) {
+          diagnostics.fieldMisses[field] = (diagnostics.fieldMisses[field] ?? 0) + 1;
+        }
       }
     });
 
+    diagnostics.itemsParsed = items.length;
     return items;
   }
 
@@ -429,11 +487,15 @@ export class GenericHtmlAdapter extends BaseAdapter {
     let totalPages: number | undefined;
     let hasNextPage = false;
 
+    const paginationMisses: string[] = [];
+
     // Extract current page
     if (selectors.currentPage) {
       const current = this.extractValue($('body'), selectors.currentPage);
       if (current) {
         currentPage = parseInt(current, 10) || 1;
+      } else {
+        paginationMisses.push('currentPage');
       }
     }
 
@@ -442,15 +504,17 @@ export class GenericHtmlAdapter extends BaseAdapter {
       const total = this.extractValue($('body'), selectors.totalPages);
       if (total) {
         totalPages = parseInt(total, 10);
+      } else {
+        paginationMisses.push('totalPages');
       }
     } else if (selectors.lastPage) {
       // Try to get from last page link
       const lastPageHref = this.extractValue($('body'), selectors.lastPage);
-      if (lastPageHref) {
-        const match = lastPageHref.match(/\d+/);
-        if (match) {
-          totalPages = parseInt(match[0], 10);
-        }
+      const match = lastPageHref?.match(/\d+/);
+      if (match) {
+        totalPages = parseInt(match[0], 10);
+      } else {
+        paginationMisses.push('lastPage');
       }
     }
 
@@ -481,10 +545,16 @@ export class GenericHtmlAdapter extends BaseAdapter {
     // Determine if there's a next page
     if (selectors.nextPage) {
       hasNextPage = $(selectors.nextPage).length > 0;
+      // On the last page a missing next link is expected, so this only hints at a bad selector
+      if (!hasNextPage) paginationMisses.push('nextPage');
     } else if (totalPages) {
       hasNextPage = currentPage < totalPages;
     }
 
+    if (this.diagnostics) {
+      this.diagnostics.paginationMisses = paginationMisses;
+    }
+
     return { currentPage, totalPages, hasNextPage };
   }
 
@@ -524,6 +594,21 @@ export class GenericHtmlAdapter extends BaseAdapter {
     return undefined;
   }
 
+  /**
+   * Whether a selector config finds its target within an element,
+   * as opposed to extractValue falling back to the element itself
+   */
+  private selectorMatches(
+    $element: CheerioElement,
+    selector: string | { attr: string; selector?: string },
+  ): boolean {
+    if (typeof selector === 'string') {
+      return $element.find(selector).length > 0;
+    }
+    const $target = selector.selector ? $element.find(selector.selector).first() : $element;
+    return $target.length > 0 && $target.attr(selector.attr) !== undefined;
+  }
+
   /**
    * Extract media URL from an element
    */
@@ -0,0 +1,499 @@
+import {
+  BaseAdapter,
+  type SourceConfig,
+  type ScrapedItem,
+  type ScanResult,
+  type PageInfo,
+  registerAdapter,
+} from './base-adapter.js';
+import { inferMediaType } from '../core/deduplication.js';
+import { select, selectAll, selectString, selectNumber } from '../lib/json-path.js';
+
+/**
+ * JSONPath-style field mappings, evaluated against each element of the items array
+ * (except `items`, which is evaluated against the whole response)
+ */
+export interface JsonFieldMap {
+  /** Path to the items array in the response, e.g. "$.data.posts" */
+  items: string;
+  /** Item ID */
+  id: string;
+  /** Primary media URL */
+  mediaUrl: string;
+  /** Posted timestamp (ISO string, unix seconds or unix milliseconds) */
+  postedAt: string;
+  /** Permalink (optional, see permalinkTemplate) */
+  permalink?: string;
+  /** Author username */
+  author?: string;
+  /** Author profile link */
+  authorUrl?: string;
+  title?: string;
+  caption?: string;
+  thumbnailUrl?: string;
+  /** Media type value ("image" | "gif" | "video"); inferred from the URL when absent */
+  mediaType?: string;
+  width?: string;
+  height?: string;
+  /** Duration (see durationUnit) */
+  duration?: string;
+  /** Tags: path to a string array, or a wildcard path like "tags[*].name" */
+  tags?: string;
+  likes?: string;
+  comments?: string;
+  views?: string;
+}
+
+/**
+ * How to request successive pages
+ */
+export interface JsonPagination {
+  /**
+   * page:   ?{param}=1,2,3...
+   * offset: ?{param}=0,pageSize,2*pageSize...
+   * cursor: ?{param}=<value of nextCursor from the previous response>
+   * none:   single request
+   */
+  strategy: 'page' | 'offset' | 'cursor' | 'none';
+  /** Query parameter carrying the page/offset/cursor */
+  param?: string;
+  /** Items per request */
+  pageSize?: number;
+  /** Query parameter carrying pageSize (omitted when unset) */
+  pageSizeParam?: string;
+  /** First page number for the page strategy (default 1) */
+  firstPage?: number;
+  /** Path to the next cursor in the response (cursor strategy) */
+  nextCursor?: string;
+  /** Path to the total page count in the response, if the API reports one */
+  totalPages?: string;
+  /** How many pages deep a scan may go (default 10) */
+  maxPages?: number;
+}
+
+/**
+ * Optional bearer-token bootstrap, either a static token or one fetched from a token endpoint
+ */
+export interface JsonAuth {
+  type: 'bearer';
+  /** Static token */
+  token?: string;
+  /** Endpoint that issues a token */
+  tokenUrl?: string;
+  tokenMethod?: 'GET' | 'POST';
+  /** JSON body sent to tokenUrl (POST only) */
+  tokenBody?: Record<string, unknown>;
+  /** Path to the token in the token response (default "token") */
+  tokenPath?: string;
+  /** Path to the token lifetime in seconds in the token response */
+  expiresInPath?: string;
+  /** Token lifetime when the response doesn't say (default 3600) */
+  ttlSeconds?: number;
+}
+
+/**
+ * Extended config for generic JSON adapter (stored in sources.scraperConfig)
+ */
+export interface GenericJsonConfig {
+  /** Endpoint URL or path relative to baseUrl; {externalId} is replaced with the thread's external ID */
+  endpoint: string;
+  /** Static query parameters ({externalId} is substituted here too) */
+  query?: Record<string, string>;
+  fields: JsonFieldMap;
+  pagination: JsonPagination;
+  auth?: JsonAuth;
+  /** Permalink built from item fields, e.g. "https://example.com/watch/{id}" */
+  permalinkTemplate?: string;
+  /** Duration unit of fields.duration (default seconds) */
+  durationUnit?: 's' | 'ms';
+  /** Media type used when neither fields.mediaType nor the URL tells us */
+  defaultMediaType?: 'image' | 'gif' | 'video';
+  /** Whether the API returns newest items first (default true) */
+  newestFirst?: boolean;
+  /** Custom headers to send with requests */
+  headers?: Record<string, string>;
+  /** Extra hosts media is served from (the baseUrl host is always allowed) */
+  mediaHosts?: string[];
+}
+
+const DEFAULT_MAX_PAGES = 10;
+const DEFAULT_TOKEN_TTL_SECONDS = 60 * 60;
+
+/**
+ * Generic JSON Adapter
+ *
+ * Declarative adapter for REST/JSON sources. Field mappings, pagination
+ * and auth live in sources.scraperConfig, so a new API source can be
+ * added from the admin UI without writing an adapter class.
+ */
+export class GenericJsonAdapter extends BaseAdapter {
+  private jsonConfig: GenericJsonConfig;
+  private authToken: string | null = null;
+  private tokenExpiry = 0;
+  /** Cursor needed to fetch each API page (API page N → cursor from page N-1) */
+  private cursors: Map<number, string> = new Map();
+  /** Scan depth; scanner page N maps to API page (depth - N + 1) */
+  private depth: number;
+
+  constructor(config: SourceConfig) {
+    super(config);
+
+    if (!config.extra || typeof config.extra !== 'object') {
+      throw new Error('GenericJsonAdapter requires config.extra');
+    }
+
+    const extra = config.extra as unknown as GenericJsonConfig;
+    if (!extra.endpoint || !extra.fields || !extra.pagination) {
+      throw new Error('GenericJsonAdapter requires endpoint, fields and pagination in config.extra');
+    }
+    if (!extra.fields.items || !extra.fields.id || !extra.fields.mediaUrl || !extra.fields.postedAt) {
+      throw new Error('GenericJsonAdapter field mapping requires items, id, mediaUrl and postedAt');
+    }
+    if (extra.pagination.strategy === 'cursor' && !extra.pagination.nextCursor) {
+      throw new Error('GenericJsonAdapter cursor pagination requires pagination.nextCursor');
+    }
+
+    this.jsonConfig = extra;
+    this.depth = this.maxPages();
+  }
+
+  getName(): string {
+    return 'generic-json';
+  }
+
+  async validate(): Promise<{ valid: boolean; error?: string }> {
+    try {
+      const data = await this.apiFetch(this.buildApiUrl(1));
+      const items = select(data, this.jsonConfig.fields.items);
+
+      if (!Array.isArray(items)) {
+        return {
+          valid: false,
+          error: `No items array at ${this.jsonConfig.fields.items}`,
+        };
+      }
+
+      return { valid: true };
+    } catch (error) {
+      return {
+        valid: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  async getLatestPage(): Promise<PageInfo> {
+    const maxPages = this.maxPages();
+    const { totalPages: totalPagesPath } = this.jsonConfig.pagination;
+
+    // Without a reported page count, simulate page numbers like the Reddit adapter:
+    // scanner walks backward from latestPage → 1, and latestPage is the newest API page
+    if (!totalPagesPath) {
+      this.depth = maxPages;
+      return { latestPage: maxPages, totalPages: maxPages };
+    }
+
+    await this.respectRateLimit();
+    const data = await this.apiFetch(this.buildApiUrl(1));
+    const reported = selectNumber(data, totalPagesPath);
+    this.depth = Math.max(1, Math.min(reported ?? maxPages, maxPages));
+
+    return { latestPage: this.depth, totalPages: this.depth };
+  }
+
+  async scanPage(pageNumber: number): Promise<ScanResult> {
+    await this.respectRateLimit();
+
+    const apiPage = Math.max(1, this.depth - pageNumber + 1);
+
+    if (this.jsonConfig.pagination.strategy === 'cursor' && apiPage > 1 && !this.cursors.has(apiPage)) {
+      // Need to walk earlier pages to learn this page's cursor
+      await this.fetchCursorsUpTo(apiPage);
+    }
+
+    const data = await this.apiFetch(this.buildApiUrl(apiPage));
+    const hasNext = this.recordNextCursor(data, apiPage);
+    const items = this.parseItems(data);
+
+    if (this.jsonConfig.newestFirst === false) {
+      items.reverse();
+    }
+
+    return {
+      items,
+      pageNumber,
+      hasMorePages: pageNumber > 1 && hasNext,
+    };
+  }
+
+  // Required by abstract class; JSON pages are built by buildApiUrl
+  protected buildPageUrl(pageNumber: number): string {
+    return this.buildApiUrl(Math.max(1, this.depth - pageNumber + 1));
+  }
+
+  protected parsePageContent(_html: string, _pageNumber: number): ScrapedItem[] {
+    return []; // Not used - we parse JSON directly
+  }
+
+  protected extractPaginationInfo(_html: string) {
+    return { currentPage: 1, hasNextPage: false }; // Not used
+  }
+
+  private maxPages(): number {
+    if (this.jsonConfig.pagination.strategy === 'none') return 1;
+    return Math.max(1, this.jsonConfig.pagination.maxPages ?? DEFAULT_MAX_PAGES);
+  }
+
+  /**
+   * Build the request URL for an API page (1 = newest)
+   */
+  private buildApiUrl(apiPage: number): string {
+    const { endpoint, query, pagination } = this.jsonConfig;
+    const externalId = encodeURIComponent(this.config.externalId);
+    const url = new URL(endpoint.replace(/\{externalId\}/g, externalId), this.config.baseUrl);
+
+    for (const [key, value] of Object.entries(query || {})) {
+      url.searchParams.set(key, value.replace(/\{externalId\}/g, this.config.externalId));
+    }
+
+    if (pagination.pageSize && pagination.pageSizeParam) {
+      url.searchParams.set(pagination.pageSizeParam, String(pagination.pageSize));
+    }
+
+    switch (pagination.strategy) {
+      case 'page':
+        url.searchParams.set(pagination.param || 'page', String((pagination.firstPage ?? 1) + apiPage - 1));
+        break;
+
+      case 'offset':
+        url.searchParams.set(pagination.param || 'offset', String((apiPage - 1) * (pagination.pageSize || 20)));
+        break;
+
+      case 'cursor': {
+        const cursor = this.cursors.get(apiPage);
+        if (apiPage > 1 && cursor) {
+          url.searchParams.set(pagination.param || 'cursor', cursor);
+        }
+        break;
+      }
+
+      case 'none':
+        break;
+    }
+
+    return url.toString();
+  }
+
+  /**
+   * Remember the cursor for the following page. Returns whether there is one.
+   */
+  private recordNextCursor(data: unknown, apiPage: number): boolean {
+    const { strategy, nextCursor } = this.jsonConfig.pagination;
+
+    if (strategy === 'none') return false;
+
+    if (strategy === 'cursor') {
+      const cursor = selectString(data, nextCursor);
+      if (cursor) this.cursors.set(apiPage + 1, cursor);
+      return !!cursor;
+    }
+
+    // page/offset: assume more until a page comes back empty
+    const items = select(data, this.jsonConfig.fields.items);
+    return Array.isArray(items) && items.length > 0;
+  }
+
+  private async fetchCursorsUpTo(targetPage: number): Promise<void> {
+    for (let page = 1; page < targetPage; page++) {
+      if (this.cursors.has(page + 1)) continue;
+      if (page > 1 && !this.cursors.has(page)) break; // Ran out of pages
+
+      await this.respectRateLimit();
+      const data = await this.apiFetch(this.buildApiUrl(page));
+      if (!this.recordNextCursor(data, page)) break;
+    }
+  }
+
+  private async getToken(forceRefresh = false): Promise<string | null> {
+    const auth = this.jsonConfig.auth;
+    if (!auth) return null;
+    if (auth.token) return auth.token;
+    if (!auth.tokenUrl) return null;
+
+    if (!forceRefresh && this.authToken && Date.now() < this.tokenExpiry) {
+      return this.authToken;
+    }
+
+    const method = auth.tokenMethod || 'GET';
+    const res = await this.httpFetch(new URL(auth.tokenUrl, this.config.baseUrl), {
+      method,
+      headers: {
+        'User-Agent': this.getUserAgent(),
+        'Accept': 'application/json',
+        ...(method === 'POST' ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: method === 'POST' ? JSON.stringify(auth.tokenBody || {}) : undefined,
+    });
+
+    if (!res.ok) {
+      throw new Error(`Failed to get auth token: HTTP ${res.status}`);
+    }
+
+    const data = await res.json();
+    const token = selectString(data, auth.tokenPath || 'token');
+    if (!token) {
+      throw new Error(`No token at ${auth.tokenPath || 'token'} in token response`);
+    }
+
+    const ttlSeconds = selectNumber(data, auth.expiresInPath) ?? auth.ttlSeconds ?? DEFAULT_TOKEN_TTL_SECONDS;
+    this.authToken = token;
+    // Refresh a minute early so in-flight scans don't race the expiry
+    this.tokenExpiry = Date.now() + Math.max(ttlSeconds - 60, 60) * 1000;
+    return token;
+  }
+
+  private async apiFetch(url: string, retries = 3, refreshedToken = false): Promise<unknown> {
+    const token = await this.getToken(refreshedToken);
+    const res = await this.httpFetch(url, {
+      headers: {
+        'User-Agent': this.getUserAgent(),
+        'Accept': 'application/json',
+        ...this.jsonConfig.headers,
+        ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+      },
+    });
+
+    // Expired or revoked token: fetch a new one once
+    if (res.status === 401 && this.jsonConfig.auth?.tokenUrl && !refreshedToken) {
+      return this.apiFetch(url, retries, true);
+    }
+
+    if (res.status === 429 && retries > 0) {
+      const retryAfter = parseInt(res.headers.get('retry-after') || '0', 10);
+      const delay = Math.max(retryAfter * 1000, 5000) * (4 - retries); // escalating backoff
+      console.warn(`[generic-json] 429 rate limited, waiting ${delay}ms before retry (${retries} left)`);
+      await new Promise(r => setTimeout(r, delay));
+      return this.apiFetch(url, retries - 1, refreshedToken);
+    }
+
+    if (!res.ok) {
+      throw new Error(`JSON API error: HTTP ${res.status} for ${url}`);
+    }
+
+    return res.json();
+  }
+
+  private parseItems(data: unknown): ScrapedItem[] {
+    const { fields } = this.jsonConfig;
+    const rawItems = select(data, fields.items);
+    if (!Array.isArray(rawItems)) return [];
+
+    const items: ScrapedItem[] = [];
+
+    for (const raw of rawItems) {
+      try {
+        const item = this.parseItem(raw);
+        if (item) items.push(item);
+      } catch (error) {
+        // Skip malformed items
+        console.warn('Failed to parse item:', error);
+      }
+    }
+
+    return items;
+  }
+
+  private parseItem(raw: unknown): ScrapedItem | null {
+    const { fields, permalinkTemplate, durationUnit, defaultMediaType } = this.jsonConfig;
+    const baseUrl = this.config.baseUrl;
+
+    const externalId = selectString(raw, fields.id);
+    const mediaUrl = selectString(raw, fields.mediaUrl);
+    const postedAt = this.parseTimestamp(select(raw, fields.postedAt));
+    if (!externalId || !mediaUrl || !postedAt) return null;
+
+    const mediaType = this.resolveMediaType(selectString(raw, fields.mediaType), mediaUrl) ?? defaultMediaType;
+    if (!mediaType) return null;
+
+    const permalink = selectString(raw, fields.permalink)
+      ?? (permalinkTemplate ? this.fillTemplate(permalinkTemplate, raw, externalId) : undefined);
+    if (!permalink) return null;
+
+    const author = selectString(raw, fields.author) || 'unknown';
+    const authorUrl = selectString(raw, fields.authorUrl);
+    const thumbnailUrl = selectString(raw, fields.thumbnailUrl);
+    const duration = selectNumber(raw, fields.duration);
+    const tags = fields.tags
+      ? selectAll(raw, fields.tags)
+        .flatMap(v => Array.isArray(v) ? v : [v])
+        .filter((t): t is string => typeof t === 'string' && t.trim().length > 0)
+        .map(t => t.trim())
+      : undefined;
+
+    return {
+      externalId,
+      permalink: new URL(permalink, baseUrl).toString(),
+      postedAt,
+      author,
+      authorUrl: authorUrl ? new URL(authorUrl, baseUrl).toString() : undefined,
+      title: selectString(raw, fields.title),
+      caption: selectString(raw, fields.caption),
+      mediaType,
+      mediaUrl: new URL(mediaUrl, baseUrl).toString(),
+      thumbnailUrl: thumbnailUrl ? new URL(thumbnailUrl, baseUrl).toString() : undefined,
+      durationMs: duration !== undefined
+        ? Math.round(durationUnit === 'ms' ? duration : duration * 1000)
+        : undefined,
+      width: selectNumber(raw, fields.width),
+      height: selectNumber(raw, fields.height),
+      tags: tags && tags.length > 0 ? tags : undefined,
+      sourceMetrics: {
+        likes: selectNumber(raw, fields.likes),
+        comments: selectNumber(raw, fields.comments),
+        views: selectNumber(raw, fields.views),
+      },
+    };
+  }
+
+  private resolveMediaType(declared: string | undefined, mediaUrl: string): 'image' | 'gif' | 'video' | undefined {
+    const value = declared?.toLowerCase();
+    if (value === 'image' || value === 'gif' || value === 'video') return value;
+    if (value?.startsWith('image/')) return value === 'image/gif' ? 'gif' : 'image';
+    if (value?.startsWith('video/')) return 'video';
+
+    const inferred = inferMediaType(mediaUrl);
+    return inferred === 'unknown' ? undefined : inferred;
+  }
+
+  /**
+   * Replace {id} and {field.path} placeholders with values from the item
+   */
+  private fillTemplate(template: string, raw: unknown, externalId: string): string {
+    return template.replace(/\{([^}]+)\}/g, (_, path: string) => {
+      const value = path === 'id' ? externalId : selectString(raw, path);
+      return encodeURIComponent(value ?? '');
+    });
+  }
+
+  /**
+   * Parse an ISO string, unix seconds or unix milliseconds into a Date
+   */
+  private parseTimestamp(value: unknown): Date | null {
+    if (typeof value === 'number' || (typeof value === 'string' && /^\d+(\.\d+)?$/.test(value.trim()))) {
+      const num = Number(value);
+      // Anything past ~2001 in milliseconds is far beyond any plausible seconds value
+      const date = new Date(num > 1_000_000_000_000 ? num : num * 1000);
+      return isNaN(date.getTime()) ? null : date;
+    }
+
+    if (typeof value === 'string') {
+      const date = new Date(value);
+      return isNaN(date.getTime()) ? null : date;
+    }
+
+    return null;
+  }
+}
+
+// Register the adapter
+registerAdapter('generic-json', GenericJsonAdapter);
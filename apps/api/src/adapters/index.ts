@@ -2,3 +2,5 @@ export * from './base-adapter.js';
 export * from './generic-html-adapter.js';
 export * from './redgifs-adapter.js';
 export * from './reddit-adapter.js';
+export * from './generic-json-adapter.js';
+export * from './feed-adapter.js';
@@ -5,10 +5,12 @@ import {
   type ScrapedAsset,
   type ScanResult,
   type PageInfo,
+  type ItemStatus,
   registerAdapter,
 } from './base-adapter.js';
 
 const ITEMS_PER_PAGE = 25; // Reddit returns ~25 posts per page
+const DEFAULT_API_BASE = 'https://www.reddit.com';
 
 /**
  * Reddit Adapter
@@ -16,6 +18,9 @@ const ITEMS_PER_PAGE = 25; // Reddit returns ~25 posts per page
  * Uses Reddit's public JSON API (no auth required) to fetch posts
  * from subreddits sorted by newest. Extracts media URLs from
  * Reddit's media metadata (images, gifs, videos).
+ *
+ * `apiBaseUrl` in the scraper config points the adapter at another host
+ * serving the same JSON (e.g. the local mock source server).
  */
 export class RedditAdapter extends BaseAdapter {
   private afterCursors: Map<number, string> = new Map();
@@ -24,12 +29,41 @@ export class RedditAdapter extends BaseAdapter {
     return 'reddit';
   }
 
+  private getApiBase(): string {
+    return ((this.config.extra?.apiBaseUrl as string | undefined) || DEFAULT_API_BASE).replace(/\/$/, '');
+  }
+
+  private getListingUrl(limit: number): string {
+    const subreddit = this.config.externalId;
+    return `${this.getApiBase()}/r/${subreddit}/new.json?&limit=${limit}`;
+  }
+
+  /**
+   * Removed and deleted posts keep their permalink page, so check the post
+   * itself: a missing listing entry or a removal category means it is gone
+   * (a post deleted by its author has category 'deleted'). A '[deleted]'
+   * author alone only means the account is gone; the post and its media can
+   * still be up, which link health's media check covers.
+   */
+  override async checkItemStatus(item: { externalId: string }): Promise<ItemStatus> {
+    await this.respectRateLimit();
+
+    const data = await this.redditFetch(
+      `${this.getApiBase()}/by_id/t3_${encodeURIComponent(item.externalId)}.json?raw_json=1`
+    ) as RedditListing;
+
+    const children = data.data?.children;
+    if (!children) return 'unknown';
+
+    const post = children[0]?.data;
+    if (!post) return 'removed';
+    if (post.removed_by_category) return 'removed';
+    return 'live';
+  }
+
   async validate(): Promise<{ valid: boolean; error?: string }> {
     try {
-      const subreddit = this.config.externalId;
-      const res = await this.redditFetch(
-        `https://www.reddit.com/r/${subreddit}/new.json?&limit=1`
-      );
+      const res = await this.redditFetch(this.getListingUrl(1));
       const data = res as RedditListing;
       if (!data?.data?.children) {
         return { valid: false, error: 'Could not read subreddit' };
@@ -57,13 +91,12 @@ export class RedditAdapter extends BaseAdapter {
   async scanPage(pageNumber: number): Promise<ScanResult> {
     await this.respectRateLimit();
 
-    const subreddit = this.config.externalId;
     // Scanner walks backward: page 10 → 9 → ... → 1
     // We want page 10 (scanner's start) = newest, page 1 = oldest
     // So reverse-map: scanner page N → reddit page (totalPages - N + 1)
     const redditPage = 10 - pageNumber + 1;
 
-    let url = `https://www.reddit.com/r/${subreddit}/new.json?&limit=${ITEMS_PER_PAGE}&raw_json=1`;
+    let url = `${this.getListingUrl(ITEMS_PER_PAGE)}&raw_json=1`;
 
     // For pages beyond the first, use the 'after' cursor from previous page
     if (redditPage > 1) {
@@ -96,12 +129,10 @@ export class RedditAdapter extends BaseAdapter {
   }
 
   private async fetchUpToPage(targetPage: number): Promise<void> {
-    const subreddit = this.config.externalId;
-
     for (let page = 1; page < targetPage; page++) {
       if (this.afterCursors.has(page)) continue;
 
-      let url = `https://www.reddit.com/r/${subreddit}/new.json?&limit=${ITEMS_PER_PAGE}&raw_json=1`;
+      let url = `${this.getListingUrl(ITEMS_PER_PAGE)}&raw_json=1`;
       if (page > 1) {
         const prevCursor = this.afterCursors.get(page - 1);
         if (prevCursor) url += `&after=${prevCursor}`;
@@ -119,7 +150,7 @@ export class RedditAdapter extends BaseAdapter {
   }
 
   private async redditFetch(url: string): Promise<unknown> {
-    const res = await fetch(url, {
+    const res = await this.httpFetch(url, {
       headers: {
         'User-Agent': this.getUserAgent(),
         'Accept': 'application/json',
@@ -129,7 +160,7 @@ export class RedditAdapter extends BaseAdapter {
     if (res.status === 429) {
       // Rate limited — wait and retry once
       await new Promise(r => setTimeout(r, 5000));
-      const retry = await fetch(url, {
+      const retry = await this.httpFetch(url, {
         headers: {
           'User-Agent': this.getUserAgent(),
           'Accept': 'application/json',
@@ -451,4 +482,4 @@ interface RedditMediaMeta {
 }
 
 // Register the adapter
-registerAdapter('reddit', RedditAdapter);
+registerAdapter('reddit', RedditAdapter, ['i.redd.it', 'preview.redd.it', 'v.redd.it', 'i.imgur.com']);
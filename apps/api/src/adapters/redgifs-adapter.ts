@@ -4,16 +4,21 @@ import {
   type ScrapedItem,
   type ScanResult,
   type PageInfo,
+  type ItemStatus,
   registerAdapter,
 } from './base-adapter.js';
 
 const ITEMS_PER_PAGE = 40;
+const DEFAULT_API_BASE = 'https://api.redgifs.com';
 
 /**
  * RedGifs API Adapter
  *
  * Uses the RedGifs v2 JSON API to fetch GIFs/videos from user profiles.
  * Obtains a temporary auth token automatically.
+ *
+ * `apiBaseUrl` in the scraper config points the adapter at another host
+ * serving the same API (e.g. the local mock source server).
  */
 export class RedGifsAdapter extends BaseAdapter {
   private authToken: string | null = null;
@@ -33,18 +38,23 @@ export class RedGifsAdapter extends BaseAdapter {
     return this.config.externalId.startsWith('explore:');
   }
 
+  private getApiBase(): string {
+    return ((this.config.extra?.apiBaseUrl as string | undefined) || DEFAULT_API_BASE).replace(/\/$/, '');
+  }
+
   /** Get the API URL based on thread type */
   private getSearchUrl(count: number, page: number): string {
+    const apiBase = this.getApiBase();
     if (this.isExplore()) {
       const order = this.config.externalId.slice(8) || 'trending'; // remove 'explore:' prefix
-      return `https://api.redgifs.com/v2/gifs/trending?order=${encodeURIComponent(order)}&count=${count}&page=${page}`;
+      return `${apiBase}/v2/gifs/trending?order=${encodeURIComponent(order)}&count=${count}&page=${page}`;
     }
     if (this.isTagSearch()) {
       const tag = this.config.externalId.slice(4); // remove 'tag:' prefix
-      return `https://api.redgifs.com/v2/gifs/search?search_text=${encodeURIComponent(tag)}&order=trending&count=${count}&page=${page}`;
+      return `${apiBase}/v2/gifs/search?search_text=${encodeURIComponent(tag)}&order=trending&count=${count}&page=${page}`;
     }
     const username = this.config.externalId;
-    return `https://api.redgifs.com/v2/users/${username}/search?order=new&count=${count}&page=${page}`;
+    return `${apiBase}/v2/users/${username}/search?order=new&count=${count}&page=${page}`;
   }
 
   getName(): string {
@@ -56,7 +66,7 @@ export class RedGifsAdapter extends BaseAdapter {
       return this.authToken;
     }
 
-    const res = await fetch('https://api.redgifs.com/v2/auth/temporary', {
+    const res = await this.httpFetch(`${this.getApiBase()}/v2/auth/temporary`, {
       headers: { 'User-Agent': this.getUserAgent() },
     });
 
@@ -73,7 +83,7 @@ export class RedGifsAdapter extends BaseAdapter {
 
   private async apiFetch(url: string, retries = 3): Promise<unknown> {
     const token = await this.getToken();
-    const res = await fetch(url, {
+    const res = await this.httpFetch(url, {
       headers: {
         'Authorization': `Bearer ${token}`,
         'User-Agent': this.getUserAgent(),
@@ -95,6 +105,24 @@ export class RedGifsAdapter extends BaseAdapter {
     return res.json();
   }
 
+  override async checkItemStatus(item: { externalId: string }): Promise<ItemStatus> {
+    await this.respectRateLimit();
+
+    const token = await this.getToken();
+    const res = await this.httpFetch(`${this.getApiBase()}/v2/gifs/${encodeURIComponent(item.externalId)}`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'User-Agent': this.getUserAgent(),
+      },
+    });
+
+    if (res.status === 404 || res.status === 410) return 'removed';
+    if (!res.ok) return 'unknown';
+
+    const data = await res.json() as { gif?: RedGifItem | null };
+    return data.gif ? 'live' : 'removed';
+  }
+
   async validate(): Promise<{ valid: boolean; error?: string }> {
     try {
       const data = await this.apiFetch(
@@ -131,6 +159,11 @@ export class RedGifsAdapter extends BaseAdapter {
     };
   }
 
+  /** The scan starts at the last (oldest) RedGifs page and ends at page 1 */
+  override pagesGetOlder(): boolean {
+    return false;
+  }
+
   async scanPage(pageNumber: number): Promise<ScanResult> {
     await this.respectRateLimit();
 
@@ -223,4 +256,4 @@ interface RedGifItem {
 }
 
 // Register the adapter
-registerAdapter('redgifs', RedGifsAdapter);
+registerAdapter('redgifs', RedGifsAdapter, ['redgifs.com']);
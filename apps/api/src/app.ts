@@ -9,11 +9,15 @@ import { redis } from './lib/redis.js';
 
 // Route imports
 import { feedRoutes } from './modules/feed/feed.routes.js';
+import { syndicationRoutes } from './modules/feed/syndication.routes.js';
 import { mediaRoutes } from './modules/media/media.routes.js';
 import { authRoutes } from './modules/auth/auth.routes.js';
 import { adminRoutes } from './modules/admin/admin.routes.js';
 import { reportRoutes } from './modules/reports/reports.routes.js';
 import { meRoutes } from './modules/me/me.routes.js';
+import { commentRoutes } from './modules/comments/comments.routes.js';
+import { storageRoutes } from './modules/storage/storage.routes.js';
+import { getStorage } from './lib/storage/index.js';
 
 export async function buildApp(): Promise<FastifyInstance> {
   const app = Fastify({
@@ -106,10 +110,17 @@ export async function buildApp(): Promise<FastifyInstance> {
   // API routes
   await app.register(authRoutes, { prefix: '/api/v1/auth' });
   await app.register(feedRoutes, { prefix: '/api/v1/feed' });
+  await app.register(syndicationRoutes, { prefix: '/api/v1' });
   await app.register(mediaRoutes, { prefix: '/api/v1/media' });
   await app.register(adminRoutes, { prefix: '/api/v1/admin' });
   await app.register(reportRoutes, { prefix: '/api/v1/reports' });
   await app.register(meRoutes, { prefix: '/api/v1/me' });
+  await app.register(commentRoutes, { prefix: '/api/v1/comments' });
+
+  // Locally stored media is served by the API itself
+  if (getStorage()?.name === 'local') {
+    await app.register(storageRoutes, { prefix: '/api/v1/storage' });
+  }
 
   // Global error handler
   app.setErrorHandler((err, request, reply) => {
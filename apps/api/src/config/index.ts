@@ -27,12 +27,71 @@ const envSchema = z.object({
   // Public-facing API base URL (used for constructing proxy URLs returned to clients)
   API_PUBLIC_URL: z.string().optional(),
 
+  // Public site URL for links in outbound feeds (defaults to the first FRONTEND_URL)
+  SITE_URL: z.string().optional(),
+
   // Ingestion
-  INGEST_POLL_INTERVAL_MS: z.coerce.number().default(1200000), // 20 minutes
+  INGEST_POLL_INTERVAL_MS: z.coerce.number().default(1200000), // 20 minutes, starting interval for new threads
+  INGEST_MIN_POLL_INTERVAL_MS: z.coerce.number().default(180000), // 3 minutes
+  INGEST_MAX_POLL_INTERVAL_MS: z.coerce.number().default(21600000), // 6 hours
+  INGEST_SCHEDULER_TICK_MS: z.coerce.number().default(60000), // how often due threads are checked
   INGEST_MAX_PAGES_PER_RUN: z.coerce.number().default(10),
   INGEST_MAX_CONCURRENT_SOURCES: z.coerce.number().default(5),
 
-  // Cloudflare R2 (optional — if set, media is cached to CDN)
+  // Where circuit breaker, rate limiter and concurrency state lives: 'redis' shares it
+  // across replicas and workers, 'memory' keeps it per process
+  RESILIENCE_BACKEND: z.enum(['redis', 'memory']).default('redis'),
+
+  // Link health: how often a batch of items is re-checked, how many per batch,
+  // and how long a healthy item goes before it is checked again
+  LINK_HEALTH_INTERVAL_MS: z.coerce.number().default(900000), // 15 minutes
+  LINK_HEALTH_BATCH_SIZE: z.coerce.number().default(50),
+  LINK_HEALTH_RECHECK_MS: z.coerce.number().default(604800000), // 7 days
+
+  // Adapter HTTP: 'record' saves every source request/response per thread under
+  // ADAPTER_HTTP_FIXTURES_DIR, 'replay' serves them back without touching the network
+  ADAPTER_HTTP_MODE: z.enum(['live', 'record', 'replay']).default('live'),
+  ADAPTER_HTTP_FIXTURES_DIR: z.string().default('.http-fixtures'),
+
+  // View counting
+  VIEW_DEDUP_WINDOW_SECONDS: z.coerce.number().default(900), // 15 minutes
+  VIEW_FLUSH_INTERVAL_MS: z.coerce.number().default(10000), // 10 seconds
+
+  // Media proxy disk cache: uncached media is streamed through and kept here (LRU) so
+  // range requests and repeat views don't go back to the source
+  PROXY_CACHE_DIR: z.string().default('.proxy-cache'),
+  PROXY_CACHE_MAX_BYTES: z.coerce.number().default(2 * 1024 * 1024 * 1024), // 2 GiB
+
+  // How often the media host allowlist is reloaded from sources and media_hosts
+  MEDIA_HOSTS_REFRESH_MS: z.coerce.number().default(60000), // 1 minute
+
+  // Media storage (optional — where cached media is written): 'local', 's3' or 'r2'.
+  // Unset uses R2 when the R2_* settings below are complete, otherwise caching is off
+  STORAGE_DRIVER: z.enum(['local', 's3', 'r2']).optional(),
+  STORAGE_LOCAL_DIR: z.string().default('.media-storage'),
+  // Public base URL of stored objects; required for 's3', defaults to
+  // API_PUBLIC_URL/api/v1/storage for 'local'
+  STORAGE_PUBLIC_URL: z.string().optional(),
+
+  // S3-compatible storage (AWS, MinIO, ...); leave S3_ENDPOINT unset for AWS
+  S3_ENDPOINT: z.string().optional(),
+  S3_REGION: z.string().default('us-east-1'),
+  S3_BUCKET: z.string().optional(),
+  S3_ACCESS_KEY_ID: z.string().optional(),
+  S3_SECRET_ACCESS_KEY: z.string().optional(),
+  S3_FORCE_PATH_STYLE: z.enum(['true', 'false']).default('false').transform(v => v === 'true'),
+
+  // Transcoding (needs media storage and ffmpeg): GIFs are re-encoded as MP4/WebM, videos and
+  // GIFs get a poster frame and a low-res preview for the feed
+  TRANSCODE_ENABLED: z.enum(['true', 'false']).default('true').transform(v => v === 'true'),
+  FFMPEG_PATH: z.string().default('ffmpeg'),
+  FFPROBE_PATH: z.string().default('ffprobe'), // also used to probe video size and duration
+  TRANSCODE_CONCURRENCY: z.coerce.number().default(1),
+  TRANSCODE_INTERVAL_MS: z.coerce.number().default(60000), // how often newly cached items are picked up
+  TRANSCODE_BATCH_SIZE: z.coerce.number().default(20),
+  TRANSCODE_PREVIEW_HEIGHT: z.coerce.number().default(360),
+
+  // Cloudflare R2 (STORAGE_DRIVER=r2, or picked automatically when all set)
   R2_ACCOUNT_ID: z.string().optional(),
   R2_ACCESS_KEY_ID: z.string().optional(),
   R2_SECRET_ACCESS_KEY: z.string().optional(),
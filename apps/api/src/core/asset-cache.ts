@@ -0,0 +1,78 @@
+import { and, eq, ne, sql } from 'drizzle-orm';
+import { mediaAssets } from '@aggragif/db/schema';
+import { db } from '../lib/db.js';
+import { isStorageEnabled, downloadAndStoreAsset } from '../lib/media-storage.js';
+import { buildSourceHeaders, isAllowedUrl, safeFetchMedia } from '../lib/media-fetcher.js';
+import { computePlaceholder } from './placeholder.js';
+import { probeMedia, type MediaProbe } from './media-probe.js';
+
+/**
+ * Pre-cache an item's gallery assets to media storage.
+ * Each asset is stored under its own key and its row updated with the CDN URL,
+ * storageMode 'cached', a blurhash for images and the probed size, MIME type,
+ * dimensions and duration; assets that are already cached are skipped.
+ */
+export async function cacheItemAssets(
+  itemId: string,
+  scraperConfig: { headers?: Record<string, string> } | null | undefined,
+): Promise<{ cached: number; failed: number }> {
+  if (!isStorageEnabled()) return { cached: 0, failed: 0 };
+
+  const assets = await db.query.mediaAssets.findMany({
+    where: and(
+      eq(mediaAssets.mediaItemId, itemId),
+      ne(mediaAssets.storageMode, 'cached'),
+    ),
+    columns: { id: true, assetUrl: true, assetType: true, position: true },
+    orderBy: (a, { asc }) => [asc(a.position)],
+  });
+
+  let cached = 0;
+  let failed = 0;
+
+  for (const asset of assets) {
+    if (!isAllowedUrl(asset.assetUrl)) {
+      failed++;
+      continue;
+    }
+
+    const headers = buildSourceHeaders(asset.assetUrl, scraperConfig);
+    let blurhash: string | undefined;
+    let probe: MediaProbe | undefined;
+    const upload = await downloadAndStoreAsset(
+      itemId, asset.position, asset.assetUrl,
+      (url) => safeFetchMedia(url, headers),
+      asset.assetType === 'video' ? 'video/mp4' : 'image/jpeg',
+      async (buffer, contentType) => {
+        probe = await probeMedia(buffer, contentType);
+        if (contentType.startsWith('image/')) {
+          blurhash = (await computePlaceholder(buffer))?.blurhash;
+        }
+      },
+    );
+
+    if (!upload) {
+      failed++;
+      continue;
+    }
+
+    await db.update(mediaAssets)
+      .set({
+        cdnUrl: upload.cdnUrl,
+        storageMode: 'cached',
+        mimeType: probe?.mimeType ?? upload.contentType,
+        fileSizeBytes: upload.size,
+        ...(blurhash ? { blurhash } : {}),
+        ...(probe ? {
+          width: sql`COALESCE(${mediaAssets.width}, ${probe.width})`,
+          height: sql`COALESCE(${mediaAssets.height}, ${probe.height})`,
+          durationMs: sql`COALESCE(${mediaAssets.durationMs}, ${probe.durationMs})`,
+        } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(mediaAssets.id, asset.id));
+    cached++;
+  }
+
+  return { cached, failed };
+}
@@ -1,6 +1,7 @@
 import { db } from '../lib/db.js';
+import { publishIngestEvent } from '../lib/ingest-events.js';
 import { checkpoints, threads } from '@aggragif/db/schema';
-import { eq } from 'drizzle-orm';
+import { and, eq, sql } from 'drizzle-orm';
 
 /**
  * Catch-up cursor for resuming partial runs
@@ -12,6 +13,42 @@ export interface CatchUpCursor {
   reason: 'page_cap' | 'timeout' | 'error';
 }
 
+/**
+ * Historical backfill state, kept apart from the catch-up cursor so a
+ * backfill never moves the live polling position
+ */
+export interface BackfillCursor {
+  /** Identifies this backfill's job chain; jobs of an earlier one stop */
+  id: string;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  /** Only items posted within [from, to] are ingested (ISO timestamps) */
+  from: string | null;
+  to: string | null;
+  /** Page depth limit, counted from the latest page */
+  maxPages: number | null;
+  /** Pages the backfill will scan at most (known once the latest page is) */
+  totalPages: number | null;
+  /** Next page to scan; null until the first chunk finds the latest page */
+  nextPage: number | null;
+  pagesScanned: number;
+  itemsFound: number;
+  itemsNew: number;
+  itemsDuplicate: number;
+  itemsFailed: number;
+  startedAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+  error: string | null;
+}
+
+/**
+ * HTTP cache validators for conditional GETs (If-None-Match / If-Modified-Since)
+ */
+export interface HttpValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
 /**
  * Checkpoint state for a thread
  */
@@ -201,6 +238,30 @@ export class CheckpointManager {
       .where(eq(checkpoints.threadId, threadId));
   }
 
+  /**
+   * Load the conditional-GET validators saved for a thread
+   */
+  async getHttpValidators(threadId: string): Promise<HttpValidators | null> {
+    const checkpoint = await db.query.checkpoints.findFirst({
+      where: (c, { eq }) => eq(c.threadId, threadId),
+      columns: { httpValidators: true },
+    });
+
+    return (checkpoint?.httpValidators as HttpValidators | null) ?? null;
+  }
+
+  /**
+   * Save conditional-GET validators once a fetch's items have been committed
+   */
+  async saveHttpValidators(threadId: string, validators: HttpValidators): Promise<void> {
+    await db.update(checkpoints)
+      .set({
+        httpValidators: validators,
+        updatedAt: new Date(),
+      })
+      .where(eq(checkpoints.threadId, threadId));
+  }
+
   /**
    * Save catch-up cursor for partial run (hit page cap)
    */
@@ -225,6 +286,70 @@ export class CheckpointManager {
         updatedAt: now,
       })
       .where(eq(checkpoints.threadId, threadId));
+
+    publishIngestEvent({ type: 'catchup_saved', threadId, page: currentPage, itemsIngested, reason });
+  }
+
+  /**
+   * Load a thread's backfill cursor
+   */
+  async getBackfillCursor(threadId: string): Promise<BackfillCursor | null> {
+    const checkpoint = await db.query.checkpoints.findFirst({
+      where: (c, { eq }) => eq(c.threadId, threadId),
+      columns: { backfillCursor: true },
+    });
+
+    return (checkpoint?.backfillCursor as BackfillCursor | null) ?? null;
+  }
+
+  /**
+   * Start (or replace) a thread's backfill
+   */
+  async startBackfill(threadId: string, cursor: BackfillCursor): Promise<void> {
+    await this.getOrCreateCheckpoint(threadId);
+    await db.update(checkpoints)
+      .set({
+        backfillCursor: cursor,
+        updatedAt: new Date(),
+      })
+      .where(eq(checkpoints.threadId, threadId));
+  }
+
+  /**
+   * Save the progress of a running backfill. Returns false, without saving,
+   * if it is no longer running or has been replaced in the meantime.
+   */
+  async updateBackfillCursor(threadId: string, cursor: BackfillCursor): Promise<boolean> {
+    const now = new Date();
+    cursor.updatedAt = now.toISOString();
+
+    const updated = await db.update(checkpoints)
+      .set({
+        backfillCursor: cursor,
+        updatedAt: now,
+      })
+      .where(and(
+        eq(checkpoints.threadId, threadId),
+        sql`${checkpoints.backfillCursor}->>'id' = ${cursor.id}`,
+        sql`${checkpoints.backfillCursor}->>'status' = 'running'`,
+      ))
+      .returning({ threadId: checkpoints.threadId });
+
+    return updated.length > 0;
+  }
+
+  /**
+   * Mark a running backfill as failed before it could scan (no adapter,
+   * validation error)
+   */
+  async failBackfill(threadId: string, backfillId: string, error: string): Promise<void> {
+    const cursor = await this.getBackfillCursor(threadId);
+    if (!cursor || cursor.id !== backfillId || cursor.status !== 'running') return;
+
+    cursor.status = 'failed';
+    cursor.error = error;
+    cursor.finishedAt = new Date().toISOString();
+    await this.updateBackfillCursor(threadId, cursor);
   }
 
   /**
@@ -1,11 +1,16 @@
 import { db } from '../lib/db.js';
 import { mediaItems, mediaAssets, ingestRuns, blockedMedia } from '@aggragif/db/schema';
 import { eq, and, sql } from 'drizzle-orm';
-import { checkpointManager, type CheckpointState, type ItemIdentifier } from './checkpoint-manager.js';
+import { checkpointManager, type BackfillCursor, type CheckpointState, type ItemIdentifier } from './checkpoint-manager.js';
 import { generateFingerprint, isValidDuration } from './deduplication.js';
 import type { BaseAdapter, ScrapedItem, ScanResult } from '../adapters/base-adapter.js';
-import { isR2Enabled, downloadAndUploadToR2 } from '../lib/r2.js';
+import { isStorageEnabled, downloadAndStoreMedia } from '../lib/media-storage.js';
+import { cacheItemAssets } from './asset-cache.js';
 import { buildSourceHeaders, safeFetchMedia, isAllowedUrl } from '../lib/media-fetcher.js';
+import { publishIngestEvent } from '../lib/ingest-events.js';
+import { hashMediaItem, findNearDuplicate } from './perceptual-hash.js';
+import { storeItemPlaceholder } from './placeholder.js';
+import { probeMedia, applyItemProbe, MAX_DURATION_MS } from './media-probe.js';
 
 /**
  * Configuration for the incremental scanner
@@ -44,6 +49,69 @@ export interface IngestRunResult {
   newestItem: ItemIdentifier | null;
   error?: string;
   resumePage?: number;
+  /** Items that failed to commit, recorded in the run's errorDetails */
+  failures?: ItemFailure[];
+}
+
+/** The step of commitItems an item failed at */
+export type ItemFailureStage = 'dedup' | 'hash' | 'insert' | 'assets';
+
+/**
+ * An item that failed to commit, with a snapshot of it to commit again
+ */
+export interface ItemFailure {
+  externalId: string;
+  stage: ItemFailureStage;
+  error: string;
+  failedAt: string;
+  /** The scraped item as JSON (postedAt as an ISO string) */
+  item: Record<string, unknown>;
+}
+
+/**
+ * ingest_runs.errorDetails
+ */
+export interface RunErrorDetails {
+  /** Items still failed (a retry drops the ones it commits) */
+  failures: ItemFailure[];
+  retries: number;
+  lastRetryAt: string | null;
+}
+
+/**
+ * Result of re-committing a run's failed items
+ */
+export interface RetryResult {
+  retried: number;
+  itemsNew: number;
+  itemsDuplicate: number;
+  itemsFailed: number;
+}
+
+/** Upper bound of a Postgres integer column */
+const MAX_INT4 = 2_147_483_647;
+
+function metricValue(value: number | undefined): number | null {
+  if (value == null || !Number.isFinite(value) || value < 0) return null;
+  return Math.min(Math.round(value), MAX_INT4);
+}
+
+/**
+ * Map an item's upstream engagement onto media_items columns. Items without
+ * any counts map to nothing, so a re-ingest never clears earlier metrics.
+ */
+function toSourceMetricColumns(metrics: ScrapedItem['sourceMetrics']) {
+  const likes = metricValue(metrics?.likes);
+  const comments = metricValue(metrics?.comments);
+  const views = metricValue(metrics?.views);
+  if (likes == null && comments == null && views == null) return {};
+
+  return {
+    sourceLikeCount: likes,
+    sourceCommentCount: comments,
+    sourceViewCount: views,
+    sourceMetricsAt: new Date(),
+  };
 }
 
 /**
@@ -85,6 +153,16 @@ export class IncrementalScanner {
         status: 'running',
       }).returning({ id: ingestRuns.id });
       ingestRunId = run?.id ?? null;
+      if (ingestRunId) {
+        publishIngestEvent({
+          type: 'run_started',
+          runId: ingestRunId,
+          sourceId,
+          threadId,
+          externalId: adapter.getSourceConfig().externalId,
+          kind: 'poll',
+        });
+      }
 
       // Load or create checkpoint
       const checkpoint = await checkpointManager.getOrCreateCheckpoint(threadId);
@@ -118,6 +196,7 @@ export class IncrementalScanner {
 
       // Run the scan
       const result = await this.performScan(
+        ingestRunId,
         threadId,
         adapter,
         checkpoint,
@@ -159,6 +238,7 @@ export class IncrementalScanner {
    * Perform the actual scanning loop
    */
   private async performScan(
+    runId: string | null,
     threadId: string,
     adapter: BaseAdapter,
     checkpoint: CheckpointState,
@@ -177,6 +257,7 @@ export class IncrementalScanner {
       const pageInfo = await adapter.getLatestPage();
       currentPage = pageInfo.latestPage;
     }
+    const maxPages = Math.max(0, Math.min(this.config.maxPagesPerRun, currentPage));
 
     // Scan pages backward
     while (currentPage >= 1 && pagesScanned < this.config.maxPagesPerRun) {
@@ -197,19 +278,24 @@ export class IncrementalScanner {
       const scanResult = await adapter.scanPage(currentPage);
       pagesScanned++;
       itemsFound += scanResult.items.length;
+      if (runId) {
+        publishIngestEvent({
+          type: 'page_fetched',
+          runId,
+          threadId,
+          page: currentPage,
+          pagesScanned,
+          maxPages,
+          itemsOnPage: scanResult.items.length,
+        });
+      }
 
       // Process items (newest first on each page)
       for (const item of scanResult.items) {
         // Generate identifier
         const identifier: ItemIdentifier = {
           externalId: item.externalId,
-          fingerprint: generateFingerprint({
-            mediaUrl: item.mediaUrl,
-            author: item.author,
-            timestamp: item.postedAt,
-            width: item.width,
-            height: item.height,
-          }),
+          fingerprint: this.fingerprint(item),
           timestamp: item.postedAt,
           pageNumber: currentPage,
         };
@@ -253,7 +339,7 @@ export class IncrementalScanner {
           );
 
           // Commit buffered items
-          const commitResult = await this.commitItems(threadId, itemBuffer, adapter.getSourceConfig().extra);
+          const commitResult = await this.commitItems(runId, threadId, itemBuffer, adapter.getSourceConfig().extra);
 
           return {
             status: 'partial',
@@ -264,6 +350,7 @@ export class IncrementalScanner {
             itemsFailed: commitResult.failed,
             newestItem,
             resumePage: currentPage,
+            failures: commitResult.failures,
           };
         }
       }
@@ -289,7 +376,7 @@ export class IncrementalScanner {
     }
 
     // Commit all buffered items
-    const commitResult = await this.commitItems(threadId, itemBuffer, adapter.getSourceConfig().extra);
+    const commitResult = await this.commitItems(runId, threadId, itemBuffer, adapter.getSourceConfig().extra);
 
     // Determine final status
     let status: IngestRunResult['status'];
@@ -312,6 +399,7 @@ export class IncrementalScanner {
     // Update checkpoint on success
     if (status !== 'partial') {
       await checkpointManager.updateCheckpointSuccess(threadId, newestItem, currentPage ?? undefined);
+      await adapter.onScanCommitted();
     }
 
     return {
@@ -323,9 +411,229 @@ export class IncrementalScanner {
       itemsFailed: commitResult.failed,
       newestItem,
       resumePage: status === 'partial' ? currentPage ?? undefined : undefined,
+      failures: commitResult.failures,
     };
   }
 
+  /**
+   * Run one chunk of a thread's historical backfill
+   *
+   * Walks backward from the backfill cursor (the latest page on the first
+   * chunk) for up to maxPagesPerRun pages, ingesting the items posted within
+   * the cursor's date bounds, and saves its progress after every page. It
+   * never reads or moves the checkpoint's last-seen item or catch-up cursor,
+   * so live polling carries on unaffected. Returns the cursor as left by this
+   * chunk (still 'running' if another chunk should follow), or null if the
+   * backfill was cancelled or replaced.
+   *
+   * @param backfillId - the backfill this chunk belongs to; does nothing if
+   *   the thread's backfill has since been cancelled or replaced
+   */
+  async backfill(
+    threadId: string,
+    sourceId: string,
+    adapter: BaseAdapter,
+    backfillId: string,
+  ): Promise<{ result: IngestRunResult; cursor: BackfillCursor | null }> {
+    const startTime = Date.now();
+    const failures: ItemFailure[] = [];
+    const result: IngestRunResult = {
+      status: 'partial',
+      pagesScanned: 0,
+      itemsFound: 0,
+      itemsNew: 0,
+      itemsDuplicate: 0,
+      itemsFailed: 0,
+      newestItem: null,
+      failures,
+    };
+
+    const cursor = await checkpointManager.getBackfillCursor(threadId);
+    if (!cursor || cursor.id !== backfillId || cursor.status !== 'running') {
+      return { result, cursor: null };
+    }
+
+    const [run] = await db.insert(ingestRuns).values({
+      sourceId,
+      threadId,
+      kind: 'backfill',
+      status: 'running',
+    }).returning({ id: ingestRuns.id });
+    const ingestRunId = run?.id ?? null;
+    if (ingestRunId) {
+      publishIngestEvent({
+        type: 'run_started',
+        runId: ingestRunId,
+        sourceId,
+        threadId,
+        externalId: adapter.getSourceConfig().externalId,
+        kind: 'backfill',
+      });
+    }
+
+    try {
+      if (cursor.nextPage === null) {
+        const { latestPage } = await adapter.getLatestPage();
+        cursor.nextPage = latestPage;
+        cursor.totalPages = cursor.maxPages ? Math.min(cursor.maxPages, latestPage) : latestPage;
+      }
+
+      const from = cursor.from ? new Date(cursor.from) : null;
+      const to = cursor.to ? new Date(cursor.to) : null;
+      let finished = false;
+
+      // Pages this chunk will scan at most, for progress reporting
+      const maxPages = Math.max(0, Math.min(
+        this.config.maxPagesPerRun,
+        cursor.nextPage,
+        cursor.maxPages !== null ? cursor.maxPages - cursor.pagesScanned : Infinity,
+      ));
+
+      while (result.pagesScanned < this.config.maxPagesPerRun && Date.now() - startTime <= this.config.scanTimeoutMs) {
+        if (cursor.nextPage < 1 || (cursor.maxPages !== null && cursor.pagesScanned >= cursor.maxPages)) {
+          finished = true;
+          break;
+        }
+
+        const scanResult = await adapter.scanPage(cursor.nextPage);
+        if (ingestRunId) {
+          publishIngestEvent({
+            type: 'page_fetched',
+            runId: ingestRunId,
+            threadId,
+            page: cursor.nextPage,
+            pagesScanned: result.pagesScanned + 1,
+            maxPages,
+            itemsOnPage: scanResult.items.length,
+          });
+        }
+        const items = scanResult.items
+          .filter(item => (!from || item.postedAt >= from) && (!to || item.postedAt <= to))
+          .filter(item => this.isValidItem(item))
+          .map(item => ({ ...item, fingerprint: this.fingerprint(item) }));
+        const committed = await this.commitItems(ingestRunId, threadId, items, adapter.getSourceConfig().extra);
+
+        result.pagesScanned++;
+        result.itemsFound += scanResult.items.length;
+        result.itemsNew += committed.inserted;
+        result.itemsDuplicate += committed.duplicates;
+        result.itemsFailed += committed.failed;
+        failures.push(...committed.failures);
+
+        cursor.nextPage--;
+        cursor.pagesScanned++;
+        cursor.itemsFound += scanResult.items.length;
+        cursor.itemsNew += committed.inserted;
+        cursor.itemsDuplicate += committed.duplicates;
+        cursor.itemsFailed += committed.failed;
+
+        // Past the date bounds, in the direction this adapter's pages run
+        const outOfBounds = adapter.pagesGetOlder()
+          ? from && scanResult.items.every(item => item.postedAt < from)
+          : to && scanResult.items.every(item => item.postedAt > to);
+        if (outOfBounds && scanResult.items.length > 0) {
+          finished = true;
+          break;
+        }
+
+        if (!(await checkpointManager.updateBackfillCursor(threadId, cursor))) {
+          console.log(`[Backfill] Thread ${threadId} backfill was cancelled, stopping`);
+          await this.finalizeRun(ingestRunId, result, null);
+          return { result, cursor: null };
+        }
+      }
+
+      if (finished) {
+        cursor.status = 'completed';
+        cursor.finishedAt = new Date().toISOString();
+        result.status = 'complete';
+      }
+      await checkpointManager.updateBackfillCursor(threadId, cursor);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      cursor.status = 'failed';
+      cursor.error = errorMessage;
+      cursor.finishedAt = new Date().toISOString();
+      await checkpointManager.updateBackfillCursor(threadId, cursor);
+
+      result.status = 'failed';
+      result.error = errorMessage;
+    }
+
+    await this.finalizeRun(ingestRunId, result, null);
+    return { result, cursor };
+  }
+
+  /**
+   * Commit a finished run's failed items again from their snapshots, without
+   * re-scanning the thread. The run's counts are adjusted and its failure
+   * list replaced with the items that failed again. Returns null if the run
+   * doesn't exist or has no thread.
+   */
+  async retryFailedItems(runId: string, scraperConfig?: Record<string, unknown>): Promise<RetryResult | null> {
+    const run = await db.query.ingestRuns.findFirst({
+      where: eq(ingestRuns.id, runId),
+      columns: { threadId: true, errorDetails: true },
+    });
+    if (!run?.threadId) return null;
+
+    const details = run.errorDetails as RunErrorDetails | null;
+    const failures = details?.failures ?? [];
+    if (failures.length === 0) {
+      return { retried: 0, itemsNew: 0, itemsDuplicate: 0, itemsFailed: 0 };
+    }
+
+    const toItems = (list: ItemFailure[]) => list.map(failure => ({
+      ...failure.item,
+      postedAt: new Date(failure.item.postedAt as string),
+    }) as ScrapedItem);
+
+    // Items that failed at 'assets' were inserted, and counted as new, by the
+    // run itself: committing them again only finishes their assets
+    const pending = await this.commitItems(
+      null, run.threadId, toItems(failures.filter(f => f.stage !== 'assets')), scraperConfig,
+    );
+    const finishing = await this.commitItems(
+      null, run.threadId, toItems(failures.filter(f => f.stage === 'assets')), scraperConfig,
+      { finishExisting: true },
+    );
+    const failed = pending.failed + finishing.failed;
+
+    await db.update(ingestRuns)
+      .set({
+        itemsNew: sql`${ingestRuns.itemsNew} + ${pending.inserted}`,
+        itemsDuplicate: sql`${ingestRuns.itemsDuplicate} + ${pending.duplicates}`,
+        itemsFailed: sql`GREATEST(${ingestRuns.itemsFailed} - ${failures.length - failed}, 0)`,
+        errorDetails: {
+          // Still counted as new, whatever step they failed at this time
+          failures: [...pending.failures, ...finishing.failures.map(f => ({ ...f, stage: 'assets' as const }))],
+          retries: (details?.retries ?? 0) + 1,
+          lastRetryAt: new Date().toISOString(),
+        } satisfies RunErrorDetails,
+      })
+      .where(eq(ingestRuns.id, runId));
+
+    return {
+      retried: failures.length,
+      itemsNew: pending.inserted,
+      itemsDuplicate: pending.duplicates,
+      itemsFailed: failed,
+    };
+  }
+
+  /**
+   * Content fingerprint of a scraped item, for dedup and checkpoint matching
+   */
+  private fingerprint(item: ScrapedItem): string {
+    return generateFingerprint({
+      mediaUrl: item.mediaUrl,
+      author: item.author,
+      timestamp: item.postedAt,
+      width: item.width,
+      height: item.height,
+    });
+  }
+
   /**
    * Validate an item meets our criteria
    */
@@ -359,22 +667,29 @@ export class IncrementalScanner {
   }
 
   /**
-   * Commit items to database using idempotent upsert
+   * Commit items to database using idempotent upsert, reporting progress on
+   * the run's event stream after each item. Items already stored only have
+   * their metadata refreshed and count as duplicates; with finishExisting
+   * their assets and pre-cache run again too (retrying an 'assets' failure).
    */
   private async commitItems(
+    runId: string | null,
     threadId: string,
     items: ScrapedItem[],
     scraperConfig?: Record<string, unknown>,
-  ): Promise<{ inserted: number; duplicates: number; failed: number }> {
+    options: { finishExisting?: boolean } = {},
+  ): Promise<{ inserted: number; duplicates: number; failed: number; failures: ItemFailure[] }> {
     if (items.length === 0) {
-      return { inserted: 0, duplicates: 0, failed: 0 };
+      return { inserted: 0, duplicates: 0, failed: 0, failures: [] };
     }
 
     let inserted = 0;
     let duplicates = 0;
     let failed = 0;
+    const failures: ItemFailure[] = [];
 
-    for (const item of items) {
+    for (const [index, item] of items.entries()) {
+      let stage: ItemFailureStage = 'dedup';
       try {
         // Check blocklist — skip items that were admin-deleted
         const blocked = await db.query.blockedMedia.findFirst({
@@ -388,8 +703,8 @@ export class IncrementalScanner {
           continue;
         }
 
-        // Duration cap: skip videos/GIFs longer than 30 seconds
-        const MAX_DURATION_MS = 30_000;
+        // Duration cap: skip videos/GIFs longer than 30 seconds (items without a
+        // duration are capped after probing, see applyItemProbe)
         if (
           (item.mediaType === 'video' || item.mediaType === 'gif') &&
           item.durationMs != null &&
@@ -414,11 +729,51 @@ export class IncrementalScanner {
           }
         }
 
+        // Perceptual near-duplicate check (new items only): reposts of the same
+        // media from other sources/users are kept but grouped under a canonical item
+        const sc = scraperConfig as { headers?: Record<string, string> } | undefined;
+        let phash: string | null = null;
+        let canonicalId: string | null = null;
+        let dedupKey: string | null = null;
+
+        const alreadyStored = await db.query.mediaItems.findFirst({
+          where: (m, { and, eq }) => and(
+            eq(m.threadId, threadId),
+            eq(m.externalItemId, item.externalId),
+          ),
+          columns: { id: true },
+        });
+
+        if (!alreadyStored) {
+          stage = 'hash';
+          phash = await hashMediaItem(
+            item,
+            (url) => isAllowedUrl(url)
+              ? safeFetchMedia(url, buildSourceHeaders(url, sc))
+              : Promise.reject(new Error('URL not in allowlist')),
+          );
+
+          if (phash) {
+            const match = await findNearDuplicate(phash, item.mediaType);
+            if (match) {
+              canonicalId = match.canonicalId ?? match.id;
+              dedupKey = match.dedupKey ?? match.fingerprint;
+              console.log(`[Scanner] Item ${item.externalId} is a cross-post of ${canonicalId} (distance ${match.distance})`);
+            }
+          }
+        }
+
+        const sourceMetrics = toSourceMetricColumns(item.sourceMetrics);
+
         // Insert media item (ON CONFLICT DO NOTHING for idempotency)
+        stage = 'insert';
         const result = await db.insert(mediaItems).values({
           threadId,
           externalItemId: item.externalId,
           fingerprint: item.fingerprint!,
+          phash,
+          canonicalId,
+          dedupKey,
           permalink: item.permalink,
           postedAt: item.postedAt,
           author: item.author,
@@ -437,20 +792,32 @@ export class IncrementalScanner {
           viewCount: 0,
           likeCount: 0,
           commentCount: 0,
+          ...sourceMetrics,
         }).onConflictDoUpdate({
           target: [mediaItems.threadId, mediaItems.externalItemId],
           set: {
-            // Update metadata on re-ingestion but don't overwrite user-generated counts
+            // Update metadata and upstream engagement on re-ingestion but don't overwrite user-generated counts
             title: item.title,
             caption: item.caption,
+            ...sourceMetrics,
           },
-        }).returning({ id: mediaItems.id });
+        }).returning({
+          id: mediaItems.id,
+          // xmax is only set on rows the conflict clause updated
+          isNew: sql<boolean>`(xmax = 0)`,
+        });
 
-        const insertedItem = result[0];
-        if (insertedItem) {
+        const upserted = result[0];
+        if (upserted?.isNew) {
           inserted++;
+        } else {
+          duplicates++;
+        }
 
+        const insertedItem = upserted?.isNew || options.finishExisting ? upserted : undefined;
+        if (insertedItem) {
           // Insert media assets if present
+          stage = 'assets';
           if (item.assets && item.assets.length > 0) {
             for (let i = 0; i < item.assets.length; i++) {
               const asset = item.assets[i];
@@ -468,28 +835,40 @@ export class IncrementalScanner {
             }
           }
 
-          // Pre-cache media to R2 CDN
-          if (isR2Enabled()) {
+          // Pre-cache media to storage
+          if (isStorageEnabled()) {
             try {
-              const sc = scraperConfig as { headers?: Record<string, string> } | undefined;
               const cdnUpdates: Record<string, string> = {};
-
-              // Download and upload original
+              const itemId = insertedItem.id;
+              const storePlaceholder = async (buffer: Buffer) => {
+                await storeItemPlaceholder(itemId, buffer);
+              };
+
+              // Download and upload original: probe it for missing size/duration (hiding
+              // it, unstored, if it turns out too long) and use it as the placeholder
+              // source for images without a thumbnail
+              let capped = false;
               if (item.mediaUrl && isAllowedUrl(item.mediaUrl)) {
                 const headers = buildSourceHeaders(item.mediaUrl, sc);
-                const cdnUrl = await downloadAndUploadToR2(
+                const cdnUrl = await downloadAndStoreMedia(
                   insertedItem.id, 'original', item.mediaUrl,
                   (url) => safeFetchMedia(url, headers),
+                  async (buffer, contentType) => {
+                    capped = (await applyItemProbe(itemId, await probeMedia(buffer, contentType))).capped;
+                    if (capped) return false;
+                    if (!item.thumbnailUrl && item.mediaType !== 'video') await storePlaceholder(buffer);
+                  },
                 );
                 if (cdnUrl) cdnUpdates.cdnOriginal = cdnUrl;
               }
 
-              // Download and upload thumbnail
-              if (item.thumbnailUrl && isAllowedUrl(item.thumbnailUrl)) {
+              // Download and upload thumbnail, deriving the placeholder from it
+              if (!capped && item.thumbnailUrl && isAllowedUrl(item.thumbnailUrl)) {
                 const headers = buildSourceHeaders(item.thumbnailUrl, sc);
-                const cdnUrl = await downloadAndUploadToR2(
+                const cdnUrl = await downloadAndStoreMedia(
                   insertedItem.id, 'thumb', item.thumbnailUrl,
                   (url) => safeFetchMedia(url, headers),
+                  storePlaceholder,
                 );
                 if (cdnUrl) cdnUpdates.cdnThumbnail = cdnUrl;
               }
@@ -501,20 +880,43 @@ export class IncrementalScanner {
                   .where(eq(mediaItems.id, insertedItem.id))
                   .execute();
               }
-            } catch (r2Err) {
-              console.warn(`[R2] Pre-cache failed for item ${insertedItem.id}:`, r2Err);
+
+              // Download and upload each gallery asset
+              if (!capped && item.assets && item.assets.length > 0) {
+                await cacheItemAssets(insertedItem.id, sc);
+              }
+            } catch (storageErr) {
+              console.warn(`[Storage] Pre-cache failed for item ${insertedItem.id}:`, storageErr);
             }
           }
-        } else {
-          duplicates++;
         }
       } catch (error) {
         failed++;
-        console.error('Failed to insert item:', item.externalId, error);
+        failures.push({
+          externalId: item.externalId,
+          stage,
+          error: error instanceof Error ? error.message : String(error),
+          failedAt: new Date().toISOString(),
+          item: JSON.parse(JSON.stringify(item)) as Record<string, unknown>,
+        });
+        console.error(`Failed to insert item (${stage}):`, item.externalId, error);
+      } finally {
+        if (runId) {
+          publishIngestEvent({
+            type: 'items_committed',
+            runId,
+            threadId,
+            processed: index + 1,
+            total: items.length,
+            itemsNew: inserted,
+            itemsDuplicate: duplicates,
+            itemsFailed: failed,
+          });
+        }
       }
     }
 
-    return { inserted, duplicates, failed };
+    return { inserted, duplicates, failed, failures };
   }
 
   /**
@@ -554,6 +956,10 @@ export class IncrementalScanner {
       ? await checkpointManager.loadCheckpoint(checkpointBefore.threadId)
       : null;
 
+    const errorDetails: RunErrorDetails | undefined = result.failures?.length
+      ? { failures: result.failures, retries: 0, lastRetryAt: null }
+      : undefined;
+
     await db.update(ingestRuns)
       .set({
         finishedAt: new Date(),
@@ -564,10 +970,23 @@ export class IncrementalScanner {
         itemsDuplicate: result.itemsDuplicate,
         itemsFailed: result.itemsFailed,
         errorSummary: result.error,
+        errorDetails,
         checkpointBefore: checkpointBefore,
         checkpointAfter: checkpointAfter,
       })
       .where(eq(ingestRuns.id, runId));
+
+    publishIngestEvent({
+      type: 'run_finished',
+      runId,
+      status: result.status,
+      pagesScanned: result.pagesScanned,
+      itemsFound: result.itemsFound,
+      itemsNew: result.itemsNew,
+      itemsDuplicate: result.itemsDuplicate,
+      itemsFailed: result.itemsFailed,
+      error: result.error ?? null,
+    });
   }
 }
 
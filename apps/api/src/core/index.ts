@@ -1,3 +1,6 @@
 export * from './checkpoint-manager.js';
 export * from './deduplication.js';
 export * from './incremental-scanner.js';
+export * from './poll-schedule.js';
+export * from './scrape-preview.js';
+export * from './link-health.js';
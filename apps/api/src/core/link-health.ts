@@ -0,0 +1,264 @@
+import { eq, sql } from 'drizzle-orm';
+import { mediaItems, sources, threads } from '@aggragif/db/schema';
+import { db } from '../lib/db.js';
+import { config } from '../config/index.js';
+import { buildSourceHeaders, isAllowedUrl, safeFetchMedia } from '../lib/media-fetcher.js';
+import { getAdapter, type BaseAdapter, type ItemStatus } from '../adapters/index.js';
+import { getRateLimiter, fromRequestsPerMinute } from '../resilience/rate-limiter.js';
+
+/**
+ * Link health
+ *
+ * Samples visible items and checks that their media still loads and that the
+ * post still exists at the source. A dead result is only acted on once it
+ * repeats HEALTH_CONFIRMATIONS times in a row (suspect items are re-checked
+ * sooner), then the item is hidden with a reason admins can filter and restore
+ * from. Inconclusive results (timeouts, 403s, 5xx) never count against an item.
+ */
+
+export type HealthStatus = 'ok' | 'suspect' | 'dead' | 'removed' | 'unknown' | 'restored';
+
+/** hiddenReason values set by the link health job */
+export const LINK_DEAD_REASON = 'link_dead';
+export const UPSTREAM_REMOVED_REASON = 'upstream_removed';
+
+/** Consecutive dead results before an item is hidden */
+const HEALTH_CONFIRMATIONS = 2;
+
+/** How soon a suspect item is checked again */
+const SUSPECT_RECHECK_MS = 60 * 60 * 1000;
+
+const CHECK_TIMEOUT_MS = 15000;
+
+type MediaState = 'ok' | 'dead' | 'unknown';
+
+export interface LinkHealthSummary {
+  checked: number;
+  ok: number;
+  suspect: number;
+  hidden: number;
+  unknown: number;
+}
+
+type SampledItem = {
+  id: string;
+  threadId: string;
+  externalItemId: string;
+  permalink: string;
+  mediaUrls: unknown;
+  healthFailures: number;
+};
+
+/**
+ * Check a media URL, preferring HEAD and falling back to a GET for hosts that
+ * don't support it. Only 404/410 count as dead.
+ */
+export async function checkMediaUrl(
+  url: string,
+  headers: Record<string, string>,
+): Promise<{ state: MediaState; detail: string }> {
+  if (!isAllowedUrl(url)) {
+    return { state: 'unknown', detail: 'media host not in allowlist' };
+  }
+
+  try {
+    let res = await safeFetchMedia(url, headers, AbortSignal.timeout(CHECK_TIMEOUT_MS), 'HEAD');
+    if (res.status === 405 || res.status === 501) {
+      res = await safeFetchMedia(url, headers, AbortSignal.timeout(CHECK_TIMEOUT_MS));
+    }
+    await res.body?.cancel();
+
+    if (res.status === 404 || res.status === 410) {
+      return { state: 'dead', detail: `media HTTP ${res.status}` };
+    }
+    return res.ok
+      ? { state: 'ok', detail: `media HTTP ${res.status}` }
+      : { state: 'unknown', detail: `media HTTP ${res.status}` };
+  } catch (error) {
+    return { state: 'unknown', detail: `media ${error instanceof Error ? error.message : 'request failed'}` };
+  }
+}
+
+async function checkUpstream(adapter: BaseAdapter | null, item: SampledItem): Promise<{ state: ItemStatus; detail: string }> {
+  if (!adapter) {
+    return { state: 'unknown', detail: 'no adapter' };
+  }
+  try {
+    const state = await adapter.checkItemStatus({ externalId: item.externalItemId, permalink: item.permalink });
+    return { state, detail: `post ${state}` };
+  } catch (error) {
+    return { state: 'unknown', detail: `post ${error instanceof Error ? error.message : 'check failed'}` };
+  }
+}
+
+function buildAdapter(
+  thread: typeof threads.$inferSelect,
+  source: typeof sources.$inferSelect,
+): BaseAdapter | null {
+  const rateLimit = source.rateLimitConfig as { requestsPerMinute: number; burstSize?: number; crawlDelay?: number };
+  try {
+    const adapter = getAdapter(source.mode, {
+      sourceId: source.id,
+      threadId: thread.id,
+      baseUrl: source.baseUrl,
+      threadUrl: thread.url,
+      externalId: thread.externalId,
+      rateLimit,
+      userAgent: source.userAgent ?? undefined,
+      extra: source.scraperConfig as Record<string, unknown> | undefined,
+    });
+    // Share the source's token bucket so checks don't add to ingestion's request rate
+    adapter?.setRateLimiter(getRateLimiter(source.id, fromRequestsPerMinute(
+      rateLimit.requestsPerMinute,
+      rateLimit.burstSize,
+    )));
+    return adapter;
+  } catch (error) {
+    console.warn(`[LinkHealth] Could not build adapter for thread ${thread.id}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Check one item and record the result, hiding it once a dead result is confirmed
+ */
+async function checkItem(
+  item: SampledItem,
+  adapter: BaseAdapter | null,
+  scraperConfig: { headers?: Record<string, string> } | null,
+): Promise<HealthStatus> {
+  const urls = item.mediaUrls as { original: string; cdnOriginal?: string };
+
+  // Media cached to storage keeps playing after the original disappears
+  const media = urls.cdnOriginal
+    ? { state: 'ok' as const, detail: 'cached' }
+    : await checkMediaUrl(urls.original, buildSourceHeaders(urls.original, scraperConfig));
+  const upstream = await checkUpstream(adapter, item);
+
+  const now = new Date();
+  const failing = upstream.state === 'removed' ? 'removed' : media.state === 'dead' ? 'dead' : null;
+
+  if (failing) {
+    const failures = item.healthFailures + 1;
+    const confirmed = failures >= HEALTH_CONFIRMATIONS;
+    const status: HealthStatus = confirmed ? failing : 'suspect';
+
+    await db.update(mediaItems)
+      .set({
+        healthStatus: status,
+        healthDetail: (failing === 'removed' ? upstream.detail : media.detail).slice(0, 255),
+        healthFailures: failures,
+        healthCheckedAt: now,
+        ...(confirmed ? {
+          isHidden: true,
+          hiddenReason: failing === 'removed' ? UPSTREAM_REMOVED_REASON : LINK_DEAD_REASON,
+          hiddenAt: now,
+        } : {}),
+      })
+      .where(eq(mediaItems.id, item.id));
+
+    if (confirmed) {
+      console.log(`[LinkHealth] Hid item ${item.id} (${status}: ${failing === 'removed' ? upstream.detail : media.detail})`);
+    }
+    return status;
+  }
+
+  const healthy = media.state === 'ok' || upstream.state === 'live';
+  const status: HealthStatus = healthy ? 'ok' : 'unknown';
+
+  await db.update(mediaItems)
+    .set({
+      healthStatus: status,
+      healthDetail: `${media.detail}; ${upstream.detail}`.slice(0, 255),
+      // An inconclusive result neither confirms nor clears a suspect item
+      healthFailures: healthy ? 0 : item.healthFailures,
+      healthCheckedAt: now,
+    })
+    .where(eq(mediaItems.id, item.id));
+
+  return status;
+}
+
+/**
+ * Check the next batch of due items: never-checked items and suspects first,
+ * then those whose last check is older than LINK_HEALTH_RECHECK_MS
+ */
+export async function runLinkHealthBatch(limit = config.LINK_HEALTH_BATCH_SIZE): Promise<LinkHealthSummary> {
+  const now = Date.now();
+  const recheckBefore = new Date(now - config.LINK_HEALTH_RECHECK_MS);
+  const suspectRecheckBefore = new Date(now - SUSPECT_RECHECK_MS);
+
+  const items = await db.query.mediaItems.findMany({
+    where: (m, { and, eq, isNull, lt, ne, or }) => and(
+      eq(m.isHidden, false),
+      isNull(m.deletedAt),
+      or(isNull(m.healthStatus), ne(m.healthStatus, 'restored')),
+      or(
+        isNull(m.healthCheckedAt),
+        and(eq(m.healthStatus, 'suspect'), lt(m.healthCheckedAt, suspectRecheckBefore)),
+        lt(m.healthCheckedAt, recheckBefore),
+      ),
+    ),
+    columns: {
+      id: true,
+      threadId: true,
+      externalItemId: true,
+      permalink: true,
+      mediaUrls: true,
+      healthFailures: true,
+    },
+    with: {
+      thread: { with: { source: true } },
+    },
+    orderBy: (m) => [
+      sql`CASE WHEN ${m.healthStatus} = 'suspect' THEN 0 ELSE 1 END`,
+      sql`${m.healthCheckedAt} ASC NULLS FIRST`,
+    ],
+    limit,
+  });
+
+  const summary: LinkHealthSummary = { checked: 0, ok: 0, suspect: 0, hidden: 0, unknown: 0 };
+  const adapters = new Map<string, BaseAdapter | null>();
+
+  for (const item of items) {
+    const { thread } = item;
+    if (!adapters.has(item.threadId)) {
+      adapters.set(item.threadId, thread?.source ? buildAdapter(thread, thread.source) : null);
+    }
+
+    try {
+      const status = await checkItem(
+        item,
+        adapters.get(item.threadId) ?? null,
+        thread?.source?.scraperConfig as { headers?: Record<string, string> } | null,
+      );
+      summary.checked++;
+      if (status === 'ok') summary.ok++;
+      else if (status === 'suspect') summary.suspect++;
+      else if (status === 'dead' || status === 'removed') summary.hidden++;
+      else summary.unknown++;
+    } catch (error) {
+      console.error(`[LinkHealth] Check failed for item ${item.id}:`, error);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Undo an automatic hide. The item is marked 'restored' and left out of future
+ * checks, so an admin's decision isn't overturned by the next batch.
+ */
+export async function restoreLinkHealth(itemId: string): Promise<void> {
+  await db.update(mediaItems)
+    .set({
+      isHidden: false,
+      hiddenReason: null,
+      hiddenAt: null,
+      hiddenBy: null,
+      healthStatus: 'restored',
+      healthFailures: 0,
+      healthCheckedAt: new Date(),
+    })
+    .where(eq(mediaItems.id, itemId));
+}
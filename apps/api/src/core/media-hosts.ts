@@ -0,0 +1,133 @@
+import { isNull } from 'drizzle-orm';
+import { sources, mediaHosts } from '@aggragif/db/schema';
+import { db } from '../lib/db.js';
+import { config } from '../config/index.js';
+import { normalizeMediaHost, setAllowedMediaHosts } from '../lib/media-fetcher.js';
+import { getAdapterMediaHosts } from '../adapters/index.js';
+
+/**
+ * Media host allowlist
+ *
+ * Media is only fetched from hosts a source vouches for: its baseUrl host,
+ * the CDNs its adapter serves from and scraperConfig.mediaHosts, plus the
+ * global extras admins keep in media_hosts. The combined list is loaded into
+ * lib/media-fetcher at startup, reloaded after admin edits and periodically
+ * so other instances pick those up.
+ */
+
+let refreshTimer: NodeJS.Timeout | null = null;
+
+/**
+ * The hosts media-fetcher allowed before the list moved to the database.
+ * Sources that link to them (forum threads embedding redgifs or imgur media,
+ * say) would otherwise stop loading media after the upgrade.
+ */
+const LEGACY_MEDIA_HOSTS = [
+  'jpg6.su',
+  'jpg7.cr',
+  'simp4.selti-delivery.ru',
+  'simp5.selti-delivery.ru',
+  'simp6.selti-delivery.ru',
+  'abwcandyshop.com',
+  'r2.cloudflarestorage.com',
+  'redgifs.com',
+  'media.redgifs.com',
+  'thumbs4.redgifs.com',
+  'thumbs44.redgifs.com',
+  'i.redd.it',
+  'i.imgur.com',
+  'preview.redd.it',
+  'v.redd.it',
+  'imagetwist.com',
+  'imgbox.com',
+  'www.imagebam.com',
+];
+
+/**
+ * The hosts a source allows media from
+ */
+export function sourceMediaHosts(source: { baseUrl: string; mode: string; scraperConfig: unknown }): string[] {
+  const scraperConfig = source.scraperConfig as { mediaHosts?: unknown } | null;
+  const configured = Array.isArray(scraperConfig?.mediaHosts) ? scraperConfig.mediaHosts : [];
+
+  const hosts = [source.baseUrl, ...getAdapterMediaHosts(source.mode), ...configured]
+    .filter((host): host is string => typeof host === 'string')
+    .map(normalizeMediaHost)
+    .filter((host): host is string => host !== null);
+
+  return [...new Set(hosts)];
+}
+
+/**
+ * Seed media_hosts with LEGACY_MEDIA_HOSTS while it is empty, so an admin
+ * removing seeded hosts later doesn't see them come back on the next start.
+ * Returns the number of hosts added.
+ */
+export async function seedMediaHosts(): Promise<number> {
+  const existing = await db.select({ id: mediaHosts.id }).from(mediaHosts).limit(1);
+  if (existing.length > 0) return 0;
+
+  // Instances starting together may both get here; the unique host keeps one row each
+  const inserted = await db.insert(mediaHosts)
+    .values(LEGACY_MEDIA_HOSTS.map(host => ({ host, note: 'Previously built-in host' })))
+    .onConflictDoNothing({ target: mediaHosts.host })
+    .returning({ id: mediaHosts.id });
+  return inserted.length;
+}
+
+/**
+ * Reload the allowlist from the database. Returns the number of hosts.
+ */
+export async function refreshMediaHosts(): Promise<number> {
+  const [sourceRows, extraRows] = await Promise.all([
+    db.select({ baseUrl: sources.baseUrl, mode: sources.mode, scraperConfig: sources.scraperConfig })
+      .from(sources)
+      .where(isNull(sources.deletedAt)),
+    db.select({ host: mediaHosts.host }).from(mediaHosts),
+  ]);
+
+  const hosts = new Set<string>();
+  for (const source of sourceRows) {
+    for (const host of sourceMediaHosts(source)) hosts.add(host);
+  }
+  for (const { host } of extraRows) hosts.add(host);
+
+  setAllowedMediaHosts(hosts);
+  return hosts.size;
+}
+
+/**
+ * Load the allowlist and keep it fresh.
+ */
+export async function startMediaHostRefresh(): Promise<void> {
+  if (refreshTimer) return;
+
+  try {
+    const seeded = await seedMediaHosts();
+    if (seeded > 0) console.log(`[MediaHosts] Seeded ${seeded} previously built-in hosts`);
+  } catch (err) {
+    console.error('[MediaHosts] Seeding failed:', err);
+  }
+
+  try {
+    const count = await refreshMediaHosts();
+    console.log(`[MediaHosts] Allowing media from ${count} hosts`);
+  } catch (err) {
+    console.error('[MediaHosts] Initial load failed, no media hosts allowed until the next refresh:', err);
+  }
+
+  refreshTimer = setInterval(() => {
+    refreshMediaHosts().catch((err) => console.error('[MediaHosts] Refresh failed:', err));
+  }, config.MEDIA_HOSTS_REFRESH_MS);
+  refreshTimer.unref();
+}
+
+/**
+ * Stop the refresh loop.
+ */
+export function stopMediaHostRefresh(): void {
+  if (refreshTimer) {
+    clearInterval(refreshTimer);
+    refreshTimer = null;
+  }
+}
@@ -0,0 +1,172 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import sharp from 'sharp';
+import { and, eq, sql } from 'drizzle-orm';
+import { mediaItems } from '@aggragif/db/schema';
+import { db } from '../lib/db.js';
+import { config } from '../config/index.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Media probing
+ *
+ * Many adapters can't tell an item's size or duration. Downloaded media is
+ * probed before it is cached: the MIME type is sniffed from the leading bytes,
+ * images (and GIF frame delays) are read from their headers by sharp, and
+ * videos go through ffprobe. Probed values only fill fields the adapter left
+ * empty.
+ */
+
+/** Videos and GIFs longer than this are not ingested */
+export const MAX_DURATION_MS = 30_000;
+
+/** Hidden reason for items whose probed duration exceeds MAX_DURATION_MS */
+export const DURATION_CAP_REASON = 'duration_cap';
+
+/** ffprobe only reads headers; anything slower than this is a broken file */
+const FFPROBE_TIMEOUT_MS = 30000;
+
+/** Browsers play GIF frame delays of 10ms or less at 100ms */
+const MIN_GIF_DELAY_MS = 20;
+const DEFAULT_GIF_DELAY_MS = 100;
+
+export interface MediaProbe {
+  mimeType: string | null;
+  width: number | null;
+  height: number | null;
+  durationMs: number | null;
+  sizeBytes: number;
+}
+
+/**
+ * Identify common image and video formats from their magic bytes
+ */
+export function sniffMimeType(buffer: Buffer): string | null {
+  const ascii = (start: number, end: number) => buffer.subarray(start, end).toString('latin1');
+
+  if (ascii(0, 4) === 'GIF8') return 'image/gif';
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return 'image/jpeg';
+  if (ascii(1, 4) === 'PNG') return 'image/png';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12);
+    if (brand === 'avif' || brand === 'avis') return 'image/avif';
+    if (brand.startsWith('qt')) return 'video/quicktime';
+    return 'video/mp4';
+  }
+  if (buffer.length >= 4 && buffer.readUInt32BE(0) === 0x1a45dfa3) return 'video/webm';
+  return null;
+}
+
+async function probeImage(buffer: Buffer): Promise<Pick<MediaProbe, 'width' | 'height' | 'durationMs'>> {
+  // Without the pages option sharp reports the size of a single frame
+  const meta = await sharp(buffer).metadata();
+
+  let durationMs: number | null = null;
+  if (meta.format === 'gif' && meta.delay && (meta.pages ?? 1) > 1) {
+    durationMs = meta.delay.reduce(
+      (total, delay) => total + (delay < MIN_GIF_DELAY_MS ? DEFAULT_GIF_DELAY_MS : delay),
+      0,
+    );
+  }
+
+  return { width: meta.width ?? null, height: meta.height ?? null, durationMs };
+}
+
+interface FfprobeOutput {
+  streams?: Array<{ codec_type?: string; width?: number; height?: number; duration?: string }>;
+  format?: { duration?: string };
+}
+
+async function probeVideo(buffer: Buffer): Promise<Pick<MediaProbe, 'width' | 'height' | 'durationMs'>> {
+  // MP4s may keep their index at the end, so ffprobe needs a seekable file rather than stdin
+  const workDir = await mkdtemp(join(tmpdir(), 'probe-'));
+  try {
+    const input = join(workDir, 'media');
+    await writeFile(input, buffer);
+
+    const { stdout } = await execFileAsync(config.FFPROBE_PATH, [
+      '-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', input,
+    ], { timeout: FFPROBE_TIMEOUT_MS, maxBuffer: 1024 * 1024 });
+
+    const output = JSON.parse(stdout) as FfprobeOutput;
+    const video = output.streams?.find(s => s.codec_type === 'video');
+    const seconds = Number(output.format?.duration ?? video?.duration);
+
+    return {
+      width: video?.width ?? null,
+      height: video?.height ?? null,
+      durationMs: Number.isFinite(seconds) && seconds > 0 ? Math.round(seconds * 1000) : null,
+    };
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Probe downloaded media. Never throws: fields that can't be determined
+ * (unknown format, ffprobe missing or failing) come back null.
+ */
+export async function probeMedia(buffer: Buffer, contentType?: string): Promise<MediaProbe> {
+  const mimeType = sniffMimeType(buffer) ?? contentType?.split(';')[0]?.trim() ?? null;
+  const probe: MediaProbe = { mimeType, width: null, height: null, durationMs: null, sizeBytes: buffer.length };
+
+  try {
+    if (mimeType?.startsWith('video/')) {
+      Object.assign(probe, await probeVideo(buffer));
+    } else if (mimeType?.startsWith('image/')) {
+      Object.assign(probe, await probeImage(buffer));
+    }
+  } catch (error) {
+    console.warn(`[Probe] Could not probe ${mimeType ?? 'unknown'} media:`, (error as Error).message);
+  }
+
+  return probe;
+}
+
+/**
+ * Fill an item's missing dimensions and duration from a probe of its original,
+ * then apply the duration cap the adapter couldn't: videos and GIFs that turn
+ * out longer than MAX_DURATION_MS are hidden. Returns whether it is capped
+ * (now or by an earlier probe).
+ */
+export async function applyItemProbe(itemId: string, probe: MediaProbe): Promise<{ capped: boolean }> {
+  const [item] = await db.update(mediaItems)
+    .set({
+      width: sql`COALESCE(${mediaItems.width}, ${probe.width})`,
+      height: sql`COALESCE(${mediaItems.height}, ${probe.height})`,
+      durationMs: sql`COALESCE(${mediaItems.durationMs}, ${probe.durationMs})`,
+    })
+    .where(eq(mediaItems.id, itemId))
+    .returning({
+      mediaType: mediaItems.mediaType,
+      durationMs: mediaItems.durationMs,
+      isHidden: mediaItems.isHidden,
+      hiddenReason: mediaItems.hiddenReason,
+    });
+
+  if (item?.isHidden && item.hiddenReason === DURATION_CAP_REASON) {
+    return { capped: true };
+  }
+  if (
+    !item ||
+    item.isHidden ||
+    (item.mediaType !== 'video' && item.mediaType !== 'gif') ||
+    item.durationMs == null ||
+    item.durationMs <= MAX_DURATION_MS
+  ) {
+    return { capped: false };
+  }
+
+  await db.update(mediaItems)
+    .set({ isHidden: true, hiddenReason: DURATION_CAP_REASON, hiddenAt: new Date() })
+    .where(and(eq(mediaItems.id, itemId), eq(mediaItems.isHidden, false)));
+  console.log(`[Probe] Hiding item ${itemId} (probed duration ${item.durationMs}ms exceeds 30s cap)`);
+
+  return { capped: true };
+}
+
@@ -0,0 +1,81 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+
+// perceptual-hash pulls in the db client, which needs a valid config to load
+process.env.DATABASE_URL ??= 'postgres://test@localhost/test';
+process.env.REDIS_URL ??= 'redis://localhost:6379';
+process.env.JWT_SECRET ??= 'test-secret-at-least-thirty-two-characters';
+process.env.FRONTEND_URL ??= 'http://localhost:3000';
+
+const { computeDHash, hashMediaItem, isDegenerateHash } = await import('./perceptual-hash.js');
+
+function flatImage(colour: string): Promise<Buffer> {
+  return sharp({ create: { width: 64, height: 48, channels: 3, background: colour } }).png().toBuffer();
+}
+
+/** A deterministic pattern with plenty of horizontal edges */
+function patternImage(seed: number): Promise<Buffer> {
+  const width = 64;
+  const height = 48;
+  const pixels = Buffer.alloc(width * height);
+  for (let i = 0; i < pixels.length; i++) {
+    pixels[i] = ((i * 7919 + seed * 104729) % 251) & 0xff;
+  }
+  return sharp(pixels, { raw: { width, height, channels: 1 } }).png().toBuffer();
+}
+
+function serve(body: Buffer): (url: string) => Promise<Response> {
+  return async () => new Response(body, { headers: { 'content-type': 'image/png' } });
+}
+
+describe('perceptual hash', () => {
+  let black: Buffer;
+  let white: Buffer;
+
+  before(async () => {
+    black = await flatImage('#000000');
+    white = await flatImage('#ffffff');
+  });
+
+  it('does not hash flat images, so different ones are never grouped', async () => {
+    const item = { mediaType: 'image', mediaUrl: 'https://media.example/a.png' };
+
+    assert.equal(await computeDHash(black), null);
+    assert.equal(await computeDHash(white), null);
+    assert.equal(await hashMediaItem(item, serve(black)), null);
+    assert.equal(await hashMediaItem(item, serve(white)), null);
+  });
+
+  it('stops downloading a body without a length once it passes the cap', async () => {
+    let pulled = 0;
+    const endless = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled += 1024 * 1024;
+        controller.enqueue(new Uint8Array(1024 * 1024));
+      },
+    });
+    const item = { mediaType: 'image', mediaUrl: 'https://media.example/huge.png' };
+
+    const hash = await hashMediaItem(item, async () => new Response(endless));
+
+    assert.equal(hash, null);
+    assert.ok(pulled < 64 * 1024 * 1024, `read ${pulled} bytes`);
+  });
+
+  it('hashes detailed images', async () => {
+    const hash = await computeDHash(await patternImage(1));
+
+    assert.ok(hash);
+    assert.match(hash, /^[0-9a-f]{16}$/);
+    assert.equal(isDegenerateHash(hash), false);
+  });
+
+  it('treats near-uniform hashes as degenerate', () => {
+    assert.equal(isDegenerateHash('0000000000000000'), true);
+    assert.equal(isDegenerateHash('ffffffffffffffff'), true);
+    assert.equal(isDegenerateHash('0000000000000101'), true);
+    assert.equal(isDegenerateHash('fffffffffffffefe'), true);
+    assert.equal(isDegenerateHash('0f0f0f0f0f0f0f0f'), false);
+  });
+});
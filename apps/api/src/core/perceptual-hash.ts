@@ -0,0 +1,269 @@
+import { spawn } from 'child_process';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import sharp from 'sharp';
+import { sql } from 'drizzle-orm';
+import { db } from '../lib/db.js';
+import { config } from '../config/index.js';
+
+/**
+ * Perceptual hashing for near-duplicate detection
+ *
+ * The URL/author fingerprint in deduplication.ts misses reposts: the same GIF
+ * uploaded to two sites by two users has different URLs, authors and times.
+ * A dHash of the thumbnail (or first video frame) survives re-encoding,
+ * resizing and light compression, so reposts land within a few bits of each other.
+ */
+
+/** Max Hamming distance (out of 64 bits) for two hashes to count as the same media */
+export const PHASH_MATCH_DISTANCE = 6;
+
+/** Give up on first-frame extraction after this long */
+const FRAME_EXTRACT_TIMEOUT_MS = 15_000;
+
+/** Videos larger than this are not downloaded just to hash their first frame */
+const MAX_FRAME_SOURCE_BYTES = 64 * 1024 * 1024;
+
+/** Thumbnails and images larger than this are not hashed */
+const MAX_IMAGE_SOURCE_BYTES = 16 * 1024 * 1024;
+
+/**
+ * Hashes with fewer set (or unset) bits than this carry too little of the
+ * picture to compare: blank thumbnails, solid colours, black first frames and
+ * plain gradients all hash near 0000000000000000 or ffffffffffffffff, and
+ * would group unrelated items.
+ */
+const MIN_HASH_BITS = 8;
+
+/** Shrunk images whose brightest and darkest pixels are closer than this are flat */
+const MIN_PIXEL_RANGE = 8;
+
+/**
+ * Whether a hash is too uniform to identify an image (see MIN_HASH_BITS)
+ */
+export function isDegenerateHash(phash: string): boolean {
+  let bits = 0;
+  for (const digit of phash) {
+    let nibble = parseInt(digit, 16);
+    for (; nibble > 0; nibble >>= 1) bits += nibble & 1;
+  }
+  return bits < MIN_HASH_BITS || bits > 64 - MIN_HASH_BITS;
+}
+
+/**
+ * Compute a 64-bit difference hash (dHash) of an image.
+ * The image is shrunk to 9x8 greyscale and each bit records whether a pixel
+ * is darker than its right-hand neighbour.
+ *
+ * @returns 16-character hex string, or null for images too flat to tell
+ * apart (see MIN_PIXEL_RANGE and isDegenerateHash)
+ */
+export async function computeDHash(image: Buffer): Promise<string | null> {
+  const pixels = await sharp(image, { animated: false })
+    .flatten({ background: '#ffffff' })
+    .greyscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  // Near-flat images hash to their compression noise
+  if (Math.max(...pixels) - Math.min(...pixels) < MIN_PIXEL_RANGE) return null;
+
+  let hex = '';
+  for (let row = 0; row < 8; row++) {
+    let nibble = 0;
+    for (let col = 0; col < 8; col++) {
+      const left = pixels[row * 9 + col] ?? 0;
+      const right = pixels[row * 9 + col + 1] ?? 0;
+      nibble = (nibble << 1) | (left < right ? 1 : 0);
+      if (col % 4 === 3) {
+        hex += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return isDegenerateHash(hex) ? null : hex;
+}
+
+/**
+ * Grab the first frame of a downloaded video as PNG using ffmpeg.
+ * ffmpeg only ever reads the local copy: it is never handed a URL, so it can't
+ * be pointed at internal hosts or other local files.
+ * Returns null if ffmpeg isn't installed or the frame can't be read.
+ */
+export async function extractFirstFrame(video: Buffer): Promise<Buffer | null> {
+  // MP4s may keep their index at the end, so ffmpeg needs a seekable file rather than stdin
+  const workDir = await mkdtemp(join(tmpdir(), 'frame-'));
+  try {
+    const input = join(workDir, 'media');
+    await writeFile(input, video);
+    return await runFrameExtract(input);
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+function runFrameExtract(input: string): Promise<Buffer | null> {
+  return new Promise((resolve) => {
+    const args = [
+      '-v', 'error',
+      '-protocol_whitelist', 'file',
+      '-i', input,
+      '-frames:v', '1',
+      '-f', 'image2pipe',
+      '-vcodec', 'png',
+      'pipe:1',
+    ];
+
+    const proc = spawn(config.FFMPEG_PATH, args, { stdio: ['ignore', 'pipe', 'ignore'] });
+    const chunks: Buffer[] = [];
+    let settled = false;
+
+    const finish = (result: Buffer | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      resolve(result);
+    };
+
+    const timer = setTimeout(() => {
+      proc.kill('SIGKILL');
+      finish(null);
+    }, FRAME_EXTRACT_TIMEOUT_MS);
+
+    proc.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+    proc.on('error', () => finish(null)); // ffmpeg not installed
+    proc.on('close', (code) => {
+      finish(code === 0 && chunks.length > 0 ? Buffer.concat(chunks) : null);
+    });
+  });
+}
+
+/**
+ * Read a response body, giving up (and cancelling the download) as soon as it
+ * passes maxBytes, whether or not the source declared its length
+ */
+async function readCapped(res: Response, maxBytes: number): Promise<Buffer | null> {
+  if (Number(res.headers.get('content-length')) > maxBytes || !res.body) {
+    await res.body?.cancel();
+    return null;
+  }
+
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Perceptual hash for a scraped item: the thumbnail when there is one,
+ * otherwise the image itself or the first frame of the video.
+ * Every download goes through fetchMedia, which is expected to enforce the
+ * media host allowlist and private-address guard.
+ * Returns null when nothing could be fetched or decoded.
+ */
+export async function hashMediaItem(
+  item: { mediaType: string; mediaUrl: string; thumbnailUrl?: string },
+  fetchMedia: (url: string) => Promise<Response>,
+): Promise<string | null> {
+  try {
+    const imageUrl = item.thumbnailUrl || (item.mediaType === 'video' ? null : item.mediaUrl);
+    const res = await fetchMedia(imageUrl ?? item.mediaUrl);
+    if (!res.ok) {
+      await res.body?.cancel();
+      return null;
+    }
+
+    const contentType = res.headers.get('content-type') || '';
+    if (contentType.includes('text/html')) {
+      await res.body?.cancel();
+      return null;
+    }
+
+    const body = await readCapped(res, imageUrl ? MAX_IMAGE_SOURCE_BYTES : MAX_FRAME_SOURCE_BYTES);
+    if (!body) return null;
+    if (imageUrl) return await computeDHash(body);
+
+    const frame = await extractFirstFrame(body);
+    return frame ? await computeDHash(frame) : null;
+  } catch {
+    return null;
+  }
+}
+
+export interface NearDuplicate {
+  id: string;
+  canonicalId: string | null;
+  fingerprint: string;
+  dedupKey: string | null;
+  distance: number;
+}
+
+/**
+ * The tagged 8-bit bands of a hash, matching the generated phash_bands column
+ */
+export function phashBands(phash: string): string[] {
+  const bands: string[] = [];
+  for (let i = 0; i < 8; i++) {
+    bands.push(`${i}:${phash.slice(i * 2, i * 2 + 2)}`);
+  }
+  return bands;
+}
+
+/**
+ * Find the closest existing item within PHASH_MATCH_DISTANCE of a hash.
+ * Any such hash differs in at most 6 of the 8 bands, so candidates sharing a
+ * band are fetched through the phash_bands GIN index and only those are
+ * compared. The Hamming distance counts the 1s in the XOR of the two 64-bit
+ * values as text, which (unlike bit_count) works before Postgres 14.
+ * Degenerate hashes never match, including ones stored before they were rejected.
+ */
+export async function findNearDuplicate(phash: string, mediaType: string): Promise<NearDuplicate | null> {
+  if (isDegenerateHash(phash)) return null;
+
+  const bands = sql.join(phashBands(phash).map(band => sql`${band}`), sql`, `);
+  const result = await db.execute(sql`
+    SELECT id, canonical_id, fingerprint, dedup_key, distance FROM (
+      SELECT id, canonical_id, fingerprint, dedup_key, created_at,
+        length(replace((('x' || phash)::bit(64) # ('x' || ${phash})::bit(64))::text, '0', '')) AS distance,
+        length(replace(('x' || phash)::bit(64)::text, '0', '')) AS bits
+      FROM media_items
+      WHERE phash_bands && ARRAY[${bands}]::text[]
+        AND deleted_at IS NULL
+        AND media_type = ${mediaType}
+    ) candidates
+    WHERE distance <= ${PHASH_MATCH_DISTANCE}
+      AND bits BETWEEN ${MIN_HASH_BITS} AND ${64 - MIN_HASH_BITS}
+    ORDER BY distance ASC, created_at ASC
+    LIMIT 1
+  `);
+
+  const row = result.rows[0] as {
+    id: string;
+    canonical_id: string | null;
+    fingerprint: string;
+    dedup_key: string | null;
+    distance: number | string;
+  } | undefined;
+
+  if (!row) return null;
+
+  return {
+    id: row.id,
+    canonicalId: row.canonical_id,
+    fingerprint: row.fingerprint,
+    dedupKey: row.dedup_key,
+    distance: Number(row.distance),
+  };
+}
@@ -0,0 +1,78 @@
+import sharp from 'sharp';
+import { encode } from 'blurhash';
+import { eq } from 'drizzle-orm';
+import { mediaItems } from '@aggragif/db/schema';
+import { db } from '../lib/db.js';
+
+/**
+ * Loading placeholders
+ *
+ * A blurhash (a ~30 character string that decodes to a blurred preview) and a
+ * dominant color are computed from the thumbnail when it is downloaded for
+ * caching. Clients paint them while the real thumbnail loads.
+ */
+
+/** Longest side of the image fed to the encoder; blurhash only keeps low frequencies */
+const ENCODE_SIZE = 32;
+
+/** Components along the longer side; the shorter side gets fewer to match the aspect */
+const MAX_COMPONENTS = 4;
+
+export interface Placeholder {
+  blurhash: string;
+  /** '#rrggbb' */
+  dominantColor: string;
+}
+
+function toHex(value: number): string {
+  return Math.round(value).toString(16).padStart(2, '0');
+}
+
+/**
+ * Compute the blurhash and dominant color of an image.
+ * Returns null if the image can't be decoded.
+ */
+export async function computePlaceholder(image: Buffer): Promise<Placeholder | null> {
+  try {
+    const base = sharp(image, { animated: false }).flatten({ background: '#ffffff' });
+
+    const { data, info } = await base
+      .clone()
+      .resize(ENCODE_SIZE, ENCODE_SIZE, { fit: 'inside' })
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const ratio = info.width / info.height;
+    const componentsX = ratio >= 1 ? MAX_COMPONENTS : Math.max(1, Math.round(MAX_COMPONENTS * ratio));
+    const componentsY = ratio >= 1 ? Math.max(1, Math.round(MAX_COMPONENTS / ratio)) : MAX_COMPONENTS;
+    const blurhash = encode(new Uint8ClampedArray(data), info.width, info.height, componentsX, componentsY);
+
+    const { dominant } = await base.stats();
+    const dominantColor = `#${toHex(dominant.r)}${toHex(dominant.g)}${toHex(dominant.b)}`;
+
+    return { blurhash, dominantColor };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compute an item's placeholder from its thumbnail (or image) and store it.
+ * Failures are logged rather than thrown: a missing placeholder only means a
+ * plain box. Returns whether a placeholder was stored.
+ */
+export async function storeItemPlaceholder(itemId: string, image: Buffer): Promise<boolean> {
+  const placeholder = await computePlaceholder(image);
+  if (!placeholder) return false;
+
+  try {
+    await db.update(mediaItems)
+      .set({ blurhash: placeholder.blurhash, dominantColor: placeholder.dominantColor })
+      .where(eq(mediaItems.id, itemId));
+    return true;
+  } catch (error) {
+    console.warn(`[Placeholder] Failed to store placeholder for item ${itemId}:`, error);
+    return false;
+  }
+}
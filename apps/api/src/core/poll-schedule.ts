@@ -0,0 +1,183 @@
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { checkpoints, ingestRuns, threads } from '@aggragif/db/schema';
+import { db } from '../lib/db.js';
+import { config } from '../config/index.js';
+
+/**
+ * Adaptive per-thread polling
+ *
+ * Each thread is polled at its own interval, sized so that a poll finds roughly
+ * TARGET_ITEMS_PER_POLL new items at the thread's observed rate. Busy threads
+ * converge on the minimum interval; threads that keep coming back empty back
+ * off towards the maximum. Manual min/max overrides on the thread narrow the
+ * global bounds.
+ */
+
+/** New items a poll should find on average */
+const TARGET_ITEMS_PER_POLL = 5;
+
+/** Recent runs considered when estimating the new-item rate */
+const RATE_WINDOW_RUNS = 20;
+const RATE_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Growth factor applied when the window holds no new items */
+const EMPTY_BACKOFF_FACTOR = 1.5;
+
+/** Cap on the failure back-off exponent (2^4 = 16x) */
+const MAX_FAILURE_BACKOFF_EXPONENT = 4;
+
+// Statuses the scanner writes for runs that actually scanned (see IngestRunResult)
+const COUNTED_STATUSES = ['complete', 'caught_up', 'partial'];
+
+export interface PollBounds {
+  minMs: number;
+  maxMs: number;
+}
+
+export interface PollRateSample {
+  /** Runs in the window, oldest first */
+  runs: Array<{ startedAt: Date; itemsNew: number }>;
+  now: Date;
+}
+
+/**
+ * Resolve a thread's effective bounds from its overrides and the global defaults
+ */
+export function resolvePollBounds(thread: {
+  minPollIntervalMs: number | null;
+  maxPollIntervalMs: number | null;
+}): PollBounds {
+  const minMs = thread.minPollIntervalMs ?? config.INGEST_MIN_POLL_INTERVAL_MS;
+  const maxMs = Math.max(minMs, thread.maxPollIntervalMs ?? config.INGEST_MAX_POLL_INTERVAL_MS);
+  return { minMs, maxMs };
+}
+
+export function clampInterval(intervalMs: number, bounds: PollBounds): number {
+  return Math.round(Math.min(bounds.maxMs, Math.max(bounds.minMs, intervalMs)));
+}
+
+/**
+ * Compute the next polling interval for a thread.
+ *
+ * The rate is the number of items found by every run after the oldest in the
+ * window, divided by the time since that oldest run: the oldest run's own
+ * items accumulated before the window began. The result is the geometric mean
+ * of the previous interval and the rate-derived target, which damps
+ * oscillation when a thread's rate is bursty.
+ */
+export function computePollInterval(
+  sample: PollRateSample,
+  previousMs: number | null,
+  bounds: PollBounds,
+  consecutiveFailures = 0,
+): number {
+  const previous = clampInterval(previousMs ?? config.INGEST_POLL_INTERVAL_MS, bounds);
+  let next = previous;
+
+  const oldest = sample.runs[0];
+  if (oldest && sample.runs.length >= 2) {
+    const elapsedMs = sample.now.getTime() - oldest.startedAt.getTime();
+    const itemsNew = sample.runs.slice(1).reduce((sum, run) => sum + run.itemsNew, 0);
+
+    if (itemsNew === 0) {
+      next = previous * EMPTY_BACKOFF_FACTOR;
+    } else if (elapsedMs > 0) {
+      const targetMs = (TARGET_ITEMS_PER_POLL * elapsedMs) / itemsNew;
+      next = Math.sqrt(previous * clampInterval(targetMs, bounds));
+    }
+  }
+
+  if (consecutiveFailures > 0) {
+    next *= 2 ** Math.min(consecutiveFailures, MAX_FAILURE_BACKOFF_EXPONENT);
+  }
+
+  return clampInterval(next, bounds);
+}
+
+/**
+ * Recompute a thread's interval from its recent runs and set its next run time.
+ * Called after every non-partial ingestion job.
+ *
+ * @param failed - the job failed before the scanner could record a run
+ */
+export async function scheduleNextRun(threadId: string, failed = false): Promise<Date | null> {
+  const thread = await db.query.threads.findFirst({
+    where: eq(threads.id, threadId),
+    columns: {
+      pollIntervalMs: true,
+      minPollIntervalMs: true,
+      maxPollIntervalMs: true,
+    },
+  });
+  if (!thread) return null;
+
+  const now = new Date();
+  const since = new Date(now.getTime() - RATE_WINDOW_MS);
+
+  const [recentRuns, checkpoint] = await Promise.all([
+    db.select({ startedAt: ingestRuns.startedAt, itemsNew: ingestRuns.itemsNew })
+      .from(ingestRuns)
+      .where(and(
+        eq(ingestRuns.threadId, threadId),
+        eq(ingestRuns.kind, 'poll'),
+        inArray(ingestRuns.status, COUNTED_STATUSES),
+      ))
+      .orderBy(desc(ingestRuns.startedAt))
+      .limit(RATE_WINDOW_RUNS),
+    db.query.checkpoints.findFirst({
+      where: eq(checkpoints.threadId, threadId),
+      columns: { consecutiveFailures: true },
+    }),
+  ]);
+
+  const runs = recentRuns
+    .filter(run => run.startedAt >= since)
+    .reverse();
+
+  const failures = Math.max(checkpoint?.consecutiveFailures ?? 0, failed ? 1 : 0);
+  const intervalMs = computePollInterval(
+    { runs, now },
+    thread.pollIntervalMs,
+    resolvePollBounds(thread),
+    failures,
+  );
+  const nextRunAt = new Date(now.getTime() + intervalMs);
+
+  await db.update(threads)
+    .set({ pollIntervalMs: intervalMs, nextRunAt })
+    .where(eq(threads.id, threadId));
+
+  return nextRunAt;
+}
+
+/**
+ * Re-clamp a thread's interval after its overrides change, keeping the next run
+ * anchored to the last run so a tighter maximum takes effect immediately.
+ */
+export async function applyPollOverrides(threadId: string): Promise<void> {
+  const thread = await db.query.threads.findFirst({
+    where: eq(threads.id, threadId),
+    columns: {
+      pollIntervalMs: true,
+      minPollIntervalMs: true,
+      maxPollIntervalMs: true,
+    },
+    with: {
+      checkpoint: { columns: { lastRunAt: true } },
+    },
+  });
+  if (!thread) return;
+
+  const intervalMs = clampInterval(
+    thread.pollIntervalMs ?? config.INGEST_POLL_INTERVAL_MS,
+    resolvePollBounds(thread),
+  );
+  const lastRunAt = thread.checkpoint?.lastRunAt;
+
+  await db.update(threads)
+    .set({
+      pollIntervalMs: intervalMs,
+      nextRunAt: lastRunAt ? new Date(lastRunAt.getTime() + intervalMs) : null,
+    })
+    .where(eq(threads.id, threadId));
+}
@@ -0,0 +1,146 @@
+import { randomUUID } from 'crypto';
+import {
+  getAdapter,
+  type BaseAdapter,
+  type PageInfo,
+  type ParseDiagnostics,
+  type ScrapedItem,
+  type SourceConfig,
+} from '../adapters/index.js';
+import type { RateLimiterLike } from '../resilience/rate-limiter.js';
+
+/**
+ * Dry-run of a draft source configuration
+ *
+ * Runs the same adapter calls the scanner makes (validate, getLatestPage,
+ * scanPage) but never touches checkpoints, media items or ingest runs, so a
+ * config can be tried against a live thread before it is saved.
+ */
+
+/** Whole preview must finish within this budget */
+const PREVIEW_TIMEOUT_MS = 30000;
+
+export type PreviewStage = 'adapter' | 'validate' | 'getLatestPage' | 'scanPage';
+
+export interface PreviewOptions {
+  mode: string;
+  baseUrl: string;
+  threadUrl: string;
+  externalId: string;
+  scraperConfig?: Record<string, unknown>;
+  userAgent?: string;
+  rateLimit: SourceConfig['rateLimit'];
+  /** Pace requests through an existing source's limiter */
+  rateLimiter?: RateLimiterLike;
+  /** Page to scan (defaults to the latest page, where the scanner starts) */
+  pageNumber?: number;
+}
+
+export interface PreviewResult {
+  adapter: string | null;
+  validation: { valid: boolean; error?: string } | null;
+  pageInfo: PageInfo | null;
+  page: {
+    pageNumber: number;
+    hasMorePages: boolean;
+    totalItems?: number;
+  } | null;
+  items: ScrapedItem[];
+  diagnostics: ParseDiagnostics | null;
+  errors: Array<{ stage: PreviewStage; message: string }>;
+  durationMs: number;
+}
+
+function withDeadline<T>(promise: Promise<T>, deadline: number, stage: PreviewStage): Promise<T> {
+  const remaining = deadline - Date.now();
+  if (remaining <= 0) {
+    return Promise.reject(new Error(`Preview timed out before ${stage}`));
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Preview timed out during ${stage} (${PREVIEW_TIMEOUT_MS / 1000}s limit)`)), remaining);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Run a draft config against a thread and report what would be ingested.
+ * Each stage is attempted even if an earlier one fails, so a validation
+ * failure (e.g. no items matched) still returns diagnostics for the page.
+ */
+export async function previewSource(options: PreviewOptions): Promise<PreviewResult> {
+  const startTime = Date.now();
+  const deadline = startTime + PREVIEW_TIMEOUT_MS;
+  const result: PreviewResult = {
+    adapter: null,
+    validation: null,
+    pageInfo: null,
+    page: null,
+    items: [],
+    diagnostics: null,
+    errors: [],
+    durationMs: 0,
+  };
+
+  const fail = (stage: PreviewStage, error: unknown) => {
+    result.errors.push({ stage, message: error instanceof Error ? error.message : 'Unknown error' });
+  };
+
+  let adapter: BaseAdapter | null = null;
+  try {
+    adapter = getAdapter(options.mode, {
+      sourceId: randomUUID(),
+      // Unknown thread, so adapters that keep per-thread state (e.g. feed validators) start fresh
+      threadId: randomUUID(),
+      baseUrl: options.baseUrl,
+      threadUrl: options.threadUrl,
+      externalId: options.externalId,
+      rateLimit: options.rateLimit,
+      userAgent: options.userAgent,
+      extra: options.scraperConfig,
+    });
+    if (!adapter) {
+      throw new Error(`No adapter found for source type: ${options.mode}`);
+    }
+  } catch (error) {
+    fail('adapter', error);
+    result.durationMs = Date.now() - startTime;
+    return result;
+  }
+
+  result.adapter = adapter.getName();
+  if (options.rateLimiter) {
+    adapter.setRateLimiter(options.rateLimiter);
+  }
+
+  try {
+    result.validation = await withDeadline(adapter.validate(), deadline, 'validate');
+  } catch (error) {
+    fail('validate', error);
+  }
+
+  let pageNumber = options.pageNumber;
+  try {
+    result.pageInfo = await withDeadline(adapter.getLatestPage(), deadline, 'getLatestPage');
+    pageNumber ??= result.pageInfo.latestPage;
+  } catch (error) {
+    fail('getLatestPage', error);
+  }
+
+  try {
+    const scan = await withDeadline(adapter.scanPage(pageNumber ?? 1), deadline, 'scanPage');
+    result.items = scan.items;
+    result.page = {
+      pageNumber: scan.pageNumber,
+      hasMorePages: scan.hasMorePages,
+      totalItems: scan.totalItems,
+    };
+  } catch (error) {
+    fail('scanPage', error);
+  }
+
+  result.diagnostics = adapter.getParseDiagnostics();
+  result.durationMs = Date.now() - startTime;
+  return result;
+}
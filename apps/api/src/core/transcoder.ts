@@ -0,0 +1,238 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import sharp from 'sharp';
+import { and, eq, inArray, isNull, sql } from 'drizzle-orm';
+import { mediaItems, mediaAssets } from '@aggragif/db/schema';
+import { db } from '../lib/db.js';
+import { config } from '../config/index.js';
+import { readStoredMedia, uploadRendition } from '../lib/media-storage.js';
+import type { RenditionName, RenditionUrls } from '../lib/proxy-urls.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Media transcoding
+ *
+ * Runs after pre-cache, from the stored original:
+ * - GIFs are re-encoded as MP4 (H.264) and WebM (VP9), a fraction of the size
+ * - GIFs and videos get a poster frame (JPEG and WebP) and a low-res MP4
+ *   preview for the feed grid
+ * Renditions are stored next to the original, recorded in media_assets and
+ * mirrored into mediaUrls.renditions for getProxyUrls.
+ */
+
+export type TranscodeStatus = 'queued' | 'done' | 'failed' | 'skipped';
+
+/** ffmpeg runs longer than this are killed */
+const FFMPEG_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** Cards autoplay short clips and play longer ones on hover; the opening is enough */
+const PREVIEW_MAX_SECONDS = 30;
+
+/** H.264 and VP9 with 4:2:0 chroma need even dimensions */
+const EVEN_DIMENSIONS = 'scale=trunc(iw/2)*2:trunc(ih/2)*2';
+
+interface RenditionSpec {
+  name: Exclude<RenditionName, 'poster_webp'>;
+  contentType: string;
+  assetType: 'video' | 'thumbnail';
+  args: (input: string, output: string) => string[];
+}
+
+const MP4: RenditionSpec = {
+  name: 'mp4',
+  contentType: 'video/mp4',
+  assetType: 'video',
+  args: (input, output) => [
+    '-i', input, '-an',
+    '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23', '-pix_fmt', 'yuv420p',
+    '-vf', EVEN_DIMENSIONS, '-movflags', '+faststart', output,
+  ],
+};
+
+const WEBM: RenditionSpec = {
+  name: 'webm',
+  contentType: 'video/webm',
+  assetType: 'video',
+  args: (input, output) => [
+    '-i', input, '-an',
+    '-c:v', 'libvpx-vp9', '-crf', '35', '-b:v', '0', '-deadline', 'good', '-cpu-used', '4',
+    '-row-mt', '1', '-pix_fmt', 'yuv420p', '-vf', EVEN_DIMENSIONS, output,
+  ],
+};
+
+const POSTER: RenditionSpec = {
+  name: 'poster',
+  contentType: 'image/jpeg',
+  assetType: 'thumbnail',
+  // The thumbnail filter picks a representative frame rather than a (often black) first one
+  args: (input, output) => ['-i', input, '-vf', 'thumbnail', '-frames:v', '1', '-q:v', '3', output],
+};
+
+const PREVIEW: RenditionSpec = {
+  name: 'preview',
+  contentType: 'video/mp4',
+  assetType: 'video',
+  args: (input, output) => [
+    '-i', input, '-t', String(PREVIEW_MAX_SECONDS), '-an',
+    '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '28', '-pix_fmt', 'yuv420p',
+    '-vf', `scale=-2:trunc(min(${config.TRANSCODE_PREVIEW_HEIGHT}\\,ih)/2)*2`,
+    '-movflags', '+faststart', output,
+  ],
+};
+
+/**
+ * Renditions to produce for a stored original, or null if it isn't animated
+ */
+function renditionsFor(contentType: string): RenditionSpec[] | null {
+  if (contentType.includes('gif')) return [POSTER, MP4, WEBM, PREVIEW];
+  if (contentType.startsWith('video/')) return [POSTER, PREVIEW];
+  return null;
+}
+
+function extensionFor(contentType: string): string {
+  if (contentType.includes('gif')) return 'gif';
+  if (contentType.includes('webm')) return 'webm';
+  if (contentType.includes('jpeg')) return 'jpg';
+  return 'mp4';
+}
+
+async function runFfmpeg(args: string[]): Promise<void> {
+  await execFileAsync(config.FFMPEG_PATH, ['-hide_banner', '-loglevel', 'error', '-y', ...args], {
+    timeout: FFMPEG_TIMEOUT_MS,
+    maxBuffer: 1024 * 1024,
+  });
+}
+
+/**
+ * Returns true if ffmpeg can be run
+ */
+export async function isFfmpegAvailable(): Promise<boolean> {
+  try {
+    await execFileAsync(config.FFMPEG_PATH, ['-version'], { timeout: 10000 });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function recordRendition(
+  itemId: string,
+  name: RenditionName,
+  url: string,
+  spec: { contentType: string; assetType: string },
+  size: number,
+  dimensions: { width: number | null; height: number | null },
+): Promise<void> {
+  const values = {
+    assetType: spec.assetType,
+    mimeType: spec.contentType,
+    fileSizeBytes: size,
+    width: dimensions.width,
+    height: dimensions.height,
+    rendition: name,
+    storageMode: 'cached',
+    cdnUrl: url,
+  };
+
+  await db.insert(mediaAssets)
+    .values({ mediaItemId: itemId, assetUrl: url, position: 0, ...values })
+    .onConflictDoUpdate({
+      target: [mediaAssets.mediaItemId, mediaAssets.assetUrl],
+      set: { ...values, updatedAt: new Date() },
+    });
+}
+
+/**
+ * Set the transcode status of one or more items
+ */
+export async function setTranscodeStatus(itemIds: string[], status: TranscodeStatus): Promise<void> {
+  if (itemIds.length === 0) return;
+  await db.update(mediaItems)
+    .set({ transcodeStatus: status })
+    .where(inArray(mediaItems.id, itemIds));
+}
+
+/**
+ * Find cached GIFs and videos that haven't been picked up for transcoding yet
+ */
+export async function findTranscodeCandidates(limit = config.TRANSCODE_BATCH_SIZE): Promise<string[]> {
+  const rows = await db.select({ id: mediaItems.id })
+    .from(mediaItems)
+    .where(and(
+      isNull(mediaItems.transcodeStatus),
+      isNull(mediaItems.deletedAt),
+      eq(mediaItems.isHidden, false),
+      sql`${mediaItems.mediaUrls}->>'cdnOriginal' IS NOT NULL`,
+      sql`(${mediaItems.mediaType} IN ('gif', 'video') OR ${mediaItems.mediaUrls}->>'original' ILIKE '%.gif')`,
+    ))
+    .orderBy(mediaItems.createdAt)
+    .limit(limit);
+
+  return rows.map(r => r.id);
+}
+
+/**
+ * Transcode an item's stored original into its renditions.
+ * Returns 'skipped' when there is nothing to transcode (not stored, or not
+ * animated); ffmpeg and storage failures throw so the job can be retried.
+ */
+export async function transcodeItem(itemId: string): Promise<TranscodeStatus> {
+  const source = await readStoredMedia(itemId, 'original');
+  const specs = source ? renditionsFor(source.contentType) : null;
+  if (!source || !specs) {
+    await setTranscodeStatus([itemId], 'skipped');
+    return 'skipped';
+  }
+
+  const workDir = await mkdtemp(join(tmpdir(), 'transcode-'));
+  try {
+    const input = join(workDir, `source.${extensionFor(source.contentType)}`);
+    await writeFile(input, source.buffer);
+
+    const urls: RenditionUrls = {};
+    let frame: { width: number | null; height: number | null } = { width: null, height: null };
+
+    for (const spec of specs) {
+      const output = join(workDir, `${spec.name}.${extensionFor(spec.contentType)}`);
+      await runFfmpeg(spec.args(input, output));
+      const body = await readFile(output);
+
+      const url = await uploadRendition(itemId, spec.name, body, spec.contentType);
+      if (!url) throw new Error('Storage is not configured');
+      urls[spec.name] = url;
+
+      if (spec === POSTER) {
+        // The poster is a full-size frame: its size is the item's size
+        const meta = await sharp(body).metadata();
+        frame = { width: meta.width ?? null, height: meta.height ?? null };
+        await recordRendition(itemId, spec.name, url, spec, body.length, frame);
+
+        const webp = await sharp(body).webp({ quality: 80 }).toBuffer();
+        const webpUrl = await uploadRendition(itemId, 'poster_webp', webp, 'image/webp');
+        if (webpUrl) {
+          urls.poster_webp = webpUrl;
+          await recordRendition(itemId, 'poster_webp', webpUrl, { contentType: 'image/webp', assetType: 'thumbnail' }, webp.length, frame);
+        }
+      } else {
+        // Previews are scaled down; full renditions keep the frame size
+        const dimensions = spec === PREVIEW ? { width: null, height: null } : frame;
+        await recordRendition(itemId, spec.name, url, spec, body.length, dimensions);
+      }
+    }
+
+    await db.update(mediaItems)
+      .set({
+        mediaUrls: sql`${mediaItems.mediaUrls} || ${JSON.stringify({ renditions: urls })}::jsonb`,
+        transcodeStatus: 'done',
+      })
+      .where(eq(mediaItems.id, itemId));
+
+    return 'done';
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
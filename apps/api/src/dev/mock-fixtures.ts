@@ -0,0 +1,250 @@
+/**
+ * Deterministic fixtures for the mock source server
+ *
+ * Every fixture is generated from an item count, so the same count always
+ * yields byte-identical pages (recordings stay stable) and raising the count
+ * simulates new posts arriving between scans.
+ */
+
+/** Item n is posted n hours after this instant, whatever the item count */
+const MOCK_EPOCH_MS = Date.UTC(2026, 0, 1);
+const HOUR_MS = 60 * 60 * 1000;
+
+const AUTHORS = ['alice', 'bob', 'carol', 'dave'];
+
+export const FORUM_THREAD_PATH = '/forum/threads/mock-thread.1';
+export const FORUM_POSTS_PER_PAGE = 6;
+export const REDDIT_SUBREDDIT = 'mockpics';
+export const REDGIFS_USER = 'mockcreator';
+export const REDGIFS_TOKEN = 'mock-temporary-token';
+
+/** Items each mock source starts with */
+export const BASE_ITEM_COUNTS = {
+  forum: 16,
+  reddit: 60,
+  redgifs: 55,
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function authorFor(index: number): string {
+  return AUTHORS[index % AUTHORS.length] ?? 'anonymous';
+}
+
+// --- Forum (XenForo-style HTML, oldest post first) ---
+
+export function forumPageCount(total: number): number {
+  return Math.max(1, Math.ceil(total / FORUM_POSTS_PER_PAGE));
+}
+
+/**
+ * One page of the mock forum thread. Post n (1-based) is n hours after the
+ * first; odd posts carry a gif, every fourth post has two images.
+ */
+export function renderForumPage(page: number, total: number): string | null {
+  const pages = forumPageCount(total);
+  if (page < 1 || page > pages) return null;
+
+  const first = (page - 1) * FORUM_POSTS_PER_PAGE + 1;
+  const last = Math.min(total, page * FORUM_POSTS_PER_PAGE);
+  const posts: string[] = [];
+
+  for (let n = first; n <= last; n++) {
+    const author = authorFor(n);
+    const postedAt = new Date(MOCK_EPOCH_MS + n * HOUR_MS).toISOString();
+    const ext = n % 2 === 1 ? 'gif' : 'jpg';
+    const images = [`/media/forum/${n}.${ext}`];
+    if (n % 4 === 0) images.push(`/media/forum/${n}-b.jpg`);
+
+    posts.push(`
+      <article class="message" data-post-id="post-${n}">
+        <header class="message-attribution">
+          <a class="username" href="/forum/members/${author}.${AUTHORS.indexOf(author) + 1}/">${escapeHtml(author)}</a>
+          <a class="message-permalink" href="${FORUM_THREAD_PATH}/post-${n}"><time datetime="${postedAt}">${postedAt}</time></a>
+        </header>
+        <div class="bbWrapper">
+          <p>Mock post #${n}</p>
+          ${images.map(src => `<a href="${src}"><img src="${src.replace('/media/', '/media/thumb/')}" alt=""></a>`).join('\n          ')}
+        </div>
+      </article>`);
+  }
+
+  const pageLink = (p: number) => (p === 1 ? `${FORUM_THREAD_PATH}/` : `${FORUM_THREAD_PATH}/page-${p}`);
+  const nav = Array.from({ length: pages }, (_, i) => i + 1)
+    .map(p => (p === page ? `<span class="pageNav-page--current">${p}</span>` : `<a href="${pageLink(p)}">${p}</a>`))
+    .join(' ');
+  const next = page < pages ? `<a class="pageNav-jump--next" href="${pageLink(page + 1)}">Next</a>` : '';
+
+  return `<!DOCTYPE html>
+<html>
+  <head><title>Mock thread - Page ${page}</title></head>
+  <body>
+    <nav class="pageNav">${nav} ${next}</nav>
+    <div class="block-body">${posts.join('')}
+    </div>
+  </body>
+</html>
+`;
+}
+
+/**
+ * GenericHtmlAdapter config matching renderForumPage
+ */
+export function forumScraperConfig(): Record<string, unknown> {
+  return {
+    selectors: {
+      itemContainer: '.block-body',
+      item: 'article.message',
+      itemId: { attr: 'data-post-id' },
+      permalink: { attr: 'href', selector: 'a.message-permalink' },
+      timestamp: { attr: 'datetime', selector: 'time' },
+      author: '.username',
+      authorUrl: { attr: 'href', selector: 'a.username' },
+      media: '.bbWrapper img',
+      mediaParentLink: true,
+      nextPage: '.pageNav-jump--next',
+    },
+    urlPattern: { basePath: '/', pageStyle: 'path' },
+    newestFirst: false,
+  };
+}
+
+// --- Reddit (listing JSON, newest first, cursor pagination) ---
+
+function redditId(n: number): string {
+  return `mk${n.toString(36).padStart(4, '0')}`;
+}
+
+/**
+ * Post n (1-based, 1 = oldest). Kinds rotate through image, gif, video,
+ * gallery and a text post the adapter is expected to skip.
+ */
+function redditPost(n: number, origin: string): Record<string, unknown> {
+  const id = redditId(n);
+  const author = authorFor(n);
+  const preview = {
+    images: [{ source: { url: `${origin}/media/reddit/${id}-preview.jpg`, width: 640, height: 480 } }],
+  };
+  const post: Record<string, unknown> = {
+    id,
+    name: `t3_${id}`,
+    title: `Mock post ${n}`,
+    author,
+    permalink: `/r/${REDDIT_SUBREDDIT}/comments/${id}/mock_post_${n}/`,
+    created_utc: Math.floor((MOCK_EPOCH_MS + n * HOUR_MS) / 1000),
+    ups: (n * 7) % 100,
+    num_comments: n % 13,
+    is_self: false,
+    is_video: false,
+    stickied: false,
+    thumbnail: `${origin}/media/reddit/${id}-thumb.jpg`,
+    preview,
+  };
+
+  switch (n % 5) {
+    case 0:
+      return { ...post, url: `${origin}/media/reddit/${id}.jpg` };
+    case 1:
+      return { ...post, url: `${origin}/media/reddit/${id}.gif` };
+    case 2:
+      return {
+        ...post,
+        url: `${origin}/media/reddit/${id}`,
+        is_video: true,
+        media: {
+          reddit_video: {
+            fallback_url: `${origin}/media/reddit/${id}.mp4`,
+            width: 1280,
+            height: 720,
+            duration: 12,
+          },
+        },
+      };
+    case 3:
+      return {
+        ...post,
+        url: `${origin}/gallery/${id}`,
+        is_gallery: true,
+        gallery_data: { items: [{ media_id: `${id}a`, id: 1 }, { media_id: `${id}b`, id: 2 }] },
+        media_metadata: {
+          [`${id}a`]: { status: 'valid', s: { u: `${origin}/media/reddit/${id}a.jpg`, x: 800, y: 600 } },
+          [`${id}b`]: { status: 'valid', s: { u: `${origin}/media/reddit/${id}b.jpg`, x: 800, y: 600 } },
+        },
+      };
+    default:
+      return { ...post, is_self: true, url: `${origin}${post.permalink as string}`, preview: undefined };
+  }
+}
+
+export function renderRedditListing(
+  total: number,
+  origin: string,
+  limit: number,
+  after: string | null,
+): Record<string, unknown> {
+  // Newest first: post `total` down to 1
+  let start = total;
+  if (after) {
+    const cursor = parseInt(after.replace(/^t3_mk/, ''), 36);
+    start = Number.isNaN(cursor) ? 0 : cursor - 1;
+  }
+
+  const children: Array<Record<string, unknown>> = [];
+  for (let n = start; n >= 1 && children.length < limit; n--) {
+    children.push({ kind: 't3', data: redditPost(n, origin) });
+  }
+
+  const lastN = start - children.length + 1;
+  return {
+    kind: 'Listing',
+    data: {
+      children,
+      after: lastN > 1 && children.length > 0 ? `t3_${redditId(lastN)}` : null,
+      before: null,
+    },
+  };
+}
+
+// --- RedGifs (v2 search JSON, page 1 = newest) ---
+
+export function renderRedgifsPage(
+  total: number,
+  origin: string,
+  count: number,
+  page: number,
+): Record<string, unknown> {
+  const pages = Math.max(1, Math.ceil(total / count));
+  const gifs: Array<Record<string, unknown>> = [];
+
+  for (let i = 0; i < count; i++) {
+    const n = total - (page - 1) * count - i;
+    if (n < 1) break;
+    const id = `mockgif${n.toString().padStart(4, '0')}`;
+    gifs.push({
+      id,
+      createDate: Math.floor((MOCK_EPOCH_MS + n * HOUR_MS) / 1000),
+      userName: REDGIFS_USER,
+      description: `Mock clip ${n}`,
+      duration: 5 + (n % 20),
+      width: 1080,
+      height: 1920,
+      likes: n * 3,
+      views: n * 100,
+      tags: n % 2 === 0 ? ['mock', 'even'] : ['mock', 'odd'],
+      urls: {
+        hd: `${origin}/media/redgifs/${id}.mp4`,
+        sd: `${origin}/media/redgifs/${id}-mobile.mp4`,
+        thumbnail: `${origin}/media/redgifs/${id}-mobile.jpg`,
+        poster: `${origin}/media/redgifs/${id}-poster.jpg`,
+      },
+    });
+  }
+
+  return { page, pages, total, gifs };
+}
@@ -0,0 +1,191 @@
+import { sources, threads } from '@aggragif/db/schema';
+import { db } from '../lib/db.js';
+import { config } from '../config/index.js';
+import { getAdapterHttpMode, getFixturesDir } from '../lib/adapter-http.js';
+import { getAdapter } from '../adapters/index.js';
+import { IncrementalScanner, type IngestRunResult } from '../core/incremental-scanner.js';
+import { startMockSourceServer, type MockSourceServer } from './mock-source-server.js';
+import {
+  FORUM_THREAD_PATH,
+  REDDIT_SUBREDDIT,
+  REDGIFS_USER,
+  forumScraperConfig,
+} from './mock-fixtures.js';
+
+/**
+ * End-to-end ingestion against the mock source server
+ *
+ * Upserts a mock forum, subreddit and RedGifs user as sources/threads, then
+ * runs each through IncrementalScanner exactly like the ingestion worker. In
+ * live mode a second pass publishes new items first, so it should only pick
+ * those up. Combine with ADAPTER_HTTP_MODE:
+ *   record - capture the run under ADAPTER_HTTP_FIXTURES_DIR
+ *   replay - re-run it from the capture without starting the server
+ *
+ * Writes to DATABASE_URL, so point it at a development database.
+ */
+
+const MOCK_PORT = parseInt(process.env.MOCK_SOURCE_PORT || '', 10) || 4010;
+const NEW_ITEMS_PER_PASS = 3;
+
+interface MockSourceSpec {
+  name: string;
+  mode: string;
+  baseUrl: string;
+  scraperConfig: Record<string, unknown>;
+  thread: { externalId: string; url: string; displayName: string };
+}
+
+function mockSources(origin: string): MockSourceSpec[] {
+  return [
+    {
+      name: 'Mock Forum (dev)',
+      mode: 'scrape',
+      baseUrl: origin,
+      scraperConfig: forumScraperConfig(),
+      thread: {
+        externalId: 'mock-thread.1',
+        url: `${origin}${FORUM_THREAD_PATH}/`,
+        displayName: 'Mock forum thread',
+      },
+    },
+    {
+      name: 'Mock Reddit (dev)',
+      mode: 'reddit',
+      baseUrl: origin,
+      scraperConfig: { apiBaseUrl: origin },
+      thread: {
+        externalId: REDDIT_SUBREDDIT,
+        url: `${origin}/r/${REDDIT_SUBREDDIT}/`,
+        displayName: `r/${REDDIT_SUBREDDIT}`,
+      },
+    },
+    {
+      name: 'Mock RedGifs (dev)',
+      mode: 'redgifs',
+      baseUrl: origin,
+      scraperConfig: { apiBaseUrl: origin },
+      thread: {
+        externalId: REDGIFS_USER,
+        url: `${origin}/users/${REDGIFS_USER}`,
+        displayName: REDGIFS_USER,
+      },
+    },
+  ];
+}
+
+async function upsertMockSource(spec: MockSourceSpec) {
+  const rateLimitConfig = { requestsPerMinute: 600 };
+
+  const [source] = await db.insert(sources).values({
+    name: spec.name,
+    baseUrl: spec.baseUrl,
+    mode: spec.mode,
+    rateLimitConfig,
+    scraperConfig: spec.scraperConfig,
+  }).onConflictDoUpdate({
+    target: sources.name,
+    set: {
+      baseUrl: spec.baseUrl,
+      mode: spec.mode,
+      rateLimitConfig,
+      scraperConfig: spec.scraperConfig,
+      updatedAt: new Date(),
+    },
+  }).returning();
+
+  const [thread] = await db.insert(threads).values({
+    sourceId: source!.id,
+    externalId: spec.thread.externalId,
+    url: spec.thread.url,
+    displayName: spec.thread.displayName,
+  }).onConflictDoUpdate({
+    target: [threads.sourceId, threads.externalId],
+    set: { url: spec.thread.url, updatedAt: new Date() },
+  }).returning();
+
+  return { source: source!, thread: thread! };
+}
+
+async function scanMockSource(spec: MockSourceSpec): Promise<IngestRunResult> {
+  const { source, thread } = await upsertMockSource(spec);
+
+  const adapter = getAdapter(source.mode, {
+    sourceId: source.id,
+    threadId: thread.id,
+    baseUrl: source.baseUrl,
+    threadUrl: thread.url,
+    externalId: thread.externalId,
+    rateLimit: source.rateLimitConfig as { requestsPerMinute: number },
+    extra: source.scraperConfig as Record<string, unknown>,
+  });
+  if (!adapter) {
+    throw new Error(`No adapter found for source type: ${source.mode}`);
+  }
+
+  const validation = await adapter.validate();
+  if (!validation.valid) {
+    throw new Error(`Adapter validation failed for ${spec.name}: ${validation.error}`);
+  }
+
+  return new IncrementalScanner().scan(thread.id, source.id, adapter);
+}
+
+async function runPass(label: string, specs: MockSourceSpec[]): Promise<boolean> {
+  let ok = true;
+  console.log(`\n[MockScan] ${label}`);
+  for (const spec of specs) {
+    try {
+      const result = await scanMockSource(spec);
+      console.log(
+        `  ${spec.name}: ${result.status}, pages=${result.pagesScanned} found=${result.itemsFound} ` +
+        `new=${result.itemsNew} duplicate=${result.itemsDuplicate} failed=${result.itemsFailed}` +
+        (result.error ? ` error=${result.error}` : ''),
+      );
+      if (result.status === 'failed') ok = false;
+    } catch (error) {
+      ok = false;
+      console.error(`  ${spec.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return ok;
+}
+
+async function main(): Promise<void> {
+  if (config.NODE_ENV === 'production') {
+    throw new Error('mock-scan writes mock sources to the database and refuses to run in production');
+  }
+
+  const mode = getAdapterHttpMode();
+  console.log(`[MockScan] Adapter HTTP mode: ${mode}${mode === 'live' ? '' : ` (${getFixturesDir()})`}`);
+
+  // Replays never reach the network, and recordings are keyed by URL, so the
+  // origin must stay the same between record and replay
+  let server: MockSourceServer | null = null;
+  if (mode !== 'replay') {
+    server = await startMockSourceServer(MOCK_PORT);
+  }
+  const origin = server?.origin ?? `http://127.0.0.1:${MOCK_PORT}`;
+  const specs = mockSources(origin);
+
+  try {
+    let ok = await runPass('Initial scan', specs);
+
+    // A recording holds one response per URL, so only live runs get a second pass
+    if (server && mode === 'live') {
+      server.advance(NEW_ITEMS_PER_PASS);
+      ok = await runPass(`Incremental scan (+${NEW_ITEMS_PER_PASS} items per source)`, specs) && ok;
+    }
+
+    process.exitCode = ok ? 0 : 1;
+  } finally {
+    await server?.close();
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('[MockScan] Failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => process.exit());
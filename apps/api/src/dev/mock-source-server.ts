@@ -0,0 +1,175 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { pathToFileURL } from 'url';
+import {
+  BASE_ITEM_COUNTS,
+  FORUM_THREAD_PATH,
+  REDDIT_SUBREDDIT,
+  REDGIFS_TOKEN,
+  REDGIFS_USER,
+  renderForumPage,
+  renderRedditListing,
+  renderRedgifsPage,
+} from './mock-fixtures.js';
+
+/**
+ * Mock Source Server
+ *
+ * Local stand-in for a XenForo-style forum, Reddit's listing JSON and the
+ * RedGifs v2 API, for developing and debugging adapters offline.
+ *
+ * Routes:
+ *   GET  /forum/threads/mock-thread.1/[page-N]    forum thread (GenericHtmlAdapter)
+ *   GET  /r/mockpics/new.json?limit=&after=        subreddit listing (RedditAdapter)
+ *   GET  /v2/auth/temporary                        RedGifs token
+ *   GET  /v2/users/mockcreator/search?count=&page= RedGifs user feed (Bearer token required)
+ *   GET  /media/*                                  1x1 placeholder for every media URL
+ *   POST /_mock/advance?count=N                    publish N new items on every source
+ *   POST /_mock/reset                              back to the initial item counts
+ *
+ * Run standalone with `pnpm --filter @aggragif/api mock:sources`.
+ */
+
+const DEFAULT_PORT = 4010;
+
+/** Smallest valid GIF, served for every media URL */
+const PLACEHOLDER_GIF = Buffer.from(
+  'R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7',
+  'base64',
+);
+
+export interface MockSourceServer {
+  server: Server;
+  origin: string;
+  /** Publish `count` new items on every source */
+  advance(count: number): void;
+  reset(): void;
+  close(): Promise<void>;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+}
+
+function sendHtml(res: ServerResponse, status: number, body: string): void {
+  res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(body);
+}
+
+function intParam(url: URL, name: string, fallback: number): number {
+  const value = parseInt(url.searchParams.get(name) || '', 10);
+  return Number.isNaN(value) || value < 1 ? fallback : value;
+}
+
+/**
+ * Start the mock server. Port 0 picks a free port.
+ */
+export function startMockSourceServer(port = DEFAULT_PORT, host = '127.0.0.1'): Promise<MockSourceServer> {
+  const counts = { ...BASE_ITEM_COUNTS };
+  let origin = '';
+
+  const handle = (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || '/', origin);
+    const path = url.pathname.replace(/\/$/, '');
+
+    if (req.method === 'POST' && path === '/_mock/advance') {
+      advance(intParam(url, 'count', 1));
+      return sendJson(res, 200, counts);
+    }
+    if (req.method === 'POST' && path === '/_mock/reset') {
+      reset();
+      return sendJson(res, 200, counts);
+    }
+    if (req.method !== 'GET') {
+      return sendJson(res, 405, { error: 'Method Not Allowed' });
+    }
+
+    if (path.startsWith('/media/')) {
+      res.writeHead(200, { 'Content-Type': 'image/gif', 'Content-Length': PLACEHOLDER_GIF.length });
+      return res.end(PLACEHOLDER_GIF);
+    }
+
+    if (path === FORUM_THREAD_PATH || path.startsWith(`${FORUM_THREAD_PATH}/page-`)) {
+      const page = path === FORUM_THREAD_PATH ? 1 : parseInt(path.slice(FORUM_THREAD_PATH.length + 6), 10);
+      const html = renderForumPage(page, counts.forum);
+      return html
+        ? sendHtml(res, 200, html)
+        : sendHtml(res, 404, '<html><body><h1>Page not found</h1></body></html>');
+    }
+
+    if (path === `/r/${REDDIT_SUBREDDIT}/new.json`) {
+      const limit = Math.min(intParam(url, 'limit', 25), 100);
+      return sendJson(res, 200, renderRedditListing(counts.reddit, origin, limit, url.searchParams.get('after')));
+    }
+    if (path.startsWith('/r/')) {
+      return sendJson(res, 404, { message: 'Not Found', error: 404 });
+    }
+
+    if (path === '/v2/auth/temporary') {
+      return sendJson(res, 200, { token: REDGIFS_TOKEN, addr: '127.0.0.1', agent: req.headers['user-agent'] ?? '' });
+    }
+    if (path.startsWith('/v2/')) {
+      if (req.headers.authorization !== `Bearer ${REDGIFS_TOKEN}`) {
+        return sendJson(res, 401, { error: { code: 'Unauthorized', message: 'Missing or invalid token' } });
+      }
+      const isFeed = path === `/v2/users/${REDGIFS_USER}/search`
+        || path === '/v2/gifs/search'
+        || path === '/v2/gifs/trending';
+      if (!isFeed) {
+        return sendJson(res, 404, { error: { code: 'NotFound', message: `No such user or endpoint: ${path}` } });
+      }
+      const count = Math.min(intParam(url, 'count', 40), 100);
+      return sendJson(res, 200, renderRedgifsPage(counts.redgifs, origin, count, intParam(url, 'page', 1)));
+    }
+
+    sendJson(res, 404, { error: 'Not Found', message: `No mock route for ${path}` });
+  };
+
+  const advance = (count: number) => {
+    counts.forum += count;
+    counts.reddit += count;
+    counts.redgifs += count;
+  };
+
+  const reset = () => {
+    Object.assign(counts, BASE_ITEM_COUNTS);
+  };
+
+  const server = createServer((req, res) => {
+    try {
+      handle(req, res);
+    } catch (error) {
+      sendJson(res, 500, { error: 'Internal Server Error', message: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      const address = server.address() as AddressInfo;
+      origin = `http://${host}:${address.port}`;
+      resolve({
+        server,
+        origin,
+        advance,
+        reset,
+        close: () => new Promise<void>((done, fail) => server.close(err => (err ? fail(err) : done()))),
+      });
+    });
+  });
+}
+
+// Run standalone: tsx src/dev/mock-source-server.ts
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = parseInt(process.env.MOCK_SOURCE_PORT || '', 10) || DEFAULT_PORT;
+  startMockSourceServer(port).then(({ origin }) => {
+    console.log(`Mock source server listening on ${origin}`);
+    console.log(`  forum:   ${origin}${FORUM_THREAD_PATH}/`);
+    console.log(`  reddit:  ${origin}/r/${REDDIT_SUBREDDIT}/new.json`);
+    console.log(`  redgifs: ${origin}/v2/users/${REDGIFS_USER}/search`);
+  }).catch((error) => {
+    console.error('Failed to start mock source server:', error);
+    process.exit(1);
+  });
+}
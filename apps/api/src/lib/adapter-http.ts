@@ -0,0 +1,207 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { config } from '../config/index.js';
+
+/**
+ * Shared HTTP layer for source adapters
+ *
+ * Every adapter request goes through adapterFetch so it can be captured and
+ * played back. ADAPTER_HTTP_MODE selects the behaviour:
+ * - live: plain fetch
+ * - record: fetch, then save the request/response pair under
+ *   <ADAPTER_HTTP_FIXTURES_DIR>/<threadId>/<key>.json
+ * - replay: serve the saved pair and never touch the network
+ *
+ * A recording of a thread is enough to reproduce a parsing bug offline.
+ */
+
+export type AdapterHttpMode = 'live' | 'record' | 'replay';
+
+/** Request headers that are never written to disk */
+const REDACTED_HEADERS = new Set(['authorization', 'cookie', 'proxy-authorization']);
+
+/**
+ * Response headers describing the wire encoding rather than the body, which
+ * fetch has already decoded by the time it is recorded
+ */
+const TRANSPORT_HEADERS = new Set([
+  'connection',
+  'content-encoding',
+  'content-length',
+  'keep-alive',
+  'transfer-encoding',
+]);
+
+/** Statuses whose Response must be constructed without a body */
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+export interface RecordedExchange {
+  key: string;
+  recordedAt: string;
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+    bodyEncoding: 'utf8' | 'base64';
+  };
+}
+
+/**
+ * Raised in replay mode when a request has no recording
+ */
+export class ReplayMissError extends Error {
+  constructor(
+    public readonly method: string,
+    public readonly url: string,
+    public readonly threadId: string,
+  ) {
+    super(`No recorded response for ${method} ${url} (thread ${threadId})`);
+    this.name = 'ReplayMissError';
+  }
+}
+
+export function getAdapterHttpMode(): AdapterHttpMode {
+  return config.ADAPTER_HTTP_MODE;
+}
+
+export function isReplayMode(): boolean {
+  return config.ADAPTER_HTTP_MODE === 'replay';
+}
+
+export function getFixturesDir(): string {
+  return resolve(process.cwd(), config.ADAPTER_HTTP_FIXTURES_DIR);
+}
+
+function requestBodyText(body: RequestInit['body']): string | undefined {
+  if (body == null) return undefined;
+  if (typeof body === 'string') return body;
+  if (body instanceof URLSearchParams) return body.toString();
+  throw new Error('adapterFetch only supports string and URLSearchParams request bodies');
+}
+
+/**
+ * Recording key: the same method, URL and body always map to the same file.
+ * Headers are left out so rotating tokens and conditional GET validators
+ * don't turn a replay into a miss.
+ */
+export function exchangeKey(method: string, url: string, body?: string): string {
+  return createHash('sha256')
+    .update(`${method} ${url}\n${body ?? ''}`)
+    .digest('hex')
+    .slice(0, 24);
+}
+
+function exchangePath(threadId: string, key: string): string {
+  return join(getFixturesDir(), threadId, `${key}.json`);
+}
+
+function isTextual(contentType: string | null): boolean {
+  if (!contentType) return true;
+  return /^text\/|json|xml|javascript|x-www-form-urlencoded/i.test(contentType);
+}
+
+function headersToRecord(headers: Headers, skip: Set<string>): Record<string, string> {
+  const record: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    if (skip.has(name)) return;
+    record[name] = value;
+  });
+  return record;
+}
+
+function toResponse(exchange: RecordedExchange): Response {
+  const { status, statusText, headers, body, bodyEncoding } = exchange.response;
+  const payload = NULL_BODY_STATUSES.has(status)
+    ? null
+    : Buffer.from(body, bodyEncoding);
+  return new Response(payload, { status, statusText, headers });
+}
+
+async function replay(threadId: string, method: string, url: string, body?: string): Promise<Response> {
+  const key = exchangeKey(method, url, body);
+  let raw: string;
+  try {
+    raw = await readFile(exchangePath(threadId, key), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new ReplayMissError(method, url, threadId);
+    }
+    throw error;
+  }
+  return toResponse(JSON.parse(raw) as RecordedExchange);
+}
+
+async function record(
+  threadId: string,
+  method: string,
+  url: string,
+  init: RequestInit | undefined,
+  body: string | undefined,
+): Promise<Response> {
+  const res = await fetch(url, init);
+  const buffer = Buffer.from(await res.arrayBuffer());
+  const bodyEncoding = isTextual(res.headers.get('content-type')) ? 'utf8' : 'base64';
+
+  const key = exchangeKey(method, url, body);
+  const exchange: RecordedExchange = {
+    key,
+    recordedAt: new Date().toISOString(),
+    request: {
+      method,
+      url,
+      headers: headersToRecord(new Headers(init?.headers), REDACTED_HEADERS),
+      body,
+    },
+    response: {
+      status: res.status,
+      statusText: res.statusText,
+      headers: headersToRecord(res.headers, TRANSPORT_HEADERS),
+      body: buffer.toString(bodyEncoding),
+      bodyEncoding,
+    },
+  };
+
+  try {
+    const path = exchangePath(threadId, key);
+    await mkdir(join(getFixturesDir(), threadId), { recursive: true });
+    await writeFile(path, JSON.stringify(exchange, null, 2));
+  } catch (error) {
+    // A failed write shouldn't fail the scan that triggered it
+    console.warn(`[AdapterHttp] Failed to record ${method} ${url}:`, error instanceof Error ? error.message : error);
+  }
+
+  // The original body stream has been consumed
+  return toResponse(exchange);
+}
+
+/**
+ * Fetch on behalf of an adapter, recording or replaying per ADAPTER_HTTP_MODE
+ *
+ * @param threadId - thread the request belongs to; recordings are grouped by it
+ */
+export async function adapterFetch(
+  threadId: string,
+  input: string | URL,
+  init?: RequestInit,
+): Promise<Response> {
+  const mode = getAdapterHttpMode();
+  if (mode === 'live') {
+    return fetch(input, init);
+  }
+
+  const url = input.toString();
+  const method = (init?.method || 'GET').toUpperCase();
+  const body = requestBodyText(init?.body);
+
+  return mode === 'replay'
+    ? replay(threadId, method, url, body)
+    : record(threadId, method, url, init, body);
+}
@@ -0,0 +1,162 @@
+import { redis } from './redis.js';
+
+/**
+ * Live ingestion events
+ *
+ * Scanners and circuit breakers run in whichever process picked up the job,
+ * so progress is published on a Redis channel and every API replica relays it
+ * to its admin event streams. The latest lifecycle events are also kept in a
+ * short list so a newly opened stream starts with some history; per-page and
+ * per-item progress is only relayed live, or one large run would push every
+ * other run's start out of the list. Publishing never throws
+ * or waits on Redis: a lost event only makes the live view less live.
+ */
+
+export type IngestEvent =
+  | {
+      type: 'run_started';
+      runId: string;
+      sourceId: string;
+      threadId: string;
+      /** The thread's id on its source, for display */
+      externalId: string;
+      kind: 'poll' | 'backfill';
+    }
+  | {
+      type: 'page_fetched';
+      runId: string;
+      threadId: string;
+      page: number;
+      pagesScanned: number;
+      /** Pages this run will scan at most */
+      maxPages: number;
+      itemsOnPage: number;
+    }
+  | {
+      type: 'items_committed';
+      runId: string;
+      threadId: string;
+      /** Items of the current batch committed so far, out of total */
+      processed: number;
+      total: number;
+      itemsNew: number;
+      itemsDuplicate: number;
+      itemsFailed: number;
+    }
+  | { type: 'catchup_saved'; threadId: string; page: number; itemsIngested: number; reason: string }
+  | {
+      type: 'run_finished';
+      runId: string;
+      status: string;
+      pagesScanned: number;
+      itemsFound: number;
+      itemsNew: number;
+      itemsDuplicate: number;
+      itemsFailed: number;
+      error: string | null;
+    }
+  | { type: 'circuit_state'; sourceId: string; from: string; to: string; failures: number };
+
+/** An event as delivered to subscribers */
+export type IngestEventMessage = IngestEvent & { at: string };
+
+const CHANNEL = 'ingest:events';
+const LOG_KEY = 'ingest:events:log';
+const LOG_SIZE = 100;
+
+/** Progress events, relayed live but not kept in the log */
+const PROGRESS_EVENTS = new Set<IngestEvent['type']>(['page_fetched', 'items_committed']);
+
+let publisher: typeof redis | null = null;
+let subscriber: typeof redis | null = null;
+const listeners = new Set<(event: IngestEventMessage) => void>();
+
+/**
+ * Dedicated connection that drops commands while disconnected, so a Redis
+ * outage can't pile up unsent events behind the scanner
+ */
+function getPublisher(): typeof redis {
+  if (!publisher) {
+    publisher = redis.duplicate({
+      maxRetriesPerRequest: 1,
+      enableOfflineQueue: false,
+    });
+    publisher.on('error', () => {
+      // The primary client logs connection errors
+    });
+  }
+  return publisher;
+}
+
+/**
+ * Publish an ingestion event to every replica (fire and forget)
+ */
+export function publishIngestEvent(event: IngestEvent): void {
+  const message = JSON.stringify({ ...event, at: new Date().toISOString() });
+  if (PROGRESS_EVENTS.has(event.type)) {
+    getPublisher().publish(CHANNEL, message).catch(() => {});
+    return;
+  }
+  getPublisher()
+    .multi()
+    .publish(CHANNEL, message)
+    .lpush(LOG_KEY, message)
+    .ltrim(LOG_KEY, 0, LOG_SIZE - 1)
+    .exec()
+    .catch(() => {});
+}
+
+/**
+ * The latest lifecycle events, oldest first
+ */
+export async function getRecentIngestEvents(limit = LOG_SIZE): Promise<IngestEventMessage[]> {
+  try {
+    const messages = await getPublisher().lrange(LOG_KEY, 0, limit - 1);
+    return messages.reverse().map(message => JSON.parse(message) as IngestEventMessage);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Receive events from all replicas. Returns the unsubscribe function.
+ * The first listener opens this process's subscriber connection.
+ */
+export function subscribeIngestEvents(listener: (event: IngestEventMessage) => void): () => void {
+  if (!subscriber) {
+    // A subscribed connection can't run other commands, so it gets its own
+    subscriber = redis.duplicate();
+    subscriber.on('error', () => {
+      // The primary client logs connection errors
+    });
+    subscriber.on('message', (_channel: string, message: string) => {
+      let event: IngestEventMessage;
+      try {
+        event = JSON.parse(message) as IngestEventMessage;
+      } catch {
+        return;
+      }
+      for (const fn of listeners) fn(event);
+    });
+    subscriber.subscribe(CHANNEL).catch((err: Error) => {
+      console.error('[IngestEvents] Failed to subscribe:', err.message);
+    });
+  }
+
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Close the publisher and subscriber connections
+ */
+export function closeIngestEvents(): void {
+  listeners.clear();
+  // disconnect rather than quit: quit waits for a connection that may never come back
+  publisher?.disconnect();
+  subscriber?.disconnect();
+  publisher = null;
+  subscriber = null;
+}
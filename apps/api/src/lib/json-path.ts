@@ -0,0 +1,94 @@
+/**
+ * Minimal JSONPath-style lookups for declarative source configs.
+ *
+ * Supported syntax (a practical subset of JSONPath):
+ *   $.data.items        dotted keys (leading `$` / `$.` optional)
+ *   items[0].url        array index
+ *   ['media-url']       bracketed key for names with dots or dashes
+ *   tags[*].name        wildcard over arrays or object values
+ */
+
+type Segment = string | number | '*';
+
+const pathCache = new Map<string, Segment[]>();
+
+function parsePath(path: string): Segment[] {
+  const cached = pathCache.get(path);
+  if (cached) return cached;
+
+  const segments: Segment[] = [];
+  const re = /\.?([^.[\]]+)|\[(\d+)\]|\[\*\]|\[(['"])(.*?)\3\]/g;
+  const body = path.trim().replace(/^\$\.?/, '');
+
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(body)) !== null) {
+    if (match[1] !== undefined) {
+      segments.push(match[1] === '*' ? '*' : match[1]);
+    } else if (match[2] !== undefined) {
+      segments.push(parseInt(match[2], 10));
+    } else if (match[4] !== undefined) {
+      segments.push(match[4]);
+    } else {
+      segments.push('*');
+    }
+  }
+
+  pathCache.set(path, segments);
+  return segments;
+}
+
+/**
+ * Resolve every value matched by a path (wildcards fan out).
+ */
+export function selectAll(data: unknown, path: string): unknown[] {
+  let current: unknown[] = [data];
+
+  for (const segment of parsePath(path)) {
+    const next: unknown[] = [];
+
+    for (const value of current) {
+      if (value === null || typeof value !== 'object') continue;
+
+      if (segment === '*') {
+        next.push(...(Array.isArray(value) ? value : Object.values(value)));
+      } else if (typeof segment === 'number') {
+        if (Array.isArray(value) && segment < value.length) next.push(value[segment]);
+      } else if (segment in value) {
+        next.push((value as Record<string, unknown>)[segment]);
+      }
+    }
+
+    current = next;
+    if (current.length === 0) break;
+  }
+
+  return current.filter(v => v !== undefined && v !== null);
+}
+
+/**
+ * Resolve the first value matched by a path, or undefined.
+ */
+export function select(data: unknown, path: string): unknown {
+  return selectAll(data, path)[0];
+}
+
+/**
+ * Resolve a path to a trimmed string (numbers are stringified).
+ */
+export function selectString(data: unknown, path: string | undefined): string | undefined {
+  if (!path) return undefined;
+  const value = select(data, path);
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (typeof value === 'number' || typeof value === 'bigint') return String(value);
+  return undefined;
+}
+
+/**
+ * Resolve a path to a finite number (numeric strings are parsed).
+ */
+export function selectNumber(data: unknown, path: string | undefined): number | undefined {
+  if (!path) return undefined;
+  const value = select(data, path);
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof num === 'number' && Number.isFinite(num) ? num : undefined;
+}
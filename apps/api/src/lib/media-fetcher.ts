@@ -1,3 +1,7 @@
+import { lookup, type LookupAddress } from 'dns';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { Agent, fetch as undiciFetch } from 'undici';
+
 /**
  * Shared media fetching utilities.
  * Used by both the proxy route and the ingestion pre-cacher.
@@ -5,41 +9,115 @@
 
 const USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10.15; rv:134.0) Gecko/20100101 Firefox/134.0';
 
-const ALLOWED_HOSTS = [
-  'jpg6.su',
-  'jpg7.cr',
-  'simp4.selti-delivery.ru',
-  'simp5.selti-delivery.ru',
-  'simp6.selti-delivery.ru',
-  'abwcandyshop.com',
-  'r2.cloudflarestorage.com',
-  'redgifs.com',
-  'media.redgifs.com',
-  'thumbs4.redgifs.com',
-  'thumbs44.redgifs.com',
-  'i.redd.it',
-  'i.imgur.com',
-  'preview.redd.it',
-  'v.redd.it',
-  'imagetwist.com',
-  'imgbox.com',
-  'www.imagebam.com',
-];
+/** Redirects followed per fetch; every hop is checked against the allowlist */
+const MAX_REDIRECTS = 5;
+
+/**
+ * Hosts media may be fetched from (subdomains included). Loaded from the
+ * database by core/media-hosts.ts: each source's baseUrl host and
+ * scraperConfig.mediaHosts, its adapter's CDNs and the global extras.
+ */
+let allowedHosts: ReadonlySet<string> = new Set();
+
+export function setAllowedMediaHosts(hosts: Iterable<string>): void {
+  allowedHosts = new Set(hosts);
+}
+
+/**
+ * Normalize an allowlist entry ("CDN.example.com", "*.example.com" or a URL)
+ * to a bare lowercase hostname, or null if it isn't one
+ */
+export function normalizeMediaHost(value: string): string | null {
+  let host = value.trim().toLowerCase().replace(/^\*\./, '');
+  if (host.includes('/')) {
+    try {
+      host = new URL(host).hostname;
+    } catch {
+      return null;
+    }
+  }
+  host = host.replace(/\.$/, '');
+  if (isIP(host)) return host;
+  return /^(?=.{1,253}$)([a-z0-9_]([a-z0-9_-]{0,61}[a-z0-9])?\.)+[a-z0-9-]{2,63}$/.test(host) ? host : null;
+}
+
+// Loopback, private, link-local, CGNAT, multicast and reserved ranges
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b:1::', 48], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Check if an IP address is one a media fetch must never reach
+ */
+export function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses (::ffff:a00:1) are matched against the IPv4 ranges
+  const family = isIP(address);
+  if (family === 4) return PRIVATE_ADDRESSES.check(address, 'ipv4');
+  if (family === 6) return PRIVATE_ADDRESSES.check(address, 'ipv6');
+  return true;
+}
 
 /**
  * Check if a URL is in the SSRF allowlist.
+ * Hostnames are only checked by name here; safeFetchMedia also checks the
+ * addresses they resolve to.
  */
 export function isAllowedUrl(url: string): boolean {
   try {
     const parsed = new URL(url);
-    if (['localhost', '127.0.0.1', '0.0.0.0', '169.254.169.254'].includes(parsed.hostname)) return false;
     if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return false;
-    return ALLOWED_HOSTS.some(h => parsed.hostname === h || parsed.hostname.endsWith(`.${h}`));
+
+    const hostname = parsed.hostname.replace(/^\[(.*)\]$/, '$1').replace(/\.$/, '');
+    if (hostname === 'localhost' || hostname.endsWith('.localhost')) return false;
+    if (isIP(hostname)) return !isPrivateAddress(hostname) && allowedHosts.has(hostname);
+
+    // The host itself or any parent domain
+    for (let host = hostname; host.includes('.'); host = host.slice(host.indexOf('.') + 1)) {
+      if (allowedHosts.has(host)) return true;
+    }
+    return false;
   } catch {
     return false;
   }
 }
 
+/**
+ * dns.lookup that fails for hostnames resolving to a private address, so a
+ * public name can't be pointed at internal services (including by changing
+ * its DNS between our check and the connection)
+ */
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+
+    const blocked = addresses.find(a => isPrivateAddress(a.address));
+    if (blocked) {
+      return callback(new Error(`${hostname} resolves to a private address (${blocked.address})`), '', 0);
+    }
+    const [first] = addresses;
+    if (!first) return callback(new Error(`${hostname} did not resolve`), '', 0);
+
+    if (options.all) {
+      (callback as unknown as (err: null, addresses: LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, first.address, first.family);
+    }
+  });
+};
+
+// Node's built-in fetch can't take a dispatcher from the undici package, so
+// media goes through the package's fetch
+const mediaAgent = new Agent({ connect: { lookup: publicOnlyLookup } });
+
 /**
  * Build auth/referer headers for fetching media from a source URL.
  */
@@ -61,24 +139,45 @@ export function buildSourceHeaders(
 }
 
 /**
- * Fetch a media URL with redirect validation (SSRF-safe).
+ * Fetch a URL with SSRF protection: the URL and every redirect hop must pass
+ * isAllowed, and connections are only made to public addresses.
  */
-export async function safeFetchMedia(
+export async function safeFetch(
   url: string,
   headers: Record<string, string>,
+  isAllowed: (url: string) => boolean,
   signal?: AbortSignal,
+  method: 'GET' | 'HEAD' = 'GET',
 ): Promise<Response> {
-  const res = await fetch(url, { headers, redirect: 'manual', signal });
+  if (!isAllowed(url)) throw new Error('URL not allowed');
+
+  let current = url;
+  for (let hop = 0; ; hop++) {
+    const res = await undiciFetch(current, { method, headers, redirect: 'manual', signal, dispatcher: mediaAgent });
+    // Same Fetch API Response at runtime; only the bundled type definitions differ
+    if (res.status < 300 || res.status >= 400 || res.status === 304) return res as unknown as Response;
+
+    await res.body?.cancel();
+    if (hop >= MAX_REDIRECTS) throw new Error(`More than ${MAX_REDIRECTS} redirects`);
 
-  if (res.status >= 300 && res.status < 400) {
     const location = res.headers.get('location');
     if (!location) throw new Error('Redirect with no location');
-    const resolved = new URL(location, url).toString();
-    if (!isAllowedUrl(resolved)) throw new Error('Redirect target not allowed');
-    return fetch(resolved, { headers, redirect: 'manual', signal });
+    current = new URL(location, current).toString();
+    if (!isAllowed(current)) throw new Error('Redirect target not allowed');
   }
+}
 
-  return res;
+/**
+ * Fetch a media URL through safeFetch, against the media host allowlist.
+ * Pass method 'HEAD' to check availability without downloading the body.
+ */
+export function safeFetchMedia(
+  url: string,
+  headers: Record<string, string>,
+  signal?: AbortSignal,
+  method: 'GET' | 'HEAD' = 'GET',
+): Promise<Response> {
+  return safeFetch(url, headers, isAllowedUrl, signal, method);
 }
 
 /**
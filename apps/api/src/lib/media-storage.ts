@@ -0,0 +1,285 @@
+import { getStorage, type StorageBody } from './storage/index.js';
+
+/**
+ * Media caching on top of the configured storage driver (see lib/storage).
+ * Originals, thumbnails and gallery assets are stored under per-item keys and
+ * served from the driver's public URL.
+ */
+
+/**
+ * Returns true if a storage driver is configured and media caching is on.
+ */
+export function isStorageEnabled(): boolean {
+  return getStorage() !== null;
+}
+
+/**
+ * Build the storage key for a media item.
+ * Format: media/<itemId>/original.<ext> or media/<itemId>/thumb.jpg
+ */
+function objectKey(itemId: string, variant: 'original' | 'thumb', contentType?: string): string {
+  const ext = variant === 'thumb'
+    ? 'jpg'
+    : extensionFromContentType(contentType || 'video/mp4');
+  return `media/${itemId}/${variant}.${ext}`;
+}
+
+/**
+ * Build the storage key for a gallery asset.
+ * Format: media/<itemId>/assets/<position>.<ext>
+ */
+function assetObjectKey(itemId: string, position: number, contentType: string): string {
+  return `media/${itemId}/assets/${position}.${extensionFromContentType(contentType)}`;
+}
+
+/**
+ * Build the storage key for a transcoded rendition.
+ * Format: media/<itemId>/renditions/<name>.<ext>
+ */
+function renditionObjectKey(itemId: string, name: string, contentType: string): string {
+  return `media/${itemId}/renditions/${name}.${extensionFromContentType(contentType)}`;
+}
+
+function extensionFromContentType(ct: string): string {
+  if (ct.includes('mp4')) return 'mp4';
+  if (ct.includes('webm')) return 'webm';
+  if (ct.includes('gif')) return 'gif';
+  if (ct.includes('png')) return 'png';
+  if (ct.includes('webp')) return 'webp';
+  if (ct.includes('jpeg') || ct.includes('jpg')) return 'jpg';
+  return 'bin';
+}
+
+async function putObject(
+  key: string,
+  body: StorageBody,
+  contentType: string,
+  contentLength?: number,
+): Promise<string | null> {
+  const storage = getStorage();
+  if (!storage) return null;
+
+  await storage.put(key, body, contentType, contentLength);
+  return storage.publicUrl(key);
+}
+
+/**
+ * Store a buffer (or a stream of contentLength bytes) and return its public URL.
+ */
+export async function uploadMedia(
+  itemId: string,
+  variant: 'original' | 'thumb',
+  body: StorageBody,
+  contentType: string,
+  contentLength?: number,
+): Promise<string | null> {
+  return putObject(objectKey(itemId, variant, contentType), body, contentType, contentLength);
+}
+
+/**
+ * Store a gallery asset (buffer or stream of contentLength bytes) and return its public URL.
+ */
+export async function uploadAsset(
+  itemId: string,
+  position: number,
+  body: StorageBody,
+  contentType: string,
+  contentLength?: number,
+): Promise<string | null> {
+  return putObject(assetObjectKey(itemId, position, contentType), body, contentType, contentLength);
+}
+
+/**
+ * Store a transcoded rendition and return its public URL.
+ */
+export async function uploadRendition(
+  itemId: string,
+  name: string,
+  body: Buffer | Uint8Array,
+  contentType: string,
+): Promise<string | null> {
+  return putObject(renditionObjectKey(itemId, name, contentType), body, contentType);
+}
+
+/**
+ * Download media for pre-caching. Returns null (after logging) on HTTP errors,
+ * oversized bodies and network failures.
+ */
+async function downloadMedia(
+  sourceUrl: string,
+  fetchFn: (url: string) => Promise<Response>,
+  defaultContentType: string,
+): Promise<{ buffer: Buffer; contentType: string } | null> {
+  const MAX_SIZE = 50 * 1024 * 1024; // 50MB
+
+  try {
+    const res = await fetchFn(sourceUrl);
+    if (!res.ok) {
+      console.warn(`Storage pre-cache: HTTP ${res.status} for ${sourceUrl}`);
+      return null;
+    }
+
+    // Check content-length before buffering
+    const cl = res.headers.get('content-length');
+    if (cl && parseInt(cl, 10) > MAX_SIZE) {
+      console.warn(`Storage pre-cache: skipping ${sourceUrl} (${cl} bytes exceeds limit)`);
+      return null;
+    }
+
+    const buffer = Buffer.from(await res.arrayBuffer());
+    if (buffer.length > MAX_SIZE) {
+      console.warn(`Storage pre-cache: skipping ${sourceUrl} (${buffer.length} bytes exceeds limit)`);
+      return null;
+    }
+
+    // Correct content-type for mislabeled videos
+    const rawCt = res.headers.get('content-type') || defaultContentType;
+    const isVideo = sourceUrl.endsWith('.mp4') || sourceUrl.endsWith('.webm');
+    const contentType = (isVideo && rawCt.startsWith('image/')) ? 'video/mp4' : rawCt;
+
+    return { buffer, contentType };
+  } catch (err) {
+    if ((err as Error).name === 'AbortError') {
+      console.warn(`Storage pre-cache: timeout downloading ${sourceUrl}`);
+    } else {
+      console.warn(`Storage pre-cache: failed for ${sourceUrl}:`, err);
+    }
+    return null;
+  }
+}
+
+/**
+ * Called with each downloaded body before it is stored, e.g. to derive a
+ * placeholder from a thumbnail without fetching it twice. Returning false
+ * skips storing it.
+ */
+export type OnMediaDownloaded = (buffer: Buffer, contentType: string) => Promise<boolean | void>;
+
+/**
+ * Run the post-download step. Returns false if the body shouldn't be stored;
+ * a failing step is logged and doesn't prevent storing.
+ */
+async function runOnDownloaded(
+  onDownloaded: OnMediaDownloaded | undefined,
+  media: { buffer: Buffer; contentType: string },
+  sourceUrl: string,
+): Promise<boolean> {
+  if (!onDownloaded) return true;
+  try {
+    return (await onDownloaded(media.buffer, media.contentType)) !== false;
+  } catch (err) {
+    console.warn(`Storage pre-cache: post-download step failed for ${sourceUrl}:`, err);
+    return true;
+  }
+}
+
+/**
+ * Download media from a source URL and store it.
+ * Returns the public URL, or null if storage is not configured or download fails.
+ */
+export async function downloadAndStoreMedia(
+  itemId: string,
+  variant: 'original' | 'thumb',
+  sourceUrl: string,
+  fetchFn: (url: string) => Promise<Response>,
+  onDownloaded?: OnMediaDownloaded,
+): Promise<string | null> {
+  if (!isStorageEnabled()) return null;
+
+  const media = await downloadMedia(sourceUrl, fetchFn, variant === 'thumb' ? 'image/jpeg' : 'video/mp4');
+  if (!media) return null;
+  if (!(await runOnDownloaded(onDownloaded, media, sourceUrl))) return null;
+
+  try {
+    return await uploadMedia(itemId, variant, media.buffer, media.contentType);
+  } catch (err) {
+    console.warn(`Storage pre-cache: upload failed for ${sourceUrl}:`, err);
+    return null;
+  }
+}
+
+/**
+ * Download a gallery asset and store it under its position.
+ * Returns the public URL with the stored content type and size, or null if
+ * storage is not configured or download fails.
+ */
+export async function downloadAndStoreAsset(
+  itemId: string,
+  position: number,
+  sourceUrl: string,
+  fetchFn: (url: string) => Promise<Response>,
+  defaultContentType = 'image/jpeg',
+  onDownloaded?: OnMediaDownloaded,
+): Promise<{ cdnUrl: string; contentType: string; size: number } | null> {
+  if (!isStorageEnabled()) return null;
+
+  const media = await downloadMedia(sourceUrl, fetchFn, defaultContentType);
+  if (!media) return null;
+  if (!(await runOnDownloaded(onDownloaded, media, sourceUrl))) return null;
+
+  try {
+    const cdnUrl = await uploadAsset(itemId, position, media.buffer, media.contentType);
+    return cdnUrl ? { cdnUrl, contentType: media.contentType, size: media.buffer.length } : null;
+  } catch (err) {
+    console.warn(`Storage pre-cache: upload failed for ${sourceUrl}:`, err);
+    return null;
+  }
+}
+
+/**
+ * Check if an item's original or thumbnail is already stored.
+ */
+export async function existsInStorage(
+  itemId: string,
+  variant: 'original' | 'thumb',
+): Promise<boolean> {
+  return (await findStoredKey(itemId, variant)) !== null;
+}
+
+/**
+ * Find the stored key of an item's original or thumbnail.
+ * We don't know the exact extension, so check common ones.
+ */
+async function findStoredKey(itemId: string, variant: 'original' | 'thumb'): Promise<string | null> {
+  const storage = getStorage();
+  if (!storage) return null;
+
+  const variants = variant === 'thumb'
+    ? ['jpg']
+    : ['mp4', 'webm', 'gif', 'jpg', 'png', 'webp'];
+
+  for (const ext of variants) {
+    const key = `media/${itemId}/${variant}.${ext}`;
+    if (await storage.head(key)) {
+      return key;
+    }
+  }
+  return null;
+}
+
+/**
+ * Read a stored original or thumbnail back into memory.
+ * Returns null if storage is not configured or the object doesn't exist.
+ */
+export async function readStoredMedia(
+  itemId: string,
+  variant: 'original' | 'thumb',
+): Promise<{ buffer: Buffer; contentType: string } | null> {
+  const key = await findStoredKey(itemId, variant);
+  const object = key ? await getStorage()!.stream(key) : null;
+  if (!object) return null;
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of object.body) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return { buffer: Buffer.concat(chunks), contentType: object.contentType };
+}
+
+/**
+ * Get the public URL an item's original or thumbnail is stored at.
+ * Returns null if storage is not configured.
+ */
+export function getStoredUrl(itemId: string, variant: 'original' | 'thumb', contentType?: string): string | null {
+  return getStorage()?.publicUrl(objectKey(itemId, variant, contentType)) ?? null;
+}
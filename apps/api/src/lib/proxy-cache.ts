@@ -0,0 +1,305 @@
+import { createHash, randomUUID } from 'crypto';
+import { createWriteStream } from 'fs';
+import { mkdir, readdir, readFile, rename, rm, stat, utimes, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { Transform, type Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { config } from '../config/index.js';
+
+/**
+ * Disk cache for proxied media
+ *
+ * Bodies are stored once per content hash under <dir>/objects; each cache key
+ * (the upstream URL) points at one through <dir>/entries/<sha256(key)>.json,
+ * so the same file reached through several URLs is kept once. The least
+ * recently used keys are evicted once the stored bytes exceed the budget, and
+ * an object is deleted when no key points at it any more.
+ */
+
+export interface CachedMedia {
+  path: string;
+  size: number;
+  contentType: string;
+}
+
+interface CacheEntry {
+  key: string;
+  hash: string;
+  size: number;
+  contentType: string;
+}
+
+interface UpstreamBody {
+  body: Readable;
+  contentType: string;
+  /** Declared length of the body, if the source sent one */
+  contentLength?: string | null;
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+export class ProxyDiskCache {
+  private readonly root: string;
+  /** Entries by sha256(key), least recently used first */
+  private readonly entries = new Map<string, CacheEntry>();
+  /** Reference counts of stored objects by content hash */
+  private readonly objects = new Map<string, { size: number; refs: number }>();
+  private totalBytes = 0;
+  private ready: Promise<void> | null = null;
+  /** In-flight background fills by sha256(key) */
+  private readonly fills = new Map<string, Promise<CachedMedia | null>>();
+
+  constructor(dir: string, private readonly maxBytes: number) {
+    this.root = resolve(process.cwd(), dir);
+  }
+
+  private objectPath(hash: string): string {
+    return join(this.root, 'objects', hash);
+  }
+
+  private entryPath(id: string): string {
+    return join(this.root, 'entries', `${id}.json`);
+  }
+
+  /**
+   * Load the entries left by a previous run (oldest access first), and drop
+   * partial writes and objects nothing points at
+   */
+  private init(): Promise<void> {
+    this.ready ??= (async () => {
+      await rm(join(this.root, 'tmp'), { recursive: true, force: true });
+      await Promise.all(['objects', 'entries', 'tmp'].map(dir => mkdir(join(this.root, dir), { recursive: true })));
+
+      const loaded: Array<{ id: string; entry: CacheEntry; accessedAt: number }> = [];
+      for (const file of await readdir(join(this.root, 'entries'))) {
+        const id = file.replace(/\.json$/, '');
+        try {
+          const entry = JSON.parse(await readFile(this.entryPath(id), 'utf8')) as CacheEntry;
+          const [entryStats, objectStats] = await Promise.all([
+            stat(this.entryPath(id)),
+            stat(this.objectPath(entry.hash)),
+          ]);
+          if (objectStats.size !== entry.size) throw new Error('Size mismatch');
+          loaded.push({ id, entry, accessedAt: entryStats.mtimeMs });
+        } catch {
+          await rm(this.entryPath(id), { force: true });
+        }
+      }
+
+      loaded.sort((a, b) => a.accessedAt - b.accessedAt);
+      for (const { id, entry } of loaded) this.addEntry(id, entry);
+
+      for (const hash of await readdir(join(this.root, 'objects'))) {
+        if (!this.objects.has(hash)) await rm(this.objectPath(hash), { force: true });
+      }
+
+      await this.evict();
+    })();
+    return this.ready;
+  }
+
+  private retain(hash: string, size: number): void {
+    const object = this.objects.get(hash);
+    if (object) {
+      object.refs++;
+    } else {
+      this.objects.set(hash, { size, refs: 1 });
+      this.totalBytes += size;
+    }
+  }
+
+  private async release(hash: string): Promise<void> {
+    const object = this.objects.get(hash);
+    if (!object || --object.refs > 0) return;
+    this.objects.delete(hash);
+    this.totalBytes -= object.size;
+    await rm(this.objectPath(hash), { force: true });
+  }
+
+  private addEntry(id: string, entry: CacheEntry): void {
+    this.retain(entry.hash, entry.size);
+    this.entries.set(id, entry);
+  }
+
+  private async removeEntry(id: string): Promise<void> {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    this.entries.delete(id);
+    await this.release(entry.hash);
+    await rm(this.entryPath(id), { force: true });
+  }
+
+  private async evict(): Promise<void> {
+    for (const id of this.entries.keys()) {
+      if (this.totalBytes <= this.maxBytes) break;
+      await this.removeEntry(id);
+    }
+  }
+
+  private async commit(key: string, tmpPath: string, hash: string, size: number, contentType: string): Promise<CachedMedia> {
+    if (this.objects.has(hash)) {
+      await rm(tmpPath, { force: true });
+    } else {
+      await rename(tmpPath, this.objectPath(hash));
+    }
+
+    const id = sha256(key);
+    const entry: CacheEntry = { key, hash, size, contentType };
+    await writeFile(this.entryPath(id), JSON.stringify(entry));
+
+    // Retain the new object before releasing the old one: they may be the same
+    const previous = this.entries.get(id);
+    this.retain(hash, size);
+    if (previous) await this.release(previous.hash);
+    this.entries.delete(id);
+    this.entries.set(id, entry);
+
+    await this.evict();
+    return { path: this.objectPath(hash), size, contentType };
+  }
+
+  /**
+   * Look up a cached body and mark it as recently used
+   */
+  async get(key: string): Promise<CachedMedia | null> {
+    await this.init();
+    const id = sha256(key);
+    const entry = this.entries.get(id);
+    if (!entry) return null;
+
+    this.entries.delete(id);
+    this.entries.set(id, entry);
+    // Persist the access time so the LRU order survives restarts
+    const now = new Date();
+    utimes(this.entryPath(id), now, now).catch(() => {});
+
+    return { path: this.objectPath(entry.hash), size: entry.size, contentType: entry.contentType };
+  }
+
+  /**
+   * Pass a body through while writing it to the cache. `stored` resolves with
+   * the cached copy once the body has been read to the end, or null if it was
+   * cut short or is larger than the whole budget. Chunks only move on once
+   * both the reader and the disk have taken them, so nothing is buffered
+   * beyond the usual stream high-water marks. Call get() first: it prepares
+   * the cache directory.
+   */
+  tee(key: string, contentType: string): { stream: Transform; stored: Promise<CachedMedia | null> } {
+    const tmpPath = join(this.root, 'tmp', randomUUID());
+    const file = createWriteStream(tmpPath);
+    const hash = createHash('sha256');
+    let size = 0;
+    let caching = true;
+    let pending: (() => void) | null = null;
+
+    let settle!: (media: CachedMedia | null) => void;
+    const stored = new Promise<CachedMedia | null>(resolve => { settle = resolve; });
+
+    const abandon = () => {
+      if (!caching) return;
+      caching = false;
+      file.destroy();
+      rm(tmpPath, { force: true }).catch(() => {});
+      settle(null);
+      pending?.();
+    };
+    file.on('error', abandon);
+
+    const stream = new Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        if (caching) {
+          size += chunk.length;
+          if (size > this.maxBytes) {
+            abandon();
+          } else {
+            hash.update(chunk);
+            if (!file.write(chunk)) {
+              pending = () => {
+                pending = null;
+                callback(null, chunk);
+              };
+              file.once('drain', () => pending?.());
+              return;
+            }
+          }
+        }
+        callback(null, chunk);
+      },
+      flush: (callback) => {
+        callback();
+        if (!caching) return;
+        caching = false;
+        file.end(() => {
+          this.commit(key, tmpPath, hash.digest('hex'), size, contentType).then(settle, (error) => {
+            console.warn('[ProxyCache] Failed to store body:', error);
+            rm(tmpPath, { force: true }).catch(() => {});
+            settle(null);
+          });
+        });
+      },
+    });
+
+    // Destroyed before the end (client went away, upstream failed)
+    stream.on('close', abandon);
+
+    return { stream, stored };
+  }
+
+  /**
+   * Download a body into the cache without a reader, once per key at a time:
+   * concurrent fills of the same key share one download
+   */
+  fill(key: string, open: () => Promise<UpstreamBody | null>): Promise<CachedMedia | null> {
+    const id = sha256(key);
+    const inFlight = this.fills.get(id);
+    if (inFlight) return inFlight;
+
+    const task = (async () => {
+      await this.init();
+      const upstream = await open();
+      if (!upstream) return null;
+
+      // Nobody reads a fill, so a body that can't be cached isn't downloaded at all
+      if (Number(upstream.contentLength) > this.maxBytes) {
+        upstream.body.destroy();
+        return null;
+      }
+
+      const { stream, stored } = this.tee(key, upstream.contentType);
+      let abandoned = false;
+      stored.then((media) => {
+        if (media) return;
+        // Too large after all (or the disk failed): stop the download
+        abandoned = true;
+        stream.destroy();
+      });
+      stream.resume();
+      try {
+        await pipeline(upstream.body, stream);
+      } catch (error) {
+        if (!abandoned) throw error;
+      }
+      return stored;
+    })()
+      .catch((error) => {
+        console.warn(`[ProxyCache] Background fill failed for ${key}:`, (error as Error).message);
+        return null;
+      })
+      .finally(() => this.fills.delete(id));
+
+    this.fills.set(id, task);
+    return task;
+  }
+}
+
+let cache: ProxyDiskCache | undefined;
+
+/**
+ * The process-wide proxy cache (PROXY_CACHE_DIR, at most PROXY_CACHE_MAX_BYTES)
+ */
+export function getProxyCache(): ProxyDiskCache {
+  cache ??= new ProxyDiskCache(config.PROXY_CACHE_DIR, config.PROXY_CACHE_MAX_BYTES);
+  return cache;
+}
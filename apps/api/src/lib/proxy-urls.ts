@@ -1,3 +1,5 @@
+import type { MediaRendition } from '@aggragif/shared';
+
 /**
  * Determines whether a media URL needs to be proxied through the API.
  * Attachment page URLs (e.g., /attachments/slug.123/) require authentication
@@ -15,28 +17,78 @@ function needsProxy(url: string): boolean {
   return true;
 }
 
+/** Transcoded renditions of an item, keyed by name, as stored in mediaUrls.renditions */
+export type RenditionName = 'mp4' | 'webm' | 'poster' | 'poster_webp' | 'preview';
+export type RenditionUrls = Partial<Record<RenditionName, string>>;
+
+/**
+ * Where the URLs are shown: 'card' is the feed grid (low-res preview when
+ * there is one), 'viewer' is the full item page.
+ */
+export type ProxyContext = 'card' | 'viewer';
+
 /**
  * Returns proxy URLs for a media item's images.
  * If the URL doesn't need proxying (e.g., direct image file), returns it as-is.
+ * Transcoded renditions win over the original: GIFs play as MP4 (WebM first
+ * in `sources`), cards get the preview, and posters stand in for thumbnails.
  */
 export function getProxyUrls(
   itemId: string,
-  mediaUrls: { original: string; thumbnail?: string; cdnOriginal?: string; cdnThumbnail?: string },
-  apiBase?: string,
-): { mediaUrl: string; thumbnailUrl: string } {
-  if (!apiBase && !process.env.API_PUBLIC_URL) {
+  mediaUrls: {
+    original: string;
+    thumbnail?: string;
+    cdnOriginal?: string;
+    cdnThumbnail?: string;
+    renditions?: RenditionUrls;
+  },
+  options: { context?: ProxyContext; apiBase?: string } = {},
+): { mediaUrl: string; thumbnailUrl: string; sources: MediaRendition[] } {
+  if (!options.apiBase && !process.env.API_PUBLIC_URL) {
     throw new Error('API_PUBLIC_URL environment variable is required for proxy URL generation');
   }
-  const base = apiBase || `${process.env.API_PUBLIC_URL}/api/v1/media`;
+  const base = options.apiBase || `${process.env.API_PUBLIC_URL}/api/v1/media`;
 
   const originalUrl = mediaUrls.original;
   const thumbUrl = mediaUrls.thumbnail || originalUrl;
+  const renditions = mediaUrls.renditions ?? {};
+
+  // Prefer the stored copy if already cached
+  const fullUrl = renditions.mp4
+    || mediaUrls.cdnOriginal
+    || (needsProxy(originalUrl) ? `${base}/proxy/${itemId}` : originalUrl);
+
+  const sources: MediaRendition[] = [];
+  if (options.context !== 'card' && renditions.webm && renditions.mp4) {
+    sources.push({ url: renditions.webm, mimeType: 'video/webm' });
+    sources.push({ url: renditions.mp4, mimeType: 'video/mp4' });
+  }
 
   return {
-    // Prefer CDN URL if already cached on R2
-    mediaUrl: mediaUrls.cdnOriginal
-      || (needsProxy(originalUrl) ? `${base}/proxy/${itemId}` : originalUrl),
+    mediaUrl: options.context === 'card' ? renditions.preview || fullUrl : fullUrl,
     thumbnailUrl: mediaUrls.cdnThumbnail
+      || renditions.poster_webp
+      || renditions.poster
       || (needsProxy(thumbUrl) ? `${base}/proxy/${itemId}?thumb=1` : thumbUrl),
+    sources,
   };
 }
+
+/**
+ * Returns the URL for a gallery asset: its CDN copy when cached, otherwise the
+ * asset proxy (or the source URL when it loads fine in the browser).
+ */
+export function getAssetProxyUrl(
+  itemId: string,
+  asset: { assetUrl: string; cdnUrl?: string | null; position: number },
+  apiBase?: string,
+): string {
+  if (asset.cdnUrl) return asset.cdnUrl;
+  if (!needsProxy(asset.assetUrl)) return asset.assetUrl;
+
+  if (!apiBase && !process.env.API_PUBLIC_URL) {
+    throw new Error('API_PUBLIC_URL environment variable is required for proxy URL generation');
+  }
+  const base = apiBase || `${process.env.API_PUBLIC_URL}/api/v1/media`;
+  return `${base}/proxy/${itemId}/assets/${asset.position}`;
+}
@@ -0,0 +1,101 @@
+import { config } from '../../config/index.js';
+import { LocalStorageDriver } from './local.js';
+import { S3StorageDriver } from './s3.js';
+import type { StorageDriver, StorageDriverName } from './types.js';
+
+export * from './types.js';
+export { LocalStorageDriver } from './local.js';
+export { S3StorageDriver } from './s3.js';
+
+/**
+ * Media storage backend
+ *
+ * STORAGE_DRIVER picks where cached media is written:
+ * - local: files under STORAGE_LOCAL_DIR, served by the API at /api/v1/storage
+ * - s3: any S3-compatible endpoint (AWS, MinIO, ...) via the S3_* settings
+ * - r2: Cloudflare R2 via the R2_* settings
+ * When unset, R2 is used if it is fully configured and caching is off otherwise.
+ */
+
+function requireSettings(driver: StorageDriverName, settings: Record<string, string | undefined>): void {
+  const missing = Object.entries(settings).filter(([, value]) => !value).map(([name]) => name);
+  if (missing.length > 0) {
+    throw new Error(`STORAGE_DRIVER=${driver} requires ${missing.join(', ')}`);
+  }
+}
+
+function isR2Configured(): boolean {
+  return Boolean(
+    config.R2_ACCOUNT_ID &&
+    config.R2_ACCESS_KEY_ID &&
+    config.R2_SECRET_ACCESS_KEY &&
+    config.R2_BUCKET &&
+    config.R2_PUBLIC_URL,
+  );
+}
+
+function resolveDriverName(): StorageDriverName | null {
+  if (config.STORAGE_DRIVER) return config.STORAGE_DRIVER;
+  return isR2Configured() ? 'r2' : null;
+}
+
+function createDriver(name: StorageDriverName): StorageDriver {
+  switch (name) {
+    case 'local': {
+      const publicUrl = config.STORAGE_PUBLIC_URL
+        || (config.API_PUBLIC_URL ? `${config.API_PUBLIC_URL}/api/v1/storage` : undefined);
+      requireSettings(name, { 'STORAGE_PUBLIC_URL or API_PUBLIC_URL': publicUrl });
+      return new LocalStorageDriver(config.STORAGE_LOCAL_DIR, publicUrl!.replace(/\/+$/, ''));
+    }
+
+    case 's3':
+      requireSettings(name, {
+        S3_BUCKET: config.S3_BUCKET,
+        S3_ACCESS_KEY_ID: config.S3_ACCESS_KEY_ID,
+        S3_SECRET_ACCESS_KEY: config.S3_SECRET_ACCESS_KEY,
+        'STORAGE_PUBLIC_URL': config.STORAGE_PUBLIC_URL,
+      });
+      return new S3StorageDriver({
+        name,
+        endpoint: config.S3_ENDPOINT,
+        region: config.S3_REGION,
+        bucket: config.S3_BUCKET!,
+        accessKeyId: config.S3_ACCESS_KEY_ID!,
+        secretAccessKey: config.S3_SECRET_ACCESS_KEY!,
+        publicUrl: config.STORAGE_PUBLIC_URL!,
+        forcePathStyle: config.S3_FORCE_PATH_STYLE,
+      });
+
+    case 'r2':
+      requireSettings(name, {
+        R2_ACCOUNT_ID: config.R2_ACCOUNT_ID,
+        R2_ACCESS_KEY_ID: config.R2_ACCESS_KEY_ID,
+        R2_SECRET_ACCESS_KEY: config.R2_SECRET_ACCESS_KEY,
+        R2_BUCKET: config.R2_BUCKET,
+        R2_PUBLIC_URL: config.R2_PUBLIC_URL,
+      });
+      return new S3StorageDriver({
+        name,
+        endpoint: `https://${config.R2_ACCOUNT_ID}.r2.cloudflarestorage.com`,
+        region: 'auto',
+        bucket: config.R2_BUCKET!,
+        accessKeyId: config.R2_ACCESS_KEY_ID!,
+        secretAccessKey: config.R2_SECRET_ACCESS_KEY!,
+        publicUrl: config.R2_PUBLIC_URL!,
+      });
+  }
+}
+
+let driver: StorageDriver | null | undefined;
+
+/**
+ * The configured storage driver, or null when media caching is disabled.
+ * Throws on first use if the selected driver is missing settings.
+ */
+export function getStorage(): StorageDriver | null {
+  if (driver === undefined) {
+    const name = resolveDriverName();
+    driver = name ? createDriver(name) : null;
+  }
+  return driver;
+}
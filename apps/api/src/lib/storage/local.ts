@@ -0,0 +1,80 @@
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, rm, stat, writeFile } from 'fs/promises';
+import { dirname, extname, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { StorageBody, StorageDriver, StoredObjectInfo, StoredObjectStream } from './types.js';
+
+/** Content types for the extensions media keys are written with */
+const CONTENT_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.gif': 'image/gif',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+};
+
+/**
+ * Stores objects as files under a directory. The API serves them itself
+ * (see modules/storage), so publicBaseUrl should point at that route.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local' as const;
+  private readonly root: string;
+
+  constructor(rootDir: string, private readonly publicBaseUrl: string) {
+    this.root = resolve(process.cwd(), rootDir);
+  }
+
+  /**
+   * Resolve a key to a path inside the root, rejecting keys that escape it
+   */
+  private pathFor(key: string): string {
+    const path = resolve(this.root, key);
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  }
+
+  private contentTypeFor(key: string): string {
+    return CONTENT_TYPES[extname(key).toLowerCase()] ?? 'application/octet-stream';
+  }
+
+  async put(key: string, body: StorageBody): Promise<void> {
+    const path = this.pathFor(key);
+    await mkdir(dirname(path), { recursive: true });
+    if (body instanceof Readable) {
+      await pipeline(body, createWriteStream(path));
+    } else {
+      await writeFile(path, body);
+    }
+  }
+
+  async head(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const stats = await stat(this.pathFor(key));
+      if (!stats.isFile()) return null;
+      return { size: stats.size, contentType: this.contentTypeFor(key) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  publicUrl(key: string): string {
+    return `${this.publicBaseUrl}/${key}`;
+  }
+
+  async stream(key: string): Promise<StoredObjectStream | null> {
+    const info = await this.head(key);
+    if (!info) return null;
+    return { ...info, body: createReadStream(this.pathFor(key)) };
+  }
+}
@@ -0,0 +1,101 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+} from '@aws-sdk/client-s3';
+import type { Readable } from 'stream';
+import type { StorageBody, StorageDriver, StoredObjectInfo, StoredObjectStream } from './types.js';
+
+export interface S3DriverOptions {
+  name: 's3' | 'r2';
+  /** Omit for AWS S3; set for MinIO, R2 and other S3-compatible services */
+  endpoint?: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Base URL objects are publicly reachable at (bucket website, CDN, r2.dev) */
+  publicUrl: string;
+  /** MinIO and most self-hosted services need path-style bucket addressing */
+  forcePathStyle?: boolean;
+}
+
+function isNotFound(error: unknown): boolean {
+  const err = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+  return err.name === 'NotFound' || err.name === 'NoSuchKey' || err.$metadata?.httpStatusCode === 404;
+}
+
+/**
+ * Stores objects in an S3-compatible bucket (AWS S3, MinIO, Cloudflare R2)
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name: 's3' | 'r2';
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private readonly publicBaseUrl: string;
+
+  constructor(options: S3DriverOptions) {
+    this.name = options.name;
+    this.bucket = options.bucket;
+    this.publicBaseUrl = options.publicUrl.replace(/\/+$/, '');
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials: {
+        accessKeyId: options.accessKeyId,
+        secretAccessKey: options.secretAccessKey,
+      },
+    });
+  }
+
+  async put(key: string, body: StorageBody, contentType: string, contentLength?: number): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: body,
+      ContentLength: contentLength,
+      ContentType: contentType,
+      CacheControl: 'public, max-age=31536000, immutable',
+    }));
+  }
+
+  async head(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const res = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+      return {
+        size: res.ContentLength ?? 0,
+        contentType: res.ContentType ?? 'application/octet-stream',
+      };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  publicUrl(key: string): string {
+    return `${this.publicBaseUrl}/${key}`;
+  }
+
+  async stream(key: string): Promise<StoredObjectStream | null> {
+    try {
+      const res = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      if (!res.Body) return null;
+      return {
+        size: res.ContentLength ?? 0,
+        contentType: res.ContentType ?? 'application/octet-stream',
+        // The Node.js runtime returns an IncomingMessage
+        body: res.Body as Readable,
+      };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import type { Readable } from 'stream';
+
+export type StorageDriverName = 'local' | 's3' | 'r2';
+
+export type StorageBody = Buffer | Uint8Array | Readable;
+
+export interface StoredObjectInfo {
+  size: number;
+  contentType: string;
+}
+
+export interface StoredObjectStream extends StoredObjectInfo {
+  body: Readable;
+}
+
+/**
+ * Object storage for cached media. Keys are slash-separated paths such as
+ * media/<itemId>/original.mp4; every driver maps them to a public URL.
+ */
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+  /** Streams must pass their contentLength (S3 needs it up front) */
+  put(key: string, body: StorageBody, contentType: string, contentLength?: number): Promise<void>;
+  /** Size and content type, or null if the object doesn't exist */
+  head(key: string): Promise<StoredObjectInfo | null>;
+  /** Deleting a missing object is not an error */
+  delete(key: string): Promise<void>;
+  publicUrl(key: string): string;
+  /** Open the object for reading, or null if it doesn't exist */
+  stream(key: string): Promise<StoredObjectStream | null>;
+}
@@ -0,0 +1,195 @@
+import { randomUUID } from 'crypto';
+import { sql } from 'drizzle-orm';
+import { db } from './db.js';
+import { redis } from './redis.js';
+import { config } from '../config/index.js';
+
+/**
+ * View counting pipeline.
+ *
+ * Views are deduplicated per viewer with short-lived Redis keys so the window
+ * is shared across API replicas, then buffered in a Redis hash and flushed to
+ * media_items.view_count in batches instead of one UPDATE per request.
+ *
+ * Each batch is applied together with a marker row in view_count_flushes, so a
+ * flush interrupted before its hash is deleted (crash, failed batch) can be
+ * picked up again by any replica without counting a batch twice.
+ */
+
+const SEEN_KEY_PREFIX = 'views:seen:';
+const PENDING_KEY = 'views:pending';
+const FLUSHING_KEY_PREFIX = 'views:flushing:';
+const FLUSH_LOCK_PREFIX = 'views:flush-lock:';
+const FLUSH_BATCH_SIZE = 500;
+/** A flush holding its lock longer than this is assumed to have died */
+const FLUSH_LOCK_TTL_MS = 5 * 60 * 1000;
+
+let flushTimer: NodeJS.Timeout | null = null;
+let flushInFlight: Promise<number> | null = null;
+
+/**
+ * Record a view of a media item by a viewer (user ID or IP).
+ * Returns true if the view was counted, false if it was a repeat view
+ * inside the dedup window or Redis was unavailable.
+ */
+export async function recordView(mediaItemId: string, viewerKey: string): Promise<boolean> {
+  try {
+    const seen = await redis.set(
+      `${SEEN_KEY_PREFIX}${mediaItemId}:${viewerKey}`,
+      '1',
+      'EX',
+      config.VIEW_DEDUP_WINDOW_SECONDS,
+      'NX',
+    );
+    if (seen !== 'OK') return false;
+
+    await redis.hincrby(PENDING_KEY, mediaItemId, 1);
+    return true;
+  } catch (err) {
+    console.error('[Views] Failed to record view:', err);
+    return false;
+  }
+}
+
+/**
+ * Flush buffered view counts to Postgres.
+ * The pending hash is renamed atomically so views recorded during the flush
+ * land in a fresh hash, and each renamed hash is locked while one replica
+ * works on it. Hashes left by earlier flushes are finished first.
+ * Returns the number of media items updated.
+ */
+export async function flushViewCounts(): Promise<number> {
+  // Serialize flushes within this process (timer tick vs shutdown)
+  if (flushInFlight) return flushInFlight;
+
+  flushInFlight = doFlush().finally(() => {
+    flushInFlight = null;
+  });
+  return flushInFlight;
+}
+
+async function claimFlush(flushId: string): Promise<boolean> {
+  const claimed = await redis.set(`${FLUSH_LOCK_PREFIX}${flushId}`, '1', 'PX', FLUSH_LOCK_TTL_MS, 'NX');
+  return claimed === 'OK';
+}
+
+async function doFlush(): Promise<number> {
+  let updated = 0;
+
+  // Hashes whose flush crashed or had a batch fail
+  let cursor = '0';
+  do {
+    const [next, keys] = await redis.scan(cursor, 'MATCH', `${FLUSHING_KEY_PREFIX}*`, 'COUNT', 100);
+    cursor = next;
+    for (const key of keys) {
+      const flushId = key.slice(FLUSHING_KEY_PREFIX.length);
+      if (await claimFlush(flushId)) updated += await flushHash(flushId);
+    }
+  } while (cursor !== '0');
+
+  const flushId = randomUUID();
+  await claimFlush(flushId);
+  try {
+    await redis.rename(PENDING_KEY, `${FLUSHING_KEY_PREFIX}${flushId}`);
+  } catch (err) {
+    await redis.del(`${FLUSH_LOCK_PREFIX}${flushId}`);
+    // Nothing buffered (or another replica grabbed it first)
+    if (err instanceof Error && err.message.includes('no such key')) return updated;
+    throw err;
+  }
+  updated += await flushHash(flushId);
+
+  try {
+    await db.execute(sql`DELETE FROM view_count_flushes WHERE flushed_at < now() - interval '1 day'`);
+  } catch (err) {
+    console.warn('[Views] Failed to prune flush markers:', err);
+  }
+
+  return updated;
+}
+
+/**
+ * Apply one claimed hash. Batches are cut from the sorted entries so a retry
+ * of the same hash produces the same batch ids, and a batch whose marker row
+ * already exists is skipped. The hash is kept for a later retry if any batch
+ * fails.
+ */
+async function flushHash(flushId: string): Promise<number> {
+  const flushingKey = `${FLUSHING_KEY_PREFIX}${flushId}`;
+  const lockKey = `${FLUSH_LOCK_PREFIX}${flushId}`;
+
+  const pending = await redis.hgetall(flushingKey);
+  const entries = Object.entries(pending)
+    .map(([id, count]) => [id, parseInt(count, 10)] as const)
+    .filter(([, count]) => Number.isFinite(count) && count > 0)
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  let updated = 0;
+  let failed = false;
+
+  for (let i = 0; i < entries.length; i += FLUSH_BATCH_SIZE) {
+    const batch = entries.slice(i, i + FLUSH_BATCH_SIZE);
+    const batchId = `${flushId}:${i / FLUSH_BATCH_SIZE}`;
+    const values = sql.join(
+      batch.map(([id, count]) => sql`(${id}::uuid, ${count}::int)`),
+      sql`, `,
+    );
+
+    try {
+      // Marker and counts commit together: the update only runs if this batch's marker is new
+      await db.execute(sql`
+        WITH applied AS (
+          INSERT INTO view_count_flushes (id) VALUES (${batchId})
+          ON CONFLICT DO NOTHING
+          RETURNING id
+        )
+        UPDATE media_items AS m
+        SET view_count = m.view_count + v.delta
+        FROM (VALUES ${values}) AS v(id, delta)
+        WHERE m.id = v.id AND EXISTS (SELECT 1 FROM applied)
+      `);
+      updated += batch.length;
+    } catch (err) {
+      console.error(`[Views] Failed to flush batch of ${batch.length} items:`, err);
+      failed = true;
+    }
+  }
+
+  if (failed) {
+    // Keep the hash; the next flush retries the batches that didn't go through
+    await redis.del(lockKey);
+  } else {
+    await redis.del(flushingKey, lockKey);
+  }
+  return updated;
+}
+
+/**
+ * Start the periodic flush loop.
+ */
+export function startViewFlusher(): void {
+  if (flushTimer) return;
+
+  flushTimer = setInterval(() => {
+    flushViewCounts().catch((err) => console.error('[Views] Flush failed:', err));
+  }, config.VIEW_FLUSH_INTERVAL_MS);
+  flushTimer.unref();
+
+  console.log(`[Views] Flushing view counts every ${config.VIEW_FLUSH_INTERVAL_MS}ms`);
+}
+
+/**
+ * Stop the flush loop and write out whatever is still buffered.
+ */
+export async function stopViewFlusher(): Promise<void> {
+  if (flushTimer) {
+    clearInterval(flushTimer);
+    flushTimer = null;
+  }
+
+  try {
+    await flushViewCounts();
+  } catch (err) {
+    console.error('[Views] Final flush failed:', err);
+  }
+}
@@ -1,20 +1,36 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { db } from '../../lib/db.js';
-import { sources, threads, ingestRuns, mediaItems, users, comments, likes, reports, blockedMedia, moderationActions } from '@aggragif/db/schema';
+import { config } from '../../config/index.js';
+import { sources, threads, ingestRuns, mediaItems, mediaHosts, users, comments, likes, reports, blockedMedia, moderationActions } from '@aggragif/db/schema';
 import { eq, desc, and, isNull, sql, count, gte, lte, ilike, or } from 'drizzle-orm';
 import { getProxyUrls } from '../../lib/proxy-urls.js';
-import { isR2Enabled, downloadAndUploadToR2 } from '../../lib/r2.js';
-import { buildSourceHeaders, safeFetchMedia, isAllowedUrl } from '../../lib/media-fetcher.js';
+import { isStorageEnabled, downloadAndStoreMedia, readStoredMedia } from '../../lib/media-storage.js';
+import { cacheItemAssets } from '../../core/asset-cache.js';
+import { storeItemPlaceholder } from '../../core/placeholder.js';
+import { probeMedia, applyItemProbe } from '../../core/media-probe.js';
+import { buildSourceHeaders, safeFetchMedia, isAllowedUrl, normalizeMediaHost } from '../../lib/media-fetcher.js';
 import {
   getQueueStats,
   triggerIngestionNow,
   triggerThreadIngestion,
   pauseIngestion,
   resumeIngestion,
+  startThreadBackfill,
+  resumeThreadBackfill,
+  cancelThreadBackfill,
+  BackfillStateError,
+  retryRunFailures,
 } from '../../queue/scheduler.js';
+import type { RunErrorDetails } from '../../core/incremental-scanner.js';
+import { applyPollOverrides } from '../../core/poll-schedule.js';
+import { previewSource } from '../../core/scrape-preview.js';
+import { restoreLinkHealth } from '../../core/link-health.js';
+import { refreshMediaHosts, sourceMediaHosts } from '../../core/media-hosts.js';
+import { triggerLinkHealthCheck } from '../../queue/link-health.js';
 import { getCircuitBreakerStates } from '../../resilience/circuit-breaker.js';
-import { getRateLimiterStates, globalConcurrencyLimiter } from '../../resilience/rate-limiter.js';
+import { getRecentIngestEvents, subscribeIngestEvents } from '../../lib/ingest-events.js';
+import { getRateLimiterStates, getRateLimiter, fromRequestsPerMinute, globalConcurrencyLimiter } from '../../resilience/rate-limiter.js';
 
 /**
  * Admin routes for managing ingestion and moderation
@@ -87,8 +103,12 @@ export async function adminRoutes(app: FastifyInstance) {
    * Get overall ingestion status and queue stats
    */
   app.get('/ingestion/status', async () => {
-    const [queueStats, sources_count, threads_count, recent_runs] = await Promise.all([
+    const [queueStats, circuitBreakers, rateLimiters, concurrencyActive, concurrencyWaiting, sources_count, threads_count, recent_runs] = await Promise.all([
       getQueueStats(),
+      getCircuitBreakerStates(),
+      getRateLimiterStates(),
+      globalConcurrencyLimiter.getActive(),
+      globalConcurrencyLimiter.getWaiting(),
       db.select().from(sources).where(eq(sources.enabled, true)),
       db.select().from(threads).where(eq(threads.enabled, true)),
       db.query.ingestRuns.findMany({
@@ -103,11 +123,13 @@ export async function adminRoutes(app: FastifyInstance) {
 
     return {
       queues: queueStats,
-      circuitBreakers: getCircuitBreakerStates(),
-      rateLimiters: getRateLimiterStates(),
+      // 'redis' when the states below are shared by every replica and worker
+      resilienceBackend: config.RESILIENCE_BACKEND,
+      circuitBreakers,
+      rateLimiters,
       concurrency: {
-        active: globalConcurrencyLimiter.getActive(),
-        waiting: globalConcurrencyLimiter.getWaiting(),
+        active: concurrencyActive,
+        waiting: concurrencyWaiting,
       },
       counts: {
         enabledSources: sources_count.length,
@@ -127,6 +149,54 @@ export async function adminRoutes(app: FastifyInstance) {
     };
   });
 
+  // Open event streams, ended before the server closes so it doesn't wait on them
+  const eventStreams = new Set<() => void>();
+  app.addHook('preClose', async () => {
+    for (const end of eventStreams) end();
+  });
+
+  /**
+   * GET /admin/ingestion/events
+   * Server-Sent Events stream of live ingestion progress from every worker:
+   * runs starting and finishing, pages fetched, items committed, catch-up
+   * cursors saved and circuit breaker state changes. Starts with the latest
+   * events for context.
+   */
+  app.get('/ingestion/events', async (request: FastifyRequest, reply: FastifyReply) => {
+    // Headers set by plugins (CORS) are copied over: the raw response bypasses them
+    reply.hijack();
+    for (const [name, value] of Object.entries(reply.getHeaders())) {
+      if (value !== undefined) reply.raw.setHeader(name, value);
+    }
+    reply.raw.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      // Keep reverse proxies from buffering the stream
+      'X-Accel-Buffering': 'no',
+    });
+
+    const send = (event: unknown) => {
+      if (reply.raw.writableEnded) return;
+      reply.raw.write(`data: ${JSON.stringify(event)}\n\n`);
+    };
+
+    const unsubscribe = subscribeIngestEvents(send);
+    // Comment lines keep idle connections from timing out
+    const heartbeat = setInterval(() => reply.raw.write(': keepalive\n\n'), 15000);
+
+    const end = () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      eventStreams.delete(end);
+      reply.raw.end();
+    };
+    eventStreams.add(end);
+    request.raw.on('close', end);
+
+    for (const event of await getRecentIngestEvents()) send(event);
+  });
+
   // =========================================================================
   // SOURCES MANAGEMENT
   // =========================================================================
@@ -164,7 +234,17 @@ export async function adminRoutes(app: FastifyInstance) {
    * POST /admin/ingestion/sources
    * Create a new source
    */
-  const scraperConfigSchema = z.object({
+  // A hostname (or URL to take it from), stored normalized
+  const mediaHostSchema = z.string().transform((value, ctx) => {
+    const host = normalizeMediaHost(value);
+    if (!host) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid host: ${value}` });
+      return z.NEVER;
+    }
+    return host;
+  });
+
+  const htmlScraperConfigSchema = z.object({
     selectors: z.object({
       itemContainer: z.string(),
       item: z.string(),
@@ -197,7 +277,71 @@ export async function adminRoutes(app: FastifyInstance) {
     dateFormat: z.string().optional(),
     newestFirst: z.boolean().optional(),
     headers: z.record(z.string()).optional(),
-  }).optional();
+    mediaHosts: z.array(mediaHostSchema).max(50).optional(),
+  });
+
+  // generic-json: JSONPath-style field mappings (see GenericJsonConfig)
+  const jsonScraperConfigSchema = z.object({
+    endpoint: z.string().min(1),
+    query: z.record(z.string()).optional(),
+    fields: z.object({
+      items: z.string().min(1),
+      id: z.string().min(1),
+      mediaUrl: z.string().min(1),
+      postedAt: z.string().min(1),
+      permalink: z.string().optional(),
+      author: z.string().optional(),
+      authorUrl: z.string().optional(),
+      title: z.string().optional(),
+      caption: z.string().optional(),
+      thumbnailUrl: z.string().optional(),
+      mediaType: z.string().optional(),
+      width: z.string().optional(),
+      height: z.string().optional(),
+      duration: z.string().optional(),
+      tags: z.string().optional(),
+      likes: z.string().optional(),
+      comments: z.string().optional(),
+      views: z.string().optional(),
+    }),
+    pagination: z.object({
+      strategy: z.enum(['page', 'offset', 'cursor', 'none']),
+      param: z.string().optional(),
+      pageSize: z.number().int().min(1).optional(),
+      pageSizeParam: z.string().optional(),
+      firstPage: z.number().int().min(0).optional(),
+      nextCursor: z.string().optional(),
+      totalPages: z.string().optional(),
+      maxPages: z.number().int().min(1).max(100).optional(),
+    }).refine(p => p.strategy !== 'cursor' || !!p.nextCursor, {
+      message: 'Cursor pagination requires nextCursor',
+      path: ['nextCursor'],
+    }),
+    auth: z.object({
+      type: z.literal('bearer'),
+      token: z.string().optional(),
+      tokenUrl: z.string().optional(),
+      tokenMethod: z.enum(['GET', 'POST']).optional(),
+      tokenBody: z.record(z.unknown()).optional(),
+      tokenPath: z.string().optional(),
+      expiresInPath: z.string().optional(),
+      ttlSeconds: z.number().int().min(60).optional(),
+    }).optional(),
+    permalinkTemplate: z.string().optional(),
+    durationUnit: z.enum(['s', 'ms']).optional(),
+    defaultMediaType: z.enum(['image', 'gif', 'video']).optional(),
+    newestFirst: z.boolean().optional(),
+    headers: z.record(z.string()).optional(),
+    mediaHosts: z.array(mediaHostSchema).max(50).optional(),
+  });
+
+  // feed, reddit, redgifs: nothing to map, only request headers and media hosts
+  const basicScraperConfigSchema = z.object({
+    headers: z.record(z.string()).optional(),
+    mediaHosts: z.array(mediaHostSchema).max(50).optional(),
+  });
+
+  const scraperConfigSchema = z.union([htmlScraperConfigSchema, jsonScraperConfigSchema, basicScraperConfigSchema]).optional();
 
   const createSourceSchema = z.object({
     name: z.string().min(1).max(255),
@@ -226,6 +370,8 @@ export async function adminRoutes(app: FastifyInstance) {
       enabled: body.enabled,
     }).returning();
 
+    await refreshMediaHosts();
+
     return reply.status(201).send(source);
   });
 
@@ -249,6 +395,8 @@ export async function adminRoutes(app: FastifyInstance) {
       return reply.status(404).send({ error: 'Not Found', message: 'Source not found' });
     }
 
+    await refreshMediaHosts();
+
     return source;
   });
 
@@ -263,6 +411,90 @@ export async function adminRoutes(app: FastifyInstance) {
       .set({ deletedAt: new Date(), enabled: false })
       .where(eq(sources.id, id));
 
+    await refreshMediaHosts();
+
+    return { success: true };
+  });
+
+  // =========================================================================
+  // MEDIA HOSTS
+  // =========================================================================
+
+  /**
+   * GET /admin/media-hosts
+   * Global extra media hosts, and the hosts each source contributes
+   */
+  app.get('/media-hosts', async () => {
+    const [extras, sourceRows] = await Promise.all([
+      db.query.mediaHosts.findMany({
+        orderBy: (h, { asc }) => [asc(h.host)],
+      }),
+      db.query.sources.findMany({
+        where: isNull(sources.deletedAt),
+        columns: { id: true, name: true, baseUrl: true, mode: true, scraperConfig: true },
+        orderBy: (s, { asc }) => [asc(s.name)],
+      }),
+    ]);
+
+    return {
+      hosts: extras.map(h => ({
+        id: h.id,
+        host: h.host,
+        note: h.note,
+        createdAt: h.createdAt,
+      })),
+      sources: sourceRows.map(s => ({
+        id: s.id,
+        name: s.name,
+        hosts: sourceMediaHosts(s),
+      })),
+    };
+  });
+
+  /**
+   * POST /admin/media-hosts
+   * Allow media from a host (and its subdomains) for every source
+   */
+  const createMediaHostSchema = z.object({
+    host: mediaHostSchema,
+    note: z.string().max(255).optional(),
+  });
+
+  app.post('/media-hosts', async (request: FastifyRequest, reply: FastifyReply) => {
+    const body = createMediaHostSchema.parse(request.body);
+    const user = request.user as { sub: string };
+
+    const [host] = await db.insert(mediaHosts)
+      .values({ host: body.host, note: body.note, createdBy: user.sub })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!host) {
+      return reply.status(409).send({ error: 'Conflict', message: `${body.host} is already allowed` });
+    }
+
+    await refreshMediaHosts();
+
+    return reply.status(201).send(host);
+  });
+
+  /**
+   * DELETE /admin/media-hosts/:id
+   * Remove a global media host
+   */
+  app.delete('/media-hosts/:id', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+
+    const [host] = await db.delete(mediaHosts)
+      .where(eq(mediaHosts.id, id))
+      .returning({ id: mediaHosts.id });
+
+    if (!host) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Media host not found' });
+    }
+
+    await refreshMediaHosts();
+
     return { success: true };
   });
 
@@ -270,6 +502,64 @@ export async function adminRoutes(app: FastifyInstance) {
   // THREADS MANAGEMENT
   // =========================================================================
 
+  /**
+   * POST /admin/ingestion/preview
+   * Dry-run a draft scraper config against a thread URL without saving anything.
+   * Returns the parsed items, pagination and per-field selector misses.
+   */
+  const previewSchema = z.object({
+    // Borrow defaults (mode, base URL, config, user agent, rate limit) from a saved source
+    sourceId: z.string().uuid().optional(),
+    mode: z.string().optional(),
+    baseUrl: z.string().url().optional(),
+    threadUrl: z.string().url(),
+    externalId: z.string().min(1).max(512).optional(),
+    scraperConfig: scraperConfigSchema,
+    userAgent: z.string().optional(),
+    rateLimitConfig: z.object({
+      requestsPerMinute: z.number().min(1).max(600).default(30),
+      burstSize: z.number().optional(),
+      crawlDelay: z.number().optional(),
+    }).optional(),
+    pageNumber: z.number().int().min(1).optional(),
+  });
+
+  app.post('/ingestion/preview', async (request: FastifyRequest, reply: FastifyReply) => {
+    const body = previewSchema.parse(request.body);
+
+    let source: typeof sources.$inferSelect | undefined;
+    if (body.sourceId) {
+      source = await db.query.sources.findFirst({ where: eq(sources.id, body.sourceId) });
+      if (!source) {
+        return reply.status(404).send({ error: 'Not Found', message: 'Source not found' });
+      }
+    }
+
+    const rateLimit = body.rateLimitConfig
+      ?? (source?.rateLimitConfig as { requestsPerMinute: number; burstSize?: number; crawlDelay?: number } | undefined)
+      ?? { requestsPerMinute: 60 };
+    const threadUrl = new URL(body.threadUrl);
+
+    const result = await previewSource({
+      mode: body.mode ?? source?.mode ?? 'generic-html',
+      baseUrl: body.baseUrl ?? source?.baseUrl ?? threadUrl.origin,
+      threadUrl: body.threadUrl,
+      // Same derivation the add-thread form uses
+      externalId: body.externalId
+        ?? (`${threadUrl.pathname}${threadUrl.search}`.replace(/[^a-zA-Z0-9]/g, '_').slice(0, 100) || 'thread'),
+      scraperConfig: (body.scraperConfig ?? source?.scraperConfig ?? undefined) as Record<string, unknown> | undefined,
+      userAgent: body.userAgent ?? source?.userAgent ?? undefined,
+      rateLimit,
+      // Share the saved source's bucket so previews count against its limit
+      rateLimiter: source
+        ? getRateLimiter(source.id, fromRequestsPerMinute(rateLimit.requestsPerMinute, rateLimit.burstSize))
+        : undefined,
+      pageNumber: body.pageNumber,
+    });
+
+    return result;
+  });
+
   /**
    * GET /admin/ingestion/threads
    * List all threads (optionally filtered by source)
@@ -299,6 +589,10 @@ export async function adminRoutes(app: FastifyInstance) {
       displayName: t.displayName,
       enabled: t.enabled,
       priority: t.priority,
+      pollIntervalMs: t.pollIntervalMs,
+      minPollIntervalMs: t.minPollIntervalMs,
+      maxPollIntervalMs: t.maxPollIntervalMs,
+      nextRunAt: t.nextRunAt,
       checkpoint: t.checkpoint ? {
         lastSeenItemId: t.checkpoint.lastSeenItemId,
         lastRunAt: t.checkpoint.lastRunAt,
@@ -306,6 +600,7 @@ export async function adminRoutes(app: FastifyInstance) {
         consecutiveFailures: t.checkpoint.consecutiveFailures,
         hasCatchUpCursor: !!t.checkpoint.catchUpCursor,
       } : null,
+      backfill: t.checkpoint?.backfillCursor ?? null,
       createdAt: t.createdAt,
     }));
   });
@@ -314,6 +609,12 @@ export async function adminRoutes(app: FastifyInstance) {
    * POST /admin/ingestion/threads
    * Create a new thread
    */
+  const pollIntervalOverrideSchema = z.number().int()
+    .min(60 * 1000) // 1 minute
+    .max(7 * 24 * 60 * 60 * 1000) // 1 week
+    .nullable()
+    .optional();
+
   const createThreadSchema = z.object({
     sourceId: z.string().uuid(),
     externalId: z.string().min(1).max(512),
@@ -321,11 +622,24 @@ export async function adminRoutes(app: FastifyInstance) {
     displayName: z.string().optional(),
     enabled: z.boolean().default(true),
     priority: z.number().min(0).max(10).default(0),
+    // Overrides for the adaptive polling interval (null clears)
+    minPollIntervalMs: pollIntervalOverrideSchema,
+    maxPollIntervalMs: pollIntervalOverrideSchema,
   });
 
+  function pollOverridesConflict(body: { minPollIntervalMs?: number | null; maxPollIntervalMs?: number | null }): boolean {
+    return body.minPollIntervalMs != null
+      && body.maxPollIntervalMs != null
+      && body.minPollIntervalMs > body.maxPollIntervalMs;
+  }
+
   app.post('/ingestion/threads', async (request: FastifyRequest, reply: FastifyReply) => {
     const body = createThreadSchema.parse(request.body);
 
+    if (pollOverridesConflict(body)) {
+      return reply.status(400).send({ error: 'Bad Request', message: 'minPollIntervalMs cannot exceed maxPollIntervalMs' });
+    }
+
     const [thread] = await db.insert(threads).values({
       sourceId: body.sourceId,
       externalId: body.externalId,
@@ -333,6 +647,8 @@ export async function adminRoutes(app: FastifyInstance) {
       displayName: body.displayName,
       enabled: body.enabled,
       priority: body.priority,
+      minPollIntervalMs: body.minPollIntervalMs,
+      maxPollIntervalMs: body.maxPollIntervalMs,
     }).returning();
 
     return reply.status(201).send(thread);
@@ -346,6 +662,10 @@ export async function adminRoutes(app: FastifyInstance) {
     const { id } = request.params as { id: string };
     const body = createThreadSchema.partial().parse(request.body);
 
+    if (pollOverridesConflict(body)) {
+      return reply.status(400).send({ error: 'Bad Request', message: 'minPollIntervalMs cannot exceed maxPollIntervalMs' });
+    }
+
     const [thread] = await db.update(threads)
       .set({
         ...body,
@@ -358,6 +678,11 @@ export async function adminRoutes(app: FastifyInstance) {
       return reply.status(404).send({ error: 'Not Found', message: 'Thread not found' });
     }
 
+    if (body.minPollIntervalMs !== undefined || body.maxPollIntervalMs !== undefined) {
+      await applyPollOverrides(id);
+      return (await db.query.threads.findFirst({ where: eq(threads.id, id) })) ?? thread;
+    }
+
     return thread;
   });
 
@@ -406,6 +731,76 @@ export async function adminRoutes(app: FastifyInstance) {
     }
   });
 
+  /**
+   * POST /admin/ingestion/threads/:id/backfill
+   * Backfill a thread's older posts, bounded by posting date and/or page depth.
+   * Runs in chunks behind live polling; progress is in the thread's `backfill`.
+   */
+  const backfillSchema = z.object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    pages: z.number().int().min(1).max(10000).optional(),
+  }).refine(b => !b.from || !b.to || b.from <= b.to, {
+    message: 'from must not be after to',
+    path: ['from'],
+  });
+
+  /** 409 for a backfill in the wrong state; anything else is a server error */
+  function sendBackfillError(reply: FastifyReply, error: unknown) {
+    if (error instanceof BackfillStateError) {
+      return reply.status(409).send({ error: 'Conflict', message: error.message });
+    }
+    throw error;
+  }
+
+  app.post('/ingestion/threads/:id/backfill', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const body = backfillSchema.parse(request.body ?? {});
+
+    try {
+      const backfill = await startThreadBackfill(id, { from: body.from, to: body.to, maxPages: body.pages });
+      if (!backfill) {
+        return reply.status(404).send({ error: 'Not Found', message: 'Thread not found' });
+      }
+      return reply.status(201).send(backfill);
+    } catch (error) {
+      return sendBackfillError(reply, error);
+    }
+  });
+
+  /**
+   * POST /admin/ingestion/threads/:id/backfill/resume
+   * Resume a failed or cancelled backfill where it stopped
+   */
+  app.post('/ingestion/threads/:id/backfill/resume', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      const backfill = await resumeThreadBackfill(id);
+      if (!backfill) {
+        return reply.status(404).send({ error: 'Not Found', message: 'Thread not found' });
+      }
+      return backfill;
+    } catch (error) {
+      return sendBackfillError(reply, error);
+    }
+  });
+
+  /**
+   * POST /admin/ingestion/threads/:id/backfill/cancel
+   * Cancel a running backfill
+   */
+  app.post('/ingestion/threads/:id/backfill/cancel', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+
+    const backfill = await cancelThreadBackfill(id);
+    if (!backfill) {
+      return reply.status(404).send({ error: 'Not Found', message: 'No running backfill for this thread' });
+    }
+
+    return backfill;
+  });
+
   /**
    * POST /admin/ingestion/pause
    * Pause all ingestion
@@ -458,6 +853,7 @@ export async function adminRoutes(app: FastifyInstance) {
       source: run.source?.name,
       thread: run.thread?.displayName || run.thread?.externalId,
       threadId: run.threadId,
+      kind: run.kind,
       status: run.status,
       startedAt: run.startedAt,
       finishedAt: run.finishedAt,
@@ -532,6 +928,52 @@ export async function adminRoutes(app: FastifyInstance) {
     };
   });
 
+  // =========================================================================
+  // RUN FAILURES
+  // =========================================================================
+
+  /**
+   * GET /admin/ingestion/runs/:runId/failures
+   * Get the items that failed to commit during a run
+   */
+  app.get('/ingestion/runs/:runId/failures', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { runId } = request.params as { runId: string };
+
+    const run = await db.query.ingestRuns.findFirst({
+      where: eq(ingestRuns.id, runId),
+      columns: { errorDetails: true },
+    });
+
+    if (!run) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Run not found' });
+    }
+
+    const details = run.errorDetails as RunErrorDetails | null;
+    return {
+      failures: details?.failures ?? [],
+      retries: details?.retries ?? 0,
+      lastRetryAt: details?.lastRetryAt ?? null,
+    };
+  });
+
+  /**
+   * POST /admin/ingestion/runs/:runId/retry
+   * Re-commit a run's failed items from their snapshots, without re-scanning
+   */
+  app.post('/ingestion/runs/:runId/retry', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { runId } = request.params as { runId: string };
+
+    const queued = await retryRunFailures(runId);
+    if (queued === null) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Run not found' });
+    }
+    if (queued === 0) {
+      return reply.status(409).send({ error: 'Conflict', message: 'This run has no failed items to retry' });
+    }
+
+    return { success: true, queued };
+  });
+
   // =========================================================================
   // MEDIA MANAGEMENT
   // =========================================================================
@@ -655,6 +1097,126 @@ export async function adminRoutes(app: FastifyInstance) {
     };
   });
 
+  // =========================================================================
+  // LINK HEALTH
+  // =========================================================================
+
+  /**
+   * GET /admin/media/link-health
+   * Items flagged by the link health job: hidden as dead or removed upstream,
+   * or suspect and awaiting confirmation
+   */
+  app.get('/media/link-health', async (request: FastifyRequest) => {
+    const { status = 'dead', limit = '50' } = request.query as {
+      status?: 'dead' | 'removed' | 'suspect';
+      limit?: string;
+    };
+
+    const pageLimit = Math.min(parseInt(limit, 10), 100);
+
+    const items = await db.select({
+      id: mediaItems.id,
+      title: mediaItems.title,
+      mediaType: mediaItems.mediaType,
+      mediaUrls: mediaItems.mediaUrls,
+      permalink: mediaItems.permalink,
+      isHidden: mediaItems.isHidden,
+      hiddenReason: mediaItems.hiddenReason,
+      hiddenAt: mediaItems.hiddenAt,
+      healthStatus: mediaItems.healthStatus,
+      healthDetail: mediaItems.healthDetail,
+      healthFailures: mediaItems.healthFailures,
+      healthCheckedAt: mediaItems.healthCheckedAt,
+      threadName: threads.displayName,
+    })
+      .from(mediaItems)
+      .leftJoin(threads, eq(mediaItems.threadId, threads.id))
+      .where(and(
+        eq(mediaItems.healthStatus, status),
+        isNull(mediaItems.deletedAt),
+      ))
+      .orderBy(desc(mediaItems.healthCheckedAt))
+      .limit(pageLimit);
+
+    const counts = await db.select({
+      status: mediaItems.healthStatus,
+      count: count(),
+    })
+      .from(mediaItems)
+      .where(and(
+        or(
+          eq(mediaItems.healthStatus, 'dead'),
+          eq(mediaItems.healthStatus, 'removed'),
+          eq(mediaItems.healthStatus, 'suspect'),
+        ),
+        isNull(mediaItems.deletedAt),
+      ))
+      .groupBy(mediaItems.healthStatus);
+
+    return {
+      items: items.map(item => {
+        const urls = getProxyUrls(item.id, item.mediaUrls as { original: string; thumbnail?: string });
+        return {
+          id: item.id,
+          title: item.title,
+          mediaType: item.mediaType,
+          thumbnailUrl: urls.thumbnailUrl,
+          permalink: item.permalink,
+          threadName: item.threadName,
+          isHidden: item.isHidden,
+          hiddenReason: item.hiddenReason,
+          hiddenAt: item.hiddenAt,
+          healthStatus: item.healthStatus,
+          healthDetail: item.healthDetail,
+          healthFailures: item.healthFailures,
+          healthCheckedAt: item.healthCheckedAt,
+        };
+      }),
+      counts: Object.fromEntries(counts.map(c => [c.status, c.count])),
+    };
+  });
+
+  /**
+   * POST /admin/media/:id/restore
+   * Unhide an item hidden by the link health job and exclude it from future checks
+   */
+  app.post('/media/:id/restore', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const user = request.user as { sub: string };
+
+    const item = await db.query.mediaItems.findFirst({
+      where: and(eq(mediaItems.id, id), isNull(mediaItems.deletedAt)),
+    });
+
+    if (!item) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Media item not found' });
+    }
+
+    await restoreLinkHealth(id);
+
+    await db.insert(moderationActions)
+      .values({
+        moderatorId: user.sub,
+        targetType: 'media_item',
+        targetId: id,
+        action: 'unhide',
+        reason: 'link_health_restored',
+        previousState: { isHidden: item.isHidden, hiddenReason: item.hiddenReason, healthStatus: item.healthStatus },
+        newState: { isHidden: false, hiddenReason: null, healthStatus: 'restored' },
+      });
+
+    return { success: true };
+  });
+
+  /**
+   * POST /admin/link-health/run
+   * Check the next batch of due items now
+   */
+  app.post('/link-health/run', async () => {
+    await triggerLinkHealthCheck();
+    return { success: true, message: 'Link health check triggered' };
+  });
+
   // =========================================================================
   // REPORTS MANAGEMENT
   // =========================================================================
@@ -965,15 +1527,17 @@ export async function adminRoutes(app: FastifyInstance) {
     return { success: true };
   });
 
-  // ── R2 cache backfill ─────────────────────────────────────────────
-  // POST /admin/backfill-r2
-  // Downloads uncached media and uploads to R2 in batches.
+  // ── Storage cache backfill ────────────────────────────────────────
+  // POST /admin/backfill-r2 (named for the original R2-only backend)
+  // Downloads uncached media and gallery assets to the storage driver in batches,
+  // computes missing thumbnail placeholders and probes originals for missing
+  // dimensions/duration.
   // Runs in background — returns immediately.
   let backfillRunning = false;
 
   app.post('/backfill-r2', async (request, reply) => {
-    if (!isR2Enabled()) {
-      return reply.status(400).send({ error: 'R2 not configured' });
+    if (!isStorageEnabled()) {
+      return reply.status(400).send({ error: 'Media storage not configured' });
     }
     if (backfillRunning) {
       return reply.status(409).send({ error: 'Backfill already running' });
@@ -989,59 +1553,105 @@ export async function adminRoutes(app: FastifyInstance) {
     // Run in background
     (async () => {
       try {
-        let offset = 0;
+        // Walk by id so items that fail to cache aren't selected again
+        let lastId: string | null = null;
         while (true) {
           const items = await db.query.mediaItems.findMany({
-            where: (m, { and, isNull }) => and(
+            where: (m, { and, gt, isNull, or }) => and(
               isNull(m.deletedAt),
-              sql`NOT (${m.mediaUrls}::jsonb ? 'cdnOriginal')`,
+              lastId ? gt(m.id, lastId) : undefined,
+              or(
+                sql`NOT (${m.mediaUrls}::jsonb ? 'cdnOriginal')`,
+                isNull(m.blurhash),
+                isNull(m.width),
+                sql`EXISTS (SELECT 1 FROM media_assets WHERE media_assets.media_item_id = ${m.id} AND media_assets.storage_mode <> 'cached')`,
+              ),
             ),
-            columns: { id: true, mediaUrls: true },
+            columns: { id: true, mediaType: true, mediaUrls: true, blurhash: true, width: true },
             with: {
               thread: {
                 columns: { sourceId: true },
                 with: { source: { columns: { id: true, scraperConfig: true } } },
               },
             },
+            orderBy: (m, { asc }) => [asc(m.id)],
             limit: BATCH,
           });
 
           if (items.length === 0) break;
+          lastId = items[items.length - 1]!.id;
 
           // Process in chunks of CONCURRENCY
           for (let i = 0; i < items.length; i += CONCURRENCY) {
             const chunk = items.slice(i, i + CONCURRENCY);
             await Promise.allSettled(chunk.map(async (item) => {
-              const urls = item.mediaUrls as { original: string; thumbnail?: string };
+              const urls = item.mediaUrls as { original: string; thumbnail?: string; cdnOriginal?: string };
               const sc = item.thread?.source?.scraperConfig as { headers?: Record<string, string> } | null;
 
               const cdnUpdates: Record<string, string> = {};
 
+              // Placeholder from the thumbnail, or from the image itself when there is none
+              const placeholderFromOriginal = !urls.thumbnail && item.mediaType !== 'video';
+              let placeholderStored = false;
+              const storePlaceholder = item.blurhash ? undefined : async (buffer: Buffer) => {
+                placeholderStored = await storeItemPlaceholder(item.id, buffer);
+              };
+
+              // Probe the original for missing size/duration; too-long media is hidden, not stored
+              let probed = false;
+              const probeOriginal = async (buffer: Buffer, contentType?: string) => {
+                probed = true;
+                return applyItemProbe(item.id, await probeMedia(buffer, contentType));
+              };
+
               // Original
-              if (urls.original && isAllowedUrl(urls.original)) {
+              if (!urls.cdnOriginal && urls.original && isAllowedUrl(urls.original)) {
                 const headers = buildSourceHeaders(urls.original, sc);
-                const cdnUrl = await downloadAndUploadToR2(
+                const cdnUrl = await downloadAndStoreMedia(
                   item.id, 'original', urls.original,
                   (url) => safeFetchMedia(url, headers),
+                  async (buffer, contentType) => {
+                    if ((await probeOriginal(buffer, contentType)).capped) return false;
+                    if (placeholderFromOriginal) await storePlaceholder?.(buffer);
+                  },
                 );
                 if (cdnUrl) cdnUpdates.cdnOriginal = cdnUrl;
               }
 
               // Thumbnail
-              if (urls.thumbnail && isAllowedUrl(urls.thumbnail)) {
+              if (!urls.cdnOriginal && urls.thumbnail && isAllowedUrl(urls.thumbnail)) {
                 const headers = buildSourceHeaders(urls.thumbnail, sc);
-                const cdnUrl = await downloadAndUploadToR2(
+                const cdnUrl = await downloadAndStoreMedia(
                   item.id, 'thumb', urls.thumbnail,
                   (url) => safeFetchMedia(url, headers),
+                  storePlaceholder,
                 );
                 if (cdnUrl) cdnUpdates.cdnThumbnail = cdnUrl;
               }
 
+              // Cached before placeholders existed: derive it from the stored copy
+              if (storePlaceholder && urls.cdnOriginal) {
+                const stored = await readStoredMedia(item.id, placeholderFromOriginal ? 'original' : 'thumb');
+                if (stored) await storePlaceholder(stored.buffer);
+              }
+
+              // Cached before probing existed: probe the stored original
+              if (item.width == null && urls.cdnOriginal) {
+                const stored = await readStoredMedia(item.id, 'original');
+                if (stored) await probeOriginal(stored.buffer, stored.contentType);
+              }
+
               if (Object.keys(cdnUpdates).length > 0) {
                 await db.update(mediaItems)
                   .set({ mediaUrls: sql`${mediaItems.mediaUrls} || ${JSON.stringify(cdnUpdates)}::jsonb` })
                   .where(eq(mediaItems.id, item.id))
                   .execute();
+              }
+
+              // Gallery assets
+              const assets = await cacheItemAssets(item.id, sc);
+
+              if (Object.keys(cdnUpdates).length > 0 || assets.cached > 0 || placeholderStored || probed) {
                 cached++;
               } else {
                 failed++;
@@ -1061,7 +1671,7 @@ export async function adminRoutes(app: FastifyInstance) {
       }
     })();
 
-    return { status: 'started', message: 'R2 backfill started in background' };
+    return { status: 'started', message: 'Storage backfill started in background' };
   });
 
   app.get('/backfill-r2/status', async () => {
@@ -1071,12 +1681,26 @@ export async function adminRoutes(app: FastifyInstance) {
         COUNT(*) FILTER (WHERE media_urls::text LIKE '%cdnOriginal%') AS cached
       FROM media_items WHERE deleted_at IS NULL
     `);
+    const assetRows = await db.execute(sql`
+      SELECT
+        COUNT(*) AS total,
+        COUNT(*) FILTER (WHERE media_assets.storage_mode = 'cached') AS cached
+      FROM media_assets
+      JOIN media_items ON media_items.id = media_assets.media_item_id
+      WHERE media_items.deleted_at IS NULL
+    `);
     const result = rows.rows[0] as { total: string; cached: string };
+    const assetResult = assetRows.rows[0] as { total: string; cached: string };
     return {
       running: backfillRunning,
       total: Number(result.total),
       cached: Number(result.cached),
       uncached: Number(result.total) - Number(result.cached),
+      assets: {
+        total: Number(assetResult.total),
+        cached: Number(assetResult.cached),
+        uncached: Number(assetResult.total) - Number(assetResult.cached),
+      },
     };
   });
 }
@@ -0,0 +1,177 @@
+import { sql, type SQL } from 'drizzle-orm';
+import type { CommentSort } from '@aggragif/shared';
+import { db } from '../../lib/db.js';
+
+/**
+ * Keyset-paginated comment listing shared by
+ * GET /media/:id/comments (top-level) and GET /comments/:id/replies.
+ *
+ * Cursors carry created_at as Postgres text so microsecond precision
+ * survives the round trip (a JS Date would truncate to milliseconds).
+ */
+
+const USER_COLUMNS = { id: true, username: true, displayName: true, avatarUrl: true } as const;
+const REPLY_PREVIEW_LIMIT = 3;
+
+interface CommentCursor {
+  ts: string;
+  id: string;
+  likes?: number;
+}
+
+function encodeCursor(data: CommentCursor): string {
+  return Buffer.from(JSON.stringify(data)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): CommentCursor | null {
+  try {
+    const data = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    return typeof data?.ts === 'string' && typeof data?.id === 'string' ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+type CommentColumns = {
+  id: unknown;
+  createdAt: unknown;
+  likeCount: unknown;
+};
+
+function keysetCondition(c: CommentColumns, sort: CommentSort, cursor: CommentCursor): SQL {
+  switch (sort) {
+    case 'newest':
+      return sql`(${c.createdAt}, ${c.id}) < (${cursor.ts}::timestamptz, ${cursor.id}::uuid)`;
+    case 'top':
+      return sql`(${c.likeCount}, ${c.createdAt}, ${c.id}) < (${cursor.likes ?? 0}::int, ${cursor.ts}::timestamptz, ${cursor.id}::uuid)`;
+    case 'oldest':
+    default:
+      return sql`(${c.createdAt}, ${c.id}) > (${cursor.ts}::timestamptz, ${cursor.id}::uuid)`;
+  }
+}
+
+function cursorFor(row: { id: string; likeCount: number; cursorTs: string }, sort: CommentSort): string {
+  return encodeCursor({
+    ts: row.cursorTs,
+    id: row.id,
+    ...(sort === 'top' ? { likes: row.likeCount } : {}),
+  });
+}
+
+export interface ListCommentsOptions {
+  mediaItemId: string;
+  // null lists top-level comments; an ID lists that comment's replies
+  parentId: string | null;
+  sort: CommentSort;
+  cursor?: string;
+  limit: number;
+  viewerId?: string;
+  includeReplies?: boolean;
+}
+
+export async function listComments(opts: ListCommentsOptions) {
+  const cursorData = opts.cursor ? decodeCursor(opts.cursor) : null;
+  const withReplies = opts.parentId === null && opts.includeReplies !== false;
+
+  const rows = await db.query.comments.findMany({
+    where: (c, { and, eq, isNull }) => and(
+      eq(c.mediaItemId, opts.mediaItemId),
+      opts.parentId === null ? isNull(c.parentId) : eq(c.parentId, opts.parentId),
+      eq(c.isHidden, false),
+      isNull(c.deletedAt),
+      cursorData ? keysetCondition(c, opts.sort, cursorData) : undefined,
+    ),
+    orderBy: (c, { asc, desc }) => {
+      switch (opts.sort) {
+        case 'newest':
+          return [desc(c.createdAt), desc(c.id)];
+        case 'top':
+          return [desc(c.likeCount), desc(c.createdAt), desc(c.id)];
+        case 'oldest':
+        default:
+          return [asc(c.createdAt), asc(c.id)];
+      }
+    },
+    limit: opts.limit + 1,
+    extras: (c) => ({
+      cursorTs: sql<string>`${c.createdAt}::text`.as('cursor_ts'),
+    }),
+    with: {
+      user: { columns: USER_COLUMNS },
+      ...(withReplies ? {
+        replies: {
+          where: (r, { and, eq, isNull }) => and(
+            eq(r.isHidden, false),
+            isNull(r.deletedAt),
+          ),
+          orderBy: (r, { asc }) => [asc(r.createdAt), asc(r.id)],
+          limit: REPLY_PREVIEW_LIMIT + 1,
+          extras: (r) => ({
+            cursorTs: sql<string>`${r.createdAt}::text`.as('cursor_ts'),
+          }),
+          with: {
+            user: { columns: USER_COLUMNS },
+          },
+        },
+      } : {}),
+    },
+  });
+
+  const hasMore = rows.length > opts.limit;
+  const resultRows = hasMore ? rows.slice(0, -1) : rows;
+
+  type Row = typeof resultRows[number];
+  const previewOf = (row: Row): Row[] => ('replies' in row ? (row.replies as Row[]) : []);
+
+  // Mark comments the viewer has liked
+  let likedIds: Set<string> = new Set();
+  const viewerId = opts.viewerId;
+  const commentIds = resultRows.flatMap(c => [c.id, ...previewOf(c).map(r => r.id)]);
+
+  if (viewerId && commentIds.length > 0) {
+    const likeResults = await db.query.commentLikes.findMany({
+      where: (l, { and, eq, inArray }) => and(
+        eq(l.userId, viewerId),
+        inArray(l.commentId, commentIds),
+      ),
+      columns: { commentId: true },
+    });
+    likedIds = new Set(likeResults.map(l => l.commentId));
+  }
+
+  const toResponse = (c: Row) => ({
+    id: c.id,
+    content: c.body,
+    user: c.user,
+    parentId: c.parentId,
+    replyCount: c.replyCount,
+    likeCount: c.likeCount,
+    isEdited: c.isEdited,
+    editedAt: c.editedAt?.toISOString() || null,
+    isLiked: viewerId ? likedIds.has(c.id) : null,
+    createdAt: c.createdAt.toISOString(),
+  });
+
+  const lastRow = resultRows[resultRows.length - 1];
+
+  return {
+    items: resultRows.map(c => {
+      if (!withReplies) return toResponse(c);
+
+      const preview = previewOf(c);
+      const moreReplies = preview.length > REPLY_PREVIEW_LIMIT;
+      const shown = moreReplies ? preview.slice(0, REPLY_PREVIEW_LIMIT) : preview;
+      const lastShown = shown[shown.length - 1];
+
+      return {
+        ...toResponse(c),
+        replies: shown.map(toResponse),
+        repliesCursor: moreReplies && lastShown ? cursorFor(lastShown, 'oldest') : null,
+      };
+    }),
+    pagination: {
+      nextCursor: hasMore && lastRow ? cursorFor(lastRow, opts.sort) : null,
+      hasMore,
+    },
+  };
+}
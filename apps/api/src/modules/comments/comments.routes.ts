@@ -0,0 +1,344 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { updateCommentSchema, commentListQuerySchema, COMMENT_EDIT_WINDOW_MS } from '@aggragif/shared';
+import { db } from '../../lib/db.js';
+import { comments, commentEdits } from '@aggragif/db/schema';
+import { eq, sql } from 'drizzle-orm';
+import { listComments } from './comments.query.js';
+
+type AuthUser = { sub: string; role?: string };
+
+const USER_COLUMNS = { id: true, username: true, displayName: true, avatarUrl: true } as const;
+
+async function requireAuth(request: FastifyRequest, reply: FastifyReply) {
+  try {
+    await request.jwtVerify();
+  } catch {
+    return reply.status(401).send({
+      error: 'Unauthorized',
+      message: 'Authentication required',
+    });
+  }
+}
+
+export async function commentRoutes(app: FastifyInstance) {
+  /**
+   * PATCH /comments/:id
+   * Edit a comment. Only the author can edit, and only within the edit window.
+   * The previous body is kept in comment_edits.
+   */
+  app.patch('/:id', { preHandler: [requireAuth] }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const userId = (request.user as AuthUser).sub;
+    const body = updateCommentSchema.parse(request.body);
+    const content = body.content.trim();
+
+    if (content.length === 0) {
+      return reply.status(400).send({
+        error: 'Bad Request',
+        message: 'Comment content is required',
+      });
+    }
+
+    const comment = await db.query.comments.findFirst({
+      where: (c, { and, eq, isNull }) => and(eq(c.id, id), isNull(c.deletedAt)),
+      with: {
+        user: { columns: USER_COLUMNS },
+        mediaItem: { columns: { commentsLocked: true } },
+      },
+    });
+
+    if (!comment) {
+      return reply.status(404).send({
+        error: 'Not Found',
+        message: 'Comment not found',
+      });
+    }
+
+    if (comment.userId !== userId) {
+      return reply.status(403).send({
+        error: 'Forbidden',
+        message: 'You can only edit your own comments',
+      });
+    }
+
+    if (Date.now() - comment.createdAt.getTime() > COMMENT_EDIT_WINDOW_MS) {
+      return reply.status(403).send({
+        error: 'Forbidden',
+        message: 'The edit window for this comment has expired',
+      });
+    }
+
+    if (comment.mediaItem?.commentsLocked) {
+      return reply.status(403).send({
+        error: 'Forbidden',
+        message: 'Comments are locked on this item',
+      });
+    }
+
+    let updated = comment;
+
+    if (content !== comment.body) {
+      await db.insert(commentEdits).values({
+        commentId: id,
+        previousBody: comment.body,
+        editedBy: userId,
+      });
+
+      const now = new Date();
+      const [row] = await db.update(comments)
+        .set({ body: content, isEdited: true, editedAt: now, updatedAt: now })
+        .where(eq(comments.id, id))
+        .returning();
+
+      if (row) updated = { ...comment, ...row };
+    }
+
+    const liked = await db.query.commentLikes.findFirst({
+      where: (l, { and, eq }) => and(eq(l.userId, userId), eq(l.commentId, id)),
+    });
+
+    return {
+      id: updated.id,
+      content: updated.body,
+      user: comment.user,
+      parentId: updated.parentId,
+      replyCount: updated.replyCount,
+      likeCount: updated.likeCount,
+      isEdited: updated.isEdited,
+      editedAt: updated.editedAt?.toISOString() || null,
+      isLiked: !!liked,
+      createdAt: updated.createdAt.toISOString(),
+    };
+  });
+
+  /**
+   * GET /comments/:id/replies
+   * Replies to a top-level comment (keyset-paginated, sort: oldest | newest | top).
+   * The first page can be skipped by passing the repliesCursor from the comment preview.
+   */
+  app.get('/:id/replies', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const query = commentListQuerySchema.parse(request.query);
+
+    const parent = await db.query.comments.findFirst({
+      where: (c, { and, eq, isNull }) => and(eq(c.id, id), eq(c.isHidden, false), isNull(c.deletedAt)),
+      columns: { id: true, mediaItemId: true, parentId: true },
+    });
+
+    if (!parent) {
+      return reply.status(404).send({
+        error: 'Not Found',
+        message: 'Comment not found',
+      });
+    }
+
+    if (parent.parentId !== null) {
+      return reply.status(400).send({
+        error: 'Bad Request',
+        message: 'Replies only exist on top-level comments',
+      });
+    }
+
+    // Optional auth: mark replies the viewer has liked
+    let viewerId: string | undefined;
+    try {
+      viewerId = (await request.jwtVerify<AuthUser>()).sub;
+    } catch {
+      // Anonymous viewer
+    }
+
+    return listComments({
+      mediaItemId: parent.mediaItemId,
+      parentId: id,
+      sort: query.sort,
+      cursor: query.cursor,
+      limit: query.limit,
+      viewerId,
+    });
+  });
+
+  /**
+   * GET /comments/:id/edits
+   * Edit history of a comment, newest first.
+   */
+  app.get('/:id/edits', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+
+    const comment = await db.query.comments.findFirst({
+      where: (c, { and, eq, isNull }) => and(eq(c.id, id), eq(c.isHidden, false), isNull(c.deletedAt)),
+      columns: { id: true },
+    });
+
+    if (!comment) {
+      return reply.status(404).send({
+        error: 'Not Found',
+        message: 'Comment not found',
+      });
+    }
+
+    const edits = await db.query.commentEdits.findMany({
+      where: (e, { eq }) => eq(e.commentId, id),
+      orderBy: (e, { desc }) => [desc(e.editedAt)],
+      limit: 50,
+    });
+
+    return {
+      items: edits.map(e => ({
+        id: e.id,
+        previousContent: e.previousBody,
+        editedAt: e.editedAt.toISOString(),
+      })),
+    };
+  });
+
+  /**
+   * DELETE /comments/:id
+   * Soft-delete a comment (author, moderator or admin).
+   * Deleting a top-level comment also removes its replies; counts are adjusted to match.
+   */
+  app.delete('/:id', { preHandler: [requireAuth] }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const user = request.user as AuthUser;
+
+    const comment = await db.query.comments.findFirst({
+      where: (c, { and, eq, isNull }) => and(eq(c.id, id), isNull(c.deletedAt)),
+      columns: { id: true, userId: true, mediaItemId: true, parentId: true },
+    });
+
+    if (!comment) {
+      return reply.status(404).send({
+        error: 'Not Found',
+        message: 'Comment not found',
+      });
+    }
+
+    const isModerator = user.role === 'admin' || user.role === 'moderator';
+    if (comment.userId !== user.sub && !isModerator) {
+      return reply.status(403).send({
+        error: 'Forbidden',
+        message: 'You can only delete your own comments',
+      });
+    }
+
+    // Mark the comment, cascade to replies, fix denormalized counts and audit
+    // in one statement, all keyed off the row this request actually deleted, so
+    // a concurrent delete of the same comment changes nothing
+    const deletedAt = new Date().toISOString();
+    const audit = comment.userId !== user.sub
+      ? sql`
+        , audited AS (
+          INSERT INTO moderation_actions (
+            moderator_id, target_type, target_id, action, reason,
+            previous_state, new_state, ip_address, user_agent
+          )
+          SELECT ${user.sub}, 'comment', id, 'remove', 'moderator_removed',
+            '{"deletedAt":null}'::jsonb,
+            jsonb_build_object('deletedAt', ${deletedAt}::text, 'removedReplies', (SELECT count(*) FROM replies)),
+            ${request.ip}, ${request.headers['user-agent'] ?? null}
+          FROM deleted
+        )`
+      : sql``;
+
+    const result = await db.execute(sql`
+      WITH deleted AS (
+        UPDATE comments SET deleted_at = ${deletedAt}::timestamptz, updated_at = ${deletedAt}::timestamptz
+        WHERE id = ${id} AND deleted_at IS NULL
+        RETURNING id, media_item_id, parent_id
+      ), replies AS (
+        -- Top-level: take live replies down with it
+        UPDATE comments SET deleted_at = ${deletedAt}::timestamptz, updated_at = ${deletedAt}::timestamptz
+        WHERE parent_id IN (SELECT id FROM deleted WHERE parent_id IS NULL) AND deleted_at IS NULL
+        RETURNING id
+      ), item_counted AS (
+        UPDATE media_items SET comment_count = GREATEST(comment_count - 1 - (SELECT count(*) FROM replies), 0)
+        WHERE id IN (SELECT media_item_id FROM deleted)
+      ), parent_counted AS (
+        UPDATE comments SET reply_count = GREATEST(reply_count - 1, 0)
+        WHERE id IN (SELECT parent_id FROM deleted)
+      )${audit}
+      SELECT
+        (SELECT count(*) FROM deleted)::int AS deleted,
+        (SELECT count(*) FROM replies)::int AS removed_replies
+    `);
+    const row = result.rows[0] as { deleted: number | string; removed_replies: number | string } | undefined;
+
+    if (!row || Number(row.deleted) === 0) {
+      return reply.status(404).send({
+        error: 'Not Found',
+        message: 'Comment not found',
+      });
+    }
+
+    const removed = 1 + Number(row.removed_replies);
+    return { success: true, removed };
+  });
+
+  /**
+   * PUT /comments/:id/like
+   * Like/unlike a comment (idempotent, toggles without an explicit action).
+   */
+  app.put('/:id/like', { preHandler: [requireAuth] }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const userId = (request.user as AuthUser).sub;
+    const body = request.body as { action?: 'like' | 'unlike' } | undefined;
+
+    const comment = await db.query.comments.findFirst({
+      where: (c, { and, eq, isNull }) => and(eq(c.id, id), eq(c.isHidden, false), isNull(c.deletedAt)),
+      columns: { id: true, likeCount: true },
+    });
+
+    if (!comment) {
+      return reply.status(404).send({
+        error: 'Not Found',
+        message: 'Comment not found',
+      });
+    }
+
+    const existingLike = await db.query.commentLikes.findFirst({
+      where: (l, { and, eq }) => and(eq(l.userId, userId), eq(l.commentId, id)),
+    });
+
+    const shouldLike = body?.action
+      ? body.action === 'like'
+      : !existingLike; // Toggle if no explicit action
+
+    // The like row and the count change in one statement, and the count only
+    // moves when a row was actually inserted or deleted, so concurrent
+    // requests can't double count
+    const change = shouldLike
+      ? sql`
+        WITH changed AS (
+          INSERT INTO comment_likes (user_id, comment_id) VALUES (${userId}, ${id})
+          ON CONFLICT DO NOTHING
+          RETURNING comment_id
+        ), counted AS (
+          UPDATE comments SET like_count = like_count + 1
+          WHERE id = ${id} AND EXISTS (SELECT 1 FROM changed)
+          RETURNING like_count
+        )`
+      : sql`
+        WITH changed AS (
+          DELETE FROM comment_likes WHERE user_id = ${userId} AND comment_id = ${id}
+          RETURNING comment_id
+        ), counted AS (
+          UPDATE comments SET like_count = GREATEST(like_count - 1, 0)
+          WHERE id = ${id} AND EXISTS (SELECT 1 FROM changed)
+          RETURNING like_count
+        )`;
+
+    // Without a change the update doesn't run, and the snapshot count is current
+    const result = await db.execute(sql`
+      ${change}
+      SELECT COALESCE(
+        (SELECT like_count FROM counted),
+        (SELECT like_count FROM comments WHERE id = ${id})
+      ) AS like_count
+    `);
+    const row = result.rows[0] as { like_count: number | string | null } | undefined;
+
+    return {
+      isLiked: shouldLike,
+      likeCount: Number(row?.like_count ?? comment.likeCount),
+    };
+  });
+}
@@ -1,9 +1,10 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { feedQuerySchema, paginationSchema } from '@aggragif/shared';
+import { feedQuerySchema, paginationSchema, searchQuerySchema } from '@aggragif/shared';
 import { db } from '../../lib/db.js';
 import { mediaItems, likes } from '@aggragif/db/schema';
 import { sql } from 'drizzle-orm';
 import { getProxyUrls } from '../../lib/proxy-urls.js';
+import { scoredMediaItems, trendingOrder } from './trending.query.js';
 
 // Cursor utilities
 function encodeCursor(data: Record<string, unknown>): string {
@@ -39,6 +40,7 @@ export async function feedRoutes(app: FastifyInstance) {
       : null;
 
     // Build query — sorted by most recently ingested (createdAt), deduplicated by fingerprint
+    // (cross-posts share their canonical item's dedup_key, so a repost group collapses to one row)
     const conditions = [
       sql`is_hidden = false`,
       sql`deleted_at IS NULL`,
@@ -47,25 +49,28 @@ export async function feedRoutes(app: FastifyInstance) {
     if (query.type) {
       conditions.push(sql`media_type = ${query.type}`);
     }
-    if (cursorData) {
-      conditions.push(sql`created_at < ${cursorData.createdAt}`);
-    }
     if (query.tag) {
       conditions.push(sql`tags @> ${JSON.stringify([query.tag])}::jsonb`);
     }
 
     const whereClause = sql.join(conditions, sql` AND `);
+    // The cursor applies after deduplication: filtering first would let an older
+    // member of an already shown group become its pick and show up again
+    const cursorClause = cursorData
+      ? sql`WHERE created_at < ${cursorData.createdAt}`
+      : sql``;
     const limitVal = query.limit + 1;
 
     const rawResult = await db.execute(sql`
       SELECT * FROM (
-        SELECT DISTINCT ON (fingerprint)
-          id, media_type, title, media_urls, duration_ms, width, height,
+        SELECT DISTINCT ON (COALESCE(dedup_key, fingerprint))
+          id, media_type, title, media_urls, duration_ms, width, height, blurhash, dominant_color,
           like_count, comment_count, view_count, posted_at, created_at, tags
         FROM media_items
         WHERE ${whereClause}
-        ORDER BY fingerprint, created_at DESC
+        ORDER BY COALESCE(dedup_key, fingerprint), created_at DESC
       ) deduped
+      ${cursorClause}
       ORDER BY created_at DESC
       LIMIT ${limitVal}
     `);
@@ -77,6 +82,8 @@ export async function feedRoutes(app: FastifyInstance) {
       duration_ms: number | null;
       width: number | null;
       height: number | null;
+      blurhash: string | null;
+      dominant_color: string | null;
       like_count: number;
       comment_count: number;
       view_count: number;
@@ -117,10 +124,12 @@ export async function feedRoutes(app: FastifyInstance) {
         id: item.id,
         type: item.media_type,
         title: item.title,
-        ...getProxyUrls(item.id, item.media_urls as { original: string; thumbnail?: string }),
+        ...getProxyUrls(item.id, item.media_urls as { original: string; thumbnail?: string }, { context: 'card' }),
         duration: item.duration_ms ? Math.floor(item.duration_ms / 1000) : null,
         width: item.width,
         height: item.height,
+        blurhash: item.blurhash,
+        dominantColor: item.dominant_color,
         likeCount: item.like_count,
         commentCount: item.comment_count,
         viewCount: item.view_count,
@@ -135,6 +144,137 @@ export async function feedRoutes(app: FastifyInstance) {
     };
   });
 
+  // Personalized feed: items from followed threads, sources and authors
+  app.get('/following', async (request: FastifyRequest, reply: FastifyReply) => {
+    const query = feedQuerySchema.parse(request.query);
+    const userId = (request.user as { sub?: string } | undefined)?.sub;
+
+    if (!userId) {
+      return reply.status(401).send({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+    }
+
+    const cursorData = query.cursor
+      ? decodeCursor<{ id: string; createdAt: string }>(query.cursor)
+      : null;
+
+    const conditions = [
+      sql`is_hidden = false`,
+      sql`deleted_at IS NULL`,
+      sql`(
+        thread_id IN (
+          SELECT followee_id::uuid FROM follows
+          WHERE follower_id = ${userId} AND followee_type = 'thread'
+        )
+        OR thread_id IN (
+          SELECT t.id FROM threads t
+          JOIN follows f ON f.followee_id = t.source_id::text
+          WHERE f.follower_id = ${userId} AND f.followee_type = 'source'
+        )
+        OR author IN (
+          SELECT followee_id FROM follows
+          WHERE follower_id = ${userId} AND followee_type = 'author'
+        )
+      )`,
+    ];
+
+    if (query.type) {
+      conditions.push(sql`media_type = ${query.type}`);
+    }
+    if (query.tag) {
+      conditions.push(sql`tags @> ${JSON.stringify([query.tag])}::jsonb`);
+    }
+
+    const whereClause = sql.join(conditions, sql` AND `);
+    // The cursor applies after deduplication: filtering first would let an older
+    // member of an already shown group become its pick and show up again
+    const cursorClause = cursorData
+      ? sql`WHERE created_at < ${cursorData.createdAt}`
+      : sql``;
+    const limitVal = query.limit + 1;
+
+    const rawResult = await db.execute(sql`
+      SELECT * FROM (
+        SELECT DISTINCT ON (COALESCE(dedup_key, fingerprint))
+          id, media_type, title, media_urls, duration_ms, width, height, blurhash, dominant_color,
+          like_count, comment_count, view_count, posted_at, created_at, tags
+        FROM media_items
+        WHERE ${whereClause}
+        ORDER BY COALESCE(dedup_key, fingerprint), created_at DESC
+      ) deduped
+      ${cursorClause}
+      ORDER BY created_at DESC
+      LIMIT ${limitVal}
+    `);
+    const items = rawResult.rows as Array<{
+      id: string;
+      media_type: string;
+      title: string | null;
+      media_urls: { original: string; thumbnail?: string };
+      duration_ms: number | null;
+      width: number | null;
+      height: number | null;
+      blurhash: string | null;
+      dominant_color: string | null;
+      like_count: number;
+      comment_count: number;
+      view_count: number;
+      posted_at: string | null;
+      created_at: string;
+      tags: string[];
+    }>;
+
+    const hasMore = items.length > query.limit;
+    const resultItems = hasMore ? items.slice(0, -1) : items;
+
+    let userLikes: Set<string> = new Set();
+
+    if (resultItems.length > 0) {
+      const itemIds = resultItems.map(i => i.id);
+
+      const likeResults = await db.query.likes.findMany({
+        where: (l, { and, eq, inArray }) => and(
+          eq(l.userId, userId),
+          inArray(l.mediaItemId, itemIds),
+        ),
+        columns: { mediaItemId: true },
+      });
+
+      userLikes = new Set(likeResults.map(l => l.mediaItemId));
+    }
+
+    const lastItem = resultItems[resultItems.length - 1];
+    const nextCursor = hasMore && lastItem
+      ? encodeCursor({ id: lastItem.id, createdAt: lastItem.created_at })
+      : null;
+
+    return {
+      items: resultItems.map(item => ({
+        id: item.id,
+        type: item.media_type,
+        title: item.title,
+        ...getProxyUrls(item.id, item.media_urls as { original: string; thumbnail?: string }, { context: 'card' }),
+        duration: item.duration_ms ? Math.floor(item.duration_ms / 1000) : null,
+        width: item.width,
+        height: item.height,
+        blurhash: item.blurhash,
+        dominantColor: item.dominant_color,
+        likeCount: item.like_count,
+        commentCount: item.comment_count,
+        viewCount: item.view_count,
+        publishedAt: item.posted_at || null,
+        isLiked: userLikes.has(item.id),
+        tags: (item.tags as string[]) || [],
+      })),
+      pagination: {
+        nextCursor,
+        hasMore,
+      },
+    };
+  });
+
   // Tags listing
   app.get('/tags', async () => {
     const result = await db.execute(sql`
@@ -154,10 +294,11 @@ export async function feedRoutes(app: FastifyInstance) {
     };
   });
 
-  // Most viewed feed with time period filter
+  // Trending feed with time period filter: blended upstream + local engagement,
+  // or local views only with ?rank=views
   app.get('/trending', async (request: FastifyRequest, reply: FastifyReply) => {
     const query = paginationSchema.parse(request.query);
-    const { period = 'week' } = request.query as { period?: string };
+    const { period = 'week', rank } = request.query as { period?: string; rank?: string };
     const userId = (request.user as { sub?: string } | undefined)?.sub;
 
     // Map period to date cutoff
@@ -182,17 +323,17 @@ export async function feedRoutes(app: FastifyInstance) {
     const offset = query.cursor ? parseInt(query.cursor, 10) : 0;
     const trendWhere = sql.join(trendConditions, sql` AND `);
     const trendLimit = query.limit + 1;
+    const order = trendingOrder(rank === 'views' ? 'views' : 'blended');
 
     const trendResult = await db.execute(sql`
       SELECT * FROM (
-        SELECT DISTINCT ON (fingerprint)
-          id, media_type, title, media_urls, duration_ms, width, height,
-          like_count, comment_count, view_count, posted_at, tags
-        FROM media_items
-        WHERE ${trendWhere}
-        ORDER BY fingerprint, view_count DESC, like_count DESC
+        SELECT DISTINCT ON (COALESCE(dedup_key, fingerprint))
+          id, media_type, title, media_urls, duration_ms, width, height, blurhash, dominant_color,
+          like_count, comment_count, view_count, posted_at, tags, trending_score
+        FROM ${scoredMediaItems(trendWhere)} ranked
+        ORDER BY COALESCE(dedup_key, fingerprint), ${order.group}
       ) deduped
-      ORDER BY view_count DESC, like_count DESC, posted_at DESC
+      ORDER BY ${order.result}
       LIMIT ${trendLimit} OFFSET ${offset}
     `);
     const items = trendResult.rows as Array<{
@@ -203,6 +344,8 @@ export async function feedRoutes(app: FastifyInstance) {
       duration_ms: number | null;
       width: number | null;
       height: number | null;
+      blurhash: string | null;
+      dominant_color: string | null;
       like_count: number;
       comment_count: number;
       view_count: number;
@@ -237,10 +380,12 @@ export async function feedRoutes(app: FastifyInstance) {
         id: item.id,
         type: item.media_type,
         title: item.title,
-        ...getProxyUrls(item.id, item.media_urls as { original: string; thumbnail?: string }),
+        ...getProxyUrls(item.id, item.media_urls as { original: string; thumbnail?: string }, { context: 'card' }),
         duration: item.duration_ms ? Math.floor(item.duration_ms / 1000) : null,
         width: item.width,
         height: item.height,
+        blurhash: item.blurhash,
+        dominantColor: item.dominant_color,
         likeCount: item.like_count,
         commentCount: item.comment_count,
         viewCount: item.view_count,
@@ -255,66 +400,151 @@ export async function feedRoutes(app: FastifyInstance) {
     };
   });
 
-  // Search
+  // Full-text search over title, caption, author and tags, ranked by relevance
   app.get('/search', async (request: FastifyRequest, reply: FastifyReply) => {
-    const query = request.query as { q?: string; type?: string; cursor?: string; limit?: number };
-    const searchQuery = query.q?.trim();
-
-    if (!searchQuery) {
+    const parsed = searchQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
       return reply.status(400).send({
         error: 'Bad Request',
-        message: 'Search query is required',
+        message: parsed.error.issues[0]?.message || 'Search query is required',
       });
     }
+    const query = parsed.data;
+    const userId = (request.user as { sub?: string } | undefined)?.sub;
 
-    const limit = Math.min(Math.max(query.limit || 20, 1), 50);
-
-    // Simple search on title and caption
-    const items = await db.query.mediaItems.findMany({
-      where: (m, { and, eq, isNull, or, ilike }) => and(
-        eq(m.isHidden, false),
-        isNull(m.deletedAt),
-        query.type ? eq(m.mediaType, query.type) : undefined,
-        or(
-          ilike(m.title, `%${searchQuery}%`),
-          ilike(m.caption, `%${searchQuery}%`),
-        ),
-      ),
-      orderBy: (m, { desc }) => [desc(m.likeCount), desc(m.postedAt)],
-      limit: limit + 1,
-      columns: {
-        id: true,
-        mediaType: true,
-        title: true,
-        mediaUrls: true,
-        durationMs: true,
-        width: true,
-        height: true,
-        likeCount: true,
-        commentCount: true,
-        postedAt: true,
-      },
-    });
+    const cursorData = query.cursor
+      ? decodeCursor<{ id: string; createdAt: string; rank: number }>(query.cursor)
+      : null;
+
+    // Match stemmed (title/caption) and unstemmed (tags/author) terms
+    const tsQuery = sql`(websearch_to_tsquery('english', ${query.q}) || websearch_to_tsquery('simple', ${query.q}))`;
+
+    const conditions = [
+      sql`is_hidden = false`,
+      sql`deleted_at IS NULL`,
+      sql`search_vector @@ ${tsQuery}`,
+    ];
 
-    const hasMore = items.length > limit;
+    if (query.type) {
+      conditions.push(sql`media_type = ${query.type}`);
+    }
+    if (query.tag) {
+      conditions.push(sql`tags @> ${JSON.stringify([query.tag])}::jsonb`);
+    }
+    if (query.author) {
+      conditions.push(sql`lower(author) = lower(${query.author})`);
+    }
+    if (query.from) {
+      conditions.push(sql`posted_at >= ${query.from.toISOString()}`);
+    }
+    if (query.to) {
+      conditions.push(sql`posted_at <= ${query.to.toISOString()}`);
+    }
+
+    const whereClause = sql.join(conditions, sql` AND `);
+    // Keyset on (rank, created_at, id) keeps pages stable while ranking by relevance
+    const cursorClause = cursorData
+      ? sql`WHERE (rank, created_at, id) < (${cursorData.rank}::real, ${cursorData.createdAt}::timestamptz, ${cursorData.id}::uuid)`
+      : sql``;
+    const limitVal = query.limit + 1;
+
+    const headlineOpts = 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true';
+    const snippetOpts = 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=8, FragmentDelimiter=" … "';
+
+    const rawResult = await db.execute(sql`
+      SELECT page.*,
+        CASE WHEN page.title IS NULL THEN NULL
+          ELSE ts_headline('english', page.title, ${tsQuery}, ${headlineOpts}) END AS title_highlight,
+        CASE WHEN page.caption IS NULL THEN NULL
+          ELSE ts_headline('english', page.caption, ${tsQuery}, ${snippetOpts}) END AS caption_highlight
+      FROM (
+        SELECT * FROM (
+          SELECT DISTINCT ON (COALESCE(dedup_key, fingerprint))
+            id, media_type, title, caption, media_urls, duration_ms, width, height, blurhash, dominant_color,
+            like_count, comment_count, view_count, posted_at, created_at, tags,
+            ts_rank(search_vector, ${tsQuery}) AS rank
+          FROM media_items
+          WHERE ${whereClause}
+          ORDER BY COALESCE(dedup_key, fingerprint), ts_rank(search_vector, ${tsQuery}) DESC, created_at DESC
+        ) deduped
+        ${cursorClause}
+        ORDER BY rank DESC, created_at DESC, id DESC
+        LIMIT ${limitVal}
+      ) page
+      ORDER BY page.rank DESC, page.created_at DESC, page.id DESC
+    `);
+    const items = rawResult.rows as Array<{
+      id: string;
+      media_type: string;
+      title: string | null;
+      caption: string | null;
+      media_urls: { original: string; thumbnail?: string };
+      duration_ms: number | null;
+      width: number | null;
+      height: number | null;
+      blurhash: string | null;
+      dominant_color: string | null;
+      like_count: number;
+      comment_count: number;
+      view_count: number;
+      posted_at: string | null;
+      created_at: string;
+      tags: string[];
+      rank: number;
+      title_highlight: string | null;
+      caption_highlight: string | null;
+    }>;
+
+    const hasMore = items.length > query.limit;
     const resultItems = hasMore ? items.slice(0, -1) : items;
 
+    // Get user's likes if authenticated
+    let userLikes: Set<string> = new Set();
+
+    if (userId && resultItems.length > 0) {
+      const itemIds = resultItems.map(i => i.id);
+
+      const likeResults = await db.query.likes.findMany({
+        where: (l, { and, eq, inArray }) => and(
+          eq(l.userId, userId),
+          inArray(l.mediaItemId, itemIds),
+        ),
+        columns: { mediaItemId: true },
+      });
+
+      userLikes = new Set(likeResults.map(l => l.mediaItemId));
+    }
+
+    const lastItem = resultItems[resultItems.length - 1];
+    const nextCursor = hasMore && lastItem
+      ? encodeCursor({ id: lastItem.id, createdAt: lastItem.created_at, rank: Number(lastItem.rank) })
+      : null;
+
     return {
       items: resultItems.map(item => ({
         id: item.id,
-        type: item.mediaType,
+        type: item.media_type,
         title: item.title,
-        ...getProxyUrls(item.id, item.mediaUrls as { original: string; thumbnail?: string }),
-        duration: item.durationMs ? Math.floor(item.durationMs / 1000) : null,
+        ...getProxyUrls(item.id, item.media_urls as { original: string; thumbnail?: string }, { context: 'card' }),
+        duration: item.duration_ms ? Math.floor(item.duration_ms / 1000) : null,
         width: item.width,
         height: item.height,
-        likeCount: item.likeCount,
-        commentCount: item.commentCount,
-        publishedAt: item.postedAt?.toISOString() || null,
-        isLiked: null,
+        blurhash: item.blurhash,
+        dominantColor: item.dominant_color,
+        likeCount: item.like_count,
+        commentCount: item.comment_count,
+        viewCount: item.view_count,
+        publishedAt: item.posted_at || null,
+        isLiked: userId ? userLikes.has(item.id) : null,
+        tags: (item.tags as string[]) || [],
+        rank: Number(item.rank),
+        highlight: {
+          title: item.title_highlight,
+          caption: item.caption_highlight,
+        },
       })),
       pagination: {
-        nextCursor: null,
+        nextCursor,
         hasMore,
       },
     };
@@ -0,0 +1,324 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { db } from '../../lib/db.js';
+import { sql, type SQL } from 'drizzle-orm';
+import { createHash } from 'crypto';
+import { config } from '../../config/index.js';
+import { getProxyUrls, type RenditionUrls } from '../../lib/proxy-urls.js';
+import { scoredMediaItems, trendingOrder } from './trending.query.js';
+import {
+  renderFeed,
+  guessMimeType,
+  SYNDICATION_CONTENT_TYPES,
+  type SyndicationFormat,
+  type SyndicationEntry,
+} from './syndication.js';
+
+const FEED_TITLE = 'T & A Gallery';
+const FEED_ITEM_LIMIT = 50;
+const FEED_MAX_AGE_SECONDS = 300;
+const FORMATS: SyndicationFormat[] = ['rss', 'atom', 'json'];
+
+const PERIOD_MS: Record<string, number> = {
+  today: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+  year: 365 * 24 * 60 * 60 * 1000,
+};
+
+const latestQuerySchema = z.object({
+  tag: z.string().max(100).optional(),
+  type: z.enum(['image', 'gif', 'video']).optional(),
+});
+
+const threadParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+const threadQuerySchema = z.object({
+  type: z.enum(['image', 'gif', 'video']).optional(),
+});
+
+const trendingQuerySchema = z.object({
+  period: z.enum(['today', 'week', 'month', 'year', 'all']).default('week'),
+  rank: z.enum(['blended', 'views']).default('blended'),
+});
+
+type FeedRow = {
+  id: string;
+  media_type: string;
+  title: string | null;
+  caption: string | null;
+  author: string | null;
+  permalink: string;
+  media_urls: { original: string; thumbnail?: string; renditions?: RenditionUrls };
+  duration_ms: number | null;
+  width: number | null;
+  height: number | null;
+  posted_at: string | null;
+  created_at: string;
+  updated_at: string;
+  tags: string[];
+};
+
+const siteUrl = (config.SITE_URL || config.FRONTEND_URL.split(',')[0] || '').trim().replace(/\/$/, '');
+const apiUrl = (config.API_PUBLIC_URL || siteUrl).replace(/\/$/, '');
+
+function entryTitle(row: FeedRow): string {
+  if (row.title) return row.title;
+  if (row.caption) return row.caption.length > 80 ? `${row.caption.slice(0, 77)}...` : row.caption;
+  return row.author ? `${row.media_type} by ${row.author}` : row.media_type;
+}
+
+function toEntry(row: FeedRow): SyndicationEntry {
+  const { mediaUrl, thumbnailUrl } = getProxyUrls(row.id, row.media_urls);
+  // Transcoded GIFs are served as their MP4 rendition
+  const mimeType = mediaUrl === row.media_urls.renditions?.mp4
+    ? 'video/mp4'
+    : guessMimeType(row.media_urls.original, row.media_type);
+
+  return {
+    id: row.id,
+    url: `${siteUrl}/media/${row.id}`,
+    permalink: row.permalink,
+    title: entryTitle(row),
+    caption: row.caption,
+    author: row.author,
+    tags: (row.tags as string[]) || [],
+    publishedAt: new Date(row.posted_at || row.created_at),
+    updatedAt: new Date(row.updated_at),
+    media: {
+      url: mediaUrl,
+      mimeType,
+      medium: mimeType.startsWith('video/') ? 'video' : 'image',
+      width: row.width,
+      height: row.height,
+      durationSec: row.duration_ms ? Math.round(row.duration_ms / 1000) : null,
+    },
+    thumbnailUrl,
+  };
+}
+
+/**
+ * Outbound feeds for feed readers
+ *
+ *   GET /feed.rss | /feed.atom | /feed.json              latest (?tag=, ?type=)
+ *   GET /feed/threads/:id.rss | .atom | .json            one thread's latest (?type=)
+ *   GET /feed/trending.rss | .atom | .json               trending (?period=, ?rank=views)
+ *
+ * Responses carry an ETag hashed from the entries in the order served (ids and
+ * updated_at), so anything that changes the feed changes it: new items,
+ * hidden or deleted ones dropping out, edits, and trending reorders as
+ * engagement moves and the period window slides. Only the ETag is used to
+ * answer 304; a date can't tell that an older item left or entered the feed.
+ */
+export async function syndicationRoutes(app: FastifyInstance) {
+  /**
+   * Answer 304 when the client's ETag matches the rows about to be served,
+   * otherwise set caching headers. Returns true if the response was already sent.
+   */
+  function checkFreshness(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    format: SyndicationFormat,
+    variant: string,
+    rows: FeedRow[],
+    lastModified: string | null,
+  ): boolean {
+    const version = createHash('sha1')
+      .update(`${format}|${variant}|`)
+      .update(rows.map(row => `${row.id}@${row.updated_at}`).join(','))
+      .digest('base64url')
+      .slice(0, 16);
+    const etag = `W/"${version}"`;
+
+    reply.header('ETag', etag);
+    reply.header('Cache-Control', `public, max-age=${FEED_MAX_AGE_SECONDS}`);
+    if (lastModified) {
+      reply.header('Last-Modified', new Date(lastModified).toUTCString());
+    }
+
+    const ifNoneMatch = request.headers['if-none-match'];
+    if (ifNoneMatch && ifNoneMatch.split(',').map(t => t.trim()).includes(etag)) {
+      reply.status(304).send();
+      return true;
+    }
+
+    return false;
+  }
+
+  /** When the newest of the rows was added or changed */
+  function latestChange(rows: FeedRow[]): string | null {
+    let latest: string | null = null;
+    for (const row of rows) {
+      for (const at of [row.created_at, row.updated_at]) {
+        if (!latest || new Date(at) > new Date(latest)) latest = at;
+      }
+    }
+    return latest;
+  }
+
+  function sendFeed(
+    reply: FastifyReply,
+    format: SyndicationFormat,
+    channel: { title: string; description: string; sitePath: string; feedPath: string },
+    rows: FeedRow[],
+    updatedAt: string | null,
+  ) {
+    const body = renderFeed(format, {
+      title: channel.title,
+      description: channel.description,
+      siteUrl: `${siteUrl}${channel.sitePath}`,
+      feedUrl: `${apiUrl}/api/v1${channel.feedPath}`,
+      updatedAt: updatedAt ? new Date(updatedAt) : new Date(),
+    }, rows.map(toEntry));
+
+    return reply.type(SYNDICATION_CONTENT_TYPES[format]).send(body);
+  }
+
+  /** The newest items matching a filter, one per cross-post group */
+  async function latestRows(whereClause: SQL): Promise<FeedRow[]> {
+    const result = await db.execute(sql`
+      SELECT * FROM (
+        SELECT DISTINCT ON (COALESCE(dedup_key, fingerprint))
+          id, media_type, title, caption, author, permalink, media_urls, duration_ms,
+          width, height, posted_at, created_at, updated_at, tags
+        FROM media_items
+        WHERE ${whereClause}
+        ORDER BY COALESCE(dedup_key, fingerprint), created_at DESC
+      ) deduped
+      ORDER BY created_at DESC
+      LIMIT ${FEED_ITEM_LIMIT}
+    `);
+    return result.rows as FeedRow[];
+  }
+
+  for (const format of FORMATS) {
+    // Latest items, optionally filtered by tag or media type
+    app.get(`/feed.${format}`, async (request: FastifyRequest, reply: FastifyReply) => {
+      const query = latestQuerySchema.parse(request.query);
+
+      const conditions = [
+        sql`is_hidden = false`,
+        sql`deleted_at IS NULL`,
+      ];
+      if (query.type) {
+        conditions.push(sql`media_type = ${query.type}`);
+      }
+      if (query.tag) {
+        conditions.push(sql`tags @> ${JSON.stringify([query.tag])}::jsonb`);
+      }
+
+      const rows = await latestRows(sql.join(conditions, sql` AND `));
+      const lastModified = latestChange(rows);
+      if (checkFreshness(request, reply, format, `latest|${query.tag ?? ''}|${query.type ?? ''}`, rows, lastModified)) {
+        return reply;
+      }
+
+      const params = new URLSearchParams();
+      if (query.tag) params.set('tag', query.tag);
+      if (query.type) params.set('type', query.type);
+      const qs = params.size > 0 ? `?${params.toString()}` : '';
+
+      return sendFeed(reply, format, {
+        title: query.tag ? `${FEED_TITLE}: #${query.tag}` : FEED_TITLE,
+        description: query.tag
+          ? `Latest GIFs and short videos tagged ${query.tag}`
+          : 'Latest GIFs and short videos',
+        sitePath: query.tag ? `/tags/${encodeURIComponent(query.tag)}` : '/',
+        feedPath: `/feed.${format}${qs}`,
+      }, rows, lastModified);
+    });
+
+    // Latest items from one thread, optionally filtered by media type
+    app.get(`/feed/threads/:id.${format}`, async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = threadParamsSchema.parse(request.params);
+      const query = threadQuerySchema.parse(request.query);
+
+      const thread = await db.query.threads.findFirst({
+        where: (t, { and, eq, isNull }) => and(eq(t.id, id), isNull(t.deletedAt)),
+        columns: { id: true, displayName: true, externalId: true },
+      });
+
+      if (!thread) {
+        return reply.status(404).send({
+          error: 'Not Found',
+          message: 'Thread not found',
+        });
+      }
+
+      const conditions = [
+        sql`thread_id = ${thread.id}`,
+        sql`is_hidden = false`,
+        sql`deleted_at IS NULL`,
+      ];
+      if (query.type) {
+        conditions.push(sql`media_type = ${query.type}`);
+      }
+
+      const rows = await latestRows(sql.join(conditions, sql` AND `));
+      const lastModified = latestChange(rows);
+      if (checkFreshness(request, reply, format, `thread|${thread.id}|${query.type ?? ''}`, rows, lastModified)) {
+        return reply;
+      }
+
+      const name = thread.displayName || thread.externalId;
+      const qs = query.type ? `?type=${query.type}` : '';
+
+      return sendFeed(reply, format, {
+        title: `${FEED_TITLE}: ${name}`,
+        description: `Latest GIFs and short videos from ${name}`,
+        sitePath: '/',
+        feedPath: `/feed/threads/${thread.id}.${format}${qs}`,
+      }, rows, lastModified);
+    });
+
+    // Trending items in a time period (blended engagement, or ?rank=views)
+    app.get(`/feed/trending.${format}`, async (request: FastifyRequest, reply: FastifyReply) => {
+      const query = trendingQuerySchema.parse(request.query);
+      const cutoffMs = PERIOD_MS[query.period];
+
+      const conditions = [
+        sql`is_hidden = false`,
+        sql`deleted_at IS NULL`,
+      ];
+      if (cutoffMs) {
+        conditions.push(sql`posted_at >= ${new Date(Date.now() - cutoffMs).toISOString()}`);
+      }
+      const whereClause = sql.join(conditions, sql` AND `);
+
+      const order = trendingOrder(query.rank);
+      const result = await db.execute(sql`
+        SELECT * FROM (
+          SELECT DISTINCT ON (COALESCE(dedup_key, fingerprint))
+            id, media_type, title, caption, author, permalink, media_urls, duration_ms,
+            width, height, posted_at, created_at, updated_at, tags, view_count, like_count, trending_score
+          FROM ${scoredMediaItems(whereClause)} ranked
+          ORDER BY COALESCE(dedup_key, fingerprint), ${order.group}
+        ) deduped
+        ORDER BY ${order.result}
+        LIMIT ${FEED_ITEM_LIMIT}
+      `);
+      const rows = result.rows as FeedRow[];
+
+      // No Last-Modified: the ranking changes without any item changing
+      if (checkFreshness(request, reply, format, `trending|${query.period}|${query.rank}`, rows, null)) {
+        return reply;
+      }
+
+      const params = new URLSearchParams();
+      if (query.period !== 'week') params.set('period', query.period);
+      if (query.rank !== 'blended') params.set('rank', query.rank);
+      const qs = params.size > 0 ? `?${params.toString()}` : '';
+
+      return sendFeed(reply, format, {
+        title: `${FEED_TITLE}: Trending`,
+        description: query.rank === 'views'
+          ? `Most viewed GIFs and short videos (${query.period})`
+          : `Trending GIFs and short videos (${query.period})`,
+        sitePath: '/trending',
+        feedPath: `/feed/trending.${format}${qs}`,
+      }, rows, latestChange(rows));
+    });
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Renderers for outbound RSS 2.0, Atom 1.0 and JSON Feed 1.1
+ */
+
+export type SyndicationFormat = 'rss' | 'atom' | 'json';
+
+export const SYNDICATION_CONTENT_TYPES: Record<SyndicationFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+};
+
+export interface SyndicationChannel {
+  title: string;
+  description: string;
+  /** HTML page the feed mirrors */
+  siteUrl: string;
+  /** URL of this feed */
+  feedUrl: string;
+  updatedAt: Date;
+}
+
+export interface SyndicationEntry {
+  id: string;
+  /** Item page on our site */
+  url: string;
+  /** Original post on the source */
+  permalink: string;
+  title: string;
+  caption: string | null;
+  author: string | null;
+  tags: string[];
+  publishedAt: Date;
+  updatedAt: Date;
+  media: {
+    url: string;
+    mimeType: string;
+    medium: 'image' | 'video';
+    width: number | null;
+    height: number | null;
+    durationSec: number | null;
+  };
+  thumbnailUrl: string;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * HTML body shared by all formats: preview image, caption and a link to the original
+ */
+function entryHtml(entry: SyndicationEntry): string {
+  const parts = [`<p><a href="${escapeXml(entry.url)}"><img src="${escapeXml(entry.thumbnailUrl)}" alt="${escapeXml(entry.title)}"></a></p>`];
+  if (entry.caption) {
+    parts.push(`<p>${escapeXml(entry.caption)}</p>`);
+  }
+  parts.push(`<p>Via <a href="${escapeXml(entry.permalink)}">${escapeXml(entry.author || 'original post')}</a></p>`);
+  return parts.join('');
+}
+
+function mediaRssElements(entry: SyndicationEntry): string {
+  const { media } = entry;
+  const attrs = [
+    `url="${escapeXml(media.url)}"`,
+    `type="${media.mimeType}"`,
+    `medium="${media.medium}"`,
+    media.width ? `width="${media.width}"` : '',
+    media.height ? `height="${media.height}"` : '',
+    media.durationSec ? `duration="${media.durationSec}"` : '',
+  ].filter(Boolean).join(' ');
+
+  return `<media:content ${attrs}/><media:thumbnail url="${escapeXml(entry.thumbnailUrl)}"/>`;
+}
+
+function renderRss(channel: SyndicationChannel, entries: SyndicationEntry[]): string {
+  const items = entries.map(entry => [
+    '<item>',
+    `<title>${escapeXml(entry.title)}</title>`,
+    `<link>${escapeXml(entry.url)}</link>`,
+    `<guid isPermaLink="true">${escapeXml(entry.url)}</guid>`,
+    `<pubDate>${entry.publishedAt.toUTCString()}</pubDate>`,
+    entry.author ? `<dc:creator>${escapeXml(entry.author)}</dc:creator>` : '',
+    ...entry.tags.map(tag => `<category>${escapeXml(tag)}</category>`),
+    `<description>${escapeXml(entryHtml(entry))}</description>`,
+    // RSS requires a length; 0 is the accepted value when the size is unknown
+    `<enclosure url="${escapeXml(entry.media.url)}" length="0" type="${entry.media.mimeType}"/>`,
+    mediaRssElements(entry),
+    '</item>',
+  ].filter(Boolean).join(''));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:media="http://search.yahoo.com/mrss/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '<channel>',
+    `<title>${escapeXml(channel.title)}</title>`,
+    `<link>${escapeXml(channel.siteUrl)}</link>`,
+    `<description>${escapeXml(channel.description)}</description>`,
+    `<atom:link href="${escapeXml(channel.feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    `<lastBuildDate>${channel.updatedAt.toUTCString()}</lastBuildDate>`,
+    ...items,
+    '</channel>',
+    '</rss>',
+  ].join('\n');
+}
+
+function renderAtom(channel: SyndicationChannel, entries: SyndicationEntry[]): string {
+  const items = entries.map(entry => [
+    '<entry>',
+    `<id>${escapeXml(entry.url)}</id>`,
+    `<title>${escapeXml(entry.title)}</title>`,
+    `<link rel="alternate" type="text/html" href="${escapeXml(entry.url)}"/>`,
+    `<link rel="via" href="${escapeXml(entry.permalink)}"/>`,
+    `<link rel="enclosure" type="${entry.media.mimeType}" href="${escapeXml(entry.media.url)}"/>`,
+    `<published>${entry.publishedAt.toISOString()}</published>`,
+    `<updated>${entry.updatedAt.toISOString()}</updated>`,
+    entry.author ? `<author><name>${escapeXml(entry.author)}</name></author>` : '',
+    ...entry.tags.map(tag => `<category term="${escapeXml(tag)}"/>`),
+    `<content type="html">${escapeXml(entryHtml(entry))}</content>`,
+    mediaRssElements(entry),
+    '</entry>',
+  ].filter(Boolean).join(''));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom" xmlns:media="http://search.yahoo.com/mrss/">',
+    `<id>${escapeXml(channel.feedUrl)}</id>`,
+    `<title>${escapeXml(channel.title)}</title>`,
+    `<subtitle>${escapeXml(channel.description)}</subtitle>`,
+    `<link rel="self" type="application/atom+xml" href="${escapeXml(channel.feedUrl)}"/>`,
+    `<link rel="alternate" type="text/html" href="${escapeXml(channel.siteUrl)}"/>`,
+    `<updated>${channel.updatedAt.toISOString()}</updated>`,
+    // Atom requires an author on every entry; the feed-level one covers entries without one
+    `<author><name>${escapeXml(channel.title)}</name></author>`,
+    ...items,
+    '</feed>',
+  ].join('\n');
+}
+
+function renderJsonFeed(channel: SyndicationChannel, entries: SyndicationEntry[]): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: channel.title,
+    description: channel.description,
+    home_page_url: channel.siteUrl,
+    feed_url: channel.feedUrl,
+    items: entries.map(entry => ({
+      id: entry.url,
+      url: entry.url,
+      external_url: entry.permalink,
+      title: entry.title,
+      content_html: entryHtml(entry),
+      summary: entry.caption || undefined,
+      image: entry.thumbnailUrl,
+      date_published: entry.publishedAt.toISOString(),
+      date_modified: entry.updatedAt.toISOString(),
+      authors: entry.author ? [{ name: entry.author }] : undefined,
+      tags: entry.tags.length > 0 ? entry.tags : undefined,
+      attachments: [{
+        url: entry.media.url,
+        mime_type: entry.media.mimeType,
+        ...(entry.media.durationSec ? { duration_in_seconds: entry.media.durationSec } : {}),
+      }],
+    })),
+  });
+}
+
+export function renderFeed(
+  format: SyndicationFormat,
+  channel: SyndicationChannel,
+  entries: SyndicationEntry[],
+): string {
+  switch (format) {
+    case 'atom':
+      return renderAtom(channel, entries);
+    case 'json':
+      return renderJsonFeed(channel, entries);
+    case 'rss':
+    default:
+      return renderRss(channel, entries);
+  }
+}
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  gif: 'image/gif',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  mp4: 'video/mp4',
+  m4v: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+};
+
+/**
+ * MIME type for an enclosure. Proxy URLs carry no extension, so this looks at
+ * the original source URL first and falls back to the media type.
+ */
+export function guessMimeType(originalUrl: string, mediaType: string): string {
+  const ext = originalUrl.split(/[?#]/)[0]?.split('.').pop()?.toLowerCase();
+  const byExtension = ext ? MIME_BY_EXTENSION[ext] : undefined;
+  if (byExtension) return byExtension;
+
+  if (mediaType === 'video') return 'video/mp4';
+  if (mediaType === 'gif') return 'image/gif';
+  return 'image/jpeg';
+}
@@ -0,0 +1,75 @@
+import { sql, type SQL } from 'drizzle-orm';
+
+/**
+ * Blended trending score shared by GET /feed/trending and the trending
+ * syndication feeds.
+ *
+ * Upstream engagement (likes, comments and views reported by the source) and
+ * local engagement (view_count/like_count) are each log-scaled and divided by
+ * the best score among the candidates, so both land in 0..1. Upstream scores
+ * are normalized per source: a top Reddit post and a top RedGifs clip both
+ * score 1 even though their raw counts differ by orders of magnitude. Items
+ * whose source reports no metrics are ranked on local engagement alone, so
+ * forums aren't buried under sources that do.
+ */
+
+export type TrendingRank = 'blended' | 'views';
+
+const UPSTREAM_WEIGHT = 0.4;
+const LOCAL_WEIGHT = 0.6;
+
+/** A comment signals more than a like; a view much less */
+const UPSTREAM_COMMENT_WEIGHT = 2;
+const UPSTREAM_VIEWS_PER_LIKE = 100;
+const LOCAL_LIKE_WEIGHT = 5;
+
+/** Inline a constant so it isn't sent as an untyped parameter */
+const num = (value: number) => sql.raw(String(value));
+
+/**
+ * Media items matching `where`, with a `trending_score` column.
+ * `where` may only reference media_items columns.
+ */
+export function scoredMediaItems(where: SQL): SQL {
+  return sql`(
+    SELECT raw.*,
+      CASE
+        WHEN raw.upstream_raw IS NULL THEN raw.local_norm
+        ELSE ${num(LOCAL_WEIGHT)} * raw.local_norm
+          + ${num(UPSTREAM_WEIGHT)} * COALESCE(raw.upstream_raw / NULLIF(max(raw.upstream_raw) OVER (PARTITION BY raw.source_id), 0), 0)
+      END AS trending_score
+    FROM (
+      SELECT base.*,
+        COALESCE(base.local_raw / NULLIF(max(base.local_raw) OVER (), 0), 0) AS local_norm
+      FROM (
+        SELECT media_items.*,
+          (SELECT source_id FROM threads WHERE threads.id = media_items.thread_id) AS source_id,
+          ln(1 + view_count::float8 + ${num(LOCAL_LIKE_WEIGHT)} * like_count::float8) AS local_raw,
+          CASE WHEN source_metrics_at IS NULL THEN NULL ELSE ln(1
+            + COALESCE(source_like_count, 0)::float8
+            + ${num(UPSTREAM_COMMENT_WEIGHT)} * COALESCE(source_comment_count, 0)::float8
+            + COALESCE(source_view_count, 0)::float8 / ${num(UPSTREAM_VIEWS_PER_LIKE)}
+          ) END AS upstream_raw
+        FROM media_items
+        WHERE ${where}
+      ) base
+    ) raw
+  )`;
+}
+
+/**
+ * ORDER BY for the ranked rows: within a cross-post group (to pick the row
+ * that represents it) and across the deduplicated result
+ */
+export function trendingOrder(rank: TrendingRank): { group: SQL; result: SQL } {
+  if (rank === 'views') {
+    return {
+      group: sql`view_count DESC, like_count DESC`,
+      result: sql`view_count DESC, like_count DESC, posted_at DESC`,
+    };
+  }
+  return {
+    group: sql`trending_score DESC, view_count DESC`,
+    result: sql`trending_score DESC, posted_at DESC, id`,
+  };
+}
@@ -1,6 +1,8 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { followSchema, followListQuerySchema } from '@aggragif/shared';
 import { db } from '../../lib/db.js';
-import { likes } from '@aggragif/db/schema';
+import { likes, follows, threads, sources, users } from '@aggragif/db/schema';
+import { and, eq, inArray } from 'drizzle-orm';
 import { getProxyUrls } from '../../lib/proxy-urls.js';
 
 function encodeCursor(data: Record<string, unknown>): string {
@@ -69,10 +71,12 @@ export async function meRoutes(app: FastifyInstance) {
             id: item.id,
             type: item.mediaType,
             title: item.title,
-            ...getProxyUrls(item.id, item.mediaUrls as { original: string; thumbnail?: string }),
+            ...getProxyUrls(item.id, item.mediaUrls as { original: string; thumbnail?: string }, { context: 'card' }),
             duration: item.durationMs ? Math.floor(item.durationMs / 1000) : null,
             width: item.width,
             height: item.height,
+            blurhash: item.blurhash,
+            dominantColor: item.dominantColor,
             likeCount: item.likeCount,
             commentCount: item.commentCount,
             publishedAt: item.postedAt?.toISOString() || null,
@@ -86,4 +90,183 @@ export async function meRoutes(app: FastifyInstance) {
       },
     };
   });
+
+  // PUT /me/follows — follow a thread, source, user or author (idempotent)
+  app.put('/follows', async (request: FastifyRequest, reply: FastifyReply) => {
+    const userId = (request.user as { sub: string }).sub;
+    const body = followSchema.parse(request.body);
+
+    const name = await resolveFolloweeName(body.followeeType, body.followeeId);
+    if (!name) {
+      return reply.status(404).send({
+        error: 'Not Found',
+        message: `${body.followeeType} not found`,
+      });
+    }
+
+    if (body.followeeType === 'user' && body.followeeId === userId) {
+      return reply.status(400).send({
+        error: 'Bad Request',
+        message: 'You cannot follow yourself',
+      });
+    }
+
+    const [follow] = await db.insert(follows).values({
+      followerId: userId,
+      followeeType: body.followeeType,
+      followeeId: body.followeeId,
+      notify: body.notify ?? true,
+    }).onConflictDoUpdate({
+      target: [follows.followerId, follows.followeeType, follows.followeeId],
+      set: { notify: body.notify ?? true },
+    }).returning();
+
+    if (!follow) {
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to save follow',
+      });
+    }
+
+    return {
+      id: follow.id,
+      followeeType: follow.followeeType,
+      followeeId: follow.followeeId,
+      name,
+      notify: follow.notify,
+      createdAt: follow.createdAt.toISOString(),
+    };
+  });
+
+  // DELETE /me/follows — unfollow
+  app.delete('/follows', async (request: FastifyRequest, reply: FastifyReply) => {
+    const userId = (request.user as { sub: string }).sub;
+    const body = followSchema.omit({ notify: true }).parse(request.body);
+
+    const deleted = await db.delete(follows)
+      .where(and(
+        eq(follows.followerId, userId),
+        eq(follows.followeeType, body.followeeType),
+        eq(follows.followeeId, body.followeeId),
+      ))
+      .returning({ id: follows.id });
+
+    if (deleted.length === 0) {
+      return reply.status(404).send({
+        error: 'Not Found',
+        message: 'Not following',
+      });
+    }
+
+    return { success: true };
+  });
+
+  // GET /me/follows — paginated list of everything the user follows
+  app.get('/follows', async (request: FastifyRequest) => {
+    const userId = (request.user as { sub: string }).sub;
+    const query = followListQuerySchema.parse(request.query);
+
+    const cursorData = query.cursor
+      ? decodeCursor<{ createdAt: string }>(query.cursor)
+      : null;
+
+    const userFollows = await db.query.follows.findMany({
+      where: (f, { and, eq, lt: ltOp }) => and(
+        eq(f.followerId, userId),
+        query.type ? eq(f.followeeType, query.type) : undefined,
+        query.followeeId ? eq(f.followeeId, query.followeeId) : undefined,
+        cursorData
+          ? ltOp(f.createdAt, new Date(cursorData.createdAt))
+          : undefined,
+      ),
+      orderBy: (f, { desc }) => [desc(f.createdAt)],
+      limit: query.limit + 1,
+    });
+
+    const hasMore = userFollows.length > query.limit;
+    const resultFollows = hasMore ? userFollows.slice(0, -1) : userFollows;
+
+    const names = await resolveFolloweeNames(resultFollows);
+
+    const lastFollow = resultFollows[resultFollows.length - 1];
+    const nextCursor = hasMore && lastFollow
+      ? encodeCursor({ createdAt: lastFollow.createdAt.toISOString() })
+      : null;
+
+    return {
+      items: resultFollows.map(f => ({
+        id: f.id,
+        followeeType: f.followeeType,
+        followeeId: f.followeeId,
+        name: names.get(`${f.followeeType}:${f.followeeId}`) ?? f.followeeId,
+        notify: f.notify,
+        createdAt: f.createdAt.toISOString(),
+      })),
+      pagination: {
+        nextCursor,
+        hasMore,
+      },
+    };
+  });
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Look up the display name of a followee, or null if it doesn't exist.
+ * Authors aren't rows of their own — they exist if any visible item carries the name.
+ */
+async function resolveFolloweeName(type: string, id: string): Promise<string | null> {
+  if (type === 'author') {
+    const item = await db.query.mediaItems.findFirst({
+      where: (m, { and, eq, isNull }) => and(eq(m.author, id), isNull(m.deletedAt)),
+      columns: { author: true },
+    });
+    return item?.author ?? null;
+  }
+
+  if (!UUID_RE.test(id)) return null;
+
+  const names = await resolveFolloweeNames([{ followeeType: type, followeeId: id }]);
+  return names.get(`${type}:${id}`) ?? null;
+}
+
+/**
+ * Batch-resolve display names for a list of follows, keyed by "type:id".
+ */
+async function resolveFolloweeNames(
+  list: Array<{ followeeType: string; followeeId: string }>,
+): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+  const idsOf = (type: string) => list
+    .filter(f => f.followeeType === type && UUID_RE.test(f.followeeId))
+    .map(f => f.followeeId);
+
+  const threadIds = idsOf('thread');
+  const sourceIds = idsOf('source');
+  const userIds = idsOf('user');
+
+  const [threadRows, sourceRows, userRows] = await Promise.all([
+    threadIds.length > 0
+      ? db.select({ id: threads.id, displayName: threads.displayName, externalId: threads.externalId })
+          .from(threads).where(inArray(threads.id, threadIds))
+      : [],
+    sourceIds.length > 0
+      ? db.select({ id: sources.id, name: sources.name })
+          .from(sources).where(inArray(sources.id, sourceIds))
+      : [],
+    userIds.length > 0
+      ? db.select({ id: users.id, username: users.username })
+          .from(users).where(inArray(users.id, userIds))
+      : [],
+  ]);
+
+  for (const t of threadRows) names.set(`thread:${t.id}`, t.displayName || t.externalId);
+  for (const s of sourceRows) names.set(`source:${s.id}`, s.name);
+  for (const u of userRows) names.set(`user:${u.id}`, u.username);
+  for (const f of list) {
+    if (f.followeeType === 'author') names.set(`author:${f.followeeId}`, f.followeeId);
+  }
+
+  return names;
 }
@@ -1,24 +1,216 @@
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { db } from '../../lib/db.js';
-import { mediaItems, likes, comments, sources } from '@aggragif/db/schema';
+import { mediaItems, mediaAssets, likes, comments, sources } from '@aggragif/db/schema';
 import { eq, and, isNull, sql, gt, lt, desc, asc } from 'drizzle-orm';
-import { getProxyUrls } from '../../lib/proxy-urls.js';
-import { isR2Enabled, uploadToR2 } from '../../lib/r2.js';
+import { getProxyUrls, getAssetProxyUrl } from '../../lib/proxy-urls.js';
+import { isStorageEnabled, uploadMedia, uploadAsset } from '../../lib/media-storage.js';
 import { isAllowedUrl, buildSourceHeaders, safeFetchMedia, correctContentType } from '../../lib/media-fetcher.js';
+import { recordView } from '../../lib/view-counter.js';
+import { getProxyCache, type CachedMedia } from '../../lib/proxy-cache.js';
+import { commentListQuerySchema } from '@aggragif/shared';
+import { listComments } from '../comments/comments.query.js';
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Dedup key for view counting: the user when signed in, otherwise the IP.
+ */
+function viewerKey(request: FastifyRequest): string {
+  const userId = (request.user as { sub?: string } | undefined)?.sub;
+  return userId ? `u:${userId}` : `ip:${request.ip || 'unknown'}`;
+}
+
+/**
+ * Media opened at the source for proxying
+ */
+interface UpstreamMedia {
+  status: number;
+  body: Readable;
+  contentType: string;
+  contentLength: string | null;
+  contentRange: string | null;
+}
+
+/**
+ * Open a media URL at the source. Pages served instead of media (HTML) are
+ * rejected, or replaced by fallbackUrl when given.
+ */
+async function openUpstream(
+  url: string,
+  headers: Record<string, string>,
+  defaultContentType: string,
+  options: { fallbackUrl?: string; range?: string } = {},
+): Promise<UpstreamMedia | { error: string }> {
+  // fetch decodes gzip/br bodies, which would leave the upstream Content-Length
+  // (and any range) describing bytes we never send, so ask for the raw body
+  const response = await safeFetchMedia(url, {
+    ...headers,
+    'Accept-Encoding': 'identity',
+    ...(options.range ? { Range: options.range } : {}),
+  });
+
+  if (!response.ok || !response.body) {
+    await response.body?.cancel();
+    return { error: `Source returned HTTP ${response.status}` };
+  }
+
+  const contentType = correctContentType(response.headers.get('content-type') || defaultContentType, url);
+  if (contentType.includes('text/html')) {
+    await response.body.cancel();
+    const { fallbackUrl } = options;
+    if (fallbackUrl && fallbackUrl !== url && isAllowedUrl(fallbackUrl)) {
+      return openUpstream(fallbackUrl, headers, defaultContentType, { range: options.range });
+    }
+    return { error: 'Source returned HTML instead of media content' };
+  }
+
+  // A source that encodes anyway: the decoded length is unknown until it's sent
+  const encoding = response.headers.get('content-encoding');
+  const encoded = !!encoding && encoding.toLowerCase() !== 'identity';
+
+  return {
+    status: response.status,
+    body: Readable.fromWeb(response.body as WebReadableStream),
+    contentType,
+    contentLength: encoded ? null : response.headers.get('content-length'),
+    contentRange: response.headers.get('content-range'),
+  };
+}
+
+/**
+ * Parse a single "bytes=start-end" range against a body of `size` bytes.
+ * Returns null to send the whole body (no header, or several ranges).
+ */
+function parseRange(header: string | undefined, size: number): { start: number; end: number } | 'unsatisfiable' | null {
+  const match = header ? /^bytes=(\d*)-(\d*)$/.exec(header.trim()) : null;
+  if (!match || (!match[1] && !match[2])) return null;
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    const suffix = Number(match[2]);
+    if (suffix === 0) return 'unsatisfiable';
+    start = Math.max(size - suffix, 0);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  }
+
+  return start >= size || start > end ? 'unsatisfiable' : { start, end };
+}
+
+function setProxyHeaders(reply: FastifyReply, contentType: string): void {
+  reply.header('Content-Type', contentType);
+  reply.header('Cache-Control', 'public, max-age=300');
+  reply.header('Access-Control-Allow-Origin', '*');
+  reply.header('Access-Control-Allow-Headers', 'Range');
+  reply.header('Access-Control-Expose-Headers', 'Content-Range, Accept-Ranges, Content-Length');
+  reply.header('Accept-Ranges', 'bytes');
+}
+
+/**
+ * Send a body from the proxy disk cache, honouring Range
+ */
+function sendCached(request: FastifyRequest, reply: FastifyReply, media: CachedMedia) {
+  setProxyHeaders(reply, media.contentType);
+  reply.header('X-Proxy-Cache', 'HIT');
+
+  const range = parseRange(request.headers.range, media.size);
+  if (range === 'unsatisfiable') {
+    reply.header('Content-Range', `bytes */${media.size}`);
+    return reply.status(416).send({ error: 'Range Not Satisfiable' });
+  }
+  if (range) {
+    reply.header('Content-Range', `bytes ${range.start}-${range.end}/${media.size}`);
+    reply.header('Content-Length', range.end - range.start + 1);
+    return reply.status(206).send(createReadStream(media.path, range));
+  }
+
+  reply.header('Content-Length', media.size);
+  return reply.send(createReadStream(media.path));
+}
+
+/**
+ * Proxy a source media URL through the disk cache.
+ * - Cached: served from disk, ranges included.
+ * - Not cached, full request: the source body is streamed to the client and
+ *   written to the cache as it goes.
+ * - Not cached, range request: the range is passed through to the source
+ *   while the full body is fetched into the cache in the background, so
+ *   the player's next range is served locally.
+ * onCached gets every body that made it into the cache in full.
+ */
+async function proxyMedia(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  source: {
+    url: string;
+    headers: Record<string, string>;
+    defaultContentType: string;
+    fallbackUrl?: string;
+    onCached: (media: CachedMedia) => void;
+  },
+) {
+  const cache = getProxyCache();
+  const cached = await cache.get(source.url);
+  if (cached) {
+    return sendCached(request, reply, cached);
+  }
+
+  const open = (range?: string) => openUpstream(source.url, source.headers, source.defaultContentType, {
+    fallbackUrl: source.fallbackUrl,
+    range,
+  });
+
+  const range = request.headers.range;
+  if (range) {
+    cache.fill(source.url, async () => {
+      const upstream = await open();
+      return 'error' in upstream ? null : upstream;
+    }).then(media => media && source.onCached(media));
+  }
+
+  try {
+    const upstream = await open(range);
+    if ('error' in upstream) {
+      return reply.status(502).send({ error: 'Upstream Error', message: upstream.error });
+    }
+
+    setProxyHeaders(reply, upstream.contentType);
+    reply.header('X-Proxy-Cache', 'MISS');
+    if (upstream.contentLength) reply.header('Content-Length', upstream.contentLength);
+    if (upstream.contentRange) reply.header('Content-Range', upstream.contentRange);
+    reply.status(upstream.status);
 
-// In-memory cache for proxied images (URL -> {data, contentType, fetchedAt})
-const proxyCache = new Map<string, { data: Buffer; contentType: string; fetchedAt: number }>();
-const PROXY_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+    if (range || upstream.status !== 200) {
+      return reply.send(upstream.body);
+    }
 
-// In-memory view deduplication (key: "mediaId:ip" -> timestamp)
-const viewedRecently = new Map<string, number>();
-const VIEW_DEDUP_TTL = 15 * 60 * 1000; // 15 minutes
+    const { stream, stored } = cache.tee(source.url, upstream.contentType);
+    stored.then(media => media && source.onCached(media));
+    // Errors tear down both streams; the client sees a cut-off response
+    pipeline(upstream.body, stream).catch(() => {});
+    return reply.send(stream);
+  } catch (error) {
+    return reply.status(502).send({
+      error: 'Proxy Error',
+      message: error instanceof Error ? error.message : 'Failed to fetch media',
+    });
+  }
+}
 
 export async function mediaRoutes(app: FastifyInstance) {
   /**
    * GET /media/proxy/:id
-   * Proxy an image through the API with source authentication.
-   * Fetches the full-size image using source cookies and streams it to the client.
+   * Proxy an item's media (or its thumbnail with ?thumb=1) through the API with
+   * source authentication. Streams it to the client via the disk cache, with
+   * range support, and copies it to storage once fetched in full.
    */
   app.get('/proxy/:id', async (request: FastifyRequest, reply: FastifyReply) => {
     const { id } = request.params as { id: string };
@@ -50,7 +242,7 @@ export async function mediaRoutes(app: FastifyInstance) {
 
     const mediaUrls = item.mediaUrls as { original: string; thumbnail?: string; cdnOriginal?: string; cdnThumbnail?: string };
 
-    // If already cached on R2, redirect to CDN
+    // If already cached, redirect to the stored copy
     const cdnUrl = wantThumbnail ? mediaUrls.cdnThumbnail : mediaUrls.cdnOriginal;
     if (cdnUrl) {
       reply.header('Cache-Control', 'public, max-age=31536000, immutable');
@@ -66,148 +258,117 @@ export async function mediaRoutes(app: FastifyInstance) {
       return reply.status(404).send({ error: 'No media URL' });
     }
 
-    // Check in-memory cache
-    const cacheKey = `${id}:${wantThumbnail ? 'thumb' : 'full'}`;
-    const cached = proxyCache.get(cacheKey);
-    if (cached && Date.now() - cached.fetchedAt < PROXY_CACHE_TTL) {
-      reply.header('Content-Type', cached.contentType);
-      reply.header('Cache-Control', 'public, max-age=300');
-      reply.header('Access-Control-Allow-Origin', '*');
-      reply.header('X-Proxy-Cache', 'HIT');
-      return reply.send(cached.data);
-    }
-
     // Get source headers/cookies
     const scraperConfig = item.thread?.source?.scraperConfig as { headers?: Record<string, string> } | null;
     const headers = buildSourceHeaders(targetUrl, scraperConfig);
 
-    const isVideo = targetUrl.endsWith('.mp4') || targetUrl.endsWith('.webm');
-
     if (!isAllowedUrl(targetUrl)) {
       return reply.status(403).send({ error: 'Forbidden', message: 'URL not in allowlist' });
     }
 
-    try {
-
-      // Helper: upload to R2 in background and update DB with CDN URL
-      function cacheToR2(buf: Buffer, ct: string) {
-        if (!isR2Enabled()) return;
-        const v = wantThumbnail ? 'thumb' as const : 'original' as const;
+    return proxyMedia(request, reply, {
+      url: targetUrl,
+      headers,
+      defaultContentType: 'image/jpeg',
+      // If the "original" URL returns an HTML page instead of media, fall back to the thumbnail
+      fallbackUrl: wantThumbnail ? undefined : mediaUrls.thumbnail,
+      // Copy complete bodies to storage from the disk cache and record the public URL
+      onCached: (media) => {
+        if (!isStorageEnabled()) return;
         const field = wantThumbnail ? 'cdnThumbnail' : 'cdnOriginal';
-        uploadToR2(id, v, buf, ct).then((cdnUrl) => {
-          if (!cdnUrl) return;
-          // Update mediaUrls JSONB with CDN URL
-          db.update(mediaItems)
-            .set({ mediaUrls: sql`${mediaItems.mediaUrls} || ${JSON.stringify({ [field]: cdnUrl })}::jsonb` })
-            .where(eq(mediaItems.id, id))
-            .execute()
-            .catch((err) => console.error('R2 DB update failed:', err));
-        }).catch((err) => console.error('R2 upload failed:', err));
-      }
-
-      // For video: buffer full response, send to client, and cache to R2
-      if (isVideo) {
-        const rangeHeader = request.headers.range;
-        const fetchHeaders: Record<string, string> = { ...headers };
-        if (rangeHeader) {
-          fetchHeaders['Range'] = rangeHeader;
-        }
-
-        const response = await safeFetchMedia(targetUrl, fetchHeaders);
-
-        if (!response.ok && response.status !== 206) {
-          return reply.status(502).send({
-            error: 'Upstream Error',
-            message: `Source returned HTTP ${response.status}`,
-          });
-        }
-
-        const rawContentType = response.headers.get('content-type') || 'video/mp4';
-        const contentType = correctContentType(rawContentType, targetUrl);
-        const contentLength = response.headers.get('content-length');
-        const contentRange = response.headers.get('content-range');
-        const acceptRanges = response.headers.get('accept-ranges');
-
-        // Buffer the full video for R2 upload (only on non-range requests to avoid partial uploads)
-        const videoBuffer = Buffer.from(await response.arrayBuffer());
-
-        reply.header('Content-Type', contentType);
-        reply.header('Cache-Control', 'public, max-age=300');
-        reply.header('Access-Control-Allow-Origin', '*');
-        reply.header('Access-Control-Allow-Headers', 'Range');
-        reply.header('Access-Control-Expose-Headers', 'Content-Range, Accept-Ranges, Content-Length');
-        if (contentLength) reply.header('Content-Length', contentLength);
-        if (contentRange) reply.header('Content-Range', contentRange);
-        if (acceptRanges) reply.header('Accept-Ranges', acceptRanges);
-        else reply.header('Accept-Ranges', 'bytes');
-
-        reply.status(response.status); // 200 or 206
-
-        // Cache full video to R2 (only if this was a full request, not a range)
-        if (!rangeHeader) {
-          cacheToR2(videoBuffer, contentType);
-        }
-
-        return reply.send(videoBuffer);
-      }
-
-      // For images: buffer and cache
-      const response = await safeFetchMedia(targetUrl, headers);
-
-      if (!response.ok) {
-        return reply.status(502).send({
-          error: 'Upstream Error',
-          message: `Source returned HTTP ${response.status}`,
-        });
-      }
+        uploadMedia(id, wantThumbnail ? 'thumb' : 'original', createReadStream(media.path), media.contentType, media.size)
+          .then((cdnUrl) => {
+            if (!cdnUrl) return;
+            return db.update(mediaItems)
+              .set({ mediaUrls: sql`${mediaItems.mediaUrls} || ${JSON.stringify({ [field]: cdnUrl })}::jsonb` })
+              .where(eq(mediaItems.id, id))
+              .execute();
+          })
+          .catch((err) => console.error('Storage upload failed:', err));
+      },
+    });
+  });
 
-      let contentType = response.headers.get('content-type') || 'image/jpeg';
-      let buffer = Buffer.from(await response.arrayBuffer());
-
-      // If the "original" URL returned HTML instead of an image, fall back to thumbnail
-      if (!wantThumbnail && contentType.includes('text/html') && mediaUrls.thumbnail && mediaUrls.thumbnail !== targetUrl && isAllowedUrl(mediaUrls.thumbnail)) {
-        const fallbackRes = await safeFetchMedia(mediaUrls.thumbnail, headers);
-        if (fallbackRes.ok) {
-          const fallbackType = fallbackRes.headers.get('content-type') || 'image/jpeg';
-          if (!fallbackType.includes('text/html')) {
-            contentType = fallbackType;
-            buffer = Buffer.from(await fallbackRes.arrayBuffer());
-          }
-        }
-      }
+  /**
+   * GET /media/proxy/:id/assets/:position
+   * Proxy a gallery asset with source authentication.
+   * Redirects to the stored copy once the asset is cached, and caches it on first full fetch.
+   */
+  app.get('/proxy/:id/assets/:position', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id, position: rawPosition } = request.params as { id: string; position: string };
+    const position = Number(rawPosition);
 
-      // If we still have HTML after fallback, return an error instead of serving HTML as an image
-      if (contentType.includes('text/html')) {
-        return reply.status(502).send({
-          error: 'Upstream Error',
-          message: 'Source returned HTML instead of media content',
-        });
-      }
+    if (!UUID_RE.test(id) || !Number.isInteger(position) || position < 0) {
+      return reply.status(404).send({ error: 'Not Found' });
+    }
 
-      // Cache image in memory and R2
-      proxyCache.set(cacheKey, { data: buffer, contentType, fetchedAt: Date.now() });
-      cacheToR2(buffer, contentType);
+    const asset = await db.query.mediaAssets.findFirst({
+      where: (a, { and, eq, isNull }) => and(
+        eq(a.mediaItemId, id),
+        eq(a.position, position),
+        isNull(a.rendition),
+      ),
+      columns: { id: true, assetUrl: true, assetType: true, cdnUrl: true },
+      with: {
+        mediaItem: {
+          columns: { id: true, deletedAt: true },
+          with: {
+            thread: {
+              columns: { sourceId: true },
+              with: {
+                source: {
+                  columns: { id: true, scraperConfig: true },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
 
-      // Evict old entries periodically
-      if (proxyCache.size > 500) {
-        const now = Date.now();
-        for (const [key, val] of proxyCache) {
-          if (now - val.fetchedAt > PROXY_CACHE_TTL) proxyCache.delete(key);
-        }
-      }
+    if (!asset || !asset.mediaItem || asset.mediaItem.deletedAt) {
+      return reply.status(404).send({ error: 'Not Found' });
+    }
 
-      reply.header('Content-Type', contentType);
-      reply.header('Cache-Control', 'public, max-age=300');
+    // If already cached, redirect to the stored copy
+    if (asset.cdnUrl) {
+      reply.header('Cache-Control', 'public, max-age=31536000, immutable');
       reply.header('Access-Control-Allow-Origin', '*');
-      reply.header('X-Proxy-Cache', 'MISS');
-      return reply.send(buffer);
-    } catch (error) {
-      return reply.status(502).send({
-        error: 'Proxy Error',
-        message: error instanceof Error ? error.message : 'Failed to fetch image',
-      });
+      return reply.redirect(asset.cdnUrl);
     }
+
+    const targetUrl = asset.assetUrl;
+    if (!isAllowedUrl(targetUrl)) {
+      return reply.status(403).send({ error: 'Forbidden', message: 'URL not in allowlist' });
+    }
+
+    const scraperConfig = asset.mediaItem.thread?.source?.scraperConfig as { headers?: Record<string, string> } | null;
+
+    return proxyMedia(request, reply, {
+      url: targetUrl,
+      headers: buildSourceHeaders(targetUrl, scraperConfig),
+      defaultContentType: asset.assetType === 'video' ? 'video/mp4' : 'image/jpeg',
+      onCached: (media) => {
+        if (!isStorageEnabled()) return;
+        uploadAsset(id, position, createReadStream(media.path), media.contentType, media.size)
+          .then((cdnUrl) => {
+            if (!cdnUrl) return;
+            return db.update(mediaAssets)
+              .set({
+                cdnUrl,
+                storageMode: 'cached',
+                mimeType: media.contentType,
+                fileSizeBytes: media.size,
+                updatedAt: new Date(),
+              })
+              .where(eq(mediaAssets.id, asset.id))
+              .execute();
+          })
+          .catch((err) => console.error('Storage upload failed:', err));
+      },
+    });
   });
+
   // Get single media item
   app.get('/:id', async (request: FastifyRequest, reply: FastifyReply) => {
     const { id } = request.params as { id: string };
@@ -228,6 +389,8 @@ export async function mediaRoutes(app: FastifyInstance) {
           },
         },
         assets: {
+          // Transcoded renditions are picked by getProxyUrls, not listed as gallery entries
+          where: (a, { isNull }) => isNull(a.rendition),
           orderBy: (a, { asc }) => [asc(a.position)],
         },
       },
@@ -250,27 +413,32 @@ export async function mediaRoutes(app: FastifyInstance) {
       isLiked = !!like;
     }
 
-    // Increment view count with IP-based deduplication (fire and forget)
-    const viewerIp = request.ip || 'unknown';
-    const viewKey = `${id}:${viewerIp}`;
-    const now = Date.now();
-    const lastViewed = viewedRecently.get(viewKey);
-
-    if (!lastViewed || now - lastViewed > VIEW_DEDUP_TTL) {
-      viewedRecently.set(viewKey, now);
-      db.update(mediaItems)
-        .set({ viewCount: sql`${mediaItems.viewCount} + 1` })
-        .where(eq(mediaItems.id, id))
-        .execute()
-        .catch(() => {});
-
-      // Evict stale entries periodically
-      if (viewedRecently.size > 10000) {
-        for (const [key, ts] of viewedRecently) {
-          if (now - ts > VIEW_DEDUP_TTL) viewedRecently.delete(key);
-        }
-      }
-    }
+    // Other posts of the same media (canonical item plus its cross-posts)
+    const canonicalId = item.canonicalId ?? item.id;
+    const groupItems = await db.query.mediaItems.findMany({
+      where: (m, { and, eq, ne, or, isNull }) => and(
+        or(eq(m.id, canonicalId), eq(m.canonicalId, canonicalId)),
+        ne(m.id, item.id),
+        eq(m.isHidden, false),
+        isNull(m.deletedAt),
+      ),
+      columns: { id: true, permalink: true, author: true, createdAt: true },
+      with: {
+        thread: {
+          columns: { id: true, displayName: true, externalId: true },
+          with: {
+            source: {
+              columns: { id: true, name: true },
+            },
+          },
+        },
+      },
+      orderBy: (m, { asc }) => [asc(m.createdAt)],
+      limit: 20,
+    });
+
+    // Count the view (deduplicated and buffered, fire and forget)
+    recordView(id, viewerKey(request)).catch(() => {});
 
     const mediaUrls = item.mediaUrls as { original: string; thumbnail?: string; preview?: string };
     const proxyUrls = getProxyUrls(item.id, mediaUrls);
@@ -283,14 +451,20 @@ export async function mediaRoutes(app: FastifyInstance) {
       description: item.caption,
       thumbnailUrl: proxyUrls.thumbnailUrl,
       mediaUrl: proxyUrls.mediaUrl,
+      sources: proxyUrls.sources,
       duration: item.durationMs ? Math.floor(item.durationMs / 1000) : null,
       width: item.width,
       height: item.height,
+      blurhash: item.blurhash,
+      dominantColor: item.dominantColor,
       author: item.author,
       authorUrl: item.authorUrl,
       permalink: item.permalink,
       tags: (item.tags as string[]) || [],
       source: item.thread?.source || null,
+      thread: item.thread
+        ? { id: item.thread.id, name: item.thread.displayName || item.thread.externalId }
+        : null,
       likeCount: item.likeCount,
       commentCount: item.commentCount,
       viewCount: item.viewCount,
@@ -298,18 +472,73 @@ export async function mediaRoutes(app: FastifyInstance) {
       publishedAt: item.postedAt?.toISOString() || null,
       ingestedAt: item.createdAt.toISOString(),
       isLiked,
+      crossPosts: groupItems.map(p => ({
+        id: p.id,
+        permalink: p.permalink,
+        author: p.author,
+        source: p.thread?.source || null,
+        thread: p.thread
+          ? { id: p.thread.id, name: p.thread.displayName || p.thread.externalId }
+          : null,
+        ingestedAt: p.createdAt.toISOString(),
+      })),
+      sourceMetrics: item.sourceMetricsAt
+        ? {
+          likes: item.sourceLikeCount,
+          comments: item.sourceCommentCount,
+          views: item.sourceViewCount,
+          updatedAt: item.sourceMetricsAt.toISOString(),
+        }
+        : null,
       assets: item.assets.map(a => ({
         id: a.id,
-        url: a.cdnUrl || a.assetUrl,
+        url: getAssetProxyUrl(item.id, a),
         type: a.assetType,
         duration: a.durationMs ? Math.floor(a.durationMs / 1000) : null,
         width: a.width,
         height: a.height,
+        blurhash: a.blurhash,
         position: a.position,
       })),
     };
   });
 
+  /**
+   * POST /media/:id/view
+   * View beacon for clients that play media without loading the detail page
+   * (e.g. feed autoplay). Repeat views inside the dedup window are ignored.
+   */
+  app.post('/:id/view', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+
+    if (!UUID_RE.test(id)) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Media item not found' });
+    }
+
+    // Optional auth: dedup per user when signed in
+    try {
+      await request.jwtVerify();
+    } catch {
+      // Anonymous view
+    }
+
+    const item = await db.query.mediaItems.findFirst({
+      where: (m, { and, eq, isNull }) => and(
+        eq(m.id, id),
+        eq(m.isHidden, false),
+        isNull(m.deletedAt),
+      ),
+      columns: { id: true },
+    });
+
+    if (!item) {
+      return reply.status(404).send({ error: 'Not Found', message: 'Media item not found' });
+    }
+
+    const counted = await recordView(id, viewerKey(request));
+    return reply.status(202).send({ counted });
+  });
+
   // Get adjacent (prev/next) media items for navigation
   app.get('/:id/adjacent', async (request: FastifyRequest, reply: FastifyReply) => {
     const { id } = request.params as { id: string };
@@ -425,12 +654,11 @@ export async function mediaRoutes(app: FastifyInstance) {
     };
   });
 
-  // Get comments for media item
+  // Get comments for media item (keyset-paginated, sort: oldest | newest | top)
   app.get('/:id/comments', async (request: FastifyRequest, reply: FastifyReply) => {
     const { id } = request.params as { id: string };
-    const query = request.query as { cursor?: string; limit?: number; includeReplies?: string };
-    const limit = Math.min(Math.max(query.limit || 20, 1), 50);
-    const includeReplies = query.includeReplies !== 'false';
+    const query = commentListQuerySchema.parse(request.query);
+    const { includeReplies } = request.query as { includeReplies?: string };
 
     // Verify media exists
     const item = await db.query.mediaItems.findFirst({
@@ -449,69 +677,23 @@ export async function mediaRoutes(app: FastifyInstance) {
       });
     }
 
-    // Get top-level comments
-    const topLevelComments = await db.query.comments.findMany({
-      where: (c, { and, eq, isNull }) => and(
-        eq(c.mediaItemId, id),
-        isNull(c.parentId),
-        eq(c.isHidden, false),
-        isNull(c.deletedAt),
-      ),
-      orderBy: (c, { asc }) => [asc(c.createdAt)],
-      limit: limit + 1,
-      with: {
-        user: {
-          columns: { id: true, username: true, displayName: true, avatarUrl: true },
-        },
-        ...(includeReplies ? {
-          replies: {
-            where: (r, { and, eq, isNull }) => and(
-              eq(r.isHidden, false),
-              isNull(r.deletedAt),
-            ),
-            orderBy: (r, { asc }) => [asc(r.createdAt)],
-            limit: 3, // First 3 replies
-            with: {
-              user: {
-                columns: { id: true, username: true, displayName: true, avatarUrl: true },
-              },
-            },
-          },
-        } : {}),
-      },
-    });
-
-    const hasMore = topLevelComments.length > limit;
-    const resultComments = hasMore ? topLevelComments.slice(0, -1) : topLevelComments;
+    // Optional auth: mark comments the viewer has liked
+    let viewerId: string | undefined;
+    try {
+      viewerId = (await request.jwtVerify<{ sub: string }>()).sub;
+    } catch {
+      // Anonymous viewer
+    }
 
-    return {
-      items: resultComments.map(comment => ({
-        id: comment.id,
-        content: comment.body,
-        user: comment.user,
-        parentId: comment.parentId,
-        replyCount: comment.replyCount,
-        likeCount: comment.likeCount,
-        isEdited: comment.isEdited,
-        createdAt: comment.createdAt.toISOString(),
-        replies: includeReplies && 'replies' in comment
-          ? (comment.replies as typeof topLevelComments).map(reply => ({
-              id: reply.id,
-              content: reply.body,
-              user: reply.user,
-              parentId: reply.parentId,
-              replyCount: 0,
-              likeCount: reply.likeCount,
-              isEdited: reply.isEdited,
-              createdAt: reply.createdAt.toISOString(),
-            }))
-          : undefined,
-      })),
-      pagination: {
-        nextCursor: null,
-        hasMore,
-      },
-    };
+    return listComments({
+      mediaItemId: id,
+      parentId: null,
+      sort: query.sort,
+      cursor: query.cursor,
+      limit: query.limit,
+      viewerId,
+      includeReplies: includeReplies !== 'false',
+    });
   });
 
   // Create comment
@@ -634,6 +816,8 @@ export async function mediaRoutes(app: FastifyInstance) {
       replyCount: 0,
       likeCount: 0,
       isEdited: false,
+      editedAt: null,
+      isLiked: false,
       createdAt: newComment.createdAt.toISOString(),
     };
   });
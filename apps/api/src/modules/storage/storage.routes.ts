@@ -0,0 +1,33 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { getStorage } from '../../lib/storage/index.js';
+
+/**
+ * Serves objects written by the local storage driver. Only registered when
+ * STORAGE_DRIVER=local; S3 and R2 objects are served by their own public URL.
+ */
+export async function storageRoutes(app: FastifyInstance) {
+  /**
+   * GET /storage/*
+   * Stream a stored object
+   */
+  app.get('/*', async (request: FastifyRequest, reply: FastifyReply) => {
+    const key = (request.params as { '*': string })['*'];
+    const storage = getStorage();
+
+    if (!storage || !key || key.split('/').includes('..')) {
+      return reply.status(404).send({ error: 'Not Found' });
+    }
+
+    const object = await storage.stream(key);
+    if (!object) {
+      return reply.status(404).send({ error: 'Not Found' });
+    }
+
+    // Keys are immutable: a re-cached item overwrites with identical content
+    reply.header('Content-Type', object.contentType);
+    reply.header('Content-Length', object.size);
+    reply.header('Cache-Control', 'public, max-age=31536000, immutable');
+    reply.header('Access-Control-Allow-Origin', '*');
+    return reply.send(object.body);
+  });
+}
@@ -0,0 +1,90 @@
+import { Queue, Worker, Job } from 'bullmq';
+import { redis } from '../lib/redis.js';
+import { config as appConfig } from '../config/index.js';
+import { runLinkHealthBatch, type LinkHealthSummary } from '../core/link-health.js';
+
+// Queue name
+const LINK_HEALTH_QUEUE = 'link-health';
+
+// Queue instances
+let linkHealthQueue: Queue<Record<string, never>, LinkHealthSummary>;
+let linkHealthWorker: Worker<Record<string, never>, LinkHealthSummary>;
+
+/**
+ * Initialize the link health queue and its repeating check
+ */
+export async function initializeLinkHealthQueue(): Promise<void> {
+  linkHealthQueue = new Queue(LINK_HEALTH_QUEUE, {
+    connection: redis,
+    defaultJobOptions: {
+      removeOnComplete: { count: 100 },
+      removeOnFail: { count: 100 },
+    },
+  });
+
+  // One batch at a time: batches read the same due items
+  linkHealthWorker = new Worker(
+    LINK_HEALTH_QUEUE,
+    processLinkHealthJob,
+    {
+      connection: redis,
+      concurrency: 1,
+    },
+  );
+
+  linkHealthWorker.on('error', (error) => {
+    console.error('[Worker] Link health worker error:', error);
+  });
+
+  // Remove existing scheduled jobs
+  const repeatableJobs = await linkHealthQueue.getRepeatableJobs();
+  for (const job of repeatableJobs) {
+    await linkHealthQueue.removeRepeatableByKey(job.key);
+  }
+
+  const interval = appConfig.LINK_HEALTH_INTERVAL_MS;
+  await linkHealthQueue.add(
+    'check-batch',
+    {},
+    {
+      repeat: {
+        every: interval,
+      },
+      jobId: 'link-health-batch',
+    },
+  );
+
+  console.log(`[LinkHealth] Checking up to ${appConfig.LINK_HEALTH_BATCH_SIZE} items every ${interval / 1000} seconds`);
+}
+
+/**
+ * Process a link health batch
+ */
+async function processLinkHealthJob(job: Job<Record<string, never>, LinkHealthSummary>): Promise<LinkHealthSummary> {
+  const summary = await runLinkHealthBatch();
+  if (summary.checked > 0) {
+    console.log(
+      `[LinkHealth] ${job.name}: checked=${summary.checked} ok=${summary.ok} suspect=${summary.suspect} ` +
+      `hidden=${summary.hidden} unknown=${summary.unknown}`,
+    );
+  }
+  return summary;
+}
+
+/**
+ * Trigger a link health batch now
+ */
+export async function triggerLinkHealthCheck(): Promise<void> {
+  await linkHealthQueue.add('check-now', {}, { jobId: `link-health-now-${Date.now()}` });
+  console.log('[LinkHealth] Triggered immediate check');
+}
+
+/**
+ * Gracefully shutdown the link health queue
+ */
+export async function shutdownLinkHealthQueue(): Promise<void> {
+  await Promise.all([
+    linkHealthWorker?.close(),
+    linkHealthQueue?.close(),
+  ]);
+}
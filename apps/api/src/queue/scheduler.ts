@@ -1,10 +1,14 @@
 import { Queue, Worker, Job, QueueEvents } from 'bullmq';
 import { redis } from '../lib/redis.js';
 import { db } from '../lib/db.js';
-import { sources, threads } from '@aggragif/db/schema';
-import { eq, and, isNull } from 'drizzle-orm';
-import { IncrementalScanner } from '../core/incremental-scanner.js';
-import { getAdapter, type SourceConfig } from '../adapters/base-adapter.js';
+import { randomUUID } from 'crypto';
+import { sources, threads, ingestRuns } from '@aggragif/db/schema';
+import { eq, and, isNull, or, lte } from 'drizzle-orm';
+import { IncrementalScanner, type RunErrorDetails } from '../core/incremental-scanner.js';
+import { checkpointManager, type BackfillCursor } from '../core/checkpoint-manager.js';
+import { scheduleNextRun } from '../core/poll-schedule.js';
+import { config as appConfig } from '../config/index.js';
+import { getAdapter, type BaseAdapter, type SourceConfig } from '../adapters/base-adapter.js';
 import { getCircuitBreaker } from '../resilience/circuit-breaker.js';
 import { getRateLimiter, fromRequestsPerMinute, globalConcurrencyLimiter } from '../resilience/rate-limiter.js';
 
@@ -12,6 +16,8 @@ import { getRateLimiter, fromRequestsPerMinute, globalConcurrencyLimiter } from
 import '../adapters/generic-html-adapter.js';
 import '../adapters/redgifs-adapter.js';
 import '../adapters/reddit-adapter.js';
+import '../adapters/generic-json-adapter.js';
+import '../adapters/feed-adapter.js';
 
 /**
  * Job data for ingestion tasks
@@ -32,6 +38,19 @@ interface IngestionJobData {
   adapterConfig?: Record<string, unknown>;
   priority?: number;
   isCatchUp?: boolean;
+  /** Set on historical backfill chunks: the backfill they belong to */
+  backfillId?: string;
+  /** Set on retries of a run's failed items: the run */
+  retryRunId?: string;
+}
+
+/**
+ * Date and depth bounds of a historical backfill
+ */
+export interface BackfillBounds {
+  from?: Date;
+  to?: Date;
+  maxPages?: number;
 }
 
 /**
@@ -52,6 +71,11 @@ interface IngestionJobResult {
 const INGESTION_QUEUE = 'ingestion';
 const SCHEDULER_QUEUE = 'scheduler';
 
+// Backfill chunks queue behind every live polling job (lower number = sooner)
+const BACKFILL_PRIORITY = 100;
+// How long a backfill waits for a source's open circuit breaker
+const BACKFILL_RETRY_DELAY_MS = 5 * 60 * 1000;
+
 // Queue instances
 let ingestionQueue: Queue<IngestionJobData, IngestionJobResult>;
 let schedulerQueue: Queue;
@@ -130,14 +154,22 @@ async function processIngestionJob(
   job: Job<IngestionJobData, IngestionJobResult>,
 ): Promise<IngestionJobResult> {
   const startTime = Date.now();
-  const { threadId, sourceId, sourceName, baseUrl, threadUrl, externalId, rateLimitConfig, userAgent, adapterConfig } = job.data;
+  if (job.data.backfillId) {
+    return processBackfillJob(job.data, job.data.backfillId, startTime);
+  }
+  if (job.data.retryRunId) {
+    return processRetryJob(job.data, job.data.retryRunId, startTime);
+  }
+
+  const { threadId, sourceId, externalId } = job.data;
 
   console.log(`[Ingestion] Starting job for thread ${threadId} (${externalId})`);
 
   try {
     // Check circuit breaker
     const circuitBreaker = getCircuitBreaker(sourceId);
-    if (!circuitBreaker.isAllowed()) {
+    if (!(await circuitBreaker.isAllowed())) {
+      await rescheduleThread(threadId, true);
       return {
         threadId,
         status: 'circuit_open',
@@ -150,35 +182,7 @@ async function processIngestionJob(
       };
     }
 
-    // Get rate limiter
-    const rateLimiter = getRateLimiter(sourceId, fromRequestsPerMinute(
-      rateLimitConfig.requestsPerMinute,
-      rateLimitConfig.burstSize,
-    ));
-
-    // Build adapter config
-    const config: SourceConfig = {
-      sourceId,
-      threadId,
-      baseUrl,
-      threadUrl,
-      externalId,
-      rateLimit: rateLimitConfig,
-      userAgent,
-      extra: adapterConfig,
-    };
-
-    // Get adapter
-    const adapter = getAdapter(sourceName, config);
-    if (!adapter) {
-      throw new Error(`No adapter found for source type: ${sourceName}`);
-    }
-
-    // Validate adapter
-    const validation = await adapter.validate();
-    if (!validation.valid) {
-      throw new Error(`Adapter validation failed: ${validation.error}`);
-    }
+    const adapter = await createJobAdapter(job.data);
 
     // Run scan with circuit breaker and rate limiter protection
     const result = await circuitBreaker.execute(async () => {
@@ -190,9 +194,11 @@ async function processIngestionJob(
 
     console.log(`[Ingestion] Completed job for thread ${threadId}: ${result.status}, ${result.itemsNew} new items`);
 
-    // Schedule catch-up job if partial
+    // Schedule catch-up job if partial; the next regular run is set once it finishes
     if (result.status === 'partial' && result.resumePage) {
       await scheduleCatchUpJob(job.data, result.resumePage);
+    } else {
+      await rescheduleThread(threadId, result.status === 'failed');
     }
 
     return {
@@ -209,6 +215,170 @@ async function processIngestionJob(
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     console.error(`[Ingestion] Job failed for thread ${threadId}:`, errorMessage);
+    await rescheduleThread(threadId, true);
+
+    return {
+      threadId,
+      status: 'failed',
+      pagesScanned: 0,
+      itemsNew: 0,
+      itemsDuplicate: 0,
+      itemsFailed: 0,
+      error: errorMessage,
+      durationMs: Date.now() - startTime,
+    };
+  }
+}
+
+/**
+ * Build and validate the adapter for an ingestion job
+ */
+async function createJobAdapter(data: IngestionJobData): Promise<BaseAdapter> {
+  const { threadId, sourceId, sourceName, baseUrl, threadUrl, externalId, rateLimitConfig, userAgent, adapterConfig } = data;
+
+  // Get rate limiter
+  const rateLimiter = getRateLimiter(sourceId, fromRequestsPerMinute(
+    rateLimitConfig.requestsPerMinute,
+    rateLimitConfig.burstSize,
+  ));
+
+  // Build adapter config
+  const config: SourceConfig = {
+    sourceId,
+    threadId,
+    baseUrl,
+    threadUrl,
+    externalId,
+    rateLimit: rateLimitConfig,
+    userAgent,
+    extra: adapterConfig,
+  };
+
+  // Get adapter
+  const adapter = getAdapter(sourceName, config);
+  if (!adapter) {
+    throw new Error(`No adapter found for source type: ${sourceName}`);
+  }
+
+  // Pace the adapter's requests through the source's shared token bucket
+  adapter.setRateLimiter(rateLimiter);
+
+  // Validate adapter
+  const validation = await adapter.validate();
+  if (!validation.valid) {
+    throw new Error(`Adapter validation failed: ${validation.error}`);
+  }
+
+  return adapter;
+}
+
+/**
+ * Process one chunk of a historical backfill, queueing the next chunk while
+ * the backfill is still running. Never touches the thread's polling schedule.
+ */
+async function processBackfillJob(
+  data: IngestionJobData,
+  backfillId: string,
+  startTime: number,
+): Promise<IngestionJobResult> {
+  const { threadId, sourceId } = data;
+
+  try {
+    const circuitBreaker = getCircuitBreaker(sourceId);
+    if (!(await circuitBreaker.isAllowed())) {
+      await scheduleBackfillJob(data, backfillId, BACKFILL_RETRY_DELAY_MS);
+      return {
+        threadId,
+        status: 'circuit_open',
+        pagesScanned: 0,
+        itemsNew: 0,
+        itemsDuplicate: 0,
+        itemsFailed: 0,
+        error: 'Circuit breaker is open',
+        durationMs: Date.now() - startTime,
+      };
+    }
+
+    const adapter = await createJobAdapter(data);
+
+    const { result, cursor } = await circuitBreaker.execute(async () => {
+      return globalConcurrencyLimiter.execute(async () => {
+        const scanner = new IncrementalScanner();
+        return scanner.backfill(threadId, sourceId, adapter, backfillId);
+      });
+    });
+
+    if (cursor?.status === 'running') {
+      await scheduleBackfillJob(data, backfillId);
+    } else if (cursor) {
+      console.log(`[Backfill] Thread ${threadId} backfill ${cursor.status}: ${cursor.pagesScanned} pages, ${cursor.itemsNew} new items`);
+    }
+
+    return {
+      threadId,
+      status: result.status,
+      pagesScanned: result.pagesScanned,
+      itemsNew: result.itemsNew,
+      itemsDuplicate: result.itemsDuplicate,
+      itemsFailed: result.itemsFailed,
+      error: result.error,
+      durationMs: Date.now() - startTime,
+    };
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[Backfill] Job failed for thread ${threadId}:`, errorMessage);
+    await checkpointManager.failBackfill(threadId, backfillId, errorMessage);
+
+    return {
+      threadId,
+      status: 'failed',
+      pagesScanned: 0,
+      itemsNew: 0,
+      itemsDuplicate: 0,
+      itemsFailed: 0,
+      error: errorMessage,
+      durationMs: Date.now() - startTime,
+    };
+  }
+}
+
+/**
+ * Re-commit a run's failed items. Nothing is fetched from the source, so this
+ * skips the circuit breaker and rate limiter.
+ */
+async function processRetryJob(
+  data: IngestionJobData,
+  runId: string,
+  startTime: number,
+): Promise<IngestionJobResult> {
+  const { threadId } = data;
+
+  try {
+    const result = await globalConcurrencyLimiter.execute(async () => {
+      const scanner = new IncrementalScanner();
+      return scanner.retryFailedItems(runId, data.adapterConfig);
+    });
+
+    if (!result) {
+      throw new Error(`Run not found: ${runId}`);
+    }
+
+    console.log(`[Retry] Run ${runId}: ${result.retried} items retried, ${result.itemsNew} committed, ${result.itemsFailed} failed again`);
+
+    return {
+      threadId,
+      status: result.itemsFailed > 0 ? 'partial' : 'complete',
+      pagesScanned: 0,
+      itemsNew: result.itemsNew,
+      itemsDuplicate: result.itemsDuplicate,
+      itemsFailed: result.itemsFailed,
+      durationMs: Date.now() - startTime,
+    };
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[Retry] Job failed for run ${runId}:`, errorMessage);
 
     return {
       threadId,
@@ -224,61 +394,95 @@ async function processIngestionJob(
 }
 
 /**
- * Process the scheduler job (triggers ingestion for all enabled threads)
+ * Set a thread's next run from its recent ingest rate. Failures here are logged
+ * rather than thrown so they never fail the ingestion job itself.
+ */
+async function rescheduleThread(threadId: string, failed: boolean): Promise<void> {
+  try {
+    const nextRunAt = await scheduleNextRun(threadId, failed);
+    if (nextRunAt) {
+      console.log(`[Scheduler] Thread ${threadId} next run at ${nextRunAt.toISOString()}`);
+    }
+  } catch (error) {
+    console.error(`[Scheduler] Failed to reschedule thread ${threadId}:`, error);
+  }
+}
+
+/**
+ * Build ingestion job data for a thread and its source
+ */
+function buildJobData(
+  thread: typeof threads.$inferSelect,
+  source: typeof sources.$inferSelect,
+): IngestionJobData {
+  return {
+    threadId: thread.id,
+    sourceId: source.id,
+    sourceName: source.mode, // 'scrape' or adapter name
+    baseUrl: source.baseUrl,
+    threadUrl: thread.url,
+    externalId: thread.externalId,
+    rateLimitConfig: source.rateLimitConfig as {
+      requestsPerMinute: number;
+      burstSize?: number;
+      crawlDelay?: number;
+    },
+    userAgent: source.userAgent ?? undefined,
+    priority: thread.priority,
+    adapterConfig: source.scraperConfig as Record<string, unknown> | undefined,
+  };
+}
+
+/**
+ * Process the scheduler job
+ *
+ * The repeating 'poll-due' tick enqueues only threads whose next run time has
+ * passed; 'poll-all-immediate' (manual trigger) enqueues every enabled thread.
  */
-async function processSchedulerJob(): Promise<void> {
-  console.log('[Scheduler] Starting scheduled ingestion run');
+async function processSchedulerJob(job: Job): Promise<void> {
+  const force = job.name === 'poll-all-immediate';
+  const now = new Date();
 
   try {
-    // Get all enabled threads with their sources
-    const enabledThreads = await db.query.threads.findMany({
+    // Get due (or all) enabled threads with their sources
+    const dueThreads = await db.query.threads.findMany({
       where: and(
         eq(threads.enabled, true),
         isNull(threads.deletedAt),
+        force ? undefined : or(isNull(threads.nextRunAt), lte(threads.nextRunAt, now)),
       ),
       with: {
         source: true,
       },
-      orderBy: (t, { desc }) => [desc(t.priority)],
+      orderBy: (t, { desc }) => [desc(t.priority), t.nextRunAt],
     });
 
-    if (enabledThreads.length === 0) {
-      console.log('[Scheduler] No enabled threads found');
+    if (dueThreads.length === 0) {
       return;
     }
 
-    console.log(`[Scheduler] Queuing ${enabledThreads.length} threads for ingestion`);
+    console.log(`[Scheduler] Queuing ${dueThreads.length} ${force ? 'enabled' : 'due'} threads for ingestion`);
 
     // Queue jobs for each thread
-    for (const thread of enabledThreads) {
+    for (const thread of dueThreads) {
       const source = thread.source;
       if (!source || !source.enabled) continue;
 
-      const jobData: IngestionJobData = {
-        threadId: thread.id,
-        sourceId: source.id,
-        sourceName: source.mode, // 'scrape' or adapter name
-        baseUrl: source.baseUrl,
-        threadUrl: thread.url,
-        externalId: thread.externalId,
-        rateLimitConfig: source.rateLimitConfig as {
-          requestsPerMinute: number;
-          burstSize?: number;
-          crawlDelay?: number;
-        },
-        userAgent: source.userAgent ?? undefined,
-        priority: thread.priority,
-        adapterConfig: source.scraperConfig as Record<string, unknown> | undefined,
-      };
-
       await ingestionQueue.add(
         `ingest-${thread.id}`,
-        jobData,
+        buildJobData(thread, source),
         {
           priority: 10 - (thread.priority || 0), // Higher priority = lower number
           jobId: `ingest-${thread.id}-${Date.now()}`, // Prevent duplicates
         },
       );
+
+      // Hold the thread back by its current interval so later ticks don't enqueue
+      // it again while it waits; the job sets the real next run when it finishes
+      const intervalMs = thread.pollIntervalMs ?? appConfig.INGEST_POLL_INTERVAL_MS;
+      await db.update(threads)
+        .set({ nextRunAt: new Date(now.getTime() + intervalMs) })
+        .where(eq(threads.id, thread.id));
     }
 
     console.log('[Scheduler] All jobs queued');
@@ -308,6 +512,24 @@ async function scheduleCatchUpJob(data: IngestionJobData, resumePage: number): P
   console.log(`[Scheduler] Scheduled catch-up job for thread ${data.threadId} at page ${resumePage}`);
 }
 
+/**
+ * Queue the next chunk of a backfill
+ */
+async function scheduleBackfillJob(data: IngestionJobData, backfillId: string, delay = 0): Promise<void> {
+  await ingestionQueue.add(
+    `backfill-${data.threadId}`,
+    {
+      ...data,
+      backfillId,
+    },
+    {
+      delay,
+      priority: BACKFILL_PRIORITY,
+      jobId: `backfill-${data.threadId}-${Date.now()}`,
+    },
+  );
+}
+
 /**
  * Schedule the main polling job
  */
@@ -318,20 +540,20 @@ async function schedulePolling(): Promise<void> {
     await schedulerQueue.removeRepeatableByKey(job.key);
   }
 
-  // Schedule new polling job using configured interval
-  const pollInterval = parseInt(process.env.INGEST_POLL_INTERVAL_MS || '600000', 10);
+  // Check for due threads on a short tick; each thread's own interval decides when it runs
+  const tickInterval = appConfig.INGEST_SCHEDULER_TICK_MS;
   await schedulerQueue.add(
-    'poll-all',
+    'poll-due',
     {},
     {
       repeat: {
-        every: pollInterval,
+        every: tickInterval,
       },
-      jobId: 'poll-all',
+      jobId: 'poll-due',
     },
   );
 
-  console.log(`[Scheduler] Polling scheduled every ${pollInterval / 60000} minutes`);
+  console.log(`[Scheduler] Checking for due threads every ${tickInterval / 1000} seconds`);
 }
 
 /**
@@ -387,26 +609,9 @@ export async function triggerThreadIngestion(threadId: string): Promise<void> {
     throw new Error(`Thread not found: ${threadId}`);
   }
 
-  const jobData: IngestionJobData = {
-    threadId: thread.id,
-    sourceId: thread.source.id,
-    sourceName: thread.source.mode,
-    baseUrl: thread.source.baseUrl,
-    threadUrl: thread.url,
-    externalId: thread.externalId,
-    rateLimitConfig: thread.source.rateLimitConfig as {
-      requestsPerMinute: number;
-      burstSize?: number;
-      crawlDelay?: number;
-    },
-    userAgent: thread.source.userAgent ?? undefined,
-    priority: thread.priority,
-    adapterConfig: thread.source.scraperConfig as Record<string, unknown> | undefined,
-  };
-
   await ingestionQueue.add(
     `ingest-${thread.id}-manual`,
-    jobData,
+    buildJobData(thread, thread.source),
     {
       priority: 1, // Highest priority for manual triggers
       jobId: `ingest-${thread.id}-manual-${Date.now()}`,
@@ -416,6 +621,155 @@ export async function triggerThreadIngestion(threadId: string): Promise<void> {
   console.log(`[Scheduler] Triggered manual ingestion for thread ${threadId}`);
 }
 
+/**
+ * Queue a retry of a run's failed items. Returns how many items will be
+ * retried (0 queues nothing), or null if the run or its thread is gone.
+ */
+export async function retryRunFailures(runId: string): Promise<number | null> {
+  const run = await db.query.ingestRuns.findFirst({
+    where: eq(ingestRuns.id, runId),
+    columns: { threadId: true, errorDetails: true },
+    with: { thread: { with: { source: true } } },
+  });
+
+  if (!run?.thread?.source) {
+    return null;
+  }
+
+  const failures = (run.errorDetails as RunErrorDetails | null)?.failures.length ?? 0;
+  if (failures === 0) return 0;
+
+  // One retry per run at a time: a queued or running retry absorbs repeat
+  // requests, and a finished one is cleared so what still fails can be retried
+  const jobId = `retry-${runId}`;
+  const previous = await ingestionQueue.getJob(jobId);
+  if (previous && (await previous.isCompleted() || await previous.isFailed())) {
+    await previous.remove();
+  }
+
+  await ingestionQueue.add(
+    `retry-${runId}`,
+    {
+      ...buildJobData(run.thread, run.thread.source),
+      retryRunId: runId,
+    },
+    {
+      priority: 1, // Manual action, like a triggered run
+      jobId,
+    },
+  );
+
+  console.log(`[Scheduler] Queued retry of ${failures} failed items from run ${runId}`);
+  return failures;
+}
+
+/**
+ * Error thrown when a backfill can't be started or resumed in its current state
+ */
+export class BackfillStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackfillStateError';
+  }
+}
+
+/**
+ * Start a historical backfill of a thread, replacing any earlier one that
+ * isn't running. Returns null if the thread doesn't exist; throws
+ * BackfillStateError if it is already backfilling.
+ */
+export async function startThreadBackfill(threadId: string, bounds: BackfillBounds): Promise<BackfillCursor | null> {
+  const thread = await db.query.threads.findFirst({
+    where: eq(threads.id, threadId),
+    with: { source: true },
+  });
+
+  if (!thread || !thread.source) {
+    return null;
+  }
+
+  const existing = await checkpointManager.getBackfillCursor(threadId);
+  if (existing?.status === 'running') {
+    throw new BackfillStateError('A backfill is already running for this thread');
+  }
+
+  const now = new Date().toISOString();
+  const cursor: BackfillCursor = {
+    id: randomUUID(),
+    status: 'running',
+    from: bounds.from?.toISOString() ?? null,
+    to: bounds.to?.toISOString() ?? null,
+    maxPages: bounds.maxPages ?? null,
+    totalPages: null,
+    nextPage: null,
+    pagesScanned: 0,
+    itemsFound: 0,
+    itemsNew: 0,
+    itemsDuplicate: 0,
+    itemsFailed: 0,
+    startedAt: now,
+    updatedAt: now,
+    finishedAt: null,
+    error: null,
+  };
+
+  await checkpointManager.startBackfill(threadId, cursor);
+  await scheduleBackfillJob(buildJobData(thread, thread.source), cursor.id);
+
+  console.log(`[Scheduler] Started backfill for thread ${threadId}`);
+  return cursor;
+}
+
+/**
+ * Resume a failed or cancelled backfill from the page it stopped at.
+ * Returns null if the thread doesn't exist.
+ */
+export async function resumeThreadBackfill(threadId: string): Promise<BackfillCursor | null> {
+  const thread = await db.query.threads.findFirst({
+    where: eq(threads.id, threadId),
+    with: { source: true },
+  });
+
+  if (!thread || !thread.source) {
+    return null;
+  }
+
+  const existing = await checkpointManager.getBackfillCursor(threadId);
+  if (!existing || (existing.status !== 'failed' && existing.status !== 'cancelled')) {
+    throw new BackfillStateError('No failed or cancelled backfill to resume');
+  }
+
+  // A new id so that jobs left over from before the stop can't run alongside
+  const cursor: BackfillCursor = {
+    ...existing,
+    id: randomUUID(),
+    status: 'running',
+    finishedAt: null,
+    error: null,
+  };
+
+  await checkpointManager.startBackfill(threadId, cursor);
+  await scheduleBackfillJob(buildJobData(thread, thread.source), cursor.id);
+
+  console.log(`[Scheduler] Resumed backfill for thread ${threadId} at page ${cursor.nextPage ?? 'latest'}`);
+  return cursor;
+}
+
+/**
+ * Cancel a running backfill; its queued chunk stops when it comes up
+ */
+export async function cancelThreadBackfill(threadId: string): Promise<BackfillCursor | null> {
+  const cursor = await checkpointManager.getBackfillCursor(threadId);
+  if (!cursor || cursor.status !== 'running') return null;
+
+  cursor.status = 'cancelled';
+  cursor.finishedAt = new Date().toISOString();
+  if (!(await checkpointManager.updateBackfillCursor(threadId, cursor))) return null;
+
+  console.log(`[Scheduler] Cancelled backfill for thread ${threadId}`);
+  return cursor;
+}
+
 /**
  * Get queue statistics
  */
@@ -0,0 +1,144 @@
+import { Queue, Worker, Job } from 'bullmq';
+import { redis } from '../lib/redis.js';
+import { config as appConfig } from '../config/index.js';
+import { isStorageEnabled } from '../lib/media-storage.js';
+import {
+  findTranscodeCandidates,
+  isFfmpegAvailable,
+  setTranscodeStatus,
+  transcodeItem,
+  type TranscodeStatus,
+} from '../core/transcoder.js';
+
+/**
+ * Job data: 'transcode-item' carries the item, the repeating
+ * 'enqueue-pending' sweep carries nothing
+ */
+interface TranscodeJobData {
+  itemId?: string;
+}
+
+// Queue name
+const TRANSCODE_QUEUE = 'transcode';
+
+// Queue instances
+let transcodeQueue: Queue<TranscodeJobData, TranscodeStatus | number> | undefined;
+let transcodeWorker: Worker<TranscodeJobData, TranscodeStatus | number> | undefined;
+
+/**
+ * Initialize the transcode queue and its repeating sweep.
+ * Does nothing when transcoding is disabled, storage is off or ffmpeg is missing.
+ */
+export async function initializeTranscodeQueue(): Promise<void> {
+  if (!appConfig.TRANSCODE_ENABLED) return;
+  if (!isStorageEnabled()) {
+    console.log('[Transcode] Media storage is not configured, transcoding disabled');
+    return;
+  }
+  if (!(await isFfmpegAvailable())) {
+    console.warn(`[Transcode] ffmpeg not found at "${appConfig.FFMPEG_PATH}", transcoding disabled`);
+    return;
+  }
+
+  transcodeQueue = new Queue(TRANSCODE_QUEUE, {
+    connection: redis,
+    defaultJobOptions: {
+      attempts: 2,
+      backoff: {
+        type: 'exponential',
+        delay: 60000,
+      },
+      removeOnComplete: { count: 500 },
+      removeOnFail: { count: 500 },
+    },
+  });
+
+  // ffmpeg is CPU-bound: keep concurrency low
+  transcodeWorker = new Worker(
+    TRANSCODE_QUEUE,
+    processTranscodeJob,
+    {
+      connection: redis,
+      concurrency: appConfig.TRANSCODE_CONCURRENCY,
+    },
+  );
+
+  transcodeWorker.on('failed', (job, error) => {
+    if (!job?.data.itemId) return;
+    console.error(`[Transcode] Item ${job.data.itemId} failed (attempt ${job.attemptsMade}):`, error.message);
+    if (job.attemptsMade >= (job.opts.attempts ?? 1)) {
+      setTranscodeStatus([job.data.itemId], 'failed').catch(() => {});
+    }
+  });
+
+  transcodeWorker.on('error', (error) => {
+    console.error('[Worker] Transcode worker error:', error);
+  });
+
+  // Remove existing scheduled jobs
+  const repeatableJobs = await transcodeQueue.getRepeatableJobs();
+  for (const job of repeatableJobs) {
+    await transcodeQueue.removeRepeatableByKey(job.key);
+  }
+
+  const interval = appConfig.TRANSCODE_INTERVAL_MS;
+  await transcodeQueue.add(
+    'enqueue-pending',
+    {},
+    {
+      repeat: {
+        every: interval,
+      },
+      jobId: 'transcode-sweep',
+    },
+  );
+
+  console.log(`[Transcode] Picking up newly cached media every ${interval / 1000} seconds`);
+}
+
+/**
+ * Process a transcode job: either the sweep or a single item
+ */
+async function processTranscodeJob(
+  job: Job<TranscodeJobData, TranscodeStatus | number>,
+): Promise<TranscodeStatus | number> {
+  if (job.name === 'enqueue-pending') {
+    return enqueuePending();
+  }
+
+  const { itemId } = job.data;
+  if (!itemId) return 'skipped';
+
+  const startTime = Date.now();
+  const status = await transcodeItem(itemId);
+  console.log(`[Transcode] Item ${itemId}: ${status} in ${Date.now() - startTime}ms`);
+  return status;
+}
+
+/**
+ * Queue a job per cached GIF/video that hasn't been transcoded yet
+ */
+async function enqueuePending(): Promise<number> {
+  const itemIds = await findTranscodeCandidates();
+  if (itemIds.length === 0 || !transcodeQueue) return 0;
+
+  await transcodeQueue.addBulk(itemIds.map(itemId => ({
+    name: 'transcode-item',
+    data: { itemId },
+    opts: { jobId: `transcode-${itemId}` },
+  })));
+  await setTranscodeStatus(itemIds, 'queued');
+
+  console.log(`[Transcode] Queued ${itemIds.length} items`);
+  return itemIds.length;
+}
+
+/**
+ * Gracefully shutdown the transcode queue
+ */
+export async function shutdownTranscodeQueue(): Promise<void> {
+  await Promise.all([
+    transcodeWorker?.close(),
+    transcodeQueue?.close(),
+  ]);
+}
@@ -1,3 +1,12 @@
+import { publishIngestEvent } from '../lib/ingest-events.js';
+import {
+  KEY_PREFIX,
+  isSharedStateEnabled,
+  withFallback,
+  scanKeys,
+  type MaybePromise,
+} from './shared-state.js';
+
 /**
  * Circuit Breaker States
  */
@@ -28,13 +37,25 @@ const DEFAULT_CONFIG: CircuitBreakerConfig = {
   failureWindow: 60000, // 1 minute
 };
 
+/**
+ * Common surface of the in-memory and Redis-backed circuit breakers
+ */
+export interface CircuitBreakerLike {
+  execute<T>(fn: () => Promise<T>): Promise<T>;
+  getState(): MaybePromise<CircuitState>;
+  getFailureCount(): MaybePromise<number>;
+  isAllowed(): MaybePromise<boolean>;
+  reset(): MaybePromise<void>;
+  trip(): MaybePromise<void>;
+}
+
 /**
  * Circuit Breaker
  *
  * Prevents cascading failures by stopping requests to failing services.
  * Opens circuit after consecutive failures, then periodically tests recovery.
  */
-export class CircuitBreaker {
+export class CircuitBreaker implements CircuitBreakerLike {
   private state: CircuitState = CircuitState.CLOSED;
   private failures: number[] = [];
   private successCount = 0;
@@ -141,6 +162,10 @@ export class CircuitBreaker {
         console.log(`[CircuitBreaker:${this.name}] ${oldState} -> HALF_OPEN (testing recovery)`);
         break;
     }
+
+    if (oldState !== newState) {
+      publishIngestEvent({ type: 'circuit_state', sourceId: this.name, from: oldState, to: newState, failures: this.failures.length });
+    }
   }
 
   /**
@@ -208,10 +233,239 @@ export class CircuitOpenError extends Error {
   }
 }
 
+const CIRCUIT_KEY_PREFIX = `${KEY_PREFIX}cb:`;
+const FAILURES_SUFFIX = ':failures';
+
+/** Idle circuits are forgotten after a day */
+const CIRCUIT_TTL_MS = 24 * 60 * 60 * 1000;
+
+const LUA_NOW = `
+local t = redis.call('TIME')
+local now = tonumber(t[1]) * 1000 + math.floor(tonumber(t[2]) / 1000)
+`;
+
+/**
+ * KEYS: hash | ARGV: resetTimeout, transition (1 = move OPEN -> HALF_OPEN when due)
+ * Returns: { allowed, previousState, state, retryAfterMs }
+ */
+const ALLOW_SCRIPT = `${LUA_NOW}
+local state = redis.call('HGET', KEYS[1], 'state') or 'closed'
+if state ~= 'open' then return {1, state, state, 0} end
+local elapsed = now - tonumber(redis.call('HGET', KEYS[1], 'lastFailure') or '0')
+local reset = tonumber(ARGV[1])
+if elapsed < reset then return {0, state, state, reset - elapsed} end
+if ARGV[2] == '1' then
+  redis.call('HSET', KEYS[1], 'state', 'half_open', 'successCount', 0)
+  return {1, state, 'half_open', 0}
+end
+return {1, state, state, 0}
+`;
+
+/**
+ * KEYS: hash, failures | ARGV: successThreshold, failureWindow, ttl
+ * Returns: { previousState, state, failures }
+ */
+const SUCCESS_SCRIPT = `${LUA_NOW}
+local state = redis.call('HGET', KEYS[1], 'state') or 'closed'
+if state == 'half_open' then
+  local successes = redis.call('HINCRBY', KEYS[1], 'successCount', 1)
+  if successes >= tonumber(ARGV[1]) then
+    redis.call('HSET', KEYS[1], 'state', 'closed', 'successCount', 0)
+    redis.call('DEL', KEYS[2])
+    redis.call('PEXPIRE', KEYS[1], ARGV[3])
+    return {state, 'closed', 0}
+  end
+elseif state == 'closed' then
+  redis.call('ZREMRANGEBYSCORE', KEYS[2], '-inf', now - tonumber(ARGV[2]))
+end
+redis.call('PEXPIRE', KEYS[1], ARGV[3])
+return {state, state, redis.call('ZCARD', KEYS[2])}
+`;
+
+/**
+ * KEYS: hash, failures | ARGV: failureThreshold, failureWindow, resetTimeout, ttl
+ * Returns: { previousState, state, failures }
+ */
+const FAILURE_SCRIPT = `${LUA_NOW}
+local state = redis.call('HGET', KEYS[1], 'state') or 'closed'
+redis.call('HSET', KEYS[1], 'lastFailure', now, 'resetTimeout', ARGV[3], 'failureWindow', ARGV[2])
+redis.call('PEXPIRE', KEYS[1], ARGV[4])
+if state == 'half_open' then
+  redis.call('HSET', KEYS[1], 'state', 'open', 'successCount', 0)
+  return {state, 'open', redis.call('ZCARD', KEYS[2])}
+end
+local seq = redis.call('HINCRBY', KEYS[1], 'seq', 1)
+redis.call('ZADD', KEYS[2], now, now .. ':' .. seq)
+redis.call('ZREMRANGEBYSCORE', KEYS[2], '-inf', now - tonumber(ARGV[2]))
+redis.call('PEXPIRE', KEYS[2], ARGV[2])
+local failures = redis.call('ZCARD', KEYS[2])
+if failures >= tonumber(ARGV[1]) then
+  redis.call('HSET', KEYS[1], 'state', 'open', 'successCount', 0)
+  return {state, 'open', failures}
+end
+return {state, state, failures}
+`;
+
+/**
+ * KEYS: hash, failures | ARGV: default failureWindow
+ * Returns: { state, failures }
+ */
+const STATUS_SCRIPT = `${LUA_NOW}
+local state = redis.call('HGET', KEYS[1], 'state') or 'closed'
+local window = tonumber(redis.call('HGET', KEYS[1], 'failureWindow') or ARGV[1])
+return {state, redis.call('ZCOUNT', KEYS[2], '(' .. (now - window), '+inf')}
+`;
+
+/**
+ * KEYS: hash | ARGV: ttl
+ */
+const TRIP_SCRIPT = `${LUA_NOW}
+redis.call('HSET', KEYS[1], 'state', 'open', 'successCount', 0, 'lastFailure', now)
+redis.call('PEXPIRE', KEYS[1], ARGV[1])
+`;
+
+type TransitionReply = [string, string, number];
+
+/**
+ * Log a state change and publish it on the ingestion event stream
+ */
+function logTransition(name: string, from: string, to: string, failures: number): void {
+  if (from === to) return;
+  publishIngestEvent({ type: 'circuit_state', sourceId: name, from, to, failures });
+  switch (to) {
+    case CircuitState.CLOSED:
+      console.log(`[CircuitBreaker:${name}] ${from} -> CLOSED (recovered)`);
+      break;
+    case CircuitState.OPEN:
+      console.log(`[CircuitBreaker:${name}] ${from} -> OPEN (failures: ${failures})`);
+      break;
+    case CircuitState.HALF_OPEN:
+      console.log(`[CircuitBreaker:${name}] ${from} -> HALF_OPEN (testing recovery)`);
+      break;
+  }
+}
+
+/**
+ * Circuit breaker whose state is shared through Redis
+ *
+ * Same state machine as CircuitBreaker, with each transition done atomically
+ * in a Lua script so concurrent workers agree on when a source trips and
+ * recovers. Falls back to a per-process CircuitBreaker if Redis is unreachable.
+ */
+export class RedisCircuitBreaker implements CircuitBreakerLike {
+  private readonly config: CircuitBreakerConfig;
+  private readonly name: string;
+  private readonly key: string;
+  private readonly failuresKey: string;
+  private readonly fallback: CircuitBreaker;
+
+  constructor(name: string, config: Partial<CircuitBreakerConfig> = {}) {
+    this.name = name;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.key = `${CIRCUIT_KEY_PREFIX}${name}`;
+    this.failuresKey = `${this.key}${FAILURES_SUFFIX}`;
+    this.fallback = new CircuitBreaker(name, config);
+  }
+
+  /**
+   * Execute a function with circuit breaker protection
+   */
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    const decision = await withFallback(
+      async (client) => await client.eval(ALLOW_SCRIPT, 1, this.key, this.config.resetTimeout, 1) as [number, string, string, number],
+      () => null,
+    );
+    if (!decision) {
+      return this.fallback.execute(fn);
+    }
+
+    const [allowed, previous, state, retryAfterMs] = decision;
+    logTransition(this.name, previous, state, 0);
+    if (!allowed) {
+      throw new CircuitOpenError(this.name, retryAfterMs);
+    }
+
+    let result: T;
+    try {
+      result = await fn();
+    } catch (error) {
+      await this.record(FAILURE_SCRIPT, this.config.failureThreshold, this.config.failureWindow, this.config.resetTimeout, CIRCUIT_TTL_MS);
+      throw error;
+    }
+    await this.record(SUCCESS_SCRIPT, this.config.successThreshold, this.config.failureWindow, CIRCUIT_TTL_MS);
+    return result;
+  }
+
+  private async record(script: string, ...args: number[]): Promise<void> {
+    const reply = await withFallback(
+      async (client) => await client.eval(script, 2, this.key, this.failuresKey, ...args) as TransitionReply,
+      () => null,
+    );
+    if (reply) {
+      logTransition(this.name, reply[0], reply[1], reply[2]);
+    }
+  }
+
+  private async status(): Promise<{ state: CircuitState; failures: number }> {
+    return withFallback(
+      async (client) => {
+        const [state, failures] = await client.eval(STATUS_SCRIPT, 2, this.key, this.failuresKey, this.config.failureWindow) as [string, number];
+        return { state: state as CircuitState, failures };
+      },
+      () => ({ state: this.fallback.getState(), failures: this.fallback.getFailureCount() }),
+    );
+  }
+
+  async getState(): Promise<CircuitState> {
+    return (await this.status()).state;
+  }
+
+  async getFailureCount(): Promise<number> {
+    return (await this.status()).failures;
+  }
+
+  /**
+   * Check if circuit allows requests (without moving it to half-open)
+   */
+  async isAllowed(): Promise<boolean> {
+    return withFallback(
+      async (client) => {
+        const [allowed] = await client.eval(ALLOW_SCRIPT, 1, this.key, this.config.resetTimeout, 0) as [number];
+        return allowed === 1;
+      },
+      () => this.fallback.isAllowed(),
+    );
+  }
+
+  async reset(): Promise<void> {
+    this.fallback.reset();
+    await withFallback(
+      async (client) => {
+        await client.multi()
+          .hset(this.key, 'state', CircuitState.CLOSED, 'successCount', 0)
+          .pexpire(this.key, CIRCUIT_TTL_MS)
+          .del(this.failuresKey)
+          .exec();
+      },
+      () => undefined,
+    );
+  }
+
+  async trip(): Promise<void> {
+    this.fallback.trip();
+    await withFallback(
+      async (client) => {
+        await client.eval(TRIP_SCRIPT, 1, this.key, CIRCUIT_TTL_MS);
+      },
+      () => undefined,
+    );
+  }
+}
+
 /**
  * Registry of circuit breakers by source
  */
-const circuitBreakers = new Map<string, CircuitBreaker>();
+const circuitBreakers = new Map<string, CircuitBreakerLike>();
 
 /**
  * Get or create a circuit breaker for a source
@@ -219,10 +473,12 @@ const circuitBreakers = new Map<string, CircuitBreaker>();
 export function getCircuitBreaker(
   sourceId: string,
   config?: Partial<CircuitBreakerConfig>,
-): CircuitBreaker {
+): CircuitBreakerLike {
   let breaker = circuitBreakers.get(sourceId);
   if (!breaker) {
-    breaker = new CircuitBreaker(sourceId, config);
+    breaker = isSharedStateEnabled()
+      ? new RedisCircuitBreaker(sourceId, config)
+      : new CircuitBreaker(sourceId, config);
     circuitBreakers.set(sourceId, breaker);
   }
   return breaker;
@@ -230,14 +486,39 @@ export function getCircuitBreaker(
 
 /**
  * Get all circuit breaker states (for monitoring)
+ *
+ * With shared state this lists every circuit in Redis, including ones only
+ * other processes have touched.
  */
-export function getCircuitBreakerStates(): Record<string, { state: CircuitState; failures: number }> {
+export async function getCircuitBreakerStates(): Promise<Record<string, { state: CircuitState; failures: number }>> {
   const states: Record<string, { state: CircuitState; failures: number }> = {};
-  for (const [id, breaker] of circuitBreakers) {
-    states[id] = {
-      state: breaker.getState(),
-      failures: breaker.getFailureCount(),
-    };
+
+  const localStates = async () => {
+    for (const [id, breaker] of circuitBreakers) {
+      states[id] = {
+        state: await breaker.getState(),
+        failures: await breaker.getFailureCount(),
+      };
+    }
+    return states;
+  };
+
+  if (!isSharedStateEnabled()) {
+    return localStates();
   }
-  return states;
+
+  return withFallback(
+    async (client) => {
+      const keys = (await scanKeys(client, `${CIRCUIT_KEY_PREFIX}*`))
+        .filter(key => !key.endsWith(FAILURES_SUFFIX));
+      for (const key of keys) {
+        const [state, failures] = await client.eval(
+          STATUS_SCRIPT, 2, key, `${key}${FAILURES_SUFFIX}`, DEFAULT_CONFIG.failureWindow,
+        ) as [string, number];
+        states[key.slice(CIRCUIT_KEY_PREFIX.length)] = { state: state as CircuitState, failures };
+      }
+      return states;
+    },
+    localStates,
+  );
 }
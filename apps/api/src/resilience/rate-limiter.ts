@@ -1,3 +1,12 @@
+import { randomUUID } from 'crypto';
+import {
+  KEY_PREFIX,
+  isSharedStateEnabled,
+  withFallback,
+  scanKeys,
+  type MaybePromise,
+} from './shared-state.js';
+
 /**
  * Token Bucket Rate Limiter
  *
@@ -18,7 +27,21 @@ const DEFAULT_CONFIG: RateLimiterConfig = {
   refillRate: 2, // 2 requests per second = 120 per minute
 };
 
-export class RateLimiter {
+/**
+ * Common surface of the in-memory and Redis-backed rate limiters
+ */
+export interface RateLimiterLike {
+  tryAcquire(): MaybePromise<boolean>;
+  acquire(): Promise<void>;
+  execute<T>(fn: () => Promise<T>): Promise<T>;
+  getWaitTime(): MaybePromise<number>;
+  getTokens(): MaybePromise<number>;
+  isAllowed(): MaybePromise<boolean>;
+  reset(): MaybePromise<void>;
+  drain(): MaybePromise<void>;
+}
+
+export class RateLimiter implements RateLimiterLike {
   private tokens: number;
   private lastRefill: number;
   private readonly config: RateLimiterConfig;
@@ -133,26 +156,6 @@ function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-/**
- * Registry of rate limiters by source
- */
-const rateLimiters = new Map<string, RateLimiter>();
-
-/**
- * Get or create a rate limiter for a source
- */
-export function getRateLimiter(
-  sourceId: string,
-  config?: Partial<RateLimiterConfig>,
-): RateLimiter {
-  let limiter = rateLimiters.get(sourceId);
-  if (!limiter) {
-    limiter = new RateLimiter(sourceId, config);
-    rateLimiters.set(sourceId, limiter);
-  }
-  return limiter;
-}
-
 /**
  * Create rate limiter config from requests per minute
  */
@@ -168,23 +171,18 @@ export function fromRequestsPerMinute(
 }
 
 /**
- * Get all rate limiter states (for monitoring)
+ * Common surface of the in-memory and Redis-backed concurrency limiters
  */
-export function getRateLimiterStates(): Record<string, { tokens: number; waitTime: number }> {
-  const states: Record<string, { tokens: number; waitTime: number }> = {};
-  for (const [id, limiter] of rateLimiters) {
-    states[id] = {
-      tokens: limiter.getTokens(),
-      waitTime: limiter.getWaitTime(),
-    };
-  }
-  return states;
+export interface ConcurrencyLimiterLike {
+  execute<T>(fn: () => Promise<T>): Promise<T>;
+  getActive(): MaybePromise<number>;
+  getWaiting(): MaybePromise<number>;
 }
 
 /**
  * Global concurrency limiter using semaphore pattern
  */
-export class ConcurrencyLimiter {
+export class ConcurrencyLimiter implements ConcurrencyLimiterLike {
   private active = 0;
   private readonly maxConcurrent: number;
   private readonly queue: Array<() => void> = [];
@@ -234,5 +232,308 @@ export class ConcurrencyLimiter {
   }
 }
 
-// Global concurrency limiter for all sources
-export const globalConcurrencyLimiter = new ConcurrencyLimiter(10);
+const BUCKET_KEY_PREFIX = `${KEY_PREFIX}rl:`;
+const SEMAPHORE_KEY_PREFIX = `${KEY_PREFIX}sem:`;
+
+const LUA_NOW = `
+local t = redis.call('TIME')
+local now = tonumber(t[1]) * 1000 + math.floor(tonumber(t[2]) / 1000)
+`;
+
+/**
+ * Refill the bucket and optionally take a token.
+ * KEYS: bucket hash | ARGV: bucketSize, refillRate, take (1/0), ttl
+ * Returns: { acquired, waitMs, tokens }
+ */
+const BUCKET_SCRIPT = `${LUA_NOW}
+local size = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local tokens = tonumber(redis.call('HGET', KEYS[1], 'tokens') or ARGV[1])
+local last = tonumber(redis.call('HGET', KEYS[1], 'ts') or now)
+tokens = math.min(size, tokens + math.max(0, now - last) / 1000 * rate)
+local acquired = 0
+if ARGV[3] == '1' and tokens >= 1 then
+  tokens = tokens - 1
+  acquired = 1
+end
+local wait = 0
+if tokens < 1 then wait = math.ceil((1 - tokens) / rate * 1000) end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', now, 'size', ARGV[1], 'rate', ARGV[2])
+redis.call('PEXPIRE', KEYS[1], ARGV[4])
+return {acquired, wait, tostring(tokens)}
+`;
+
+/**
+ * Token bucket shared through Redis
+ *
+ * Every process draws from the same bucket, so the configured rate holds for
+ * the whole cluster rather than per replica. Refill uses the Redis server
+ * clock so hosts with skewed clocks agree. Falls back to a per-process
+ * RateLimiter if Redis is unreachable.
+ */
+export class RedisRateLimiter implements RateLimiterLike {
+  private readonly config: RateLimiterConfig;
+  private readonly key: string;
+  private readonly ttlMs: number;
+  private readonly fallback: RateLimiter;
+
+  constructor(name: string, config: Partial<RateLimiterConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.key = `${BUCKET_KEY_PREFIX}${name}`;
+    // Keep the bucket until well after it would have refilled
+    this.ttlMs = Math.ceil((this.config.bucketSize / this.config.refillRate) * 1000) + 60000;
+    this.fallback = new RateLimiter(name, config);
+  }
+
+  private async bucket(take: boolean): Promise<{ acquired: boolean; waitMs: number; tokens: number }> {
+    return withFallback(
+      async (client) => {
+        const [acquired, waitMs, tokens] = await client.eval(
+          BUCKET_SCRIPT, 1, this.key,
+          this.config.bucketSize, this.config.refillRate, take ? 1 : 0, this.ttlMs,
+        ) as [number, number, string];
+        return { acquired: acquired === 1, waitMs, tokens: parseFloat(tokens) };
+      },
+      () => ({
+        acquired: take ? this.fallback.tryAcquire() : false,
+        waitMs: this.fallback.getWaitTime(),
+        tokens: this.fallback.getTokens(),
+      }),
+    );
+  }
+
+  async tryAcquire(): Promise<boolean> {
+    return (await this.bucket(true)).acquired;
+  }
+
+  async acquire(): Promise<void> {
+    for (;;) {
+      const { acquired, waitMs } = await this.bucket(true);
+      if (acquired) return;
+      // Other processes compete for the same refill, so add jitter to avoid lockstep retries
+      await sleep(Math.max(waitMs, 10) + Math.floor(Math.random() * 50));
+    }
+  }
+
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    return fn();
+  }
+
+  async getWaitTime(): Promise<number> {
+    return (await this.bucket(false)).waitMs;
+  }
+
+  async getTokens(): Promise<number> {
+    return (await this.bucket(false)).tokens;
+  }
+
+  async isAllowed(): Promise<boolean> {
+    return (await this.bucket(false)).tokens >= 1;
+  }
+
+  async reset(): Promise<void> {
+    this.fallback.reset();
+    await withFallback(async (client) => { await client.del(this.key); }, () => undefined);
+  }
+
+  async drain(): Promise<void> {
+    this.fallback.drain();
+    await withFallback(
+      async (client) => {
+        await client.eval(
+          `${LUA_NOW}
+redis.call('HSET', KEYS[1], 'tokens', '0', 'ts', now, 'size', ARGV[1], 'rate', ARGV[2])
+redis.call('PEXPIRE', KEYS[1], ARGV[3])`,
+          1, this.key, this.config.bucketSize, this.config.refillRate, this.ttlMs,
+        );
+      },
+      () => undefined,
+    );
+  }
+}
+
+/**
+ * Registry of rate limiters by source
+ */
+const rateLimiters = new Map<string, RateLimiterLike>();
+
+/**
+ * Get or create a rate limiter for a source
+ */
+export function getRateLimiter(
+  sourceId: string,
+  config?: Partial<RateLimiterConfig>,
+): RateLimiterLike {
+  let limiter = rateLimiters.get(sourceId);
+  if (!limiter) {
+    limiter = isSharedStateEnabled()
+      ? new RedisRateLimiter(sourceId, config)
+      : new RateLimiter(sourceId, config);
+    rateLimiters.set(sourceId, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * Get all rate limiter states (for monitoring)
+ *
+ * With shared state this reads every bucket in Redis, including ones only
+ * other processes have used.
+ */
+export async function getRateLimiterStates(): Promise<Record<string, { tokens: number; waitTime: number }>> {
+  const states: Record<string, { tokens: number; waitTime: number }> = {};
+
+  const localStates = async () => {
+    for (const [id, limiter] of rateLimiters) {
+      states[id] = {
+        tokens: await limiter.getTokens(),
+        waitTime: await limiter.getWaitTime(),
+      };
+    }
+    return states;
+  };
+
+  if (!isSharedStateEnabled()) {
+    return localStates();
+  }
+
+  return withFallback(
+    async (client) => {
+      for (const key of await scanKeys(client, `${BUCKET_KEY_PREFIX}*`)) {
+        const bucket = await client.hgetall(key);
+        const size = parseFloat(bucket.size ?? '');
+        const rate = parseFloat(bucket.rate ?? '');
+        if (!Number.isFinite(size) || !Number.isFinite(rate) || rate <= 0) continue;
+
+        // Refill without writing, so monitoring never changes the bucket
+        const [waitTime, tokens] = await client.eval(
+          `${LUA_NOW}
+local t = tonumber(redis.call('HGET', KEYS[1], 'tokens') or ARGV[1])
+local last = tonumber(redis.call('HGET', KEYS[1], 'ts') or now)
+t = math.min(tonumber(ARGV[1]), t + math.max(0, now - last) / 1000 * tonumber(ARGV[2]))
+local wait = 0
+if t < 1 then wait = math.ceil((1 - t) / tonumber(ARGV[2]) * 1000) end
+return {wait, tostring(t)}`,
+          1, key, size, rate,
+        ) as [number, string];
+        states[key.slice(BUCKET_KEY_PREFIX.length)] = { tokens: parseFloat(tokens), waitTime };
+      }
+      return states;
+    },
+    localStates,
+  );
+}
+
+/** How long a slot is held without a heartbeat before it is reclaimed */
+const SEMAPHORE_LEASE_MS = 60000;
+const SEMAPHORE_HEARTBEAT_MS = 20000;
+const SEMAPHORE_POLL_MS = 500;
+
+/**
+ * KEYS: holders zset, waiters zset | ARGV: token, maxConcurrent, leaseMs, waiterLeaseMs
+ * Members are scored by lease expiry, so slots held by crashed processes expire.
+ * Returns 1 if a slot was taken, 0 if the caller was registered as waiting.
+ */
+const SEMAPHORE_ACQUIRE_SCRIPT = `${LUA_NOW}
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now)
+redis.call('ZREMRANGEBYSCORE', KEYS[2], '-inf', now)
+if redis.call('ZCARD', KEYS[1]) < tonumber(ARGV[2]) then
+  redis.call('ZADD', KEYS[1], now + tonumber(ARGV[3]), ARGV[1])
+  redis.call('ZREM', KEYS[2], ARGV[1])
+  return 1
+end
+redis.call('ZADD', KEYS[2], now + tonumber(ARGV[4]), ARGV[1])
+return 0
+`;
+
+/** KEYS: holders zset | ARGV: token, leaseMs */
+const SEMAPHORE_RENEW_SCRIPT = `${LUA_NOW}
+redis.call('ZADD', KEYS[1], 'XX', now + tonumber(ARGV[2]), ARGV[1])
+`;
+
+/** KEYS: holders zset, waiters zset | Returns: { active, waiting } */
+const SEMAPHORE_COUNT_SCRIPT = `${LUA_NOW}
+return {
+  redis.call('ZCOUNT', KEYS[1], '(' .. now, '+inf'),
+  redis.call('ZCOUNT', KEYS[2], '(' .. now, '+inf')
+}
+`;
+
+/**
+ * Cluster-wide semaphore backed by Redis
+ *
+ * Slots are leases renewed by a heartbeat while the work runs, so a crashed
+ * worker's slot frees itself. Falls back to a per-process ConcurrencyLimiter
+ * if Redis is unreachable.
+ */
+export class RedisConcurrencyLimiter implements ConcurrencyLimiterLike {
+  private readonly holdersKey: string;
+  private readonly waitersKey: string;
+  private readonly maxConcurrent: number;
+  private readonly fallback: ConcurrencyLimiter;
+
+  constructor(name: string, maxConcurrent: number) {
+    this.holdersKey = `${SEMAPHORE_KEY_PREFIX}${name}`;
+    this.waitersKey = `${SEMAPHORE_KEY_PREFIX}${name}:waiting`;
+    this.maxConcurrent = maxConcurrent;
+    this.fallback = new ConcurrencyLimiter(maxConcurrent);
+  }
+
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    const token = randomUUID();
+
+    for (;;) {
+      const acquired = await withFallback(
+        async (client) => await client.eval(
+          SEMAPHORE_ACQUIRE_SCRIPT, 2, this.holdersKey, this.waitersKey,
+          token, this.maxConcurrent, SEMAPHORE_LEASE_MS, SEMAPHORE_POLL_MS * 4,
+        ) as number,
+        () => null,
+      );
+      if (acquired === null) {
+        return this.fallback.execute(fn);
+      }
+      if (acquired === 1) break;
+      await sleep(SEMAPHORE_POLL_MS + Math.floor(Math.random() * SEMAPHORE_POLL_MS));
+    }
+
+    const heartbeat = setInterval(() => {
+      void withFallback(
+        async (client) => { await client.eval(SEMAPHORE_RENEW_SCRIPT, 1, this.holdersKey, token, SEMAPHORE_LEASE_MS); },
+        () => undefined,
+      );
+    }, SEMAPHORE_HEARTBEAT_MS);
+    heartbeat.unref();
+
+    try {
+      return await fn();
+    } finally {
+      clearInterval(heartbeat);
+      await withFallback(
+        async (client) => { await client.zrem(this.holdersKey, token); },
+        () => undefined,
+      );
+    }
+  }
+
+  private async counts(): Promise<[number, number]> {
+    return withFallback(
+      async (client) => await client.eval(SEMAPHORE_COUNT_SCRIPT, 2, this.holdersKey, this.waitersKey) as [number, number],
+      () => [this.fallback.getActive(), this.fallback.getWaiting()],
+    );
+  }
+
+  async getActive(): Promise<number> {
+    return (await this.counts())[0];
+  }
+
+  async getWaiting(): Promise<number> {
+    return (await this.counts())[1];
+  }
+}
+
+// Global concurrency limiter for all sources (cluster-wide with shared state)
+export const globalConcurrencyLimiter: ConcurrencyLimiterLike = isSharedStateEnabled()
+  ? new RedisConcurrencyLimiter('global', 10)
+  : new ConcurrencyLimiter(10);
@@ -0,0 +1,81 @@
+import { redis } from '../lib/redis.js';
+import { config } from '../config/index.js';
+
+/**
+ * Shared state for resilience primitives
+ *
+ * Circuit breakers, rate limiters and the concurrency limiter keep their state
+ * in Redis so every API replica and BullMQ worker sees the same buckets and
+ * circuits. Each Redis-backed primitive wraps an in-memory twin and falls back
+ * to it when Redis is unreachable, so ingestion degrades to per-process limits
+ * instead of stalling.
+ */
+
+export type MaybePromise<T> = T | Promise<T>;
+
+export const KEY_PREFIX = 'resilience:';
+
+/** True when the Redis-backed implementations are in use */
+export function isSharedStateEnabled(): boolean {
+  return config.RESILIENCE_BACKEND === 'redis';
+}
+
+let client: typeof redis | null = null;
+
+/**
+ * Dedicated connection that fails fast: the shared client queues commands
+ * indefinitely while disconnected (BullMQ requires that), which would hang
+ * every guarded call instead of letting it fall back.
+ */
+export function getSharedRedis(): typeof redis {
+  if (!client) {
+    client = redis.duplicate({
+      maxRetriesPerRequest: 1,
+      enableOfflineQueue: false,
+      connectTimeout: 2000,
+    });
+    client.on('error', () => {
+      // Reported by the fallback warning; the primary client logs connection errors
+    });
+  }
+  return client;
+}
+
+let fallbackWarnedAt = 0;
+const FALLBACK_WARN_INTERVAL_MS = 60000;
+
+/**
+ * Run a Redis operation, falling back to the in-memory path if it fails
+ */
+export async function withFallback<T>(
+  operation: (client: typeof redis) => Promise<T>,
+  fallback: () => MaybePromise<T>,
+): Promise<T> {
+  try {
+    return await operation(getSharedRedis());
+  } catch (error) {
+    const now = Date.now();
+    if (now - fallbackWarnedAt >= FALLBACK_WARN_INTERVAL_MS) {
+      fallbackWarnedAt = now;
+      console.warn(
+        '[Resilience] Redis unavailable, using per-process state:',
+        error instanceof Error ? error.message : error,
+      );
+    }
+    return fallback();
+  }
+}
+
+/**
+ * List keys under a prefix without blocking Redis
+ */
+export async function scanKeys(client: typeof redis, pattern: string): Promise<string[]> {
+  const keys: string[] = [];
+  let cursor = '0';
+  do {
+    const [next, batch] = await client.scan(cursor, 'MATCH', pattern, 'COUNT', 200);
+    cursor = next;
+    keys.push(...batch);
+  } while (cursor !== '0');
+  return keys;
+}
@@ -1,28 +1,46 @@
 import { buildApp } from './app.js';
 import { config } from './config/index.js';
 import { initializeQueues, shutdownQueues } from './queue/scheduler.js';
+import { initializeLinkHealthQueue, shutdownLinkHealthQueue } from './queue/link-health.js';
+import { initializeTranscodeQueue, shutdownTranscodeQueue } from './queue/transcode.js';
+import { startViewFlusher, stopViewFlusher } from './lib/view-counter.js';
+import { startMediaHostRefresh, stopMediaHostRefresh } from './core/media-hosts.js';
+import { closeIngestEvents } from './lib/ingest-events.js';
 
 async function main() {
   const app = await buildApp();
 
+  // Load the media host allowlist before anything fetches media
+  await startMediaHostRefresh();
+
   // Initialize job queues (optional - can be disabled for development)
   const enableQueues = process.env.ENABLE_QUEUES !== 'false';
   if (enableQueues) {
     try {
       await initializeQueues();
+      await initializeLinkHealthQueue();
+      await initializeTranscodeQueue();
       console.log('📋 Job queues initialized');
     } catch (err) {
       console.warn('⚠️  Failed to initialize queues (Redis may not be available):', err);
     }
   }
 
+  // Flush buffered view counts to Postgres periodically
+  startViewFlusher();
+
   // Graceful shutdown
   const shutdown = async (signal: string) => {
     console.log(`\n${signal} received, shutting down gracefully...`);
 
     try {
       await shutdownQueues();
+      await shutdownLinkHealthQueue();
+      await shutdownTranscodeQueue();
+      await stopViewFlusher();
+      stopMediaHostRefresh();
       await app.close();
+      closeIngestEvents();
       console.log('Server shut down successfully');
       process.exit(0);
     } catch (err) {
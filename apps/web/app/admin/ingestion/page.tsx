@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 
 interface Source {
@@ -24,6 +24,30 @@ interface Thread {
   priority: number;
   lastScannedAt: string | null;
   itemsIngested: number;
+  pollIntervalMs: number | null;
+  minPollIntervalMs: number | null;
+  maxPollIntervalMs: number | null;
+  nextRunAt: string | null;
+  backfill: Backfill | null;
+}
+
+interface Backfill {
+  id: string;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  from: string | null;
+  to: string | null;
+  maxPages: number | null;
+  totalPages: number | null;
+  nextPage: number | null;
+  pagesScanned: number;
+  itemsFound: number;
+  itemsNew: number;
+  itemsDuplicate: number;
+  itemsFailed: number;
+  startedAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+  error: string | null;
 }
 
 interface IngestionStats {
@@ -42,6 +66,7 @@ interface IngestRun {
   sourceId: string;
   threadId: string | null;
   status: 'running' | 'completed' | 'failed' | 'partial';
+  kind: 'poll' | 'backfill';
   itemsFound: number;
   itemsNew: number;
   itemsFailed: number;
@@ -50,6 +75,66 @@ interface IngestRun {
   errorSummary: string | null;
 }
 
+// Live events from GET /admin/ingestion/events
+type IngestEvent = { at: string } & (
+  | { type: 'run_started'; runId: string; sourceId: string; threadId: string; externalId: string; kind: 'poll' | 'backfill' }
+  | { type: 'page_fetched'; runId: string; threadId: string; page: number; pagesScanned: number; maxPages: number; itemsOnPage: number }
+  | {
+      type: 'items_committed';
+      runId: string;
+      threadId: string;
+      processed: number;
+      total: number;
+      itemsNew: number;
+      itemsDuplicate: number;
+      itemsFailed: number;
+    }
+  | { type: 'catchup_saved'; threadId: string; page: number; itemsIngested: number; reason: string }
+  | {
+      type: 'run_finished';
+      runId: string;
+      status: string;
+      pagesScanned: number;
+      itemsFound: number;
+      itemsNew: number;
+      itemsDuplicate: number;
+      itemsFailed: number;
+      error: string | null;
+    }
+  | { type: 'circuit_state'; sourceId: string; from: string; to: string; failures: number }
+);
+
+interface LiveRun {
+  runId: string;
+  threadId: string | null;
+  externalId: string | null;
+  kind: 'poll' | 'backfill';
+  status: string;
+  pagesScanned: number;
+  maxPages: number;
+  itemsFound: number;
+  // Committed in earlier batches, plus the batch in progress
+  itemsNew: number;
+  itemsDuplicate: number;
+  itemsFailed: number;
+  batch: { processed: number; total: number; itemsNew: number; itemsDuplicate: number; itemsFailed: number } | null;
+  updatedAt: string;
+}
+
+interface RunFailure {
+  externalId: string;
+  stage: 'dedup' | 'hash' | 'insert' | 'assets';
+  error: string;
+  failedAt: string;
+  item: Record<string, unknown>;
+}
+
+interface RunFailures {
+  failures: RunFailure[];
+  retries: number;
+  lastRetryAt: string | null;
+}
+
 interface RunMediaItem {
   id: string;
   externalItemId: string;
@@ -63,6 +148,38 @@ interface RunMediaItem {
   isHidden: boolean;
 }
 
+interface PreviewItem {
+  externalId: string;
+  permalink: string;
+  postedAt: string;
+  author: string;
+  title?: string;
+  caption?: string;
+  mediaType: 'image' | 'gif' | 'video';
+  mediaUrl: string;
+  thumbnailUrl?: string;
+  tags?: string[];
+  assets?: unknown[];
+}
+
+interface PreviewResult {
+  adapter: string | null;
+  validation: { valid: boolean; error?: string } | null;
+  pageInfo: { latestPage: number; totalPages?: number } | null;
+  page: { pageNumber: number; hasMorePages: boolean; totalItems?: number } | null;
+  items: PreviewItem[];
+  diagnostics: {
+    containersMatched: number;
+    itemsMatched: number;
+    itemsParsed: number;
+    dropped: Record<string, number>;
+    fieldMisses: Record<string, number>;
+    paginationMisses: string[];
+  } | null;
+  errors: { stage: string; message: string }[];
+  durationMs: number;
+}
+
 async function fetchRunMedia(runId: string): Promise<RunMediaItem[]> {
   const apiBase = process.env.NEXT_PUBLIC_API_URL || '/api/v1';
   const res = await fetch(`${apiBase}/admin/ingestion/runs/${runId}/media`, {
@@ -73,6 +190,28 @@ async function fetchRunMedia(runId: string): Promise<RunMediaItem[]> {
   return data.items;
 }
 
+async function fetchRunFailures(runId: string): Promise<RunFailures> {
+  const apiBase = process.env.NEXT_PUBLIC_API_URL || '/api/v1';
+  const res = await fetch(`${apiBase}/admin/ingestion/runs/${runId}/failures`, {
+    credentials: 'include',
+  });
+  if (!res.ok) throw new Error('Failed to fetch run failures');
+  return res.json();
+}
+
+async function retryRunFailures(runId: string): Promise<{ queued: number }> {
+  const apiBase = process.env.NEXT_PUBLIC_API_URL || '/api/v1';
+  const res = await fetch(`${apiBase}/admin/ingestion/runs/${runId}/retry`, {
+    method: 'POST',
+    credentials: 'include',
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.message || 'Failed to retry failed items');
+  }
+  return res.json();
+}
+
 async function deleteMediaItem(id: string): Promise<void> {
   const apiBase = process.env.NEXT_PUBLIC_API_URL || '/api/v1';
   const res = await fetch(`${apiBase}/admin/media/${id}`, {
@@ -148,6 +287,7 @@ async function fetchIngestionStatus(): Promise<{
       thread?: string;
       threadId?: string;
       status: string;
+      kind?: string;
       itemsFound?: number;
       itemsNew?: number;
       itemsFailed?: number;
@@ -159,6 +299,7 @@ async function fetchIngestionStatus(): Promise<{
       sourceId: r.source ?? '',
       threadId: r.threadId ?? null,
       status: r.status as 'running' | 'completed' | 'failed' | 'partial',
+      kind: r.kind === 'backfill' ? 'backfill' : 'poll',
       itemsFound: r.itemsFound ?? 0,
       itemsNew: r.itemsNew ?? 0,
       itemsFailed: r.itemsFailed ?? 0,
@@ -190,6 +331,11 @@ async function fetchSourceThreads(sourceId: string): Promise<Thread[]> {
     url: string;
     enabled: boolean;
     priority: number;
+    pollIntervalMs: number | null;
+    minPollIntervalMs: number | null;
+    maxPollIntervalMs: number | null;
+    nextRunAt: string | null;
+    backfill: Backfill | null;
     checkpoint?: { lastRunAt?: string };
   }) => ({
     id: t.id,
@@ -200,9 +346,230 @@ async function fetchSourceThreads(sourceId: string): Promise<Thread[]> {
     priority: t.priority,
     lastScannedAt: t.checkpoint?.lastRunAt ?? null,
     itemsIngested: 0, // Not available from this endpoint
+    pollIntervalMs: t.pollIntervalMs,
+    minPollIntervalMs: t.minPollIntervalMs,
+    maxPollIntervalMs: t.maxPollIntervalMs,
+    nextRunAt: t.nextRunAt,
+    backfill: t.backfill ?? null,
   }));
 }
 
+async function updateThreadSchedule(threadId: string, data: {
+  minPollIntervalMs: number | null;
+  maxPollIntervalMs: number | null;
+}) {
+  const response = await fetch(
+    `${process.env.NEXT_PUBLIC_API_URL || '/api/v1'}/admin/ingestion/threads/${threadId}`,
+    {
+      method: 'PATCH',
+      credentials: 'include',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(data),
+    }
+  );
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.message || 'Failed to update thread schedule');
+  }
+
+  return response.json();
+}
+
+async function backfillAction(threadId: string, action: 'start' | 'resume' | 'cancel', data?: {
+  from?: string;
+  to?: string;
+  pages?: number;
+}) {
+  const path = action === 'start' ? 'backfill' : `backfill/${action}`;
+  const response = await fetch(
+    `${process.env.NEXT_PUBLIC_API_URL || '/api/v1'}/admin/ingestion/threads/${threadId}/${path}`,
+    {
+      method: 'POST',
+      credentials: 'include',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(data ?? {}),
+    }
+  );
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.message || `Failed to ${action} backfill`);
+  }
+
+  return response.json();
+}
+
+function formatInterval(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours}h ${rest}m` : `${hours}h`;
+}
+
+function formatNextRun(nextRunAt: string | null): string {
+  if (!nextRunAt) return 'due now';
+  const diffMs = new Date(nextRunAt).getTime() - Date.now();
+  if (diffMs <= 0) return 'due now';
+  return `in ${formatInterval(Math.max(diffMs, 60000))}`;
+}
+
+// Lines kept in the event log tail
+const EVENT_LOG_SIZE = 50;
+// Finished runs stay on screen this long
+const FINISHED_RUN_DISPLAY_MS = 15000;
+// Runs that went quiet this long are assumed dead (worker restarted)
+const STALE_RUN_MS = 10 * 60 * 1000;
+
+function applyIngestEvent(runs: Record<string, LiveRun>, event: IngestEvent): Record<string, LiveRun> {
+  if (event.type === 'catchup_saved' || event.type === 'circuit_state') return runs;
+
+  const run: LiveRun = runs[event.runId] ?? {
+    runId: event.runId,
+    threadId: 'threadId' in event ? event.threadId : null,
+    externalId: null,
+    kind: 'poll',
+    status: 'running',
+    pagesScanned: 0,
+    maxPages: 0,
+    itemsFound: 0,
+    itemsNew: 0,
+    itemsDuplicate: 0,
+    itemsFailed: 0,
+    batch: null,
+    updatedAt: event.at,
+  };
+  const next: LiveRun = { ...run, updatedAt: event.at };
+
+  switch (event.type) {
+    case 'run_started':
+      next.externalId = event.externalId;
+      next.kind = event.kind;
+      break;
+    case 'page_fetched':
+      next.pagesScanned = event.pagesScanned;
+      next.maxPages = event.maxPages;
+      next.itemsFound += event.itemsOnPage;
+      break;
+    case 'items_committed':
+      if (event.processed >= event.total) {
+        next.itemsNew += event.itemsNew;
+        next.itemsDuplicate += event.itemsDuplicate;
+        next.itemsFailed += event.itemsFailed;
+        next.batch = null;
+      } else {
+        next.batch = event;
+      }
+      break;
+    case 'run_finished':
+      Object.assign(next, {
+        status: event.status,
+        pagesScanned: event.pagesScanned,
+        itemsFound: event.itemsFound,
+        itemsNew: event.itemsNew,
+        itemsDuplicate: event.itemsDuplicate,
+        itemsFailed: event.itemsFailed,
+        batch: null,
+      });
+      break;
+  }
+
+  return { ...runs, [event.runId]: next };
+}
+
+// Subscribe to live ingestion events: progress of running scans and a tail of the event log
+function useIngestEvents(onRunFinished: () => void) {
+  const [runs, setRuns] = useState<Record<string, LiveRun>>({});
+  const [log, setLog] = useState<IngestEvent[]>([]);
+  const [connected, setConnected] = useState(false);
+  const onRunFinishedRef = useRef(onRunFinished);
+  onRunFinishedRef.current = onRunFinished;
+
+  useEffect(() => {
+    const source = new EventSource(
+      `${process.env.NEXT_PUBLIC_API_URL || '/api/v1'}/admin/ingestion/events`,
+      { withCredentials: true }
+    );
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+
+    source.onopen = () => {
+      setConnected(true);
+      // The stream replays recent events on every (re)connect
+      setRuns({});
+      setLog([]);
+    };
+    source.onerror = () => setConnected(false);
+    source.onmessage = (message) => {
+      let event: IngestEvent;
+      try {
+        event = JSON.parse(message.data);
+      } catch {
+        return;
+      }
+
+      setRuns((current) => applyIngestEvent(current, event));
+      // Per-item progress only moves the bars
+      if (event.type !== 'items_committed' || event.processed >= event.total) {
+        setLog((current) => [...current, event].slice(-EVENT_LOG_SIZE));
+      }
+
+      if (event.type === 'run_finished') {
+        const timer = setTimeout(() => {
+          timers.delete(timer);
+          setRuns(({ [event.runId]: _finished, ...rest }) => rest);
+        }, Math.max(0, FINISHED_RUN_DISPLAY_MS - (Date.now() - new Date(event.at).getTime())));
+        timers.add(timer);
+        // Replayed history is already reflected in the queries
+        if (Date.now() - new Date(event.at).getTime() < FINISHED_RUN_DISPLAY_MS) {
+          onRunFinishedRef.current();
+        }
+      }
+    };
+
+    return () => {
+      source.close();
+      timers.forEach(clearTimeout);
+    };
+  }, []);
+
+  const liveRuns = Object.values(runs).filter(
+    (run) => Date.now() - new Date(run.updatedAt).getTime() < STALE_RUN_MS
+  );
+
+  return { liveRuns, log, connected, runs };
+}
+
+function describeIngestEvent(event: IngestEvent, runs: Record<string, LiveRun>, sources: Source[]): string {
+  const thread = 'runId' in event
+    ? runs[event.runId]?.externalId
+    : 'threadId' in event
+      ? Object.values(runs).find((run) => run.threadId === event.threadId)?.externalId
+      : null;
+  const prefix = thread ? `${thread}: ` : '';
+
+  switch (event.type) {
+    case 'run_started':
+      return `${event.externalId}: ${event.kind} run started`;
+    case 'page_fetched':
+      return `${prefix}page ${event.page} fetched, ${event.itemsOnPage} items`;
+    case 'items_committed':
+      return `${prefix}committed ${event.total} items (+${event.itemsNew}, ${event.itemsDuplicate} duplicate, ${event.itemsFailed} failed)`;
+    case 'catchup_saved':
+      return `${prefix}catch-up cursor saved at page ${event.page} (${event.reason.replace('_', ' ')})`;
+    case 'run_finished':
+      return `${prefix}run ${event.status}, +${event.itemsNew} new${event.error ? ` — ${event.error}` : ''}`;
+    case 'circuit_state': {
+      const source = sources.find((s) => s.id === event.sourceId);
+      return `circuit for ${source?.name ?? event.sourceId} ${event.from} → ${event.to}`;
+    }
+  }
+}
+
 async function triggerIngestion(_sourceId: string, threadId?: string) {
   const apiBase = process.env.NEXT_PUBLIC_API_URL || '/api/v1';
 
@@ -248,7 +615,8 @@ async function createSource(data: {
   baseUrl: string;
   mode: string;
   rateLimitRequests: number;
-  scraperConfig?: ScraperConfig;
+  scraperConfig?: ScraperConfig | JsonScraperConfig;
+  mediaHosts: string[];
 }) {
   const response = await fetch(
     `${process.env.NEXT_PUBLIC_API_URL || '/api/v1'}/admin/ingestion/sources`,
@@ -265,7 +633,9 @@ async function createSource(data: {
         rateLimitConfig: {
           requestsPerMinute: data.rateLimitRequests,
         },
-        scraperConfig: data.scraperConfig,
+        scraperConfig: data.mediaHosts.length > 0
+          ? { ...data.scraperConfig, mediaHosts: data.mediaHosts }
+          : data.scraperConfig,
         enabled: true,
       }),
     }
@@ -278,12 +648,49 @@ async function createSource(data: {
   return response.json();
 }
 
+async function previewSource(data: {
+  mode: string;
+  baseUrl?: string;
+  threadUrl: string;
+  rateLimitRequests: number;
+  scraperConfig?: ScraperConfig | JsonScraperConfig;
+}): Promise<PreviewResult> {
+  const response = await fetch(
+    `${process.env.NEXT_PUBLIC_API_URL || '/api/v1'}/admin/ingestion/preview`,
+    {
+      method: 'POST',
+      credentials: 'include',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        mode: data.mode,
+        baseUrl: data.baseUrl || undefined,
+        threadUrl: data.threadUrl,
+        rateLimitConfig: {
+          requestsPerMinute: data.rateLimitRequests,
+        },
+        scraperConfig: data.scraperConfig,
+      }),
+    }
+  );
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.message || 'Failed to run preview');
+  }
+
+  return response.json();
+}
+
 async function createThread(data: {
   sourceId: string;
   externalId: string;
   url: string;
   displayName?: string;
   priority?: number;
+  minPollIntervalMs?: number | null;
+  maxPollIntervalMs?: number | null;
 }) {
   const response = await fetch(
     `${process.env.NEXT_PUBLIC_API_URL || '/api/v1'}/admin/ingestion/threads`,
@@ -299,6 +706,8 @@ async function createThread(data: {
         url: data.url,
         displayName: data.displayName,
         priority: data.priority ?? 0,
+        minPollIntervalMs: data.minPollIntervalMs,
+        maxPollIntervalMs: data.maxPollIntervalMs,
         enabled: true,
       }),
     }
@@ -317,6 +726,8 @@ export default function IngestionPage() {
   const [showAddSource, setShowAddSource] = useState(false);
   const [showAddThread, setShowAddThread] = useState(false);
   const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+  const [editingScheduleId, setEditingScheduleId] = useState<string | null>(null);
+  const [editingBackfillId, setEditingBackfillId] = useState<string | null>(null);
 
   const { data, isLoading, isError } = useQuery({
     queryKey: ['admin', 'ingestion', 'status'],
@@ -328,10 +739,17 @@ export default function IngestionPage() {
     queryKey: ['admin', 'ingestion', 'threads', selectedSource?.id],
     queryFn: () => (selectedSource ? fetchSourceThreads(selectedSource.id) : Promise.resolve([])),
     enabled: !!selectedSource,
+    // Keep next-run times current, and backfill progress while one runs
+    refetchInterval: (query) =>
+      query.state.data?.some((t) => t.backfill?.status === 'running') ? 5000 : 30000,
   });
 
   const [triggerStatus, setTriggerStatus] = useState<string | null>(null);
 
+  const { liveRuns, log: eventLog, connected: eventsConnected, runs: eventRuns } = useIngestEvents(() => {
+    queryClient.invalidateQueries({ queryKey: ['admin', 'ingestion'] });
+  });
+
   const triggerMutation = useMutation({
     mutationFn: ({ sourceId, threadId }: { sourceId: string; threadId?: string }) =>
       triggerIngestion(sourceId, threadId),
@@ -371,12 +789,56 @@ export default function IngestionPage() {
     },
   });
 
+  const scheduleMutation = useMutation({
+    mutationFn: ({ threadId, ...data }: { threadId: string; minPollIntervalMs: number | null; maxPollIntervalMs: number | null }) =>
+      updateThreadSchedule(threadId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'ingestion', 'threads'] });
+      setEditingScheduleId(null);
+    },
+  });
+
+  const backfillMutation = useMutation({
+    mutationFn: ({ threadId, action, ...data }: {
+      threadId: string;
+      action: 'start' | 'resume' | 'cancel';
+      from?: string;
+      to?: string;
+      pages?: number;
+    }) => backfillAction(threadId, action, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'ingestion'] });
+      setEditingBackfillId(null);
+    },
+  });
+
   const { data: runMedia, isLoading: runMediaLoading } = useQuery({
     queryKey: ['admin', 'ingestion', 'run-media', expandedRunId],
     queryFn: () => fetchRunMedia(expandedRunId!),
     enabled: !!expandedRunId,
   });
 
+  const expandedRun = data?.recentRuns.find((run) => run.id === expandedRunId);
+
+  const { data: runFailures } = useQuery({
+    queryKey: ['admin', 'ingestion', 'run-failures', expandedRunId],
+    queryFn: () => fetchRunFailures(expandedRunId!),
+    enabled: !!expandedRun && expandedRun.itemsFailed > 0,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: retryRunFailures,
+    onSuccess: (result) => {
+      setTriggerStatus(`Retry queued for ${result.queued} failed item${result.queued === 1 ? '' : 's'}`);
+      setTimeout(() => setTriggerStatus(null), 3000);
+      queryClient.invalidateQueries({ queryKey: ['admin', 'ingestion'] });
+    },
+    onError: (error) => {
+      setTriggerStatus(`Error: ${error.message}`);
+      setTimeout(() => setTriggerStatus(null), 5000);
+    },
+  });
+
   const deleteMediaMutation = useMutation({
     mutationFn: deleteMediaItem,
     onSuccess: () => {
@@ -568,25 +1030,84 @@ export default function IngestionPage() {
               <div className="p-8 text-center text-caption">No threads configured</div>
             ) : (
               threads?.map((thread) => (
-                <div key={thread.id} className="p-4 flex items-center gap-4">
-                  <div
-                    className={`w-2 h-2 rounded-full ${
-                      thread.enabled ? 'bg-green-400' : 'bg-[var(--muted)]'
-                    }`}
-                  />
-                  <div className="flex-1 min-w-0">
-                    <p className="text-sm truncate">{thread.url}</p>
-                    <p className="text-xs text-[var(--muted)]">
-                      {thread.itemsIngested.toLocaleString()} items ingested
-                    </p>
+                <div key={thread.id} className="p-4 space-y-3">
+                  <div className="flex items-center gap-4">
+                    <div
+                      className={`w-2 h-2 rounded-full ${
+                        thread.enabled ? 'bg-green-400' : 'bg-[var(--muted)]'
+                      }`}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm truncate">{thread.url}</p>
+                      <p className="text-xs text-[var(--muted)]">
+                        {thread.itemsIngested.toLocaleString()} items ingested
+                        {thread.enabled && (
+                          <>
+                            {' · '}
+                            <span title={thread.nextRunAt ? new Date(thread.nextRunAt).toLocaleString() : undefined}>
+                              next run {formatNextRun(thread.nextRunAt)}
+                            </span>
+                            {thread.pollIntervalMs != null && ` · every ${formatInterval(thread.pollIntervalMs)}`}
+                          </>
+                        )}
+                        {(thread.minPollIntervalMs != null || thread.maxPollIntervalMs != null) && (
+                          <span>
+                            {' · '}
+                            bounds {thread.minPollIntervalMs != null ? formatInterval(thread.minPollIntervalMs) : 'default'}
+                            {' – '}
+                            {thread.maxPollIntervalMs != null ? formatInterval(thread.maxPollIntervalMs) : 'default'}
+                          </span>
+                        )}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => setEditingScheduleId(editingScheduleId === thread.id ? null : thread.id)}
+                      className="px-3 py-1 text-xs border border-[var(--border)] hover:border-[var(--fg)] transition-colors"
+                    >
+                      Schedule
+                    </button>
+                    <button
+                      onClick={() => setEditingBackfillId(editingBackfillId === thread.id ? null : thread.id)}
+                      disabled={thread.backfill?.status === 'running'}
+                      className="px-3 py-1 text-xs border border-[var(--border)] hover:border-[var(--fg)] transition-colors disabled:opacity-50"
+                    >
+                      Backfill
+                    </button>
+                    <button
+                      onClick={() => triggerMutation.mutate({ sourceId: selectedSource.id, threadId: thread.id })}
+                      disabled={triggerMutation.isPending || !thread.enabled}
+                      className="px-3 py-1 text-xs border border-[var(--border)] hover:border-[var(--fg)] transition-colors disabled:opacity-50"
+                    >
+                      Run
+                    </button>
                   </div>
-                  <button
-                    onClick={() => triggerMutation.mutate({ sourceId: selectedSource.id, threadId: thread.id })}
-                    disabled={triggerMutation.isPending || !thread.enabled}
-                    className="px-3 py-1 text-xs border border-[var(--border)] hover:border-[var(--fg)] transition-colors disabled:opacity-50"
-                  >
-                    Run
-                  </button>
+                  {editingScheduleId === thread.id && (
+                    <ThreadScheduleEditor
+                      thread={thread}
+                      onCancel={() => setEditingScheduleId(null)}
+                      onSave={(data) => scheduleMutation.mutate({ threadId: thread.id, ...data })}
+                      isLoading={scheduleMutation.isPending}
+                      error={scheduleMutation.error}
+                    />
+                  )}
+                  {editingBackfillId === thread.id && (
+                    <ThreadBackfillEditor
+                      thread={thread}
+                      onCancel={() => setEditingBackfillId(null)}
+                      onStart={(data) => backfillMutation.mutate({ threadId: thread.id, action: 'start', ...data })}
+                      isLoading={backfillMutation.isPending}
+                      error={backfillMutation.variables?.threadId === thread.id ? backfillMutation.error : null}
+                    />
+                  )}
+                  {thread.backfill && (
+                    <BackfillProgress
+                      backfill={thread.backfill}
+                      statusColor={getStatusColor(thread.backfill.status)}
+                      onCancel={() => backfillMutation.mutate({ threadId: thread.id, action: 'cancel' })}
+                      onResume={() => backfillMutation.mutate({ threadId: thread.id, action: 'resume' })}
+                      isLoading={backfillMutation.isPending}
+                    />
+                  )}
                 </div>
               ))
             )}
@@ -594,6 +1115,46 @@ export default function IngestionPage() {
         </div>
       )}
 
+      {/* Live runs */}
+      <div className="border border-[var(--border)]">
+        <div className="px-4 py-3 border-b border-[var(--border)] flex items-center justify-between">
+          <h2 className="text-sm font-medium">Live Runs</h2>
+          <span className={`text-xs ${eventsConnected ? 'text-green-400' : 'text-[var(--muted)]'}`}>
+            {eventsConnected ? 'live' : 'connecting...'}
+          </span>
+        </div>
+        {liveRuns.length === 0 ? (
+          <div className="p-8 text-center text-caption">No runs in progress</div>
+        ) : (
+          <div className="divide-y divide-[var(--border)]">
+            {liveRuns.map((run) => (
+              <LiveRunProgress
+                key={run.runId}
+                run={run}
+                statusColor={getStatusColor(run.status === 'complete' || run.status === 'caught_up' ? 'completed' : run.status)}
+              />
+            ))}
+          </div>
+        )}
+        {eventLog.length > 0 && (
+          <div className="px-4 py-3 border-t border-[var(--border)] max-h-48 overflow-y-auto font-mono text-xs space-y-0.5">
+            {eventLog.map((event, i) => (
+              <p
+                key={`${event.at}-${i}`}
+                className={
+                  event.type === 'circuit_state' || (event.type === 'run_finished' && event.status === 'failed')
+                    ? 'text-red-400'
+                    : 'text-[var(--muted)]'
+                }
+              >
+                <span className="opacity-60">{new Date(event.at).toLocaleTimeString()}</span>{' '}
+                {describeIngestEvent(event, eventRuns, data?.sources ?? [])}
+              </p>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Recent runs */}
       <div className="border border-[var(--border)]">
         <div className="px-4 py-3 border-b border-[var(--border)]">
@@ -631,6 +1192,11 @@ export default function IngestionPage() {
                   <span className={`text-xs font-medium ${getStatusColor(run.status)}`}>
                     {run.status}
                   </span>
+                  {run.kind === 'backfill' && (
+                    <span className="px-1.5 py-0.5 text-[10px] border border-[var(--border)] text-[var(--muted)]">
+                      backfill
+                    </span>
+                  )}
                   <div className="flex-1 min-w-0">
                     <p className="text-xs text-[var(--muted)]">
                       {new Date(run.startedAt).toLocaleString()}
@@ -706,6 +1272,13 @@ export default function IngestionPage() {
                         ))}
                       </div>
                     )}
+                    {run.itemsFailed > 0 && runFailures && (
+                      <RunFailureList
+                        failures={runFailures}
+                        onRetry={() => retryMutation.mutate(run.id)}
+                        isRetrying={retryMutation.isPending}
+                      />
+                    )}
                   </div>
                 )}
               </div>
@@ -764,6 +1337,54 @@ interface ScraperConfig {
   newestFirst?: boolean;
 }
 
+// JSON API config type (generic-json adapter, JSONPath-style field mappings)
+interface JsonScraperConfig {
+  endpoint: string;
+  fields: {
+    items: string;
+    id: string;
+    mediaUrl: string;
+    postedAt: string;
+    author?: string;
+    title?: string;
+    thumbnailUrl?: string;
+    tags?: string;
+  };
+  pagination: {
+    strategy: 'page' | 'offset' | 'cursor' | 'none';
+    param?: string;
+    pageSize?: number;
+    pageSizeParam?: string;
+    nextCursor?: string;
+  };
+  auth?: {
+    type: 'bearer';
+    token?: string;
+    tokenUrl?: string;
+    tokenPath?: string;
+  };
+  permalinkTemplate?: string;
+  newestFirst?: boolean;
+}
+
+const JSON_FIELD_INPUTS: { key: keyof JsonScraperConfig['fields']; label: string; placeholder: string }[] = [
+  { key: 'items', label: 'Items Array *', placeholder: '$.data.posts' },
+  { key: 'id', label: 'ID *', placeholder: 'id' },
+  { key: 'mediaUrl', label: 'Media URL *', placeholder: 'media.url' },
+  { key: 'postedAt', label: 'Timestamp *', placeholder: 'created_at' },
+  { key: 'author', label: 'Author', placeholder: 'user.name' },
+  { key: 'title', label: 'Title', placeholder: 'title' },
+  { key: 'thumbnailUrl', label: 'Thumbnail URL', placeholder: 'media.thumbnail' },
+  { key: 'tags', label: 'Tags', placeholder: 'tags[*].name' },
+];
+
+// Drop empty strings so optional mappings are omitted rather than sent blank
+function compact<T extends Record<string, unknown>>(obj: T): T {
+  return Object.fromEntries(
+    Object.entries(obj).filter(([, v]) => v !== '' && v !== undefined),
+  ) as T;
+}
+
 // Add Source Modal Component
 function AddSourceModal({
   onClose,
@@ -777,7 +1398,8 @@ function AddSourceModal({
     baseUrl: string;
     mode: string;
     rateLimitRequests: number;
-    scraperConfig?: ScraperConfig;
+    scraperConfig?: ScraperConfig | JsonScraperConfig;
+    mediaHosts: string[];
   }) => void;
   isLoading: boolean;
   error: Error | null;
@@ -789,6 +1411,7 @@ function AddSourceModal({
     rateLimitRequests: 30,
   });
 
+  const [mediaHostsInput, setMediaHostsInput] = useState('');
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [scraperConfig, setScraperConfig] = useState<ScraperConfig>({
     selectors: {
@@ -807,14 +1430,64 @@ function AddSourceModal({
     },
     newestFirst: true,
   });
+  const [jsonConfig, setJsonConfig] = useState<JsonScraperConfig>({
+    endpoint: '',
+    fields: {
+      items: '',
+      id: '',
+      mediaUrl: '',
+      postedAt: '',
+    },
+    pagination: {
+      strategy: 'page',
+      param: 'page',
+    },
+    permalinkTemplate: '',
+    newestFirst: true,
+  });
+  const [authMode, setAuthMode] = useState<'none' | 'static' | 'endpoint'>('none');
+  const [authValue, setAuthValue] = useState('');
+  const [tokenPath, setTokenPath] = useState('token');
+
+  const isJson = formData.mode === 'generic-json';
+  const isFeed = formData.mode === 'feed';
+
+  const buildJsonConfig = (): JsonScraperConfig => ({
+    ...jsonConfig,
+    fields: compact(jsonConfig.fields),
+    pagination: compact(jsonConfig.pagination),
+    permalinkTemplate: jsonConfig.permalinkTemplate || undefined,
+    auth: authMode === 'static'
+      ? { type: 'bearer', token: authValue }
+      : authMode === 'endpoint'
+        ? { type: 'bearer', tokenUrl: authValue, tokenPath: tokenPath || undefined }
+        : undefined,
+  });
+
+  // Config as it would be saved, shared by submit and the live preview
+  const draftConfig = isJson
+    ? buildJsonConfig()
+    : isFeed || !(scraperConfig.selectors.itemContainer && scraperConfig.selectors.item)
+      ? undefined
+      : scraperConfig;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    const mediaHosts = mediaHostsInput.split(/[\s,]+/).filter(Boolean);
+    if (isJson) {
+      onSubmit({ ...formData, scraperConfig: buildJsonConfig(), mediaHosts });
+      return;
+    }
+    if (isFeed) {
+      onSubmit({ ...formData, scraperConfig: undefined, mediaHosts });
+      return;
+    }
     // Only include scraperConfig if selectors are filled in
     const hasConfig = scraperConfig.selectors.itemContainer && scraperConfig.selectors.item;
     onSubmit({
       ...formData,
       scraperConfig: hasConfig ? scraperConfig : undefined,
+      mediaHosts,
     });
   };
 
@@ -832,6 +1505,20 @@ function AddSourceModal({
     }));
   };
 
+  const updateJsonField = (key: keyof JsonScraperConfig['fields'], value: string) => {
+    setJsonConfig(prev => ({
+      ...prev,
+      fields: { ...prev.fields, [key]: value },
+    }));
+  };
+
+  const updatePagination = (key: keyof JsonScraperConfig['pagination'], value: string | number | undefined) => {
+    setJsonConfig(prev => ({
+      ...prev,
+      pagination: { ...prev.pagination, [key]: value },
+    }));
+  };
+
   return (
     <>
       <div className="fixed inset-0 bg-black/50 z-[200]" onClick={onClose} />
@@ -888,27 +1575,247 @@ function AddSourceModal({
               />
             </div>
 
+            <div className="space-y-2">
+              <label htmlFor="mediaHosts" className="block text-caption">Media Hosts</label>
+              <input
+                id="mediaHosts"
+                type="text"
+                value={mediaHostsInput}
+                onChange={(e) => setMediaHostsInput(e.target.value)}
+                placeholder="cdn.example.com, images.example.net"
+                className="auth-input"
+              />
+              <p className="text-xs text-[var(--muted)]">
+                Hosts this source&apos;s media is served from, besides the base URL host. Subdomains are included.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="mode" className="block text-caption">Source Type</label>
+              <select
+                id="mode"
+                value={formData.mode}
+                onChange={(e) => {
+                  setFormData({ ...formData, mode: e.target.value });
+                  // JSON sources can't work without mappings, so open the config straight away
+                  if (e.target.value === 'generic-json') setShowAdvanced(true);
+                }}
+                className="auth-input"
+              >
+                <option value="scrape">HTML pages (CSS selectors)</option>
+                <option value="generic-json">JSON API (field mappings)</option>
+                <option value="feed">RSS / Atom / JSON Feed</option>
+              </select>
+              {formData.mode === 'feed' && (
+                <p className="text-xs text-[var(--muted)]">
+                  Add each feed URL as a thread. No further configuration is needed.
+                </p>
+              )}
+            </div>
+
             {/* Advanced configuration toggle */}
-            <button
-              type="button"
-              onClick={() => setShowAdvanced(!showAdvanced)}
-              className="flex items-center gap-2 text-sm text-[var(--muted)] hover:text-[var(--fg)] transition-colors"
-            >
-              <svg
-                width="16"
-                height="16"
-                viewBox="0 0 24 24"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="1.5"
-                className={`transition-transform ${showAdvanced ? 'rotate-90' : ''}`}
+            {!isFeed && (
+              <button
+                type="button"
+                onClick={() => setShowAdvanced(!showAdvanced)}
+                className="flex items-center gap-2 text-sm text-[var(--muted)] hover:text-[var(--fg)] transition-colors"
               >
-                <path d="M9 18l6-6-6-6" />
-              </svg>
-              Scraper Configuration (CSS Selectors)
-            </button>
+                <svg
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="1.5"
+                  className={`transition-transform ${showAdvanced ? 'rotate-90' : ''}`}
+                >
+                  <path d="M9 18l6-6-6-6" />
+                </svg>
+                {isJson ? 'JSON API Configuration' : 'Scraper Configuration (CSS Selectors)'}
+              </button>
+            )}
+
+            {showAdvanced && isJson && (
+              <div className="space-y-4 p-4 border border-[var(--border)] bg-[var(--fg)]/5">
+                <p className="text-xs text-[var(--muted)]">
+                  Map response fields with JSONPath-style paths, e.g. <code>$.data.items</code>, <code>media[0].url</code>, <code>tags[*].name</code>.
+                  Use <code>{'{externalId}'}</code> in the endpoint for the thread ID.
+                </p>
+
+                {/* Endpoint */}
+                <div className="space-y-3">
+                  <h3 className="text-sm font-medium">Endpoint</h3>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1 col-span-2">
+                      <label className="block text-xs text-[var(--muted)]">Endpoint *</label>
+                      <input
+                        type="text"
+                        value={jsonConfig.endpoint}
+                        onChange={(e) => setJsonConfig(prev => ({ ...prev, endpoint: e.target.value }))}
+                        placeholder="/api/users/{externalId}/posts"
+                        className="auth-input text-sm"
+                        required
+                      />
+                    </div>
+                    <div className="space-y-1 col-span-2">
+                      <label className="block text-xs text-[var(--muted)]">Permalink Template</label>
+                      <input
+                        type="text"
+                        value={jsonConfig.permalinkTemplate || ''}
+                        onChange={(e) => setJsonConfig(prev => ({ ...prev, permalinkTemplate: e.target.value }))}
+                        placeholder="https://example.com/watch/{id}"
+                        className="auth-input text-sm"
+                      />
+                    </div>
+                  </div>
+                </div>
+
+                {/* Field mappings */}
+                <div className="space-y-3">
+                  <h3 className="text-sm font-medium">Field Mappings</h3>
+                  <div className="grid grid-cols-2 gap-3">
+                    {JSON_FIELD_INPUTS.map(({ key, label, placeholder }) => (
+                      <div key={key} className="space-y-1">
+                        <label className="block text-xs text-[var(--muted)]">{label}</label>
+                        <input
+                          type="text"
+                          value={jsonConfig.fields[key] || ''}
+                          onChange={(e) => updateJsonField(key, e.target.value)}
+                          placeholder={placeholder}
+                          className="auth-input text-sm"
+                          required={label.endsWith('*')}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Pagination */}
+                <div className="space-y-3">
+                  <h3 className="text-sm font-medium">Pagination</h3>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <label className="block text-xs text-[var(--muted)]">Strategy</label>
+                      <select
+                        value={jsonConfig.pagination.strategy}
+                        onChange={(e) => updatePagination('strategy', e.target.value)}
+                        className="auth-input text-sm"
+                      >
+                        <option value="page">Page (?page=2)</option>
+                        <option value="offset">Offset (?offset=20)</option>
+                        <option value="cursor">Cursor (?after=abc)</option>
+                        <option value="none">None (single request)</option>
+                      </select>
+                    </div>
+                    <div className="space-y-1">
+                      <label className="block text-xs text-[var(--muted)]">Query Param</label>
+                      <input
+                        type="text"
+                        value={jsonConfig.pagination.param || ''}
+                        onChange={(e) => updatePagination('param', e.target.value)}
+                        placeholder="page"
+                        className="auth-input text-sm"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <label className="block text-xs text-[var(--muted)]">Page Size</label>
+                      <input
+                        type="number"
+                        value={jsonConfig.pagination.pageSize || ''}
+                        onChange={(e) => updatePagination('pageSize', parseInt(e.target.value) || undefined)}
+                        placeholder="20"
+                        className="auth-input text-sm"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <label className="block text-xs text-[var(--muted)]">Page Size Param</label>
+                      <input
+                        type="text"
+                        value={jsonConfig.pagination.pageSizeParam || ''}
+                        onChange={(e) => updatePagination('pageSizeParam', e.target.value)}
+                        placeholder="limit"
+                        className="auth-input text-sm"
+                      />
+                    </div>
+                    {jsonConfig.pagination.strategy === 'cursor' && (
+                      <div className="space-y-1 col-span-2">
+                        <label className="block text-xs text-[var(--muted)]">Next Cursor Path *</label>
+                        <input
+                          type="text"
+                          value={jsonConfig.pagination.nextCursor || ''}
+                          onChange={(e) => updatePagination('nextCursor', e.target.value)}
+                          placeholder="$.data.after"
+                          className="auth-input text-sm"
+                          required
+                        />
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                {/* Auth */}
+                <div className="space-y-3">
+                  <h3 className="text-sm font-medium">Authentication</h3>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <label className="block text-xs text-[var(--muted)]">Bearer Token</label>
+                      <select
+                        value={authMode}
+                        onChange={(e) => setAuthMode(e.target.value as typeof authMode)}
+                        className="auth-input text-sm"
+                      >
+                        <option value="none">None</option>
+                        <option value="static">Static token</option>
+                        <option value="endpoint">Fetch from token URL</option>
+                      </select>
+                    </div>
+                    {authMode !== 'none' && (
+                      <div className="space-y-1">
+                        <label className="block text-xs text-[var(--muted)]">
+                          {authMode === 'static' ? 'Token' : 'Token URL'}
+                        </label>
+                        <input
+                          type={authMode === 'static' ? 'password' : 'text'}
+                          value={authValue}
+                          onChange={(e) => setAuthValue(e.target.value)}
+                          placeholder={authMode === 'static' ? '' : '/v2/auth/temporary'}
+                          className="auth-input text-sm"
+                          required
+                        />
+                      </div>
+                    )}
+                    {authMode === 'endpoint' && (
+                      <div className="space-y-1">
+                        <label className="block text-xs text-[var(--muted)]">Token Path</label>
+                        <input
+                          type="text"
+                          value={tokenPath}
+                          onChange={(e) => setTokenPath(e.target.value)}
+                          placeholder="token"
+                          className="auth-input text-sm"
+                        />
+                      </div>
+                    )}
+                  </div>
+                </div>
 
-            {showAdvanced && (
+                {/* Order */}
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    id="jsonNewestFirst"
+                    checked={jsonConfig.newestFirst}
+                    onChange={(e) => setJsonConfig(prev => ({ ...prev, newestFirst: e.target.checked }))}
+                    className="rounded"
+                  />
+                  <label htmlFor="jsonNewestFirst" className="text-sm text-[var(--muted)]">
+                    API returns newest items first
+                  </label>
+                </div>
+              </div>
+            )}
+
+            {showAdvanced && !isJson && !isFeed && (
               <div className="space-y-4 p-4 border border-[var(--border)] bg-[var(--fg)]/5">
                 <p className="text-xs text-[var(--muted)]">
                   Configure CSS selectors to extract content from the source. Use browser DevTools to inspect the page HTML.
@@ -1086,6 +1993,15 @@ function AddSourceModal({
               </div>
             )}
 
+            {(showAdvanced || isFeed) && (
+              <SourcePreviewPanel
+                mode={formData.mode}
+                baseUrl={formData.baseUrl}
+                rateLimitRequests={formData.rateLimitRequests}
+                scraperConfig={draftConfig}
+              />
+            )}
+
             {error && (
               <div className="p-3 bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
                 {error.message}
@@ -1107,6 +2023,564 @@ function AddSourceModal({
   );
 }
 
+const PREVIEW_DEBOUNCE_MS = 1500;
+
+// Dry-runs the draft config against a thread URL and shows what would be ingested
+function SourcePreviewPanel({
+  mode,
+  baseUrl,
+  rateLimitRequests,
+  scraperConfig,
+}: {
+  mode: string;
+  baseUrl: string;
+  rateLimitRequests: number;
+  scraperConfig?: ScraperConfig | JsonScraperConfig;
+}) {
+  const [threadUrl, setThreadUrl] = useState('');
+  const [live, setLive] = useState(false);
+  const [result, setResult] = useState<PreviewResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const requestId = useRef(0);
+
+  const draftKey = JSON.stringify({ mode, baseUrl, threadUrl, scraperConfig });
+
+  const runPreview = async () => {
+    if (!threadUrl) return;
+    const id = ++requestId.current;
+    setIsRunning(true);
+    setError(null);
+    try {
+      const data = await previewSource({ mode, baseUrl, threadUrl, rateLimitRequests, scraperConfig });
+      // Ignore responses that a newer edit has superseded
+      if (id === requestId.current) setResult(data);
+    } catch (err) {
+      if (id === requestId.current) setError(err instanceof Error ? err.message : 'Preview failed');
+    } finally {
+      if (id === requestId.current) setIsRunning(false);
+    }
+  };
+
+  // Re-run when the draft changes while live mode is on
+  useEffect(() => {
+    if (!live || !threadUrl) return;
+    const timer = setTimeout(runPreview, PREVIEW_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [live, draftKey]);
+
+  const diagnostics = result?.diagnostics;
+  const misses = diagnostics
+    ? [
+        ...Object.entries(diagnostics.dropped).map(([field, n]) => ({ field, n, kind: 'dropped' as const })),
+        ...Object.entries(diagnostics.fieldMisses).map(([field, n]) => ({ field, n, kind: 'missing' as const })),
+      ]
+    : [];
+
+  return (
+    <div className="space-y-3 p-4 border border-[var(--border)]">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium">Preview</h3>
+        <label className="flex items-center gap-2 text-xs text-[var(--muted)]">
+          <input
+            type="checkbox"
+            checked={live}
+            onChange={(e) => setLive(e.target.checked)}
+            className="rounded"
+          />
+          Live (re-run on change)
+        </label>
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="url"
+          value={threadUrl}
+          onChange={(e) => setThreadUrl(e.target.value)}
+          placeholder="Thread URL to test, e.g. https://example.com/threads/123"
+          className="auth-input text-sm flex-1"
+        />
+        <button
+          type="button"
+          onClick={runPreview}
+          disabled={!threadUrl || isRunning}
+          className="px-3 py-1 text-xs border border-[var(--border)] hover:border-[var(--fg)] transition-colors disabled:opacity-50"
+        >
+          {isRunning ? 'Running...' : 'Run Preview'}
+        </button>
+      </div>
+      <p className="text-xs text-[var(--muted)]">
+        Fetches the latest page with the draft config. Nothing is saved.
+      </p>
+
+      {error && (
+        <div className="p-2 bg-red-500/10 border border-red-500/20 text-red-400 text-xs">{error}</div>
+      )}
+
+      {result && (
+        <div className={`space-y-3 ${isRunning ? 'opacity-60' : ''}`}>
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-[var(--muted)]">
+            <span>
+              Validation:{' '}
+              {result.validation
+                ? result.validation.valid
+                  ? <span className="text-green-400">ok</span>
+                  : <span className="text-red-400">{result.validation.error}</span>
+                : '—'}
+            </span>
+            {result.page && (
+              <span>
+                Page {result.page.pageNumber}
+                {result.pageInfo?.totalPages ? ` of ${result.pageInfo.totalPages}` : ''}
+                {result.page.hasMorePages ? ' · more pages' : ' · last page'}
+              </span>
+            )}
+            {diagnostics && (
+              <span>
+                {diagnostics.containersMatched} container(s) · {diagnostics.itemsMatched} matched · {diagnostics.itemsParsed} parsed
+              </span>
+            )}
+            <span>{result.durationMs}ms</span>
+          </div>
+
+          {result.errors.map((err) => (
+            <div key={err.stage} className="p-2 bg-red-500/10 border border-red-500/20 text-red-400 text-xs">
+              {err.stage}: {err.message}
+            </div>
+          ))}
+
+          {(misses.length > 0 || (diagnostics?.paginationMisses.length ?? 0) > 0) && (
+            <div className="flex flex-wrap gap-2 text-xs">
+              {misses.map(({ field, n, kind }) => (
+                <span
+                  key={`${kind}-${field}`}
+                  className={`px-2 py-0.5 border ${kind === 'dropped' ? 'border-red-500/40 text-red-400' : 'border-yellow-500/40 text-yellow-400'}`}
+                  title={kind === 'dropped' ? 'Items skipped because this field could not be extracted' : 'Parsed items where this selector matched nothing'}
+                >
+                  {kind === 'dropped' ? 'dropped' : 'missing'} {field}: {n}
+                </span>
+              ))}
+              {diagnostics?.paginationMisses.map((field) => (
+                <span key={`page-${field}`} className="px-2 py-0.5 border border-yellow-500/40 text-yellow-400">
+                  pagination {field} not found
+                </span>
+              ))}
+            </div>
+          )}
+
+          {result.items.length === 0 ? (
+            <div className="py-4 text-center text-caption">No items would be ingested</div>
+          ) : (
+            <div className="overflow-x-auto max-h-80 overflow-y-auto border border-[var(--border)]">
+              <table className="w-full text-xs">
+                <thead className="text-left text-[var(--muted)] sticky top-0 bg-[var(--bg)]">
+                  <tr>
+                    <th className="p-2 font-normal">Media</th>
+                    <th className="p-2 font-normal">ID</th>
+                    <th className="p-2 font-normal">Type</th>
+                    <th className="p-2 font-normal">Author</th>
+                    <th className="p-2 font-normal">Posted</th>
+                    <th className="p-2 font-normal">Title / Caption</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-[var(--border)]">
+                  {result.items.map((item) => (
+                    <tr key={item.externalId} className="align-top">
+                      <td className="p-2">
+                        <a href={item.mediaUrl} target="_blank" rel="noopener noreferrer" className="block w-12 h-12 bg-[var(--fg)]/5">
+                          {(item.thumbnailUrl || item.mediaType !== 'video') && (
+                            <img
+                              src={item.thumbnailUrl || item.mediaUrl}
+                              alt=""
+                              className="w-full h-full object-cover"
+                              loading="lazy"
+                              referrerPolicy="no-referrer"
+                            />
+                          )}
+                        </a>
+                      </td>
+                      <td className="p-2 max-w-[120px] truncate">
+                        <a href={item.permalink} target="_blank" rel="noopener noreferrer" className="hover:underline" title={item.permalink}>
+                          {item.externalId}
+                        </a>
+                      </td>
+                      <td className="p-2">
+                        {item.mediaType}
+                        {item.assets && item.assets.length > 1 && ` ×${item.assets.length}`}
+                      </td>
+                      <td className="p-2 max-w-[100px] truncate">{item.author}</td>
+                      <td className="p-2 whitespace-nowrap">{new Date(item.postedAt).toLocaleString()}</td>
+                      <td className="p-2 max-w-[200px] truncate" title={item.caption || item.title}>
+                        {item.title || item.caption || <span className="text-[var(--muted)]">—</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Parse an optional minutes input into milliseconds (blank = no override) */
+function minutesToMs(value: string): number | null {
+  const minutes = parseFloat(value);
+  return Number.isFinite(minutes) && minutes > 0 ? Math.round(minutes * 60000) : null;
+}
+
+function msToMinutes(ms: number | null): string {
+  return ms != null ? String(Math.round(ms / 60000)) : '';
+}
+
+// Inline editor for a thread's polling interval overrides
+function ThreadScheduleEditor({
+  thread,
+  onCancel,
+  onSave,
+  isLoading,
+  error,
+}: {
+  thread: Thread;
+  onCancel: () => void;
+  onSave: (data: { minPollIntervalMs: number | null; maxPollIntervalMs: number | null }) => void;
+  isLoading: boolean;
+  error: Error | null;
+}) {
+  const [minMinutes, setMinMinutes] = useState(msToMinutes(thread.minPollIntervalMs));
+  const [maxMinutes, setMaxMinutes] = useState(msToMinutes(thread.maxPollIntervalMs));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({
+      minPollIntervalMs: minutesToMs(minMinutes),
+      maxPollIntervalMs: minutesToMs(maxMinutes),
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="ml-6 p-3 border border-[var(--border)] space-y-3">
+      <p className="text-xs text-[var(--muted)]">
+        The interval adapts to how often new items appear. Leave blank to use the global bounds.
+      </p>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <label htmlFor={`minPoll-${thread.id}`} className="block text-caption">Min interval (minutes)</label>
+          <input
+            id={`minPoll-${thread.id}`}
+            type="number"
+            min="1"
+            value={minMinutes}
+            onChange={(e) => setMinMinutes(e.target.value)}
+            placeholder="3"
+            className="auth-input"
+          />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor={`maxPoll-${thread.id}`} className="block text-caption">Max interval (minutes)</label>
+          <input
+            id={`maxPoll-${thread.id}`}
+            type="number"
+            min="1"
+            value={maxMinutes}
+            onChange={(e) => setMaxMinutes(e.target.value)}
+            placeholder="360"
+            className="auth-input"
+          />
+        </div>
+      </div>
+      {error && (
+        <div className="p-2 bg-red-500/10 border border-red-500/20 text-red-400 text-xs">
+          {error.message}
+        </div>
+      )}
+      <div className="flex gap-2 justify-end">
+        <button type="button" onClick={onCancel} className="px-3 py-1 text-xs border border-[var(--border)] hover:border-[var(--fg)] transition-colors">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="px-3 py-1 text-xs border border-[var(--fg)] transition-colors disabled:opacity-50"
+        >
+          {isLoading ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+// Inline form to start a historical backfill of a thread
+function ThreadBackfillEditor({
+  thread,
+  onCancel,
+  onStart,
+  isLoading,
+  error,
+}: {
+  thread: Thread;
+  onCancel: () => void;
+  onStart: (data: { from?: string; to?: string; pages?: number }) => void;
+  isLoading: boolean;
+  error: Error | null;
+}) {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [pages, setPages] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const pageCount = parseInt(pages, 10);
+    onStart({
+      // Date inputs are local days: cover the whole of the last one
+      from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+      to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+      pages: Number.isFinite(pageCount) && pageCount > 0 ? pageCount : undefined,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="ml-6 p-3 border border-[var(--border)] space-y-3">
+      <p className="text-xs text-[var(--muted)]">
+        Scans older pages from the newest back, behind live polling. Leave everything blank to backfill the whole thread.
+      </p>
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <label htmlFor={`backfillFrom-${thread.id}`} className="block text-caption">From</label>
+          <input
+            id={`backfillFrom-${thread.id}`}
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="auth-input"
+          />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor={`backfillTo-${thread.id}`} className="block text-caption">To</label>
+          <input
+            id={`backfillTo-${thread.id}`}
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="auth-input"
+          />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor={`backfillPages-${thread.id}`} className="block text-caption">Max pages</label>
+          <input
+            id={`backfillPages-${thread.id}`}
+            type="number"
+            min="1"
+            max="10000"
+            value={pages}
+            onChange={(e) => setPages(e.target.value)}
+            placeholder="All"
+            className="auth-input"
+          />
+        </div>
+      </div>
+      {error && (
+        <div className="p-2 bg-red-500/10 border border-red-500/20 text-red-400 text-xs">
+          {error.message}
+        </div>
+      )}
+      <div className="flex gap-2 justify-end">
+        <button type="button" onClick={onCancel} className="px-3 py-1 text-xs border border-[var(--border)] hover:border-[var(--fg)] transition-colors">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="px-3 py-1 text-xs border border-[var(--fg)] transition-colors disabled:opacity-50"
+        >
+          {isLoading ? 'Starting...' : 'Start Backfill'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+// Progress of a thread's latest backfill
+function BackfillProgress({
+  backfill,
+  statusColor,
+  onCancel,
+  onResume,
+  isLoading,
+}: {
+  backfill: Backfill;
+  statusColor: string;
+  onCancel: () => void;
+  onResume: () => void;
+  isLoading: boolean;
+}) {
+  const percent = backfill.status === 'completed'
+    ? 100
+    : backfill.totalPages
+      ? Math.min(100, Math.round((backfill.pagesScanned / backfill.totalPages) * 100))
+      : 0;
+
+  const bounds = [
+    backfill.from && `from ${new Date(backfill.from).toLocaleDateString()}`,
+    backfill.to && `to ${new Date(backfill.to).toLocaleDateString()}`,
+    backfill.maxPages != null && `${backfill.maxPages} pages deep`,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="ml-6 space-y-1">
+      <div className="flex items-center gap-3 text-xs">
+        <span className={`font-medium ${statusColor}`}>backfill {backfill.status}</span>
+        <span className="text-[var(--muted)]">
+          {backfill.pagesScanned.toLocaleString()}
+          {backfill.totalPages != null && ` / ${backfill.totalPages.toLocaleString()}`} pages
+          {' · '}
+          <span className="text-green-400">+{backfill.itemsNew}</span>
+          {backfill.itemsDuplicate > 0 && ` · ${backfill.itemsDuplicate} dup`}
+          {backfill.itemsFailed > 0 && <span className="text-red-400">{` · ${backfill.itemsFailed} failed`}</span>}
+          {bounds && ` · ${bounds}`}
+        </span>
+        <div className="flex-1" />
+        {backfill.status === 'running' ? (
+          <button
+            onClick={onCancel}
+            disabled={isLoading}
+            className="text-xs text-red-400 hover:text-red-300 transition-colors disabled:opacity-50"
+          >
+            Cancel
+          </button>
+        ) : (backfill.status === 'failed' || backfill.status === 'cancelled') && (
+          <button
+            onClick={onResume}
+            disabled={isLoading}
+            className="text-xs text-[var(--muted)] hover:text-[var(--fg)] transition-colors disabled:opacity-50"
+          >
+            Resume
+          </button>
+        )}
+      </div>
+      <div className="h-1 bg-[var(--border)]">
+        <div className="h-full bg-[var(--fg)] transition-all" style={{ width: `${percent}%` }} />
+      </div>
+      {backfill.error && <p className="text-xs text-red-400">{backfill.error}</p>}
+    </div>
+  );
+}
+
+// Items that failed to commit during a run, with a retry of just those items
+function RunFailureList({
+  failures,
+  onRetry,
+  isRetrying,
+}: {
+  failures: RunFailures;
+  onRetry: () => void;
+  isRetrying: boolean;
+}) {
+  return (
+    <div className="pt-3 space-y-2">
+      <div className="flex items-center gap-3">
+        <p className="text-xs text-red-400">
+          {failures.failures.length} failed item{failures.failures.length === 1 ? '' : 's'}
+        </p>
+        {failures.retries > 0 && (
+          <p className="text-xs text-[var(--muted)]">
+            retried {failures.retries}×{failures.lastRetryAt && `, last ${new Date(failures.lastRetryAt).toLocaleString()}`}
+          </p>
+        )}
+        <div className="flex-1" />
+        {failures.failures.length > 0 && (
+          <button
+            onClick={onRetry}
+            disabled={isRetrying}
+            className="px-3 py-1 text-xs border border-[var(--border)] hover:border-[var(--fg)] transition-colors disabled:opacity-50"
+          >
+            {isRetrying ? 'Queueing...' : 'Retry Failed'}
+          </button>
+        )}
+      </div>
+      <div className="border border-[var(--border)] divide-y divide-[var(--border)]">
+        {failures.failures.map((failure, i) => (
+          <details key={`${failure.externalId}-${i}`} className="px-3 py-2">
+            <summary className="flex items-center gap-3 text-xs cursor-pointer">
+              <span className="px-1.5 py-0.5 text-[10px] border border-red-500/40 text-red-400">{failure.stage}</span>
+              {typeof failure.item.permalink === 'string' ? (
+                <a
+                  href={failure.item.permalink}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-mono hover:underline"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  {failure.externalId}
+                </a>
+              ) : (
+                <span className="font-mono">{failure.externalId}</span>
+              )}
+              <span className="flex-1 min-w-0 truncate text-[var(--muted)]" title={failure.error}>
+                {failure.error}
+              </span>
+              <span className="text-[var(--muted)]">{new Date(failure.failedAt).toLocaleTimeString()}</span>
+            </summary>
+            <pre className="mt-2 p-2 text-[10px] bg-[var(--fg)]/5 overflow-x-auto max-h-64">
+              {JSON.stringify(failure.item, null, 2)}
+            </pre>
+          </details>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Progress bar of a running scan: pages while fetching, then items while committing
+function LiveRunProgress({ run, statusColor }: { run: LiveRun; statusColor: string }) {
+  const finished = run.status !== 'running';
+  const committing = !finished && run.batch !== null;
+  const percent = finished
+    ? 100
+    : run.batch
+      ? Math.round((run.batch.processed / Math.max(run.batch.total, 1)) * 100)
+      : run.maxPages > 0
+        ? Math.round((run.pagesScanned / run.maxPages) * 100)
+        : 0;
+
+  const itemsNew = run.itemsNew + (run.batch?.itemsNew ?? 0);
+  const itemsDuplicate = run.itemsDuplicate + (run.batch?.itemsDuplicate ?? 0);
+  const itemsFailed = run.itemsFailed + (run.batch?.itemsFailed ?? 0);
+
+  return (
+    <div className="p-4 space-y-2">
+      <div className="flex items-center gap-3 text-xs">
+        <span className={`font-medium ${statusColor}`}>{run.status}</span>
+        {run.kind === 'backfill' && (
+          <span className="px-1.5 py-0.5 text-[10px] border border-[var(--border)] text-[var(--muted)]">
+            backfill
+          </span>
+        )}
+        <span className="flex-1 min-w-0 truncate">{run.externalId ?? run.runId}</span>
+        <span className="text-[var(--muted)]">
+          {committing
+            ? `committing ${run.batch!.processed}/${run.batch!.total}`
+            : `page ${run.pagesScanned}${run.maxPages ? ` of up to ${run.maxPages}` : ''}`}
+          {' · '}
+          {run.itemsFound} found
+          {' · '}
+          <span className="text-green-400">+{itemsNew}</span>
+          {itemsDuplicate > 0 && ` · ${itemsDuplicate} dup`}
+          {itemsFailed > 0 && <span className="text-red-400">{` · ${itemsFailed} failed`}</span>}
+        </span>
+      </div>
+      <div className="h-1 bg-[var(--border)]">
+        <div
+          className={`h-full transition-all ${committing ? 'bg-green-400' : 'bg-[var(--fg)]'}`}
+          style={{ width: `${Math.min(100, percent)}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
 // Add Thread Modal Component
 function AddThreadModal({
   sourceId,
@@ -1119,7 +2593,15 @@ function AddThreadModal({
   sourceId: string;
   sourceName: string;
   onClose: () => void;
-  onSubmit: (data: { sourceId: string; externalId: string; url: string; displayName?: string; priority?: number }) => void;
+  onSubmit: (data: {
+    sourceId: string;
+    externalId: string;
+    url: string;
+    displayName?: string;
+    priority?: number;
+    minPollIntervalMs?: number | null;
+    maxPollIntervalMs?: number | null;
+  }) => void;
   isLoading: boolean;
   error: Error | null;
 }) {
@@ -1128,6 +2610,8 @@ function AddThreadModal({
     externalId: '',
     displayName: '',
     priority: 0,
+    minPollMinutes: '',
+    maxPollMinutes: '',
   });
 
   // Auto-generate externalId from URL
@@ -1147,6 +2631,8 @@ function AddThreadModal({
       externalId: formData.externalId,
       displayName: formData.displayName || undefined,
       priority: formData.priority,
+      minPollIntervalMs: minutesToMs(formData.minPollMinutes),
+      maxPollIntervalMs: minutesToMs(formData.maxPollMinutes),
     });
   };
 
@@ -1221,7 +2707,34 @@ function AddThreadModal({
                 onChange={(e) => setFormData({ ...formData, priority: parseInt(e.target.value) || 0 })}
                 className="auth-input"
               />
-              <p className="text-xs text-[var(--muted)]">Higher = checked more frequently (0-10)</p>
+              <p className="text-xs text-[var(--muted)]">Higher = queued ahead of other due threads (0-10)</p>
+            </div>
+
+            <div className="space-y-2">
+              <span className="block text-caption">
+                Polling Interval <span className="text-[var(--muted)]">(optional, minutes)</span>
+              </span>
+              <div className="grid grid-cols-2 gap-3">
+                <input
+                  type="number"
+                  min="1"
+                  aria-label="Minimum polling interval in minutes"
+                  value={formData.minPollMinutes}
+                  onChange={(e) => setFormData({ ...formData, minPollMinutes: e.target.value })}
+                  placeholder="Min (3)"
+                  className="auth-input"
+                />
+                <input
+                  type="number"
+                  min="1"
+                  aria-label="Maximum polling interval in minutes"
+                  value={formData.maxPollMinutes}
+                  onChange={(e) => setFormData({ ...formData, maxPollMinutes: e.target.value })}
+                  placeholder="Max (360)"
+                  className="auth-input"
+                />
+              </div>
+              <p className="text-xs text-[var(--muted)]">Adapts to the thread&apos;s new-item rate within these bounds</p>
             </div>
 
             {error && (
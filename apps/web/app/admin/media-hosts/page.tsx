@@ -0,0 +1,228 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+
+interface MediaHost {
+  id: string;
+  host: string;
+  note: string | null;
+  createdAt: string;
+}
+
+interface SourceHosts {
+  id: string;
+  name: string;
+  hosts: string[];
+}
+
+interface MediaHostsResponse {
+  hosts: MediaHost[];
+  sources: SourceHosts[];
+}
+
+async function fetchMediaHosts(): Promise<MediaHostsResponse> {
+  const response = await fetch(
+    `${process.env.NEXT_PUBLIC_API_URL || '/api/v1'}/admin/media-hosts`,
+    {
+      credentials: 'include',
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch media hosts');
+  }
+
+  return response.json();
+}
+
+async function addMediaHost(data: { host: string; note?: string }) {
+  const response = await fetch(
+    `${process.env.NEXT_PUBLIC_API_URL || '/api/v1'}/admin/media-hosts`,
+    {
+      method: 'POST',
+      credentials: 'include',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(data),
+    }
+  );
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.message || 'Failed to add media host');
+  }
+
+  return response.json();
+}
+
+async function removeMediaHost(id: string) {
+  const response = await fetch(
+    `${process.env.NEXT_PUBLIC_API_URL || '/api/v1'}/admin/media-hosts/${id}`,
+    {
+      method: 'DELETE',
+      credentials: 'include',
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error('Failed to remove media host');
+  }
+
+  return response.json();
+}
+
+export default function MediaHostsPage() {
+  const queryClient = useQueryClient();
+  const [host, setHost] = useState('');
+  const [note, setNote] = useState('');
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['admin', 'media-hosts'],
+    queryFn: fetchMediaHosts,
+  });
+
+  const addMutation = useMutation({
+    mutationFn: addMediaHost,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'media-hosts'] });
+      setHost('');
+      setNote('');
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: removeMediaHost,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'media-hosts'] });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!host.trim()) return;
+    addMutation.mutate({ host: host.trim(), note: note.trim() || undefined });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-title mb-2">Media Hosts</h1>
+        <p className="text-caption">
+          Media is only fetched from these hosts and their subdomains. Each source allows its own
+          base URL host and configured media hosts; the hosts below are allowed for every source.
+        </p>
+      </div>
+
+      {/* Add host */}
+      <form onSubmit={handleSubmit} className="flex flex-wrap items-start gap-2">
+        <input
+          type="text"
+          value={host}
+          onChange={(e) => setHost(e.target.value)}
+          placeholder="cdn.example.com"
+          className="auth-input max-w-xs"
+          required
+        />
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Note (optional)"
+          maxLength={255}
+          className="auth-input max-w-sm"
+        />
+        <button type="submit" disabled={addMutation.isPending} className="btn">
+          {addMutation.isPending ? 'Adding...' : 'Add Host'}
+        </button>
+      </form>
+      {addMutation.isError && (
+        <p className="text-sm text-red-400">{addMutation.error.message}</p>
+      )}
+
+      {/* Global hosts */}
+      <div className="border border-[var(--border)] overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-[var(--border)] text-left">
+              <th className="px-4 py-3 text-xs font-medium text-[var(--muted)]">Host</th>
+              <th className="px-4 py-3 text-xs font-medium text-[var(--muted)]">Note</th>
+              <th className="px-4 py-3 text-xs font-medium text-[var(--muted)]">Added</th>
+              <th className="px-4 py-3 text-xs font-medium text-[var(--muted)]">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-[var(--border)]">
+            {isLoading ? (
+              Array.from({ length: 5 }).map((_, i) => (
+                <tr key={i}>
+                  <td className="px-4 py-3">
+                    <div className="w-40 h-4 skeleton" />
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="w-32 h-4 skeleton" />
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="w-24 h-4 skeleton" />
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="w-16 h-4 skeleton" />
+                  </td>
+                </tr>
+              ))
+            ) : isError ? (
+              <tr>
+                <td colSpan={4} className="px-4 py-8 text-center text-red-400">
+                  Failed to load media hosts
+                </td>
+              </tr>
+            ) : data?.hosts.length === 0 ? (
+              <tr>
+                <td colSpan={4} className="px-4 py-8 text-center text-caption">
+                  No global media hosts
+                </td>
+              </tr>
+            ) : (
+              data?.hosts.map((entry) => (
+                <tr key={entry.id} className="hover:bg-[var(--fg)]/5">
+                  <td className="px-4 py-3 text-sm font-mono">{entry.host}</td>
+                  <td className="px-4 py-3 text-xs text-[var(--muted)]">{entry.note || '—'}</td>
+                  <td className="px-4 py-3 text-xs text-[var(--muted)]">
+                    {new Date(entry.createdAt).toLocaleDateString()}
+                  </td>
+                  <td className="px-4 py-3">
+                    <button
+                      onClick={() => removeMutation.mutate(entry.id)}
+                      disabled={removeMutation.isPending}
+                      className="text-xs text-red-400 hover:text-red-300 transition-colors"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Per-source hosts */}
+      {data && data.sources.length > 0 && (
+        <div className="space-y-3">
+          <p className="text-caption">From sources</p>
+          <div className="border border-[var(--border)] divide-y divide-[var(--border)]">
+            {data.sources.map((source) => (
+              <div key={source.id} className="px-4 py-3 flex flex-wrap items-baseline gap-x-4 gap-y-1">
+                <p className="text-sm font-medium min-w-[10rem]">{source.name}</p>
+                <p className="text-xs text-[var(--muted)] font-mono">
+                  {source.hosts.length > 0 ? source.hosts.join(', ') : '—'}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -56,6 +56,29 @@ interface MediaResponse {
   };
 }
 
+type LinkHealthStatus = 'dead' | 'removed' | 'suspect';
+
+interface LinkHealthItem {
+  id: string;
+  title: string | null;
+  mediaType: 'image' | 'gif' | 'video';
+  thumbnailUrl: string;
+  permalink: string;
+  threadName: string | null;
+  isHidden: boolean;
+  hiddenReason: string | null;
+  hiddenAt: string | null;
+  healthStatus: LinkHealthStatus;
+  healthDetail: string | null;
+  healthFailures: number;
+  healthCheckedAt: string | null;
+}
+
+interface LinkHealthResponse {
+  items: LinkHealthItem[];
+  counts: Partial<Record<LinkHealthStatus, number>>;
+}
+
 async function fetchReports(status: ReportStatus): Promise<ReportsResponse> {
   const response = await fetch(
     `${process.env.NEXT_PUBLIC_API_URL || '/api/v1'}/admin/reports?status=${status}&limit=50`,
@@ -116,6 +139,31 @@ async function deleteMediaItem(id: string): Promise<void> {
   if (!res.ok) throw new Error('Failed to delete media item');
 }
 
+async function fetchLinkHealth(status: LinkHealthStatus): Promise<LinkHealthResponse> {
+  const apiBase = process.env.NEXT_PUBLIC_API_URL || '/api/v1';
+  const res = await fetch(`${apiBase}/admin/media/link-health?status=${status}&limit=50`, { credentials: 'include' });
+  if (!res.ok) throw new Error('Failed to fetch link health');
+  return res.json();
+}
+
+async function restoreMediaItem(id: string): Promise<void> {
+  const apiBase = process.env.NEXT_PUBLIC_API_URL || '/api/v1';
+  const res = await fetch(`${apiBase}/admin/media/${id}/restore`, {
+    method: 'POST',
+    credentials: 'include',
+  });
+  if (!res.ok) throw new Error('Failed to restore media item');
+}
+
+async function runLinkHealthCheck(): Promise<void> {
+  const apiBase = process.env.NEXT_PUBLIC_API_URL || '/api/v1';
+  const res = await fetch(`${apiBase}/admin/link-health/run`, {
+    method: 'POST',
+    credentials: 'include',
+  });
+  if (!res.ok) throw new Error('Failed to trigger link health check');
+}
+
 const REASON_LABELS: Record<ReportReason, string> = {
   spam: 'Spam',
   harassment: 'Harassment',
@@ -135,11 +183,18 @@ const STATUS_TABS: { value: ReportStatus; label: string }[] = [
   { value: 'dismissed', label: 'Dismissed' },
 ];
 
+const LINK_HEALTH_TABS: { value: LinkHealthStatus; label: string }[] = [
+  { value: 'dead', label: 'Dead links' },
+  { value: 'removed', label: 'Removed upstream' },
+  { value: 'suspect', label: 'Suspect' },
+];
+
 export default function ModerationPage() {
   const queryClient = useQueryClient();
-  const [activeTab, setActiveTab] = useState<'reports' | 'media'>('reports');
+  const [activeTab, setActiveTab] = useState<'reports' | 'media' | 'link-health'>('reports');
   const [activeStatus, setActiveStatus] = useState<ReportStatus>('pending');
   const [selectedReport, setSelectedReport] = useState<Report | null>(null);
+  const [healthStatus, setHealthStatus] = useState<LinkHealthStatus>('dead');
 
   const { data, isLoading, isError } = useQuery({
     queryKey: ['admin', 'reports', activeStatus],
@@ -153,6 +208,24 @@ export default function ModerationPage() {
     enabled: activeTab === 'media',
   });
 
+  const { data: healthData, isLoading: healthLoading, isError: healthError } = useQuery({
+    queryKey: ['admin', 'link-health', healthStatus],
+    queryFn: () => fetchLinkHealth(healthStatus),
+    enabled: activeTab === 'link-health',
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: restoreMediaItem,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'link-health'] });
+      queryClient.invalidateQueries({ queryKey: ['admin', 'media'] });
+    },
+  });
+
+  const runCheckMutation = useMutation({
+    mutationFn: runLinkHealthCheck,
+  });
+
   const deleteMediaMutation = useMutation({
     mutationFn: deleteMediaItem,
     onSuccess: () => {
@@ -207,8 +280,119 @@ export default function ModerationPage() {
         >
           Media
         </button>
+        <button
+          onClick={() => setActiveTab('link-health')}
+          className={`px-4 py-2 text-sm font-medium transition-colors ${
+            activeTab === 'link-health'
+              ? 'text-[var(--fg)] border-b-2 border-[var(--fg)]'
+              : 'text-[var(--muted)] hover:text-[var(--fg)]'
+          }`}
+        >
+          Link health
+        </button>
       </div>
 
+      {/* Link health tab */}
+      {activeTab === 'link-health' && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4 border-b border-[var(--border)]">
+            <div className="flex gap-2 overflow-x-auto">
+              {LINK_HEALTH_TABS.map((tab) => (
+                <button
+                  key={tab.value}
+                  onClick={() => setHealthStatus(tab.value)}
+                  className={`px-4 py-2 text-sm whitespace-nowrap transition-colors ${
+                    healthStatus === tab.value
+                      ? 'text-[var(--fg)] border-b-2 border-[var(--fg)]'
+                      : 'text-[var(--muted)] hover:text-[var(--fg)]'
+                  }`}
+                >
+                  {tab.label}
+                  {healthData?.counts[tab.value] ? (
+                    <span className="ml-2 px-1.5 py-0.5 text-xs bg-[var(--fg)]/10 text-[var(--muted)]">
+                      {healthData.counts[tab.value]}
+                    </span>
+                  ) : null}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => runCheckMutation.mutate()}
+              disabled={runCheckMutation.isPending}
+              className="btn text-xs shrink-0 mb-1"
+            >
+              {runCheckMutation.isSuccess ? 'Check queued' : 'Run check now'}
+            </button>
+          </div>
+
+          {healthLoading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <div key={i} className="h-20 skeleton" />
+              ))}
+            </div>
+          ) : healthError ? (
+            <div className="p-4 bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+              Failed to load link health. Please refresh.
+            </div>
+          ) : !healthData?.items.length ? (
+            <div className="text-center py-12 text-caption">No items</div>
+          ) : (
+            <div className="space-y-2">
+              {healthData.items.map((item) => (
+                <div key={item.id} className="flex gap-4 border border-[var(--border)] p-4">
+                  <div className="w-16 h-16 bg-[var(--border)] shrink-0">
+                    <img
+                      src={item.thumbnailUrl}
+                      alt=""
+                      className="w-full h-full object-cover"
+                      loading="lazy"
+                    />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="text-xs px-2 py-0.5 bg-[var(--fg)]/10 text-[var(--muted)]">
+                        {item.mediaType}
+                      </span>
+                      {item.hiddenReason && (
+                        <span className="text-xs px-2 py-0.5 bg-red-500/10 text-red-400">
+                          {item.hiddenReason.replace('_', ' ')}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm truncate">{item.title || item.id}</p>
+                    <p className="text-xs text-[var(--muted)] mt-1 truncate">
+                      {item.threadName ?? 'Unknown thread'}
+                      {item.healthDetail ? ` · ${item.healthDetail}` : ''}
+                      {item.healthCheckedAt ? ` · checked ${new Date(item.healthCheckedAt).toLocaleString()}` : ''}
+                    </p>
+                    <a
+                      href={item.permalink}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-xs text-[var(--muted)] hover:text-[var(--fg)] underline"
+                    >
+                      View source
+                    </a>
+                  </div>
+                  <button
+                    onClick={() => restoreMutation.mutate(item.id)}
+                    disabled={restoreMutation.isPending}
+                    className="btn text-xs self-center shrink-0"
+                    title="Unhide and stop checking this item"
+                  >
+                    Restore
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          {restoreMutation.isError && (
+            <p className="text-sm text-red-400">Failed to restore item</p>
+          )}
+        </div>
+      )}
+
       {/* Media tab */}
       {activeTab === 'media' && (
         <div>
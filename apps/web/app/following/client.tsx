@@ -0,0 +1,41 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/lib/auth';
+import { InfiniteFeed } from '@/components/feed/infinite-feed';
+
+export function FollowingClient() {
+  const router = useRouter();
+  const { isAuthenticated, isLoading } = useAuth();
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push('/auth/login');
+    }
+  }, [isLoading, isAuthenticated, router]);
+
+  return (
+    <div className="min-h-screen">
+      {/* Hero section */}
+      <section className="container-wide py-16 md:py-24">
+        <div className="max-w-3xl">
+          <h1 className="text-display mb-6 fade-in">
+            Following
+          </h1>
+          <p className="text-caption fade-in fade-in-delay-2">
+            New posts from the threads, sources and authors you follow
+          </p>
+        </div>
+      </section>
+
+      {/* Divider */}
+      <div className="divider" />
+
+      {/* Feed section */}
+      <section className="py-1">
+        {isAuthenticated && <InfiniteFeed type="following" />}
+      </section>
+    </div>
+  );
+}
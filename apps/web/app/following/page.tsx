@@ -0,0 +1,11 @@
+import type { Metadata } from 'next';
+import { FollowingClient } from './client';
+
+export const metadata: Metadata = {
+  title: 'Following',
+  robots: { index: false },
+};
+
+export default function FollowingPage() {
+  return <FollowingClient />;
+}
@@ -25,6 +25,11 @@ export const metadata: Metadata = {
   metadataBase: new URL(siteUrl),
   alternates: {
     canonical: '/',
+    types: {
+      'application/rss+xml': [{ url: '/api/v1/feed.rss', title: 'T & A Gallery (RSS)' }],
+      'application/atom+xml': [{ url: '/api/v1/feed.atom', title: 'T & A Gallery (Atom)' }],
+      'application/feed+json': [{ url: '/api/v1/feed.json', title: 'T & A Gallery (JSON Feed)' }],
+    },
   },
   openGraph: {
     type: 'website',
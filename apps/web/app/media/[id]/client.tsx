@@ -7,6 +7,7 @@ import { mediaApi } from '@/lib/api';
 import { useAuth } from '@/lib/auth';
 import { CommentsDrawer } from '@/components/comments/comments-drawer';
 import { ReportModal } from '@/components/moderation/report-modal';
+import { FollowButton } from '@/components/follow/follow-button';
 
 interface MediaDetailClientProps {
   id: string;
@@ -148,6 +149,8 @@ export function MediaDetailClient({ id }: MediaDetailClientProps) {
   const displayType = currentAsset?.type || item.type;
   const isActualGif = displayUrl?.endsWith('.gif') ?? false;
   const isVideo = (displayType === 'video' || displayType === 'gif') && !isActualGif;
+  // Transcoded renditions (WebM before MP4) apply to the item itself, not gallery assets
+  const videoSources = !currentAsset && item.sources.length > 0 ? item.sources : null;
 
   return (
     <>
@@ -225,15 +228,27 @@ export function MediaDetailClient({ id }: MediaDetailClientProps) {
                 </div>
               ) : isVideo ? (
                 <video
+                  key={displayUrl}
                   className="w-full h-full object-contain"
-                  src={displayUrl}
+                  src={videoSources ? undefined : displayUrl}
+                  poster={currentAsset ? undefined : item.thumbnailUrl}
                   controls
                   autoPlay
                   loop
                   muted
                   playsInline
                   onError={() => setMediaError(true)}
-                />
+                >
+                  {/* The browser plays the first source it supports; errors land on the last one */}
+                  {videoSources?.map((source, i) => (
+                    <source
+                      key={source.url}
+                      src={source.url}
+                      type={source.mimeType}
+                      onError={i === videoSources.length - 1 ? () => setMediaError(true) : undefined}
+                    />
+                  ))}
+                </video>
               ) : (
                 <img
                   key={displayUrl}
@@ -360,20 +375,74 @@ export function MediaDetailClient({ id }: MediaDetailClientProps) {
                 )}
 
                 {item.author && (
-                  <div className="flex justify-between">
+                  <div className="flex justify-between items-center">
                     <span className="text-[var(--muted)]">Author</span>
-                    {item.authorUrl ? (
-                      <a
-                        href={item.authorUrl}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="hover:text-[var(--fg)] transition-colors"
+                    <span className="flex items-center gap-2">
+                      {item.authorUrl ? (
+                        <a
+                          href={item.authorUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="hover:text-[var(--fg)] transition-colors"
+                        >
+                          {item.author}
+                        </a>
+                      ) : (
+                        <span>{item.author}</span>
+                      )}
+                      <FollowButton followeeType="author" followeeId={item.author} />
+                    </span>
+                  </div>
+                )}
+
+                {item.thread && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-[var(--muted)]">Thread</span>
+                    <span className="flex items-center gap-2">
+                      <span>{item.thread.name}</span>
+                      <FollowButton followeeType="thread" followeeId={item.thread.id} />
+                    </span>
+                  </div>
+                )}
+
+                {item.source && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-[var(--muted)]">Source</span>
+                    <span className="flex items-center gap-2">
+                      <span>{item.source.name}</span>
+                      <FollowButton followeeType="source" followeeId={item.source.id} />
+                    </span>
+                  </div>
+                )}
+
+                {item.sourceMetrics && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-[var(--muted)]">On source</span>
+                    <span>
+                      {[
+                        item.sourceMetrics.likes != null && `${item.sourceMetrics.likes.toLocaleString()} likes`,
+                        item.sourceMetrics.comments != null && `${item.sourceMetrics.comments.toLocaleString()} comments`,
+                        item.sourceMetrics.views != null && `${item.sourceMetrics.views.toLocaleString()} views`,
+                      ].filter(Boolean).join(' · ')}
+                    </span>
+                  </div>
+                )}
+
+                {item.crossPosts?.length > 0 && (
+                  <div className="space-y-2">
+                    <span className="text-[var(--muted)]">Also posted in</span>
+                    {item.crossPosts.map((post) => (
+                      <Link
+                        key={post.id}
+                        href={`/media/${post.id}`}
+                        className="flex justify-between gap-4 hover:text-[var(--fg)] transition-colors"
                       >
-                        {item.author}
-                      </a>
-                    ) : (
-                      <span>{item.author}</span>
-                    )}
+                        <span className="truncate">
+                          {post.thread?.name || post.source?.name || 'Unknown'}
+                        </span>
+                        <span className="text-[var(--muted)] shrink-0">{post.author}</span>
+                      </Link>
+                    ))}
                   </div>
                 )}
 
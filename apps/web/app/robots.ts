@@ -7,7 +7,8 @@ export default function robots(): MetadataRoute.Robots {
     rules: [
       {
         userAgent: '*',
-        allow: '/',
+        // Outbound feeds are listed in the sitemap; the more specific allow wins over /api/
+        allow: ['/', '/api/v1/feed.', '/api/v1/feed/trending.'],
         disallow: ['/admin/', '/auth/', '/profile/', '/api/'],
       },
     ],
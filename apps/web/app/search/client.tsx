@@ -1,12 +1,55 @@
 'use client';
 
-import { InfiniteFeed } from '@/components/feed/infinite-feed';
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { InfiniteFeed, type SearchFilters } from '@/components/feed/infinite-feed';
+
+const TYPES = [
+  { value: '', label: 'All' },
+  { value: 'gif', label: 'GIFs' },
+  { value: 'video', label: 'Videos' },
+  { value: 'image', label: 'Images' },
+] as const;
 
 interface SearchClientProps {
   query: string;
+  filters: SearchFilters;
 }
 
-export function SearchClient({ query }: SearchClientProps) {
+export function SearchClient({ query, filters }: SearchClientProps) {
+  const router = useRouter();
+  const [tag, setTag] = useState(filters.tag || '');
+  const [author, setAuthor] = useState(filters.author || '');
+
+  // Keep text inputs in sync when navigating between searches
+  useEffect(() => {
+    setTag(filters.tag || '');
+    setAuthor(filters.author || '');
+  }, [filters.tag, filters.author]);
+
+  // Filters live in the URL so results are shareable
+  const updateFilters = (next: Partial<SearchFilters>) => {
+    const merged = { ...filters, ...next };
+    const params = new URLSearchParams({ q: query });
+    for (const [key, value] of Object.entries(merged)) {
+      if (value) params.set(key, value);
+    }
+    router.replace(`/search?${params.toString()}`);
+  };
+
+  const handleTextFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFilters({ tag: tag.trim() || undefined, author: author.trim() || undefined });
+  };
+
+  // Date inputs are whole days; make the upper bound include the entire day
+  const feedFilters: SearchFilters = {
+    ...filters,
+    to: filters.to ? `${filters.to}T23:59:59.999Z` : undefined,
+  };
+
+  const inputClass = 'w-36 bg-transparent border-b border-[var(--border)] focus:border-[var(--fg)] text-sm text-[var(--fg)] placeholder:text-[var(--muted)] outline-none py-1 transition-colors';
+
   return (
     <div className="min-h-screen">
       {/* Hero section */}
@@ -20,6 +63,68 @@ export function SearchClient({ query }: SearchClientProps) {
             <h1 className="text-display mb-6 fade-in">Search</h1>
           )}
         </div>
+
+        {/* Filters */}
+        {query && (
+          <div className="flex flex-col gap-6 mt-8 fade-in fade-in-delay-2">
+            <div className="flex flex-wrap gap-2">
+              {TYPES.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => updateFilters({ type: value || undefined })}
+                  className={`px-4 py-2 text-sm border transition-colors ${
+                    (filters.type || '') === value
+                      ? 'border-[var(--fg)] text-[var(--fg)] bg-[var(--fg)]/10'
+                      : 'border-[var(--border)] text-[var(--muted)] hover:text-[var(--fg)] hover:border-[var(--fg)]'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            <form onSubmit={handleTextFilters} className="flex flex-wrap items-end gap-6 text-sm">
+              <input
+                type="text"
+                value={tag}
+                onChange={(e) => setTag(e.target.value)}
+                placeholder="Tag"
+                className={inputClass}
+              />
+              <input
+                type="text"
+                value={author}
+                onChange={(e) => setAuthor(e.target.value)}
+                placeholder="Author"
+                className={inputClass}
+              />
+              <label className="flex items-center gap-2 text-caption">
+                From
+                <input
+                  type="date"
+                  value={filters.from || ''}
+                  onChange={(e) => updateFilters({ from: e.target.value || undefined })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex items-center gap-2 text-caption">
+                To
+                <input
+                  type="date"
+                  value={filters.to || ''}
+                  onChange={(e) => updateFilters({ to: e.target.value || undefined })}
+                  className={inputClass}
+                />
+              </label>
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm border border-[var(--border)] text-[var(--muted)] hover:text-[var(--fg)] hover:border-[var(--fg)] transition-colors"
+              >
+                Apply
+              </button>
+            </form>
+          </div>
+        )}
       </section>
 
       {/* Divider */}
@@ -28,7 +133,7 @@ export function SearchClient({ query }: SearchClientProps) {
       {/* Feed section */}
       <section className="py-1">
         {query ? (
-          <InfiniteFeed type="search" searchQuery={query} />
+          <InfiniteFeed type="search" searchQuery={query} searchFilters={feedFilters} />
         ) : (
           <div className="flex flex-col items-center justify-center py-24 text-center">
             <p className="text-[var(--fg)] mb-2">Enter a search term</p>
@@ -2,7 +2,14 @@ import type { Metadata } from 'next';
 import { SearchClient } from './client';
 
 interface SearchPageProps {
-  searchParams: Promise<{ q?: string }>;
+  searchParams: Promise<{
+    q?: string;
+    type?: string;
+    tag?: string;
+    author?: string;
+    from?: string;
+    to?: string;
+  }>;
 }
 
 export async function generateMetadata({ searchParams }: SearchPageProps): Promise<Metadata> {
@@ -13,6 +20,6 @@ export async function generateMetadata({ searchParams }: SearchPageProps): Promi
 }
 
 export default async function SearchPage({ searchParams }: SearchPageProps) {
-  const { q } = await searchParams;
-  return <SearchClient query={q || ''} />;
+  const { q, type, tag, author, from, to } = await searchParams;
+  return <SearchClient query={q || ''} filters={{ type, tag, author, from, to }} />;
 }
@@ -29,6 +29,16 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     },
   ];
 
+  // Outbound feeds (served through the /api/v1 rewrite)
+  const feedPages: MetadataRoute.Sitemap = ['feed', 'feed/trending'].flatMap(path =>
+    ['rss', 'atom', 'json'].map(format => ({
+      url: `${SITE_URL}/api/v1/${path}.${format}`,
+      lastModified: new Date(),
+      changeFrequency: 'hourly' as const,
+      priority: 0.5,
+    })),
+  );
+
   // Dynamic media pages
   let mediaPages: MetadataRoute.Sitemap = [];
   try {
@@ -58,16 +68,24 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     });
     if (response.ok) {
       const data = await response.json();
-      tagPages = data.tags.map((tag: { name: string }) => ({
-        url: `${SITE_URL}/tags/${encodeURIComponent(tag.name)}`,
-        lastModified: new Date(),
-        changeFrequency: 'daily' as const,
-        priority: 0.6,
-      }));
+      tagPages = data.tags.flatMap((tag: { name: string }) => [
+        {
+          url: `${SITE_URL}/tags/${encodeURIComponent(tag.name)}`,
+          lastModified: new Date(),
+          changeFrequency: 'daily' as const,
+          priority: 0.6,
+        },
+        {
+          url: `${SITE_URL}/api/v1/feed.rss?tag=${encodeURIComponent(tag.name)}`,
+          lastModified: new Date(),
+          changeFrequency: 'daily' as const,
+          priority: 0.4,
+        },
+      ]);
     }
   } catch {
     // Sitemap generation should not fail if API is down
   }
 
-  return [...staticPages, ...mediaPages, ...tagPages];
+  return [...staticPages, ...feedPages, ...mediaPages, ...tagPages];
 }
@@ -14,6 +14,10 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
     description: `Browse the best ${decodedTag} GIFs and short videos. Curated ${decodedTag} content updated continuously on T & A Gallery.`,
     alternates: {
       canonical: `/tags/${tag}`,
+      types: {
+        'application/rss+xml': [{ url: `/api/v1/feed.rss?tag=${encodeURIComponent(decodedTag)}`, title: `${decodedTag} (RSS)` }],
+        'application/atom+xml': [{ url: `/api/v1/feed.atom?tag=${encodeURIComponent(decodedTag)}`, title: `${decodedTag} (Atom)` }],
+      },
     },
     openGraph: {
       title: `${decodedTag} GIFs & Videos | T & A Gallery`,
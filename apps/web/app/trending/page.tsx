@@ -6,6 +6,11 @@ export const metadata: Metadata = {
   description: 'See the most viewed GIFs and short videos on T & A Gallery. Discover trending and popular content sorted by view count.',
   alternates: {
     canonical: '/trending',
+    types: {
+      'application/rss+xml': [{ url: '/api/v1/feed/trending.rss', title: 'Trending (RSS)' }],
+      'application/atom+xml': [{ url: '/api/v1/feed/trending.atom', title: 'Trending (Atom)' }],
+      'application/feed+json': [{ url: '/api/v1/feed/trending.json', title: 'Trending (JSON Feed)' }],
+    },
   },
 };
 
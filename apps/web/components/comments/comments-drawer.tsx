@@ -1,10 +1,21 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { mediaApi } from '@/lib/api';
+import { useInfiniteQuery, useMutation, useQueryClient, type InfiniteData } from '@tanstack/react-query';
+import { mediaApi, commentApi } from '@/lib/api';
 import { useAuth } from '@/lib/auth';
-import type { Comment } from '@aggragif/shared';
+import { COMMENT_EDIT_WINDOW_MS } from '@aggragif/shared';
+import type { Comment, CommentSort, PaginatedResponse } from '@aggragif/shared';
+
+type CommentPages = InfiniteData<PaginatedResponse<Comment>, string | undefined>;
+
+const SORTS: { value: CommentSort; label: string }[] = [
+  { value: 'oldest', label: 'Oldest' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'top', label: 'Top' },
+];
+
+const REPLIES_PAGE_SIZE = 10;
 
 interface CommentsDrawerProps {
   mediaId: string | null;
@@ -17,8 +28,11 @@ export function CommentsDrawer({ mediaId, isOpen, onClose }: CommentsDrawerProps
   const queryClient = useQueryClient();
   const [newComment, setNewComment] = useState('');
   const [replyingTo, setReplyingTo] = useState<Comment | null>(null);
+  const [sort, setSort] = useState<CommentSort>('oldest');
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const drawerRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
 
   // Fetch comments
   const {
@@ -28,10 +42,10 @@ export function CommentsDrawer({ mediaId, isOpen, onClose }: CommentsDrawerProps
     isFetchingNextPage,
     isLoading,
   } = useInfiniteQuery({
-    queryKey: ['comments', mediaId],
+    queryKey: ['comments', mediaId, sort],
     queryFn: async ({ pageParam }) => {
       if (!mediaId) throw new Error('No media ID');
-      return mediaApi.getComments(mediaId, { cursor: pageParam, limit: 20 });
+      return mediaApi.getComments(mediaId, { cursor: pageParam, limit: 20, sort });
     },
     initialPageParam: undefined as string | undefined,
     getNextPageParam: (lastPage) =>
@@ -45,13 +59,92 @@ export function CommentsDrawer({ mediaId, isOpen, onClose }: CommentsDrawerProps
       if (!mediaId) throw new Error('No media ID');
       return mediaApi.createComment(mediaId, content, parentId);
     },
-    onSuccess: () => {
+    onSuccess: (_created, { parentId }) => {
       setNewComment('');
       setReplyingTo(null);
       queryClient.invalidateQueries({ queryKey: ['comments', mediaId] });
+      if (parentId) {
+        queryClient.invalidateQueries({ queryKey: ['comment-replies', parentId] });
+      }
+    },
+  });
+
+  // Infinite scroll: load the next page when the sentinel nears the bottom of the list
+  useEffect(() => {
+    const element = loadMoreRef.current;
+    if (!element || !hasNextPage) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry?.isIntersecting && !isFetchingNextPage) fetchNextPage();
+      },
+      { root: listRef.current, rootMargin: '200px' },
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Apply a change to one comment (top-level or reply) in the cached pages
+  const patchComment = (id: string, patch: (c: Comment) => Comment | null) => {
+    const apply = (list: Comment[]): Comment[] => list.flatMap((c) => {
+      const next = c.id === id ? patch(c) : c;
+      if (!next) return [];
+      return next.replies ? [{ ...next, replies: apply(next.replies) }] : [next];
+    });
+    const update = (old: CommentPages | undefined) => old && {
+      ...old,
+      pages: old.pages.map((page) => ({ ...page, items: apply(page.items) })),
+    };
+    queryClient.setQueriesData<CommentPages>({ queryKey: ['comments', mediaId] }, update);
+    queryClient.setQueriesData<CommentPages>({ queryKey: ['comment-replies'] }, update);
+  };
+
+  const likeMutation = useMutation({
+    mutationFn: (comment: Comment) => commentApi.like(comment.id, comment.isLiked ? 'unlike' : 'like'),
+    onMutate: (comment) => {
+      patchComment(comment.id, (c) => ({
+        ...c,
+        isLiked: !c.isLiked,
+        likeCount: c.isLiked ? Math.max(c.likeCount - 1, 0) : c.likeCount + 1,
+      }));
+    },
+    onSuccess: (result, comment) => {
+      patchComment(comment.id, (c) => ({ ...c, ...result }));
+    },
+    onError: () => {
+      queryClient.invalidateQueries({ queryKey: ['comments', mediaId] });
+    },
+  });
+
+  const editMutation = useMutation({
+    mutationFn: ({ id, content }: { id: string; content: string }) => commentApi.update(id, content),
+    onSuccess: (updated) => {
+      patchComment(updated.id, (c) => ({ ...c, ...updated, replies: c.replies }));
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => commentApi.remove(id),
+    onSuccess: (_result, id) => {
+      patchComment(id, () => null);
+      queryClient.invalidateQueries({ queryKey: ['comments', mediaId] });
+      queryClient.invalidateQueries({ queryKey: ['media', mediaId] });
     },
   });
 
+  const isModerator = user?.role === 'admin' || user?.role === 'moderator';
+  const actions: CommentActions = {
+    onLike: isAuthenticated ? (comment) => likeMutation.mutate(comment) : undefined,
+    onEdit: (id, content) => editMutation.mutateAsync({ id, content }).then(() => undefined),
+    onDelete: (id) => {
+      if (!window.confirm('Delete this comment?')) return;
+      deleteMutation.mutate(id);
+    },
+    canEdit: (comment) => comment.user?.id === user?.id
+      && Date.now() - new Date(comment.createdAt).getTime() < COMMENT_EDIT_WINDOW_MS,
+    canDelete: (comment) => !!user && (comment.user?.id === user.id || isModerator),
+  };
+
   // Auto-focus input when replying
   useEffect(() => {
     if (replyingTo && inputRef.current) {
@@ -82,16 +175,7 @@ export function CommentsDrawer({ mediaId, isOpen, onClose }: CommentsDrawerProps
   };
 
   const allComments = data?.pages.flatMap((page) => page.items) || [];
-
-  // Group comments by parent
   const topLevelComments = allComments.filter((c) => !c.parentId);
-  const repliesMap = new Map<string, Comment[]>();
-  allComments.forEach((comment) => {
-    if (comment.parentId) {
-      const existing = repliesMap.get(comment.parentId) || [];
-      repliesMap.set(comment.parentId, [...existing, comment]);
-    }
-  });
 
   const formatTime = (date: Date | string) => {
     const d = new Date(date);
@@ -127,7 +211,22 @@ export function CommentsDrawer({ mediaId, isOpen, onClose }: CommentsDrawerProps
       >
         {/* Header */}
         <div className="sticky top-0 bg-[var(--bg)] border-b border-[var(--border)] px-6 py-4 flex items-center justify-between">
-          <h2 className="text-title">Comments</h2>
+          <div className="flex items-center gap-4">
+            <h2 className="text-title">Comments</h2>
+            <div className="flex gap-2">
+              {SORTS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => setSort(value)}
+                  className={`text-xs transition-colors ${
+                    sort === value ? 'text-[var(--fg)]' : 'text-[var(--muted)] hover:text-[var(--fg)]'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
           <button
             onClick={onClose}
             className="p-2 -mr-2 text-[var(--muted)] hover:text-[var(--fg)] transition-colors"
@@ -139,7 +238,7 @@ export function CommentsDrawer({ mediaId, isOpen, onClose }: CommentsDrawerProps
         </div>
 
         {/* Comments list */}
-        <div className="flex-1 overflow-y-auto px-6 py-4" style={{ height: 'calc(100vh - 140px)' }}>
+        <div ref={listRef} className="flex-1 overflow-y-auto px-6 py-4" style={{ height: 'calc(100vh - 140px)' }}>
           {isLoading ? (
             <div className="space-y-4">
               {Array.from({ length: 5 }).map((_, i) => (
@@ -165,21 +264,16 @@ export function CommentsDrawer({ mediaId, isOpen, onClose }: CommentsDrawerProps
                 <CommentItem
                   key={comment.id}
                   comment={comment}
-                  replies={repliesMap.get(comment.id) || []}
                   formatTime={formatTime}
                   onReply={isAuthenticated ? setReplyingTo : undefined}
-                  currentUserId={user?.id}
+                  actions={actions}
                 />
               ))}
 
               {hasNextPage && (
-                <button
-                  onClick={() => fetchNextPage()}
-                  disabled={isFetchingNextPage}
-                  className="w-full py-3 text-sm text-[var(--muted)] hover:text-[var(--fg)] transition-colors"
-                >
-                  {isFetchingNextPage ? 'Loading...' : 'Load more comments'}
-                </button>
+                <div ref={loadMoreRef} className="py-3 text-center text-sm text-[var(--muted)]">
+                  {isFetchingNextPage ? 'Loading...' : ''}
+                </div>
               )}
             </div>
           )}
@@ -245,77 +339,217 @@ export function CommentsDrawer({ mediaId, isOpen, onClose }: CommentsDrawerProps
   );
 }
 
+interface CommentActions {
+  onLike?: (comment: Comment) => void;
+  onEdit: (id: string, content: string) => Promise<void>;
+  onDelete: (id: string) => void;
+  canEdit: (comment: Comment) => boolean;
+  canDelete: (comment: Comment) => boolean;
+}
+
 interface CommentItemProps {
   comment: Comment;
-  replies: Comment[];
   formatTime: (date: Date | string) => string;
   onReply?: (comment: Comment) => void;
-  currentUserId?: string;
+  actions: CommentActions;
 }
 
-function CommentItem({ comment, replies, formatTime, onReply, currentUserId }: CommentItemProps) {
+function CommentItem({ comment, formatTime, onReply, actions }: CommentItemProps) {
+  const [expanded, setExpanded] = useState(false);
+  const preview = comment.replies || [];
+
+  // Further replies continue from the preview's cursor
+  const {
+    data,
+    fetchNextPage,
+    hasNextPage,
+    isFetching,
+  } = useInfiniteQuery({
+    queryKey: ['comment-replies', comment.id],
+    queryFn: ({ pageParam }) =>
+      commentApi.getReplies(comment.id, { cursor: pageParam, limit: REPLIES_PAGE_SIZE }),
+    initialPageParam: comment.repliesCursor ?? undefined,
+    getNextPageParam: (lastPage) =>
+      lastPage.pagination.hasMore ? lastPage.pagination.nextCursor : undefined,
+    enabled: expanded && !!comment.repliesCursor,
+  });
+
+  const loaded = data?.pages.flatMap((page) => page.items) || [];
+  const seen = new Set(preview.map((r) => r.id));
+  const replies = [...preview, ...loaded.filter((r) => !seen.has(r.id))];
+  const remaining = Math.max(comment.replyCount - replies.length, 0);
+  const canLoadMore = expanded ? hasNextPage : !!comment.repliesCursor;
+
   return (
     <div className="space-y-4">
-      <div className="space-y-2">
-        <div className="flex items-center gap-2">
-          <div className="w-8 h-8 bg-[var(--border)] flex items-center justify-center text-xs font-medium text-[var(--muted)]">
-            {(comment.user?.displayName || comment.user?.username || 'U').charAt(0).toUpperCase()}
-          </div>
-          <div className="flex-1 min-w-0">
-            <span className="text-sm font-medium">
-              {comment.user?.displayName || comment.user?.username || 'Unknown'}
-            </span>
-            <span className="text-xs text-[var(--muted)] ml-2">
-              {formatTime(comment.createdAt)}
-            </span>
-          </div>
-        </div>
+      <CommentRow comment={comment} formatTime={formatTime} onReply={onReply} actions={actions} />
 
-        <p className="text-sm text-[var(--fg)] pl-10">{comment.content}</p>
+      {/* Replies */}
+      {replies.length > 0 && (
+        <div className="pl-10 space-y-4 border-l border-[var(--border)] ml-4">
+          {replies.map((reply) => (
+            <div key={reply.id} className="pl-4">
+              <CommentRow comment={reply} formatTime={formatTime} actions={actions} isReply />
+            </div>
+          ))}
 
-        <div className="flex items-center gap-4 pl-10">
-          <button className="text-xs text-[var(--muted)] hover:text-[var(--fg)] transition-colors flex items-center gap-1">
-            <svg width="14" height="14" viewBox="0 0 20 20" fill="currentColor">
-              <path
-                fillRule="evenodd"
-                d="M3.172 5.172a4 4 0 015.656 0L10 6.343l1.172-1.171a4 4 0 115.656 5.656L10 17.657l-6.828-6.829a4 4 0 010-5.656z"
-                clipRule="evenodd"
-              />
-            </svg>
-            {comment.likeCount > 0 && comment.likeCount}
-          </button>
-          {onReply && (
+          {canLoadMore && (
             <button
-              onClick={() => onReply(comment)}
-              className="text-xs text-[var(--muted)] hover:text-[var(--fg)] transition-colors"
+              onClick={() => (expanded ? fetchNextPage() : setExpanded(true))}
+              disabled={isFetching}
+              className="pl-4 text-xs text-[var(--muted)] hover:text-[var(--fg)] transition-colors"
             >
-              Reply
+              {isFetching
+                ? 'Loading...'
+                : `View ${remaining > 0 ? `${remaining} more` : 'more'} ${remaining === 1 ? 'reply' : 'replies'}`}
             </button>
           )}
         </div>
+      )}
+    </div>
+  );
+}
+
+interface CommentRowProps {
+  comment: Comment;
+  formatTime: (date: Date | string) => string;
+  onReply?: (comment: Comment) => void;
+  actions: CommentActions;
+  isReply?: boolean;
+}
+
+function CommentRow({ comment, formatTime, onReply, actions, isReply = false }: CommentRowProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(comment.content);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editError, setEditError] = useState<string | null>(null);
+
+  const indent = isReply ? '' : 'pl-10';
+
+  const handleSave = async () => {
+    const content = draft.trim();
+    if (!content || isSaving) return;
+    if (content === comment.content) {
+      setIsEditing(false);
+      return;
+    }
+    setIsSaving(true);
+    setEditError(null);
+    try {
+      await actions.onEdit(comment.id, content);
+      setIsEditing(false);
+    } catch (err) {
+      setEditError(err instanceof Error ? err.message : 'Failed to save');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <div className={`${isReply ? 'w-6 h-6' : 'w-8 h-8'} bg-[var(--border)] flex items-center justify-center text-xs font-medium text-[var(--muted)]`}>
+          {(comment.user?.displayName || comment.user?.username || 'U').charAt(0).toUpperCase()}
+        </div>
+        <div className="flex-1 min-w-0">
+          <span className="text-sm font-medium">
+            {comment.user?.displayName || comment.user?.username || 'Unknown'}
+          </span>
+          <span className="text-xs text-[var(--muted)] ml-2">
+            {formatTime(comment.createdAt)}
+          </span>
+          {comment.isEdited && (
+            <span className="text-xs text-[var(--muted)] ml-2">(edited)</span>
+          )}
+        </div>
       </div>
 
-      {/* Replies */}
-      {replies.length > 0 && (
-        <div className="pl-10 space-y-4 border-l border-[var(--border)] ml-4">
-          {replies.map((reply) => (
-            <div key={reply.id} className="pl-4 space-y-2">
-              <div className="flex items-center gap-2">
-                <div className="w-6 h-6 bg-[var(--border)] flex items-center justify-center text-xs font-medium text-[var(--muted)]">
-                  {(reply.user?.displayName || reply.user?.username || 'U').charAt(0).toUpperCase()}
-                </div>
-                <span className="text-sm font-medium">
-                  {reply.user?.displayName || reply.user?.username || 'Unknown'}
-                </span>
-                <span className="text-xs text-[var(--muted)]">
-                  {formatTime(reply.createdAt)}
-                </span>
-              </div>
-              <p className="text-sm text-[var(--fg)]">{reply.content}</p>
-            </div>
-          ))}
+      {isEditing ? (
+        <div className={`${indent} space-y-2`}>
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            className="w-full auth-input resize-none text-sm"
+            rows={3}
+            maxLength={2000}
+            autoFocus
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                handleSave();
+              } else if (e.key === 'Escape') {
+                setIsEditing(false);
+                setDraft(comment.content);
+              }
+            }}
+          />
+          {editError && <p className="text-xs text-red-400">{editError}</p>}
+          <div className="flex items-center gap-4">
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !draft.trim()}
+              className="text-xs text-[var(--fg)] disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              onClick={() => {
+                setIsEditing(false);
+                setDraft(comment.content);
+                setEditError(null);
+              }}
+              className="text-xs text-[var(--muted)] hover:text-[var(--fg)] transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
         </div>
+      ) : (
+        <p className={`text-sm text-[var(--fg)] ${indent}`}>{comment.content}</p>
       )}
+
+      <div className={`flex items-center gap-4 ${indent}`}>
+        <button
+          onClick={() => actions.onLike?.(comment)}
+          disabled={!actions.onLike}
+          className={`text-xs transition-colors flex items-center gap-1 ${
+            comment.isLiked ? 'text-red-400' : 'text-[var(--muted)] hover:text-[var(--fg)]'
+          }`}
+        >
+          <svg width="14" height="14" viewBox="0 0 20 20" fill="currentColor">
+            <path
+              fillRule="evenodd"
+              d="M3.172 5.172a4 4 0 015.656 0L10 6.343l1.172-1.171a4 4 0 115.656 5.656L10 17.657l-6.828-6.829a4 4 0 010-5.656z"
+              clipRule="evenodd"
+            />
+          </svg>
+          {comment.likeCount > 0 && comment.likeCount}
+        </button>
+        {onReply && (
+          <button
+            onClick={() => onReply(comment)}
+            className="text-xs text-[var(--muted)] hover:text-[var(--fg)] transition-colors"
+          >
+            Reply
+          </button>
+        )}
+        {!isEditing && actions.canEdit(comment) && (
+          <button
+            onClick={() => setIsEditing(true)}
+            className="text-xs text-[var(--muted)] hover:text-[var(--fg)] transition-colors"
+          >
+            Edit
+          </button>
+        )}
+        {actions.canDelete(comment) && (
+          <button
+            onClick={() => actions.onDelete(comment.id)}
+            className="text-xs text-[var(--muted)] hover:text-red-400 transition-colors"
+          >
+            Delete
+          </button>
+        )}
+      </div>
     </div>
   );
 }
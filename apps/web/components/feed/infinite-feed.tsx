@@ -5,15 +5,24 @@ import { useEffect, useRef, useCallback } from 'react';
 import { feedApi } from '@/lib/api';
 import { MediaCard } from './media-card';
 
+export interface SearchFilters {
+  type?: string;
+  tag?: string;
+  author?: string;
+  from?: string;
+  to?: string;
+}
+
 interface InfiniteFeedProps {
-  type?: 'recent' | 'trending' | 'search';
+  type?: 'recent' | 'trending' | 'search' | 'following';
   mediaType?: string;
   period?: string;
   tag?: string;
   searchQuery?: string;
+  searchFilters?: SearchFilters;
 }
 
-export function InfiniteFeed({ type = 'recent', mediaType, period, tag, searchQuery }: InfiniteFeedProps) {
+export function InfiniteFeed({ type = 'recent', mediaType, period, tag, searchQuery, searchFilters }: InfiniteFeedProps) {
   const observerRef = useRef<IntersectionObserver | null>(null);
   const loadMoreRef = useRef<HTMLDivElement>(null);
 
@@ -26,14 +35,17 @@ export function InfiniteFeed({ type = 'recent', mediaType, period, tag, searchQu
     isError,
     error,
   } = useInfiniteQuery({
-    queryKey: ['feed', type, mediaType, period, tag, searchQuery],
+    queryKey: ['feed', type, mediaType, period, tag, searchQuery, searchFilters],
     queryFn: async ({ pageParam }) => {
       if (type === 'search' && searchQuery) {
-        return feedApi.search({ q: searchQuery, cursor: pageParam, limit: 48 });
+        return feedApi.search({ q: searchQuery, ...searchFilters, cursor: pageParam, limit: 48 });
       }
       if (type === 'trending') {
         return feedApi.getTrending({ cursor: pageParam, limit: 48, period });
       }
+      if (type === 'following') {
+        return feedApi.getFollowing({ cursor: pageParam, limit: 48, type: mediaType });
+      }
       return feedApi.getFeed({ cursor: pageParam, limit: 48, type: mediaType, tag });
     },
     enabled: type !== 'search' || !!searchQuery,
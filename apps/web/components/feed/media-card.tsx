@@ -3,11 +3,13 @@
 import { useState, useRef, useEffect } from 'react';
 import Image from 'next/image';
 import Link from 'next/link';
-import type { MediaItemSummary } from '@aggragif/shared';
+import type { MediaItemSummary, SearchResultItem } from '@aggragif/shared';
+import { BlurhashPlaceholder } from '@/components/media/blurhash-placeholder';
 import { useVisibility } from '@/hooks/use-visibility';
+import { mediaApi } from '@/lib/api';
 
 interface MediaCardProps {
-  item: MediaItemSummary;
+  item: MediaItemSummary | SearchResultItem;
   index: number;
 }
 
@@ -16,6 +18,7 @@ export function MediaCard({ item, index }: MediaCardProps) {
   const [isHovered, setIsHovered] = useState(false);
   const [imgSrc, setImgSrc] = useState(item.thumbnailUrl);
   const videoRef = useRef<HTMLVideoElement>(null);
+  const viewRecordedRef = useRef(false);
   const [cardRef, isVisible, isNear] = useVisibility<HTMLAnchorElement>();
 
   // Actual .gif files can't play in <video> tags — treat them as images
@@ -39,6 +42,13 @@ export function MediaCard({ item, index }: MediaCardProps) {
     }
   }, [isVisible, shouldAutoplay]);
 
+  // Count a view the first time the card actually starts playing
+  const handlePlaying = () => {
+    if (viewRecordedRef.current) return;
+    viewRecordedRef.current = true;
+    mediaApi.recordView(item.id).catch(() => {});
+  };
+
   // Format index with leading zeros [01], [02], etc.
   const formattedIndex = `[${String(index + 1).padStart(2, '0')}]`;
 
@@ -126,12 +136,14 @@ export function MediaCard({ item, index }: MediaCardProps) {
             loop
             playsInline
             preload={preloadStrategy}
+            onPlaying={handlePlaying}
           />
         )}
 
-        {/* Loading skeleton */}
-        {!isLoaded && (
-          <div className="absolute inset-0 skeleton" />
+        {/* Loading placeholder: blurhash / dominant color when known, skeleton otherwise */}
+        {!isLoaded && (item.blurhash || item.dominantColor
+          ? <BlurhashPlaceholder blurhash={item.blurhash} dominantColor={item.dominantColor} />
+          : <div className="absolute inset-0 skeleton" />
         )}
 
         {/* Overlay gradient */}
@@ -151,9 +163,16 @@ export function MediaCard({ item, index }: MediaCardProps) {
         <div className="media-card-content">
           {item.title && (
             <h3 className="text-white text-sm font-medium line-clamp-2 mb-1">
-              {item.title}
+              {'highlight' in item && item.highlight.title
+                ? <Highlighted text={item.highlight.title} />
+                : item.title}
             </h3>
           )}
+          {'highlight' in item && item.highlight.caption && (
+            <p className="text-white/70 text-xs line-clamp-2 mb-1">
+              <Highlighted text={item.highlight.caption} />
+            </p>
+          )}
           <div className="flex items-center gap-3 text-white/70 text-xs">
             <span className="flex items-center gap-1">
               <EyeIcon className="w-3.5 h-3.5" />
@@ -181,6 +200,21 @@ function formatCount(num: number): string {
   return num.toString();
 }
 
+// Render a search snippet, turning <mark>…</mark> spans into highlights.
+// Everything else is rendered as plain text (never as HTML).
+function Highlighted({ text }: { text: string }) {
+  const parts = text.split(/<mark>(.*?)<\/mark>/g);
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1
+          ? <mark key={i} className="bg-white/25 text-white rounded-sm">{part}</mark>
+          : part
+      )}
+    </>
+  );
+}
+
 // Icons
 function EyeIcon({ className }: { className?: string }) {
   return (
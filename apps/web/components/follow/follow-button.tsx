@@ -0,0 +1,66 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { FolloweeType } from '@aggragif/shared';
+import { userApi } from '@/lib/api';
+import { useAuth } from '@/lib/auth';
+
+interface FollowButtonProps {
+  followeeType: FolloweeType;
+  followeeId: string;
+  className?: string;
+}
+
+export function FollowButton({ followeeType, followeeId, className = '' }: FollowButtonProps) {
+  const { isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['follow', followeeType, followeeId];
+
+  const { data: isFollowing = false } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const res = await userApi.getFollows({ type: followeeType, followeeId, limit: 1 });
+      return res.items.length > 0;
+    },
+    enabled: isAuthenticated,
+  });
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      if (isFollowing) {
+        await userApi.unfollow(followeeType, followeeId);
+      } else {
+        await userApi.follow(followeeType, followeeId);
+      }
+    },
+    onMutate: async () => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<boolean>(queryKey);
+      queryClient.setQueryData(queryKey, !isFollowing);
+      return { previous };
+    },
+    onError: (_err, _vars, context) => {
+      queryClient.setQueryData(queryKey, context?.previous ?? false);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ['feed', 'following'] });
+    },
+  });
+
+  if (!isAuthenticated) return null;
+
+  return (
+    <button
+      onClick={() => mutation.mutate()}
+      disabled={mutation.isPending}
+      className={`text-xs px-2 py-0.5 border transition-colors disabled:opacity-50 ${
+        isFollowing
+          ? 'border-[var(--fg)] text-[var(--fg)]'
+          : 'border-[var(--border)] text-[var(--muted)] hover:text-[var(--fg)] hover:border-[var(--fg)]'
+      } ${className}`}
+    >
+      {isFollowing ? 'Following' : 'Follow'}
+    </button>
+  );
+}
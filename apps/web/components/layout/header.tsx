@@ -53,6 +53,7 @@ export function Header() {
     { href: '/', label: 'Feed' },
     { href: '/trending', label: 'Most Viewed' },
     { href: '/tags', label: 'Tags' },
+    ...(isAuthenticated ? [{ href: '/following', label: 'Following' }] : []),
   ];
 
   const handleSearchSubmit = (e: React.FormEvent) => {
@@ -0,0 +1,52 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { decode, isBlurhashValid } from 'blurhash';
+
+// Blurhash only encodes low frequencies, so a tiny canvas scaled up by CSS looks the same
+const DECODE_SIZE = 32;
+
+interface BlurhashPlaceholderProps {
+  blurhash: string | null;
+  dominantColor: string | null;
+  className?: string;
+}
+
+// Blurred preview painted while the real media loads.
+// Falls back to the dominant color alone when there is no (valid) blurhash.
+export function BlurhashPlaceholder({ blurhash, dominantColor, className }: BlurhashPlaceholderProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isValid = blurhash ? isBlurhashValid(blurhash).result : false;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !blurhash || !isValid) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const pixels = decode(blurhash, DECODE_SIZE, DECODE_SIZE);
+    const imageData = ctx.createImageData(DECODE_SIZE, DECODE_SIZE);
+    imageData.data.set(pixels);
+    ctx.putImageData(imageData, 0, 0);
+  }, [blurhash, isValid]);
+
+  if (!isValid && !dominantColor) return null;
+
+  return (
+    <div
+      aria-hidden
+      className={`absolute inset-0 overflow-hidden ${className ?? ''}`}
+      style={{ backgroundColor: dominantColor ?? undefined }}
+    >
+      {isValid && (
+        <canvas
+          ref={canvasRef}
+          width={DECODE_SIZE}
+          height={DECODE_SIZE}
+          style={{ width: '100%', height: '100%' }}
+        />
+      )}
+    </div>
+  );
+}
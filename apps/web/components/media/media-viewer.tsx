@@ -6,6 +6,7 @@ import Link from 'next/link';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import type { MediaItemSummary } from '@aggragif/shared';
 import { CommentsDrawer } from '@/components/comments/comments-drawer';
+import { BlurhashPlaceholder } from '@/components/media/blurhash-placeholder';
 import { ReportModal } from '@/components/moderation/report-modal';
 import { mediaApi } from '@/lib/api';
 import { useAuth } from '@/lib/auth';
@@ -42,6 +43,7 @@ export function MediaViewer({
   const [showReport, setShowReport] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [showControls, setShowControls] = useState(true);
+  const [isMediaLoaded, setIsMediaLoaded] = useState(false);
   const videoRef = useRef<HTMLVideoElement>(null);
   const overlayRef = useRef<HTMLDivElement>(null);
   const mediaContainerRef = useRef<HTMLDivElement>(null);
@@ -59,6 +61,7 @@ export function MediaViewer({
   // Reset state when navigating to a different item (by ID), not on every prop reference change
   const itemId = item?.id;
   useEffect(() => {
+    setIsMediaLoaded(false);
     if (item) {
       // Don't overwrite optimistic state if we just mutated
       if (!likeMutatedRef.current) {
@@ -263,9 +266,15 @@ export function MediaViewer({
 
   if (!item) return null;
 
+  // Blurred preview shown until the first frame / image has loaded
+  const placeholder = !isMediaLoaded && (
+    <BlurhashPlaceholder blurhash={item.blurhash} dominantColor={item.dominantColor} />
+  );
+
   // Shared media element
   const mediaElement = isVideo ? (
     <>
+      {placeholder}
       <video
         key={item.id}
         ref={videoRef}
@@ -275,6 +284,7 @@ export function MediaViewer({
         onTimeUpdate={handleTimeUpdate}
         onPlay={() => setIsPlaying(true)}
         onPause={() => setIsPlaying(false)}
+        onLoadedData={() => setIsMediaLoaded(true)}
         muted={isMuted}
         loop
         playsInline
@@ -282,6 +292,9 @@ export function MediaViewer({
           (e.target as HTMLVideoElement).play().catch(() => {});
         }}
       >
+        {item.sources.map(source => (
+          <source key={source.url} src={source.url} type={source.mimeType} />
+        ))}
         <source src={item.mediaUrl} />
       </video>
 
@@ -317,15 +330,19 @@ export function MediaViewer({
       </div>
     </>
   ) : (
-    <Image
-      src={item.mediaUrl}
-      alt={item.title || 'Media item'}
-      fill
-      sizes="100vw"
-      className="object-contain"
-      priority
-      unoptimized
-    />
+    <>
+      {placeholder}
+      <Image
+        src={item.mediaUrl}
+        alt={item.title || 'Media item'}
+        fill
+        sizes="100vw"
+        className="object-contain"
+        onLoad={() => setIsMediaLoaded(true)}
+        priority
+        unoptimized
+      />
+    </>
   );
 
   // Fullscreen lightbox view
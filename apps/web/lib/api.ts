@@ -1,4 +1,4 @@
-import type { PaginatedResponse, MediaItemSummary, MediaItemDetail, Comment } from '@aggragif/shared';
+import type { PaginatedResponse, MediaItemSummary, MediaItemDetail, SearchResultItem, Comment, CommentEdit, CommentSort, Follow, FolloweeType } from '@aggragif/shared';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || '/api/v1';
 
@@ -26,7 +26,8 @@ async function request<T>(
   const response = await fetch(url, {
     ...options,
     headers: {
-      'Content-Type': 'application/json',
+      // Only declare JSON when there is a body — Fastify rejects empty JSON bodies
+      ...(options.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
       ...options.headers,
     },
     credentials: 'include', // Send httpOnly cookies
@@ -94,18 +95,43 @@ export const feedApi = {
     );
   },
 
+  getFollowing: (params?: { cursor?: string; limit?: number; type?: string }) => {
+    const searchParams = new URLSearchParams();
+    if (params?.cursor) searchParams.set('cursor', params.cursor);
+    if (params?.limit) searchParams.set('limit', params.limit.toString());
+    if (params?.type) searchParams.set('type', params.type);
+
+    const query = searchParams.toString();
+    return request<PaginatedResponse<MediaItemSummary>>(
+      `/feed/following${query ? `?${query}` : ''}`
+    );
+  },
+
   getTags: () => {
     return request<{ tags: Array<{ name: string; count: number }> }>('/feed/tags');
   },
 
-  search: (params: { q: string; type?: string; cursor?: string; limit?: number }) => {
+  search: (params: {
+    q: string;
+    type?: string;
+    tag?: string;
+    author?: string;
+    from?: string;
+    to?: string;
+    cursor?: string;
+    limit?: number;
+  }) => {
     const searchParams = new URLSearchParams();
     searchParams.set('q', params.q);
     if (params.type) searchParams.set('type', params.type);
+    if (params.tag) searchParams.set('tag', params.tag);
+    if (params.author) searchParams.set('author', params.author);
+    if (params.from) searchParams.set('from', params.from);
+    if (params.to) searchParams.set('to', params.to);
     if (params.cursor) searchParams.set('cursor', params.cursor);
     if (params.limit) searchParams.set('limit', params.limit.toString());
 
-    return request<PaginatedResponse<MediaItemSummary>>(
+    return request<PaginatedResponse<SearchResultItem>>(
       `/feed/search?${searchParams.toString()}`
     );
   },
@@ -124,10 +150,11 @@ export const mediaApi = {
     });
   },
 
-  getComments: (id: string, params?: { cursor?: string; limit?: number }) => {
+  getComments: (id: string, params?: { cursor?: string; limit?: number; sort?: CommentSort }) => {
     const searchParams = new URLSearchParams();
     if (params?.cursor) searchParams.set('cursor', params.cursor);
     if (params?.limit) searchParams.set('limit', params.limit.toString());
+    if (params?.sort) searchParams.set('sort', params.sort);
 
     const query = searchParams.toString();
     return request<PaginatedResponse<Comment>>(
@@ -135,6 +162,12 @@ export const mediaApi = {
     );
   },
 
+  recordView: (id: string) => {
+    return request<{ counted: boolean }>(`/media/${id}/view`, {
+      method: 'POST',
+    });
+  },
+
   getAdjacent: (id: string) => {
     return request<{ prev: { id: string } | null; next: { id: string } | null }>(`/media/${id}/adjacent`);
   },
@@ -147,6 +180,45 @@ export const mediaApi = {
   },
 };
 
+// Comments API
+export const commentApi = {
+  getReplies: (id: string, params?: { cursor?: string; limit?: number; sort?: CommentSort }) => {
+    const searchParams = new URLSearchParams();
+    if (params?.cursor) searchParams.set('cursor', params.cursor);
+    if (params?.limit) searchParams.set('limit', params.limit.toString());
+    if (params?.sort) searchParams.set('sort', params.sort);
+
+    const query = searchParams.toString();
+    return request<PaginatedResponse<Comment>>(
+      `/comments/${id}/replies${query ? `?${query}` : ''}`
+    );
+  },
+
+  update: (id: string, content: string) => {
+    return request<Comment>(`/comments/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ content }),
+    });
+  },
+
+  remove: (id: string) => {
+    return request<{ success: boolean; removed: number }>(`/comments/${id}`, {
+      method: 'DELETE',
+    });
+  },
+
+  like: (id: string, action?: 'like' | 'unlike') => {
+    return request<{ isLiked: boolean; likeCount: number }>(`/comments/${id}/like`, {
+      method: 'PUT',
+      body: action ? JSON.stringify({ action }) : undefined,
+    });
+  },
+
+  getEdits: (id: string) => {
+    return request<{ items: CommentEdit[] }>(`/comments/${id}/edits`);
+  },
+};
+
 // User API
 export const userApi = {
   getLikes: (params?: { cursor?: string; limit?: number }) => {
@@ -159,6 +231,33 @@ export const userApi = {
       `/me/likes${query ? `?${query}` : ''}`
     );
   },
+
+  getFollows: (params?: { cursor?: string; limit?: number; type?: FolloweeType; followeeId?: string }) => {
+    const searchParams = new URLSearchParams();
+    if (params?.cursor) searchParams.set('cursor', params.cursor);
+    if (params?.limit) searchParams.set('limit', params.limit.toString());
+    if (params?.type) searchParams.set('type', params.type);
+    if (params?.followeeId) searchParams.set('followeeId', params.followeeId);
+
+    const query = searchParams.toString();
+    return request<PaginatedResponse<Follow>>(
+      `/me/follows${query ? `?${query}` : ''}`
+    );
+  },
+
+  follow: (followeeType: FolloweeType, followeeId: string, notify?: boolean) => {
+    return request<Follow>('/me/follows', {
+      method: 'PUT',
+      body: JSON.stringify({ followeeType, followeeId, notify }),
+    });
+  },
+
+  unfollow: (followeeType: FolloweeType, followeeId: string) => {
+    return request<{ success: boolean }>('/me/follows', {
+      method: 'DELETE',
+      body: JSON.stringify({ followeeType, followeeId }),
+    });
+  },
 };
 
 // Auth API
@@ -12,8 +12,18 @@ import {
   index,
   bigint,
   smallint,
+  customType,
 } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { relations, sql } from 'drizzle-orm';
+
+/**
+ * Postgres tsvector column (full-text search document)
+ */
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector';
+  },
+});
 
 // =============================================================================
 // INGESTION TABLES
@@ -30,7 +40,7 @@ export const sources = pgTable('sources', {
   mode: varchar('mode', { length: 50 }).notNull().default('scrape'),
   // Rate limit config: { requestsPerMinute: 30, burstSize: 5, crawlDelay: 2000 }
   rateLimitConfig: jsonb('rate_limit_config').notNull().default({ requestsPerMinute: 30 }),
-  // Scraper configuration: { selectors: {...}, urlPattern: {...} }
+  // Scraper configuration: { selectors: {...}, urlPattern: {...}, mediaHosts: [...] }
   scraperConfig: jsonb('scraper_config'),
   // User agent and contact for identification
   userAgent: varchar('user_agent', { length: 512 }),
@@ -55,12 +65,20 @@ export const threads = pgTable('threads', {
   enabled: boolean('enabled').notNull().default(true),
   // Higher priority = checked more frequently
   priority: smallint('priority').notNull().default(0),
+  // Adaptive polling: current interval derived from recent new-item rates
+  pollIntervalMs: integer('poll_interval_ms'),
+  // Manual bounds on the adaptive interval (null = global defaults)
+  minPollIntervalMs: integer('min_poll_interval_ms'),
+  maxPollIntervalMs: integer('max_poll_interval_ms'),
+  // When the scheduler should next enqueue this thread (null = as soon as possible)
+  nextRunAt: timestamp('next_run_at', { withTimezone: true }),
   createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
   deletedAt: timestamp('deleted_at', { withTimezone: true }),
 }, (table) => [
   uniqueIndex('threads_source_external_idx').on(table.sourceId, table.externalId),
   index('threads_source_enabled_idx').on(table.sourceId, table.enabled),
+  index('threads_next_run_idx').on(table.enabled, table.nextRunAt),
 ]);
 
 /**
@@ -78,6 +96,10 @@ export const checkpoints = pgTable('checkpoints', {
   lastSeenTimestamp: timestamp('last_seen_timestamp', { withTimezone: true }),
   // Catch-up cursor for partial runs: { currentPage, startedAt, itemsIngested }
   catchUpCursor: jsonb('catch_up_cursor'),
+  // Admin-triggered historical backfill: { status, from, to, maxPages, nextPage, progress... }
+  backfillCursor: jsonb('backfill_cursor'),
+  // Conditional-GET validators from the last committed fetch: { etag, lastModified }
+  httpValidators: jsonb('http_validators'),
   // Metadata
   lastRunAt: timestamp('last_run_at', { withTimezone: true }),
   lastSuccessAt: timestamp('last_success_at', { withTimezone: true }),
@@ -95,6 +117,23 @@ export const mediaItems = pgTable('media_items', {
   externalItemId: varchar('external_item_id', { length: 512 }).notNull(),
   // Content fingerprint for deduplication
   fingerprint: varchar('fingerprint', { length: 128 }).notNull(),
+  // Perceptual hash (64-bit dHash, hex) of the thumbnail or first video frame
+  phash: varchar('phash', { length: 16 }),
+  // The phash cut into eight tagged 8-bit bands ('0:ab' .. '7:ef'). Hashes within
+  // 7 bits of each other share at least one band, so the GIN index can narrow
+  // near-duplicate candidates before any Hamming distance is computed.
+  phashBands: text('phash_bands').array().generatedAlwaysAs(sql`
+    CASE WHEN phash IS NULL THEN NULL ELSE ARRAY[
+      '0:' || substr(phash, 1, 2), '1:' || substr(phash, 3, 2),
+      '2:' || substr(phash, 5, 2), '3:' || substr(phash, 7, 2),
+      '4:' || substr(phash, 9, 2), '5:' || substr(phash, 11, 2),
+      '6:' || substr(phash, 13, 2), '7:' || substr(phash, 15, 2)
+    ] END
+  `),
+  // Near-duplicate grouping: set on cross-posts to the canonical item they repeat
+  canonicalId: uuid('canonical_id'),
+  // Feed collapse key for cross-posts (the canonical item's fingerprint)
+  dedupKey: varchar('dedup_key', { length: 128 }),
   // Link back to original content
   permalink: varchar('permalink', { length: 2048 }).notNull(),
   // When originally posted on source
@@ -107,17 +146,35 @@ export const mediaItems = pgTable('media_items', {
   caption: text('caption'),
   // Type: 'image', 'gif', 'video'
   mediaType: varchar('media_type', { length: 50 }).notNull(),
-  // Primary media URLs: { original, thumbnail?, preview? }
+  // Primary media URLs: { original, thumbnail?, preview?, cdnOriginal?, cdnThumbnail?, renditions? }
   mediaUrls: jsonb('media_urls').notNull(),
   // Video/GIF duration in milliseconds (max 30000)
   durationMs: integer('duration_ms'),
   // Dimensions
   width: integer('width'),
   height: integer('height'),
+  // Loading placeholders computed from the thumbnail: blurhash and '#rrggbb'
+  blurhash: varchar('blurhash', { length: 100 }),
+  dominantColor: varchar('dominant_color', { length: 7 }),
+  // Transcoding: 'queued', 'done', 'failed' or 'skipped' (nothing to transcode); null = not yet picked up
+  transcodeStatus: varchar('transcode_status', { length: 20 }),
   // Engagement counts (denormalized for performance)
   likeCount: integer('like_count').notNull().default(0),
   commentCount: integer('comment_count').notNull().default(0),
   viewCount: integer('view_count').notNull().default(0),
+  // Upstream engagement reported by the source (null = not exposed by the source)
+  sourceLikeCount: integer('source_like_count'),
+  sourceCommentCount: integer('source_comment_count'),
+  sourceViewCount: integer('source_view_count'),
+  // When the upstream counts were last refreshed from the source
+  sourceMetricsAt: timestamp('source_metrics_at', { withTimezone: true }),
+  // Link health: 'ok', 'suspect', 'dead' (media gone), 'removed' (deleted at source),
+  // 'unknown' (couldn't tell) or 'restored' (admin override, no longer checked)
+  healthStatus: varchar('health_status', { length: 20 }),
+  healthDetail: varchar('health_detail', { length: 255 }),
+  // Consecutive dead/removed results; media is hidden once this reaches the confirmation count
+  healthFailures: smallint('health_failures').notNull().default(0),
+  healthCheckedAt: timestamp('health_checked_at', { withTimezone: true }),
   // Moderation flags
   isHidden: boolean('is_hidden').notNull().default(false),
   hiddenReason: varchar('hidden_reason', { length: 255 }),
@@ -131,6 +188,13 @@ export const mediaItems = pgTable('media_items', {
   contentWarning: varchar('content_warning', { length: 255 }),
   // Tags (stored as array for flexibility)
   tags: jsonb('tags').default([]),
+  // Full-text search document: title and tags weigh most, then author, then caption
+  searchVector: tsvector('search_vector').generatedAlwaysAs(sql`
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(jsonb_to_tsvector('simple', coalesce(tags, '[]'::jsonb), '["string"]'), 'A') ||
+    setweight(to_tsvector('simple', coalesce(author, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(caption, '')), 'C')
+  `),
   // Timestamps
   createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
@@ -149,6 +213,14 @@ export const mediaItems = pgTable('media_items', {
   index('media_items_created_idx').on(table.createdAt),
   // Fingerprint lookup
   index('media_items_fingerprint_idx').on(table.fingerprint),
+  // Cross-post lookup
+  index('media_items_canonical_idx').on(table.canonicalId),
+  // Near-duplicate candidate lookup
+  index('media_items_phash_bands_idx').using('gin', table.phashBands),
+  // Link health sampling and review
+  index('media_items_health_idx').on(table.healthStatus, table.healthCheckedAt),
+  // Full-text search
+  index('media_items_search_idx').using('gin', table.searchVector),
 ]);
 
 /**
@@ -176,6 +248,9 @@ export const mediaAssets = pgTable('media_assets', {
   cdnUrl: varchar('cdn_url', { length: 2048 }),
   // Blurhash for placeholder
   blurhash: varchar('blurhash', { length: 100 }),
+  // Transcoded rendition of the item ('mp4', 'webm', 'poster', 'poster_webp', 'preview');
+  // null for gallery assets from the source
+  rendition: varchar('rendition', { length: 20 }),
   // Order in gallery
   position: smallint('position').notNull().default(0),
   createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
@@ -185,6 +260,19 @@ export const mediaAssets = pgTable('media_assets', {
   index('media_assets_item_idx').on(table.mediaItemId, table.position),
 ]);
 
+/**
+ * View Count Flushes: Batches of buffered views already added to media_items
+ * A flush interrupted before it clears its Redis hash is retried; these rows
+ * keep it from counting a batch twice. Pruned after a day.
+ */
+export const viewCountFlushes = pgTable('view_count_flushes', {
+  // '<flush id>:<batch index>'
+  id: varchar('id', { length: 64 }).primaryKey(),
+  flushedAt: timestamp('flushed_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index('view_count_flushes_flushed_idx').on(table.flushedAt),
+]);
+
 /**
  * Ingest Runs: Audit log of ingestion job executions
  */
@@ -192,6 +280,8 @@ export const ingestRuns = pgTable('ingest_runs', {
   id: uuid('id').primaryKey().defaultRandom(),
   sourceId: uuid('source_id').notNull().references(() => sources.id, { onDelete: 'restrict' }),
   threadId: uuid('thread_id').references(() => threads.id, { onDelete: 'set null' }),
+  // Kind: 'poll' for regular ingestion, 'backfill' for historical backfill chunks
+  kind: varchar('kind', { length: 20 }).notNull().default('poll'),
   startedAt: timestamp('started_at', { withTimezone: true }).notNull().defaultNow(),
   finishedAt: timestamp('finished_at', { withTimezone: true }),
   // Status: 'running', 'completed', 'failed', 'cancelled', 'partial'
@@ -212,8 +302,22 @@ export const ingestRuns = pgTable('ingest_runs', {
 }, (table) => [
   index('ingest_runs_status_idx').on(table.status, table.startedAt),
   index('ingest_runs_source_idx').on(table.sourceId, table.startedAt),
+  index('ingest_runs_thread_idx').on(table.threadId, table.startedAt),
 ]);
 
+/**
+ * Media Hosts: Global extras for the media fetch allowlist
+ * Each source already allows its own baseUrl host and scraperConfig.mediaHosts;
+ * these cover shared CDNs and image hosts. Subdomains are allowed too.
+ */
+export const mediaHosts = pgTable('media_hosts', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  host: varchar('host', { length: 255 }).notNull().unique(),
+  note: varchar('note', { length: 255 }),
+  createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
 // =============================================================================
 // USER TABLES
 // =============================================================================
@@ -343,15 +447,30 @@ export const commentLikes = pgTable('comment_likes', {
   index('comment_likes_comment_idx').on(table.commentId),
 ]);
 
+/**
+ * Comment Edits: Previous versions of edited comments (edit history)
+ */
+export const commentEdits = pgTable('comment_edits', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  commentId: uuid('comment_id').notNull().references(() => comments.id, { onDelete: 'cascade' }),
+  // Body before this edit was applied
+  previousBody: text('previous_body').notNull(),
+  editedBy: uuid('edited_by').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  editedAt: timestamp('edited_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index('comment_edits_comment_idx').on(table.commentId, table.editedAt),
+]);
+
 /**
  * Follows: User following relationships
  */
 export const follows = pgTable('follows', {
   id: uuid('id').primaryKey().defaultRandom(),
   followerId: uuid('follower_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
-  // Polymorphic: 'user', 'thread', 'source'
+  // Polymorphic: 'user', 'thread', 'source', 'author'
   followeeType: varchar('followee_type', { length: 50 }).notNull(),
-  followeeId: uuid('followee_id').notNull(),
+  // Row ID for user/thread/source; the media author name for 'author'
+  followeeId: varchar('followee_id', { length: 255 }).notNull(),
   notify: boolean('notify').notNull().default(true),
   createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
 }, (table) => [
@@ -483,6 +602,7 @@ export const commentsRelations = relations(comments, ({ one, many }) => ({
   parent: one(comments, { fields: [comments.parentId], references: [comments.id], relationName: 'replies' }),
   replies: many(comments, { relationName: 'replies' }),
   likes: many(commentLikes),
+  edits: many(commentEdits),
 }));
 
 export const commentLikesRelations = relations(commentLikes, ({ one }) => ({
@@ -490,6 +610,11 @@ export const commentLikesRelations = relations(commentLikes, ({ one }) => ({
   comment: one(comments, { fields: [commentLikes.commentId], references: [comments.id] }),
 }));
 
+export const commentEditsRelations = relations(commentEdits, ({ one }) => ({
+  comment: one(comments, { fields: [commentEdits.commentId], references: [comments.id] }),
+  editor: one(users, { fields: [commentEdits.editedBy], references: [users.id] }),
+}));
+
 export const followsRelations = relations(follows, ({ one }) => ({
   follower: one(users, { fields: [follows.followerId], references: [users.id] }),
 }));
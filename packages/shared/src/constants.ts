@@ -0,0 +1,6 @@
+/**
+ * Shared constants used across frontend and backend
+ */
+
+// Comments can be edited by their author for this long after posting
+export const COMMENT_EDIT_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
@@ -1,2 +1,3 @@
 export * from './types.js';
 export * from './validation.js';
+export * from './constants.js';
@@ -58,6 +58,12 @@ export interface MediaItemSummary {
   duration: number | null;
   width: number | null;
   height: number | null;
+  /** Blurhash of the thumbnail, shown while it loads */
+  blurhash: string | null;
+  /** Dominant thumbnail color as '#rrggbb', the fallback when there is no blurhash */
+  dominantColor: string | null;
+  /** Transcoded alternatives to mediaUrl in order of preference; empty when mediaUrl is the only source */
+  sources: MediaRendition[];
   likeCount: number;
   commentCount: number;
   viewCount: number;
@@ -66,6 +72,23 @@ export interface MediaItemSummary {
   tags?: string[];
 }
 
+// A transcoded copy of an item's media (e.g. a GIF re-encoded as WebM or MP4)
+export interface MediaRendition {
+  url: string;
+  mimeType: string;
+}
+
+// Search result (feed item with highlighted matches; <mark> wraps matched terms)
+export interface SearchHighlight {
+  title: string | null;
+  caption: string | null;
+}
+
+export interface SearchResultItem extends MediaItemSummary {
+  rank: number;
+  highlight: SearchHighlight;
+}
+
 // Media item detail
 export interface MediaAsset {
   id: string;
@@ -74,6 +97,7 @@ export interface MediaAsset {
   duration: number | null;
   width: number | null;
   height: number | null;
+  blurhash: string | null;
   position: number;
 }
 
@@ -81,11 +105,33 @@ export interface MediaItemDetail extends MediaItemSummary {
   description: string | null;
   author: string | null;
   authorUrl: string | null;
+  source: { id: string; name: string } | null;
+  thread: { id: string; name: string } | null;
   permalink: string;
   tags: string[];
   assets: MediaAsset[];
   isCommentsLocked: boolean;
   ingestedAt: string;
+  crossPosts: CrossPost[];
+  sourceMetrics: SourceMetrics | null;
+}
+
+// Engagement on the original post, as last seen by ingestion
+export interface SourceMetrics {
+  likes: number | null;
+  comments: number | null;
+  views: number | null;
+  updatedAt: string;
+}
+
+// Same media posted elsewhere (grouped by perceptual hash)
+export interface CrossPost {
+  id: string;
+  permalink: string;
+  author: string | null;
+  source: { id: string; name: string } | null;
+  thread: { id: string; name: string } | null;
+  ingestedAt: string;
 }
 
 // User profile
@@ -115,8 +161,33 @@ export interface Comment {
   replyCount: number;
   likeCount: number;
   isEdited: boolean;
+  editedAt?: string | null;
+  isLiked?: boolean | null;
   createdAt: string;
+  // Preview of the first replies; continue with repliesCursor via /comments/:id/replies
   replies?: Comment[];
+  repliesCursor?: string | null;
+}
+
+export type CommentSort = 'oldest' | 'newest' | 'top';
+
+export interface CommentEdit {
+  id: string;
+  previousContent: string;
+  editedAt: string;
+}
+
+// Follows
+export type FolloweeType = 'user' | 'thread' | 'source' | 'author';
+
+export interface Follow {
+  id: string;
+  followeeType: FolloweeType;
+  followeeId: string;
+  // Display name of the followed thread, source, user or author
+  name: string;
+  notify: boolean;
+  createdAt: string;
 }
 
 // Auth tokens
@@ -36,6 +36,10 @@ export const updateCommentSchema = z.object({
   content: z.string().min(1).max(2000),
 });
 
+export const commentListQuerySchema = paginationSchema.extend({
+  sort: z.enum(['oldest', 'newest', 'top']).default('oldest'),
+});
+
 // Reports
 export const createReportSchema = z.object({
   targetType: z.enum(['media_item', 'comment', 'user']),
@@ -60,6 +64,19 @@ export const updateProfileSchema = z.object({
   avatarUrl: z.string().url().optional(),
 });
 
+// Follows
+export const followSchema = z.object({
+  followeeType: z.enum(['user', 'thread', 'source', 'author']),
+  followeeId: z.string().trim().min(1).max(255),
+  notify: z.boolean().optional(),
+});
+
+export const followListQuerySchema = paginationSchema.extend({
+  type: z.enum(['user', 'thread', 'source', 'author']).optional(),
+  // Check a single followee (with type)
+  followeeId: z.string().max(255).optional(),
+});
+
 // Feed query
 export const feedQuerySchema = paginationSchema.extend({
   type: z.enum(['image', 'gif', 'video']).optional(),
@@ -69,8 +86,13 @@ export const feedQuerySchema = paginationSchema.extend({
 
 // Search query
 export const searchQuerySchema = paginationSchema.extend({
-  q: z.string().min(1).max(100),
+  q: z.string().trim().min(1).max(100),
   type: z.enum(['image', 'gif', 'video']).optional(),
+  tag: z.string().max(100).optional(),
+  author: z.string().max(255).optional(),
+  // Posted date range
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
 });
 
 // Type exports
@@ -79,7 +101,9 @@ export type RegisterInput = z.infer<typeof registerSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
 export type CreateCommentInput = z.infer<typeof createCommentSchema>;
 export type UpdateCommentInput = z.infer<typeof updateCommentSchema>;
+export type CommentListQuery = z.infer<typeof commentListQuerySchema>;
 export type CreateReportInput = z.infer<typeof createReportSchema>;
 export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
+export type FollowInput = z.infer<typeof followSchema>;
 export type FeedQueryInput = z.infer<typeof feedQuerySchema>;
 export type SearchQueryInput = z.infer<typeof searchQuerySchema>;